@@ -0,0 +1,50 @@
+import {describe, expect, it} from "vitest";
+import {Breadcrumb, BreadcrumbBuffer} from "./Breadcrumbs";
+import {LogLevel} from "./LogLevel";
+
+function crumb(message: string): Breadcrumb {
+    return {timestamp: new Date(), level: LogLevel.INFO, message};
+}
+
+describe("BreadcrumbBuffer", () => {
+    it("should return breadcrumbs oldest first", () => {
+        const buffer = new BreadcrumbBuffer(3);
+        buffer.add(crumb("a"));
+        buffer.add(crumb("b"));
+
+        expect(buffer.snapshot().map((item) => item.message)).toEqual(["a", "b"]);
+    });
+
+    it("should drop the oldest breadcrumbs when full", () => {
+        const buffer = new BreadcrumbBuffer(3);
+        for (const message of ["a", "b", "c", "d", "e"]) buffer.add(crumb(message));
+
+        expect(buffer.snapshot().map((item) => item.message)).toEqual(["c", "d", "e"]);
+    });
+
+    it("should return a snapshot that later additions do not change", () => {
+        const buffer = new BreadcrumbBuffer(2);
+        buffer.add(crumb("a"));
+
+        const snapshot = buffer.snapshot();
+        buffer.add(crumb("b"));
+
+        expect(snapshot).toHaveLength(1);
+    });
+
+    it("should keep nothing with zero capacity", () => {
+        const buffer = new BreadcrumbBuffer(0);
+        buffer.add(crumb("a"));
+
+        expect(buffer.snapshot()).toEqual([]);
+    });
+
+    it("should clear the trail", () => {
+        const buffer = new BreadcrumbBuffer(2);
+        buffer.add(crumb("a"));
+        buffer.clear();
+        buffer.add(crumb("b"));
+
+        expect(buffer.snapshot().map((item) => item.message)).toEqual(["b"]);
+    });
+});
@@ -0,0 +1,87 @@
+import {LogLevel} from "./LogLevel";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * One event on the trail that led to an error.
+ */
+export interface Breadcrumb {
+    readonly timestamp: Date;
+    readonly level: LogLevel;
+    readonly message: string;
+
+    /**
+     * Free-form grouping — "http", "navigation", "ui.click", ...
+     * Recorded log entries have no category.
+     */
+    readonly category?: string;
+
+    /**
+     * The per-call context of a recorded entry, or data passed to addBreadcrumb().
+     */
+    readonly data?: Record<string, unknown>;
+}
+
+/**
+ * What addBreadcrumb() accepts — timestamp and level are filled in.
+ */
+export type BreadcrumbInput = Omit<Breadcrumb, "timestamp" | "level"> & {
+    level?: LogLevel;
+};
+
+export interface BreadcrumbOptions {
+    /**
+     * How many breadcrumbs are kept per trail — older ones are dropped. Default: 50.
+     */
+    maxBreadcrumbs?: number;
+
+    /**
+     * Entries below this level are recorded as breadcrumbs, entries at or above it
+     * get the trail attached as entry.breadcrumbs. Default: LogLevel.ERROR.
+     */
+    level?: LogLevel;
+}
+
+// ─── BreadcrumbBuffer ─────────────────────────────────────────────────────────
+
+/**
+ * Fixed-size ring buffer — adding is O(1) and memory stays bounded,
+ * however long a request or a page session runs.
+ */
+export class BreadcrumbBuffer {
+    private readonly capacity: number;
+    private readonly items: (Breadcrumb | undefined)[];
+    private start = 0;
+    private size = 0;
+
+    constructor(capacity: number) {
+        this.capacity = capacity;
+        this.items = new Array(capacity);
+    }
+
+    add(breadcrumb: Breadcrumb): void {
+        if (this.capacity === 0) return;
+
+        this.items[(this.start + this.size) % this.capacity] = breadcrumb;
+
+        if (this.size < this.capacity) {
+            this.size++;
+        } else {
+            // Full — the oldest slot was just overwritten
+            this.start = (this.start + 1) % this.capacity;
+        }
+    }
+
+    /**
+     * Copy of the trail, oldest first — later additions do not change it.
+     */
+    snapshot(): Breadcrumb[] {
+        return Array.from({length: this.size}, (_, index) => this.items[(this.start + index) % this.capacity]!);
+    }
+
+    clear(): void {
+        this.items.fill(undefined);
+        this.start = 0;
+        this.size = 0;
+    }
+}
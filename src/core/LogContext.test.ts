@@ -0,0 +1,119 @@
+import {afterEach, describe, expect, it} from "vitest";
+import {AsyncLocalStorage} from "node:async_hooks";
+import {ContextStorage, LogContext} from "./LogContext";
+import {createLogEntry} from "./LogEntry";
+import {LogLevel} from "./LogLevel";
+
+describe("LogContext", () => {
+    it("should return undefined outside of a scope", () => {
+        expect(LogContext.get()).toBeUndefined();
+    });
+
+    it("should expose scoped fields inside run", () => {
+        LogContext.run({requestId: "req-1"}, () => {
+            expect(LogContext.get()).toEqual({requestId: "req-1"});
+        });
+    });
+
+    it("should return the result of the callback", () => {
+        expect(LogContext.run({}, () => 42)).toBe(42);
+    });
+
+    it("should keep the scope across awaits", async () => {
+        await LogContext.run({requestId: "req-1"}, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+
+            expect(LogContext.get()).toEqual({requestId: "req-1"});
+        });
+    });
+
+    it("should not leak between concurrent scopes", async () => {
+        const seen: unknown[] = [];
+
+        const handle = (requestId: string, delay: number) =>
+            LogContext.run({requestId}, async () => {
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                seen.push(LogContext.get()?.requestId);
+            });
+
+        await Promise.all([handle("slow", 20), handle("fast", 5)]);
+
+        expect(seen).toEqual(["fast", "slow"]);
+    });
+
+    it("should merge nested scopes with inner values winning", () => {
+        LogContext.run({requestId: "req-1", component: "outer"}, () => {
+            LogContext.run({component: "inner"}, () => {
+                expect(LogContext.get()).toEqual({requestId: "req-1", component: "inner"});
+            });
+
+            expect(LogContext.get()).toEqual({requestId: "req-1", component: "outer"});
+        });
+    });
+
+    describe("rootScope", () => {
+        it("should return undefined outside of a scope", () => {
+            expect(LogContext.rootScope()).toBeUndefined();
+        });
+
+        it("should return the outermost scope, also from nested scopes", () => {
+            LogContext.run({requestId: "req-1"}, () => {
+                const root = LogContext.rootScope();
+
+                expect(root).toBe(LogContext.get());
+                LogContext.run({component: "inner"}, () => {
+                    LogContext.run({step: "deeper"}, () => {
+                        expect(LogContext.rootScope()).toBe(root);
+                    });
+                });
+            });
+        });
+
+        it("should differ between sibling scopes", () => {
+            const first = LogContext.run({requestId: "req-1"}, () => LogContext.rootScope());
+            const second = LogContext.run({requestId: "req-1"}, () => LogContext.rootScope());
+
+            expect(first).not.toBe(second);
+        });
+    });
+
+    describe("createLogEntry integration", () => {
+        it("should merge scoped fields into entry context", () => {
+            const entry = LogContext.run({requestId: "req-1"}, () =>
+                createLogEntry({level: LogLevel.INFO, message: "Test", context: {userId: "123"}})
+            );
+
+            expect(entry.context).toEqual({requestId: "req-1", userId: "123"});
+        });
+
+        it("should let passed context override scoped fields", () => {
+            const entry = LogContext.run({component: "scope"}, () =>
+                createLogEntry({level: LogLevel.INFO, message: "Test", context: {component: "call"}})
+            );
+
+            expect(entry.context).toEqual({component: "call"});
+        });
+    });
+
+    describe("useStorage", () => {
+        afterEach(() => {
+            LogContext.useStorage(new AsyncLocalStorage());
+        });
+
+        it("should delegate to a custom storage", () => {
+            let store: Record<string, unknown> | undefined;
+            const storage: ContextStorage<Record<string, unknown>> = {
+                getStore: () => store,
+                run: (value, callback) => {
+                    store = value;
+                    return callback();
+                },
+            };
+
+            LogContext.useStorage(storage);
+            LogContext.run({custom: true}, () => {});
+
+            expect(store).toEqual({custom: true});
+        });
+    });
+});
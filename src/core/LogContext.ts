@@ -0,0 +1,168 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * The subset of Node's AsyncLocalStorage that LogContext needs.
+ *
+ * Why our own interface instead of importing from "node:async_hooks"?
+ * A top-level import of a Node built-in breaks browser bundles.
+ * Any object with this shape works — Node's AsyncLocalStorage, the one
+ * Deno and Cloudflare Workers expose globally, or a test double.
+ */
+export interface ContextStorage<T> {
+    getStore(): T | undefined;
+
+    run<R>(store: T, callback: () => R): R;
+}
+
+// ─── Storage resolution ───────────────────────────────────────────────────────
+
+type AsyncLocalStorageConstructor = new <T>() => ContextStorage<T>;
+
+/**
+ * Fallback for environments without AsyncLocalStorage (browsers).
+ *
+ * The scope is only visible during the SYNCHRONOUS part of the callback —
+ * after the first await, LogContext.get() returns the outer scope again.
+ * That is the best we can do without async context tracking in the runtime.
+ */
+class SyncContextStorage<T> implements ContextStorage<T> {
+    private current: T | undefined;
+
+    getStore(): T | undefined {
+        return this.current;
+    }
+
+    run<R>(store: T, callback: () => R): R {
+        const previous = this.current;
+        this.current = store;
+
+        try {
+            return callback();
+        } finally {
+            this.current = previous;
+        }
+    }
+}
+
+/**
+ * Finds AsyncLocalStorage without importing it:
+ * 1. a global AsyncLocalStorage (Deno, Cloudflare Workers, Bun)
+ * 2. process.getBuiltinModule (Node 20.16+, 22.3+) — works from both ESM and CJS builds
+ */
+function findAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+    const scope = globalThis as {
+        AsyncLocalStorage?: AsyncLocalStorageConstructor;
+        process?: { getBuiltinModule?: (id: string) => unknown };
+    };
+
+    if (typeof scope.AsyncLocalStorage === "function") return scope.AsyncLocalStorage;
+
+    try {
+        const asyncHooks = scope.process?.getBuiltinModule?.("node:async_hooks") as
+            | { AsyncLocalStorage?: AsyncLocalStorageConstructor }
+            | undefined;
+
+        return asyncHooks?.AsyncLocalStorage;
+    } catch {
+        return undefined;
+    }
+}
+
+function createDefaultStorage<T>(): ContextStorage<T> {
+    const AsyncLocalStorage = findAsyncLocalStorage();
+    return AsyncLocalStorage ? new AsyncLocalStorage<T>() : new SyncContextStorage<T>();
+}
+
+// ─── LogContext ───────────────────────────────────────────────────────────────
+
+/**
+ * Request-scoped context that follows async calls.
+ *
+ * Every entry created inside LogContext.run() gets the scoped fields merged into
+ * its context by createLogEntry — no need to pass a logger through every function.
+ *
+ * @example
+ * app.use((req, res, next) => {
+ *     LogContext.run({requestId: req.id}, next)
+ * })
+ *
+ * // anywhere below, including after awaits:
+ * Logger.getInstance().info("Order created") // context: {requestId}
+ */
+export class LogContext {
+    private static storage: ContextStorage<Record<string, unknown>> = createDefaultStorage();
+
+    /**
+     * Scope → the outermost scope it was opened in.
+     * WeakMap — scopes are collected together with the async work that used them.
+     */
+    private static readonly roots = new WeakMap<object, object>();
+
+    /**
+     * Scope → the scope it was opened in.
+     */
+    private static readonly parents = new WeakMap<object, object>();
+
+    /**
+     * Static-only class — there is exactly one async context per runtime.
+     */
+    private constructor() {
+    }
+
+    /**
+     * Runs fn inside a scope with the given fields.
+     * Nested scopes inherit the outer fields — inner values win on collision.
+     * Returns whatever fn returns (including a promise).
+     */
+    static run<R>(context: Record<string, unknown>, fn: () => R): R {
+        const outer = LogContext.get();
+        const scope = {...outer, ...context};
+        LogContext.roots.set(scope, outer ? LogContext.roots.get(outer) ?? outer : scope);
+        if (outer) LogContext.parents.set(scope, outer);
+
+        return LogContext.storage.run(scope, fn);
+    }
+
+    /**
+     * Fields of the current scope, or undefined outside of any scope.
+     * Useful in plugins and transports that need request-scoped data.
+     */
+    static get(): Readonly<Record<string, unknown>> | undefined {
+        return LogContext.storage.getStore();
+    }
+
+    /**
+     * Identity of the outermost scope around the current code — the same object for the
+     * whole unit of work, nested scopes included. Undefined outside of any scope.
+     *
+     * Use it as a WeakMap key for per-request state, the way breadcrumbs do.
+     */
+    static rootScope(): object | undefined {
+        const scope = LogContext.get();
+        return scope && (LogContext.roots.get(scope) ?? scope);
+    }
+
+    /**
+     * The value of the nearest scope around the current code — the current one or one it was
+     * opened in — that has a value in the map. Undefined if none has.
+     *
+     * For state that nested scopes inherit without it being a context field,
+     * the way the sampled flag of withTraceContext() is.
+     */
+    static lookup<T>(values: WeakMap<object, T>): T | undefined {
+        for (let scope: object | undefined = LogContext.get(); scope; scope = LogContext.parents.get(scope)) {
+            if (values.has(scope)) return values.get(scope);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Replace the storage — e.g. pass `new AsyncLocalStorage()` on Node versions
+     * where it cannot be found automatically (older than 20.16).
+     * Scopes that are currently running are not carried over.
+     */
+    static useStorage(storage: ContextStorage<Record<string, unknown>>): void {
+        LogContext.storage = storage;
+    }
+}
@@ -2,6 +2,9 @@ import {describe, expect, it} from 'vitest';
 import {createLogEntry} from "./LogEntry";
 import {LogLevel} from "./LogLevel";
 
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
 describe("createLogEntry", () => {
     it("should create a log entry with required fields", () => {
         const entry = createLogEntry({
@@ -52,4 +55,50 @@ describe("createLogEntry", () => {
 
         expect(first.timestamp).not.toBe(second.timestamp);
     });
-})
\ No newline at end of file
+
+    it("should generate a unique id", () => {
+        const first = createLogEntry({level: LogLevel.INFO, message: "Test"});
+        const second = createLogEntry({level: LogLevel.INFO, message: "Test"});
+
+        expect(first.id).toEqual(expect.any(String));
+        expect(first.id).not.toBe(second.id);
+    });
+
+    it("should use the given id", () => {
+        expect(createLogEntry({id: "e1", level: LogLevel.INFO, message: "Test"}).id).toBe("e1");
+    });
+
+    it("should lift W3C traceId and spanId out of the context", () => {
+        const entry = createLogEntry({
+            level: LogLevel.INFO,
+            message: "Test",
+            context: {traceId: TRACE_ID, spanId: SPAN_ID, userId: "123"},
+        });
+
+        expect(entry.traceId).toBe(TRACE_ID);
+        expect(entry.spanId).toBe(SPAN_ID);
+        expect(entry.context).toEqual({userId: "123"});
+    });
+
+    it("should leave other trace fields in the context", () => {
+        const entry = createLogEntry({level: LogLevel.INFO, message: "Test", context: {traceId: TRACE_ID, spanId: 42}});
+
+        expect(entry.traceId).toBe(TRACE_ID);
+        expect(entry.spanId).toBeUndefined();
+        expect(entry.context).toEqual({spanId: 42});
+    });
+
+    it("should not lift ids that are not lowercase hex of the right length or all zeros", () => {
+        for (const context of [
+            {traceId: "req-42", spanId: "s1"},
+            {traceId: TRACE_ID.toUpperCase(), spanId: SPAN_ID.slice(1)},
+            {traceId: "0".repeat(32), spanId: "0".repeat(16)},
+        ]) {
+            const entry = createLogEntry({level: LogLevel.INFO, message: "Test", context});
+
+            expect(entry.traceId).toBeUndefined();
+            expect(entry.spanId).toBeUndefined();
+            expect(entry.context).toEqual(context);
+        }
+    });
+})
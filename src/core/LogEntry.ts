@@ -1,4 +1,9 @@
 import {LogLevel} from "./LogLevel";
+import {LogContext} from "./LogContext";
+import {StackFrame} from "../stack/parseStack";
+import {Breadcrumb} from "./Breadcrumbs";
+import {generateId} from "./generateId";
+import {isValidSpanId, isValidTraceId} from "./traceContext";
 
 /**
  * LogEntry is an IMMUTABLE data transfer object.
@@ -10,6 +15,11 @@ import {LogLevel} from "./LogLevel";
  * This prevents side-effects between plugins that share the same entry.
  */
 export interface LogEntry {
+    /**
+     * Unique id of this entry — a UUID unless the logger is configured with another generateId.
+     */
+    readonly id: string;
+
     readonly level: LogLevel;
     readonly message: string;
     readonly timestamp: Date;
@@ -20,6 +30,41 @@ export interface LogEntry {
      */
     readonly error?: Error;
 
+    /**
+     * error.stack parsed into frames — attached by the stackFrames() and symbolicate() plugins,
+     * so transports can send structured frames without parsing the stack again.
+     */
+    readonly stackFrames?: readonly StackFrame[];
+
+    /**
+     * Groups entries that describe the same problem — attached by the dedupe() plugin,
+     * or computed on demand with fingerprintEntry().
+     */
+    readonly fingerprint?: string;
+
+    /**
+     * The trail of events before this entry, oldest first — attached to entries
+     * at or above the breadcrumb level when breadcrumbs are enabled.
+     */
+    readonly breadcrumbs?: readonly Breadcrumb[];
+
+    /**
+     * W3C trace id (32 hex characters) — joins this entry with the logs and traces
+     * of every other service that took part in the same operation.
+     */
+    readonly traceId?: string;
+
+    /**
+     * W3C span id (16 hex characters) of the operation that was running.
+     */
+    readonly spanId?: string;
+
+    /**
+     * Name of the named logger that created the entry — e.g. "payments.stripe".
+     * Missing for entries of a root logger.
+     */
+    readonly logger?: string;
+
     /**
      * Free-form context that the user sends — userId, requestId, component, etc.
      * unknown instead of any — TypeScript forces us to check the type before using it.
@@ -36,18 +81,63 @@ export interface LogEntry {
  * 2. Logger doesn't need to know how ID is generated — that's an implementation detail
  * 3. Easier to test — we can mock generateId if needed
  * 4. If we change ID strategy tomorrow (uuid v4 → nanoid), we only change HERE
+ *
+ * Fields of the active LogContext scope are merged into context here —
+ * the passed context wins on collision, it is more specific than the scope.
+ * traceId and spanId fields of the merged context in W3C format become entry.traceId and entry.spanId,
+ * so withTraceContext(), child({traceId}) and per-call context all fill the same fields.
+ * Other values ("req-42") stay in the context.
  */
 export function createLogEntry(
     params: Pick<LogEntry, "level" | "message"> & {
+        id?: string;
         error?: Error;
         context?: Record<string, unknown>;
+        logger?: string;
     }
 ): LogEntry {
+    const {traceId, spanId, context} = liftTraceFields(mergeScopeContext(params.context));
+
     return {
+        id: params.id ?? generateId(),
         timestamp: new Date(),
         level: params.level,
         message: params.message,
         error: params.error,
-        context: params.context,
+        ...(traceId !== undefined ? {traceId} : {}),
+        ...(spanId !== undefined ? {spanId} : {}),
+        ...(params.logger !== undefined ? {logger: params.logger} : {}),
+        context,
     };
-}
\ No newline at end of file
+}
+
+function mergeScopeContext(
+    context?: Record<string, unknown>
+): Record<string, unknown> | undefined {
+    const scope = LogContext.get();
+    if (!scope) return context;
+
+    return {...scope, ...context};
+}
+
+function liftTraceFields(context?: Record<string, unknown>): {
+    traceId?: string;
+    spanId?: string;
+    context?: Record<string, unknown>;
+} {
+    if (!isValidTraceId(context?.traceId) && !isValidSpanId(context?.spanId)) return {context};
+
+    const {traceId, spanId, ...rest} = context!;
+    const remaining: Record<string, unknown> = {...rest};
+
+    // Anything else called traceId ("req-42", a number) is not a W3C id —
+    // lifted, it would fail validation on the server and at the OTLP collector
+    if (traceId !== undefined && !isValidTraceId(traceId)) remaining.traceId = traceId;
+    if (spanId !== undefined && !isValidSpanId(spanId)) remaining.spanId = spanId;
+
+    return {
+        traceId: isValidTraceId(traceId) ? traceId : undefined,
+        spanId: isValidSpanId(spanId) ? spanId : undefined,
+        context: Object.keys(remaining).length > 0 ? remaining : undefined,
+    };
+}
@@ -0,0 +1,69 @@
+import {describe, expect, it} from "vitest";
+import {
+    consoleMethodFor,
+    defineLevels,
+    levelFromLabel,
+    levelLabel,
+    LogLevel,
+    nearestBuiltInLevel,
+} from "./LogLevel";
+
+describe("LogLevel", () => {
+    it("should order the built-in levels by severity", () => {
+        const levels = [LogLevel.FATAL, LogLevel.TRACE, LogLevel.WARN, LogLevel.DEBUG, LogLevel.ERROR, LogLevel.INFO];
+
+        expect(levels.sort((a, b) => a - b).map(levelLabel)).toEqual(["TRACE", "DEBUG", "INFO", "WARN", "ERROR", "FATAL"]);
+    });
+
+    describe("defineLevels", () => {
+        it("should return the values by name and register the labels", () => {
+            const levels = defineLevels({audit: {value: 32}, security: {value: 56, label: "SEC"}});
+
+            expect(levels).toEqual({audit: 32, security: 56});
+            expect(levelLabel(levels.audit)).toBe("AUDIT");
+            expect(levelLabel(levels.security)).toBe("SEC");
+        });
+
+        it("should accept the same definition twice", () => {
+            defineLevels({repeated: {value: 31}});
+
+            expect(() => defineLevels({repeated: {value: 31}})).not.toThrow();
+        });
+
+        it("should reject a value used by another level", () => {
+            expect(() => defineLevels({critical: {value: LogLevel.ERROR}}))
+                .toThrow('Level value 3 is already used by "ERROR".');
+        });
+
+        it("should reject a label used by another level", () => {
+            expect(() => defineLevels({warn: {value: 41}}))
+                .toThrow('Level label "WARN" is already used by value 2.');
+        });
+
+        it("should reject values that are not finite numbers", () => {
+            expect(() => defineLevels({broken: {value: Number.NaN}})).toThrow("finite numeric value");
+        });
+    });
+
+    describe("lookups", () => {
+        it("should fall back to the number for unknown levels", () => {
+            expect(levelLabel(99 as LogLevel)).toBe("99");
+        });
+
+        it("should find levels by label, ignoring case", () => {
+            expect(levelFromLabel("warn")).toBe(LogLevel.WARN);
+            expect(levelFromLabel("unknown")).toBeUndefined();
+        });
+
+        it("should find the closest built-in level below a level", () => {
+            expect(nearestBuiltInLevel(1.5 as LogLevel)).toBe(LogLevel.INFO);
+            expect(nearestBuiltInLevel(LogLevel.WARN)).toBe(LogLevel.WARN);
+            expect(nearestBuiltInLevel(-5 as LogLevel)).toBe(LogLevel.TRACE);
+        });
+
+        it("should print TRACE with console.debug", () => {
+            expect(consoleMethodFor(LogLevel.TRACE)).toBe("debug");
+            expect(consoleMethodFor(LogLevel.FATAL)).toBe("error");
+        });
+    });
+});
@@ -5,21 +5,156 @@
  * Why not a string enum?
  * Because with numeric you can do: level >= LogLevel.WARN
  * With string enum you can't.
+ *
+ * Why do DEBUG to ERROR keep 0 to 3?
+ * The numbers go over the wire and into queues and files — renumbering them would change
+ * the meaning of every entry already sent or stored. TRACE and FATAL extend the range on
+ * both ends, and custom levels take any number in between — an AUDIT level at 1.5 sorts
+ * between INFO and WARN.
  */
 export enum LogLevel {
+    TRACE = -1,
     DEBUG = 0,
     INFO = 1,
     WARN = 2,
     ERROR = 3,
+    FATAL = 4,
+}
+
+/**
+ * Console methods a level can be printed with.
+ */
+export type ConsoleMethod = "debug" | "info" | "warn" | "error" | "log";
+
+export interface LevelDefinition {
+    /**
+     * Numeric severity — compared with minLevel and transport rules like any built-in level.
+     */
+    value: number;
+
+    /**
+     * Label shown by formatters. Default: the name in upper case.
+     */
+    label?: string;
+
+    /**
+     * How ConsoleTransport prints the level.
+     * Default: the method of the closest built-in level below it.
+     */
+    consoleMethod?: ConsoleMethod;
 }
 
 /**
  * Human-readable labels — useful when logging to console or sending to server.
  * This is a lookup table, not logic — that's where it belongs.
+ * Custom levels are added to it by defineLevels().
  */
 export const LOG_LEVEL_LABELS: Record<LogLevel, string> = {
+    [LogLevel.TRACE]: "TRACE",
     [LogLevel.DEBUG]: "DEBUG",
     [LogLevel.INFO]: "INFO",
     [LogLevel.WARN]: "WARN",
     [LogLevel.ERROR]: "ERROR",
-};
\ No newline at end of file
+    [LogLevel.FATAL]: "FATAL",
+};
+
+/**
+ * TRACE prints with console.debug — console.trace would add a stack trace to every line.
+ */
+const CONSOLE_METHODS: Record<number, ConsoleMethod> = {
+    [LogLevel.TRACE]: "debug",
+    [LogLevel.DEBUG]: "debug",
+    [LogLevel.INFO]: "info",
+    [LogLevel.WARN]: "warn",
+    [LogLevel.ERROR]: "error",
+    [LogLevel.FATAL]: "error",
+};
+
+const BUILT_IN_LEVELS = [LogLevel.TRACE, LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR, LogLevel.FATAL];
+
+// ─── Custom levels ────────────────────────────────────────────────────────────
+
+/**
+ * Registers custom levels and returns their values by name.
+ * Pass the result to logger.withLevels() to get a typed method per level.
+ *
+ * Defining the same level twice is fine (hot reload); a value or label
+ * that already belongs to a different level throws.
+ *
+ * @example
+ * const levels = defineLevels({
+ *     audit: {value: 1.5, consoleMethod: "info"},
+ *     security: {value: 3.5, label: "SECURITY"},
+ * })
+ *
+ * logger.log(levels.audit, "User role changed", {userId})
+ */
+export function defineLevels<const T extends Record<string, LevelDefinition>>(
+    definitions: T
+): { readonly [K in keyof T]: LogLevel } {
+    const levels: Record<string, LogLevel> = {};
+
+    for (const [name, definition] of Object.entries(definitions)) {
+        const label = definition.label ?? name.toUpperCase();
+        const value = definition.value as LogLevel;
+
+        if (!Number.isFinite(value)) {
+            throw new Error(`Level "${label}" must have a finite numeric value.`);
+        }
+
+        const existingLabel = LOG_LEVEL_LABELS[value];
+        if (existingLabel !== undefined && existingLabel !== label) {
+            throw new Error(`Level value ${value} is already used by "${existingLabel}".`);
+        }
+
+        const existingValue = levelFromLabel(label);
+        if (existingValue !== undefined && existingValue !== value) {
+            throw new Error(`Level label "${label}" is already used by value ${existingValue}.`);
+        }
+
+        LOG_LEVEL_LABELS[value] = label;
+        if (definition.consoleMethod) CONSOLE_METHODS[value] = definition.consoleMethod;
+
+        levels[name] = value;
+    }
+
+    return levels as { readonly [K in keyof T]: LogLevel };
+}
+
+// ─── Lookups ──────────────────────────────────────────────────────────────────
+
+/**
+ * Label of a built-in or custom level; unknown levels fall back to their number.
+ */
+export function levelLabel(level: LogLevel): string {
+    return LOG_LEVEL_LABELS[level] ?? String(level);
+}
+
+/**
+ * Level with this label (case-insensitive), or undefined.
+ */
+export function levelFromLabel(label: string): LogLevel | undefined {
+    const wanted = label.toUpperCase();
+    const found = Object.entries(LOG_LEVEL_LABELS).find(([, name]) => name.toUpperCase() === wanted);
+
+    return found ? Number(found[0]) as LogLevel : undefined;
+}
+
+/**
+ * The closest built-in level at or below this level — how custom levels
+ * borrow colors, console methods and syslog severities they do not define.
+ * Levels below TRACE count as TRACE.
+ */
+export function nearestBuiltInLevel(level: LogLevel): LogLevel {
+    let nearest = LogLevel.TRACE;
+
+    for (const builtIn of BUILT_IN_LEVELS) {
+        if (builtIn <= level) nearest = builtIn;
+    }
+
+    return nearest;
+}
+
+export function consoleMethodFor(level: LogLevel): ConsoleMethod {
+    return CONSOLE_METHODS[level] ?? CONSOLE_METHODS[nearestBuiltInLevel(level)]!;
+}
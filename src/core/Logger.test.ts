@@ -1,9 +1,10 @@
-import {beforeEach, describe, expect, it, vi} from "vitest";
-import {Logger} from "./Logger";
-import {LogLevel} from "./LogLevel";
-import {Transport} from "../transports/Transport";
+import {afterEach, beforeEach, describe, expect, it, MockInstance, vi} from "vitest";
+import {ConfigChange, DroppedEvent, Logger, TransportErrorEvent} from "./Logger";
+import {defineLevels, LogLevel} from "./LogLevel";
+import {Transport, TransportDropError} from "../transports/Transport";
 import {LogEntry} from "./LogEntry";
-import {Plugin} from "../plugins/Plugin";
+import {LoggerPlugin, Plugin, PluginDefinition} from "../plugins/Plugin";
+import {LogContext} from "./LogContext";
 
 // ─── Test helpers ─────────────────────────────────────────────────────────────
 
@@ -185,6 +186,183 @@ describe("Logger", () => {
         });
     });
 
+    describe("plugin isolation", () => {
+        const tag = (name: string): Plugin => (entry) => ({...entry, message: `${entry.message} ${name}`});
+        const failing: Plugin = () => {
+            throw new Error("Boom");
+        };
+
+        async function messagesWith(plugins: LoggerPlugin[]): Promise<string[]> {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport], plugins});
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            return transport.entries.map((entry) => entry.message);
+        }
+
+        let consoleError: MockInstance<typeof console.error>;
+
+        beforeEach(() => {
+            consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            consoleError.mockRestore();
+        });
+
+        it("should skip a throwing plugin and report it by name", async () => {
+            expect(await messagesWith([tag("a"), failing, tag("b")])).toEqual(["Test a b"]);
+            expect(consoleError).toHaveBeenCalledWith("[Logger] Plugin \"failing\" failed:", expect.objectContaining({
+                name: "PluginError",
+                plugin: "failing",
+                cause: expect.objectContaining({message: "Boom"}),
+            }));
+        });
+
+        it("should skip a rejecting plugin", async () => {
+            const rejecting: Plugin = async () => {
+                throw new Error("Boom");
+            };
+
+            expect(await messagesWith([rejecting, tag("b")])).toEqual(["Test b"]);
+        });
+
+        it("should drop the entry when the policy says so", async () => {
+            expect(await messagesWith([tag("a"), {name: "redact", process: failing, onError: "drop"}, tag("b")])).toEqual([]);
+        });
+
+        it("should pass the entry through without the remaining plugins", async () => {
+            expect(await messagesWith([tag("a"), {name: "enrich", process: failing, onError: "passThrough"}, tag("b")]))
+                .toEqual(["Test a"]);
+        });
+
+        it("should time out a hung plugin", async () => {
+            const hung: PluginDefinition = {name: "hung", process: () => new Promise(() => {}), timeout: 20};
+
+            expect(await messagesWith([hung, tag("b")])).toEqual(["Test b"]);
+            expect(consoleError).toHaveBeenCalledWith("[Logger] Plugin \"hung\" failed:", expect.objectContaining({
+                message: "Plugin \"hung\" timed out after 20 ms.",
+            }));
+        });
+
+        it("should run the process function of a definition with the definition as this", async () => {
+            const definition = {
+                name: "suffix",
+                suffix: "!",
+                process(entry: LogEntry) {
+                    return {...entry, message: entry.message + this.suffix};
+                },
+            };
+
+            expect(await messagesWith([definition])).toEqual(["Test!"]);
+        });
+    });
+
+    describe("plugin lifecycle", () => {
+        it("should set up a plugin before it processes entries", async () => {
+            const transport = createMockTransport();
+            let ready = false;
+            const plugin: PluginDefinition = {
+                name: "slowStart",
+                setup: async () => {
+                    await new Promise((resolve) => setTimeout(resolve, 20));
+                    ready = true;
+                },
+                process: (entry) => ({...entry, context: {ready}}),
+            };
+
+            Logger.init({transports: [transport], plugins: [plugin]});
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries[0]?.context).toEqual({ready: true});
+        });
+
+        it("should pass the logger it was added to to setup()", () => {
+            const setup = vi.fn();
+            Logger.init({});
+
+            Logger.get("payments").addPlugin({name: "p", setup, process: (entry) => entry});
+
+            expect(setup).toHaveBeenCalledWith(Logger.get("payments"));
+        });
+
+        it("should apply the error policy without reporting every entry when setup failed", async () => {
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            const transport = createMockTransport();
+            const process = vi.fn((entry: LogEntry) => entry);
+            Logger.init({
+                transports: [transport],
+                plugins: [{name: "broken", setup: () => Promise.reject(new Error("No database")), process, onError: "drop"}],
+            });
+
+            Logger.getInstance().info("a");
+            Logger.getInstance().info("b");
+            await Logger.getInstance().flush();
+
+            expect(process).not.toHaveBeenCalled();
+            expect(transport.entries).toEqual([]);
+            expect(consoleError).toHaveBeenCalledTimes(1);
+            expect(consoleError).toHaveBeenCalledWith("[Logger] Plugin \"broken\" failed:", expect.objectContaining({
+                message: "Plugin \"broken\" failed to set up.",
+            }));
+            consoleError.mockRestore();
+        });
+
+        it("should treat a setup that outlasts the timeout as failed", async () => {
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            const transport = createMockTransport();
+            const process = vi.fn((entry: LogEntry) => entry);
+            Logger.init({
+                transports: [transport],
+                plugins: [{name: "hung", setup: () => new Promise<void>(() => {}), process, timeout: 20}],
+            });
+
+            Logger.getInstance().info("Test");
+
+            expect(await Logger.getInstance().flush(1000)).toBe(true);
+            expect(process).not.toHaveBeenCalled();
+            expect(transport.entries.map((entry) => entry.message)).toEqual(["Test"]);
+            expect(consoleError).toHaveBeenCalledWith("[Logger] Plugin \"hung\" failed:", expect.objectContaining({
+                message: "Plugin \"hung\" failed to set up.",
+                cause: expect.objectContaining({message: "Plugin \"hung\" timed out after 20 ms."}),
+            }));
+            consoleError.mockRestore();
+        });
+
+        it("should tear down a removed plugin once no logger uses it", async () => {
+            const plugin = {name: "shared", setup: vi.fn(), teardown: vi.fn(), process: (entry: LogEntry) => entry};
+            Logger.init({plugins: [plugin]});
+            Logger.get("payments", {plugins: [plugin]});
+
+            Logger.getInstance().removePlugin("shared");
+            expect(plugin.teardown).not.toHaveBeenCalled();
+
+            await Logger.get("payments").configure({plugins: []});
+
+            expect(plugin.setup).toHaveBeenCalledTimes(1);
+            expect(plugin.teardown).toHaveBeenCalledTimes(1);
+        });
+
+        it("should tear down plugins on shutdown", async () => {
+            const teardown = vi.fn();
+            Logger.init({plugins: [{name: "p", teardown, process: (entry) => entry}]});
+
+            await Logger.getInstance().shutdown();
+
+            expect(teardown).toHaveBeenCalledTimes(1);
+        });
+
+        it("should reject a definition name that is already taken", () => {
+            Logger.init({plugins: [{name: "p", process: (entry) => entry}]});
+
+            expect(() => Logger.getInstance().addPlugin({name: "p", process: (entry) => entry}))
+                .toThrow("Plugin with name \"p\" is already registered.");
+        });
+    });
+
     // ─── addTransport ───────────────────────────────────────────────────────────
 
     describe("addTransport", () => {
@@ -248,6 +426,377 @@ describe("Logger", () => {
         });
     });
 
+    // ─── Runtime configuration ──────────────────────────────────────────────────
+
+    describe("removePlugin", () => {
+        const shout: Plugin = (entry) => ({...entry, message: entry.message.toUpperCase()});
+
+        it("should remove a plugin by the name it was added with", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            Logger.getInstance().addPlugin((entry) => ({...entry, message: `${entry.message}!`}), "excited");
+            Logger.getInstance().removePlugin("excited");
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries[0]?.message).toBe("Test");
+        });
+
+        it("should remove a plugin by function name or reference", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport], plugins: [shout]});
+
+            Logger.getInstance().removePlugin("shout");
+            Logger.getInstance().info("a");
+            Logger.getInstance().addPlugin(shout);
+            Logger.getInstance().removePlugin(shout);
+            Logger.getInstance().info("b");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries.map((entry) => entry.message)).toEqual(["a", "b"]);
+        });
+
+        it("should reject a plugin name that is already taken", () => {
+            Logger.init({});
+            Logger.getInstance().addPlugin(shout, "format");
+
+            expect(() => Logger.getInstance().addPlugin((entry) => entry, "format"))
+                .toThrow("Plugin with name \"format\" is already registered.");
+        });
+
+        it("should keep the name of a plugin in use when adding it again is rejected", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+            Logger.getInstance().addPlugin(shout, "format");
+            Logger.getInstance().addPlugin((entry) => entry, "noop");
+
+            expect(() => Logger.getInstance().addPlugin(shout, "noop"))
+                .toThrow("Plugin with name \"noop\" is already registered.");
+
+            Logger.getInstance().removePlugin("format");
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries[0]?.message).toBe("Test");
+        });
+
+        it("should let entries already in the pipeline pass a removed plugin", async () => {
+            const transport = createMockTransport();
+            let release!: () => void;
+            const gate: Plugin = async (entry) => {
+                await new Promise<void>((resolve) => release = resolve);
+                return entry;
+            };
+            Logger.init({transports: [transport], plugins: [gate, shout]});
+
+            Logger.getInstance().info("in flight");
+            await vi.waitFor(() => expect(release).toBeDefined());
+            Logger.getInstance().removePlugin("shout");
+            release();
+            await Logger.getInstance().flush();
+
+            expect(transport.entries[0]?.message).toBe("IN FLIGHT");
+        });
+    });
+
+    describe("setLevel", () => {
+        it("should change the level of the root logger", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport], minLevel: LogLevel.WARN});
+
+            Logger.getInstance().setLevel(LogLevel.DEBUG);
+            Logger.getInstance().debug("Test");
+            await Logger.getInstance().flush();
+
+            expect(Logger.getInstance().level).toBe(LogLevel.DEBUG);
+            expect(transport.entries).toHaveLength(1);
+        });
+
+        it("should change the level of a namespace and reset it with null", () => {
+            Logger.init({minLevel: LogLevel.WARN});
+            const root = Logger.getInstance();
+
+            root.setLevel("payments", LogLevel.DEBUG);
+            expect(Logger.get("payments.stripe").level).toBe(LogLevel.DEBUG);
+
+            root.setLevel("payments", null);
+            expect(Logger.get("payments.stripe").level).toBe(LogLevel.WARN);
+        });
+
+        it("should not let the root logger inherit", () => {
+            Logger.init({});
+
+            expect(() => Logger.getInstance().setLevel(null)).toThrow("A root logger has no parent to inherit \"minLevel\" from.");
+        });
+    });
+
+    describe("configure", () => {
+        it("should swap transports and plugins together", async () => {
+            const before = createMockTransport("before");
+            const after = createMockTransport("after");
+            const shout: Plugin = (entry) => ({...entry, message: entry.message.toUpperCase()});
+            Logger.init({transports: [before]});
+
+            await Logger.getInstance().configure({transports: [after], plugins: [shout], minLevel: LogLevel.ERROR});
+            Logger.getInstance().warn("Hidden");
+            Logger.getInstance().error("Test");
+            await Logger.getInstance().flush();
+
+            expect(before.entries).toEqual([]);
+            expect(after.entries.map((entry) => entry.message)).toEqual(["TEST"]);
+        });
+
+        it("should apply nothing when the patch is invalid", () => {
+            const transport = createMockTransport("http");
+            Logger.init({transports: [transport], minLevel: LogLevel.WARN});
+
+            expect(() => Logger.getInstance().configure({
+                minLevel: LogLevel.DEBUG,
+                transports: [createMockTransport("a"), createMockTransport("a")],
+            })).toThrow("Transport with name \"a\" is already registered.");
+            expect(Logger.getInstance().level).toBe(LogLevel.WARN);
+        });
+
+        it("should deliver entries in the pipeline to the new transports", async () => {
+            const before = createMockTransport("before");
+            const after = createMockTransport("after");
+            const slow: Plugin = async (entry) => {
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                return entry;
+            };
+            Logger.init({transports: [before], plugins: [slow]});
+
+            Logger.getInstance().info("In flight");
+            await Logger.getInstance().configure({transports: [after]});
+            await Logger.getInstance().flush();
+
+            expect(after.entries.map((entry) => entry.message)).toEqual(["In flight"]);
+        });
+
+        it("should flush but not close retired transports", async () => {
+            const retired = {...createMockTransport("retired"), flush: vi.fn(async () => {}), close: vi.fn(async () => {})};
+            Logger.init({transports: [retired]});
+
+            await Logger.getInstance().configure({transports: []});
+
+            expect(retired.flush).toHaveBeenCalledTimes(1);
+            expect(retired.close).not.toHaveBeenCalled();
+        });
+
+        it("should make a named logger inherit again with null", async () => {
+            const root = createMockTransport("root");
+            Logger.init({transports: [root]});
+            const logger = Logger.get("payments", {transports: []});
+
+            await logger.configure({transports: null});
+            logger.info("Test");
+            await logger.flush();
+
+            expect(root.entries).toHaveLength(1);
+        });
+    });
+
+    describe("configChange events", () => {
+        it("should report what changed, where and by whom", () => {
+            Logger.init({minLevel: LogLevel.INFO, transports: [createMockTransport("console")]});
+            const changes: ConfigChange[] = [];
+            Logger.getInstance().on("configChange", (change) => changes.push(change));
+
+            Logger.getInstance().setLevel("payments", LogLevel.DEBUG, {source: "admin:jane"});
+            Logger.getInstance().addTransport(createMockTransport("http"));
+
+            expect(changes).toEqual([
+                {logger: "payments", key: "minLevel", previous: null, current: LogLevel.DEBUG, source: "admin:jane", timestamp: expect.any(Date)},
+                {logger: "", key: "transports", previous: ["console"], current: ["console", "http"], source: "api", timestamp: expect.any(Date)},
+            ]);
+        });
+
+        it("should stay quiet when nothing changed", () => {
+            Logger.init({minLevel: LogLevel.INFO});
+            const listener = vi.fn();
+            Logger.getInstance().on("configChange", listener);
+
+            Logger.getInstance().setLevel(LogLevel.INFO);
+            Logger.getInstance().removeTransport("missing");
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it("should name anonymous plugins", () => {
+            Logger.init({});
+            const listener = vi.fn();
+            Logger.getInstance().on("configChange", listener);
+
+            Logger.getInstance().configure({plugins: [(entry) => entry]});
+
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({key: "plugins", current: ["<anonymous>"]}));
+        });
+
+        it("should unsubscribe and survive throwing listeners", () => {
+            Logger.init({});
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            const listener = vi.fn();
+            Logger.getInstance().on("configChange", () => {
+                throw new Error("Boom");
+            });
+            const off = Logger.getInstance().on("configChange", listener);
+
+            Logger.getInstance().setLevel(LogLevel.WARN);
+            off();
+            Logger.getInstance().setLevel(LogLevel.ERROR);
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(consoleError).toHaveBeenCalledWith("[Logger] \"configChange\" listener failed:", expect.any(Error));
+            consoleError.mockRestore();
+        });
+    });
+
+    describe("diagnostics", () => {
+        function failingTransport(name = "http"): Transport {
+            return {name, send: vi.fn(async () => {
+                throw new Error("Offline");
+            })};
+        }
+
+        it("should emit transportError instead of writing to the console", async () => {
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            Logger.init({transports: [failingTransport(), createMockTransport("console")]});
+            const events: TransportErrorEvent[] = [];
+            Logger.getInstance().on("transportError", (event) => events.push(event));
+
+            Logger.getInstance().error("Payment failed");
+            await Logger.getInstance().flush();
+
+            expect(events).toEqual([{
+                transport: "http",
+                operation: "send",
+                error: expect.objectContaining({message: "Offline"}),
+                entry: expect.objectContaining({message: "Payment failed"}),
+            }]);
+            expect(consoleError).not.toHaveBeenCalled();
+            consoleError.mockRestore();
+        });
+
+        it("should fall back to the console while nobody listens", async () => {
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            Logger.init({transports: [failingTransport()]});
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(consoleError).toHaveBeenCalledWith("[Logger] Transport \"http\" failed:", expect.any(Error));
+            consoleError.mockRestore();
+        });
+
+        it("should emit pluginError with the entry being processed", async () => {
+            const failing: Plugin = () => {
+                throw new Error("Boom");
+            };
+            Logger.init({transports: [createMockTransport()], plugins: [failing]});
+            const listener = vi.fn();
+            Logger.getInstance().on("pluginError", listener);
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(listener).toHaveBeenCalledWith({
+                plugin: "failing",
+                error: expect.objectContaining({name: "PluginError"}),
+                entry: expect.objectContaining({message: "Test"}),
+            });
+        });
+
+        it("should emit dropped for plugin drops and logs after shutdown", async () => {
+            const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+            const sampler: Plugin = () => null;
+            Logger.init({transports: [createMockTransport()], plugins: [sampler]});
+            const events: DroppedEvent[] = [];
+            Logger.getInstance().on("dropped", (event) => events.push(event));
+
+            Logger.getInstance().debug("Sampled out");
+            await Logger.getInstance().shutdown();
+            Logger.getInstance().warn("Too late");
+
+            expect(events).toEqual([
+                {reason: "plugin", level: LogLevel.DEBUG, message: "Sampled out", plugin: "sampler", entry: expect.any(Object)},
+                {reason: "shutdown", level: LogLevel.WARN, message: "Too late"},
+            ]);
+            consoleWarn.mockRestore();
+        });
+
+        it("should emit flushed with the outcome", async () => {
+            Logger.init({transports: [createMockTransport()]});
+            const listener = vi.fn();
+            Logger.getInstance().on("flushed", listener);
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(listener).toHaveBeenCalledWith({complete: true, durationMs: expect.any(Number)});
+        });
+
+        it("should count logged, dropped, sent and failed entries", async () => {
+            const dropDebug: Plugin = (entry) => entry.level === LogLevel.DEBUG ? null : entry;
+            Logger.init({
+                minLevel: LogLevel.DEBUG,
+                transports: [createMockTransport("console"), failingTransport()],
+                plugins: [dropDebug],
+            });
+            const logger = Logger.getInstance();
+            logger.on("transportError", () => {});
+
+            logger.trace("Below the level");
+            logger.debug("Dropped");
+            logger.info("First");
+            logger.get("payments").error("Second");
+            expect(logger.getStats().pending).toBeGreaterThan(0);
+            await logger.flush();
+
+            expect(logger.getStats()).toEqual({
+                logged: {DEBUG: 1, INFO: 1, ERROR: 1},
+                dropped: {byPlugin: {dropDebug: 1}, byTransport: {}, afterShutdown: 0},
+                transports: {console: {sent: 2, failed: 0}, http: {sent: 0, failed: 2}},
+                pluginErrors: {},
+                dispatch: {count: 2, averageLatencyMs: expect.any(Number)},
+                pending: 0,
+            });
+        });
+
+        it("should count a TransportDropError as dropped, not as sent or failed", async () => {
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            const circuit: Transport = {
+                name: "remote",
+                send: vi.fn().mockRejectedValue(new TransportDropError("Circuit of \"remote\" is open")),
+            };
+            Logger.init({transports: [circuit]});
+            const events: DroppedEvent[] = [];
+            Logger.getInstance().on("dropped", (event) => events.push(event));
+
+            Logger.getInstance().error("Test");
+            await Logger.getInstance().flush();
+
+            expect(events).toEqual([
+                {reason: "transport", level: LogLevel.ERROR, message: "Test", transport: "remote", entry: expect.any(Object)},
+            ]);
+            expect(Logger.getInstance().getStats().dropped.byTransport).toEqual({remote: 1});
+            expect(Logger.getInstance().getStats().transports).toEqual({});
+            expect(consoleError).not.toHaveBeenCalled();
+            consoleError.mockRestore();
+        });
+
+        it("should return a snapshot", async () => {
+            Logger.init({transports: [createMockTransport()]});
+            const stats = Logger.getInstance().getStats();
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(stats.logged).toEqual({});
+            expect(Logger.getInstance().getStats().logged).toEqual({INFO: 1});
+        });
+    });
+
     // ─── Log methods ────────────────────────────────────────────────────────────
 
     describe("log methods", () => {
@@ -281,6 +830,30 @@ describe("Logger", () => {
             });
         });
 
+        it("should wrap non-Error values passed to error()", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            Logger.getInstance().error("Test", "Card declined");
+
+            await vi.waitFor(() => {
+                expect(transport.entries[0]?.error).toBeInstanceOf(Error);
+                expect(transport.entries[0]?.error?.message).toBe("Card declined");
+            });
+        });
+
+        it("should create entry ids with the configured generateId", async () => {
+            const transport = createMockTransport();
+            let next = 0;
+            Logger.init({transports: [transport], generateId: () => `entry-${++next}`});
+
+            Logger.getInstance().info("a");
+            Logger.getInstance().info("b");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries.map((entry) => entry.id)).toEqual(["entry-1", "entry-2"]);
+        });
+
         it("should attach context to entry", async () => {
             const transport = createMockTransport();
             Logger.init({transports: [transport]});
@@ -292,4 +865,718 @@ describe("Logger", () => {
             });
         });
     });
-});
\ No newline at end of file
+
+    describe("custom levels", () => {
+        const levels = defineLevels({
+            audit: {value: 1.5, consoleMethod: "info"},
+            security: {value: 3.5},
+        });
+
+        it("should send TRACE and FATAL entries", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport], minLevel: LogLevel.TRACE});
+
+            const logger = Logger.getInstance();
+            logger.trace("t");
+            logger.fatal("f", new Error("Crash"));
+            await logger.flush();
+
+            expect(transport.entries.map((entry) => entry.level)).toEqual([LogLevel.TRACE, LogLevel.FATAL]);
+            expect(transport.entries[1]?.error?.message).toBe("Crash");
+        });
+
+        it("should ignore TRACE by default", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            Logger.getInstance().trace("t");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries).toHaveLength(0);
+        });
+
+        it("should log at any level with log()", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            const logger = Logger.getInstance();
+            const error = new Error("Denied");
+            logger.log(levels.audit, "Role changed", {userId: "1"});
+            logger.log(levels.security, "Intrusion", error);
+            logger.log(levels.security, "Blocked", "Too many attempts", {ip: "10.0.0.1"});
+            await logger.flush();
+
+            expect(transport.entries[0]).toMatchObject({level: 1.5, message: "Role changed", context: {userId: "1"}});
+            expect(transport.entries[1]).toMatchObject({level: 3.5, error});
+            expect(transport.entries[2]?.error?.message).toBe("Too many attempts");
+            expect(transport.entries[2]?.context).toEqual({ip: "10.0.0.1"});
+        });
+
+        it("should add a method per level with withLevels()", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport]}).withLevels(levels);
+
+            logger.audit("Role changed", {userId: "1"});
+            logger.child({requestId: "r1"}).security("Intrusion");
+            await logger.flush();
+
+            expect(transport.entries.map((entry) => entry.level)).toEqual([1.5, 3.5]);
+            expect(transport.entries[1]?.context).toEqual({requestId: "r1"});
+        });
+
+        it("should reject level names that replace Logger members", () => {
+            const logger = Logger.init({});
+            const clashing = defineLevels({flush: {value: 36, label: "FLUSH_LEVEL"}});
+
+            expect(() => logger.withLevels(clashing)).toThrow('Level method "flush" would replace an existing Logger member.');
+        });
+
+        it("should reject level names inherited from Object.prototype", () => {
+            const logger = Logger.init({});
+            const clashing = defineLevels({toString: {value: 37, label: "TO_STRING_LEVEL"}});
+
+            expect(() => logger.withLevels(clashing)).toThrow('Level method "toString" would replace an existing Logger member.');
+            expect(logger.toString()).toBe("[object Object]");
+        });
+
+        it("should compare custom levels with minLevel and transport rules", async () => {
+            const audit = {...createMockTransport("audit"), rules: {minLevel: levels.audit, maxLevel: levels.audit}};
+            const errors = {...createMockTransport("errors"), rules: {minLevel: LogLevel.ERROR}};
+            Logger.init({transports: [audit, errors], minLevel: LogLevel.INFO});
+
+            const logger = Logger.getInstance();
+            logger.info("info");
+            logger.log(levels.audit, "audit");
+            logger.log(levels.security, "security");
+            await logger.flush();
+
+            expect(audit.entries.map((entry) => entry.message)).toEqual(["audit"]);
+            expect(errors.entries.map((entry) => entry.message)).toEqual(["security"]);
+        });
+    });
+
+    // ─── Lifecycle ──────────────────────────────────────────────────────────────
+
+    describe("flush", () => {
+        it("should wait for async plugins and transports", async () => {
+            const transport = createMockTransport();
+            const slowPlugin: Plugin = async (entry) => {
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                return entry;
+            };
+
+            Logger.init({transports: [transport], plugins: [slowPlugin]});
+            Logger.getInstance().info("Test");
+
+            await expect(Logger.getInstance().flush()).resolves.toBe(true);
+            expect(transport.entries).toHaveLength(1);
+        });
+
+        it("should call flush on transports after pipelines finished", async () => {
+            const transport = {...createMockTransport(), flush: vi.fn(async () => {})};
+            Logger.init({transports: [transport]});
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(transport.send).toHaveBeenCalledOnce();
+            expect(transport.flush).toHaveBeenCalledOnce();
+        });
+
+        it("should resolve to false if the deadline passes", async () => {
+            const hanging: Transport = {
+                name: "hanging",
+                send: () => new Promise(() => {}),
+            };
+            Logger.init({transports: [hanging]});
+
+            Logger.getInstance().info("Test");
+
+            await expect(Logger.getInstance().flush(20)).resolves.toBe(false);
+        });
+    });
+
+    describe("shutdown", () => {
+        it("should flush and then close transports", async () => {
+            const calls: string[] = [];
+            const transport: Transport = {
+                name: "lifecycle",
+                send: async () => {
+                    calls.push("send");
+                },
+                flush: async () => {
+                    calls.push("flush");
+                },
+                close: async () => {
+                    calls.push("close");
+                },
+            };
+            Logger.init({transports: [transport]});
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().shutdown();
+
+            expect(calls).toEqual(["send", "flush", "close"]);
+        });
+
+        it("should drop log calls after shutdown with a single warning", async () => {
+            const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            const logger = Logger.getInstance();
+            await logger.shutdown();
+            logger.info("dropped");
+            logger.error("dropped too");
+            await logger.flush();
+
+            expect(transport.entries).toHaveLength(0);
+            expect(warn).toHaveBeenCalledOnce();
+            warn.mockRestore();
+        });
+
+        it("should return the same promise when called twice", () => {
+            Logger.init({});
+            const logger = Logger.getInstance();
+
+            expect(logger.shutdown()).toBe(logger.shutdown());
+        });
+    });
+
+    // ─── Child loggers ──────────────────────────────────────────────────────────
+
+    describe("child", () => {
+        it("should merge bindings into entry context", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            const child = Logger.getInstance().child({requestId: "req-1"});
+            child.info("Test", {userId: "123"});
+
+            await vi.waitFor(() => {
+                expect(transport.entries[0]?.context).toEqual({requestId: "req-1", userId: "123"});
+            });
+        });
+
+        it("should merge bindings of nested children", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            const child = Logger.getInstance()
+                .child({requestId: "req-1"})
+                .child({component: "PaymentForm"});
+            child.info("Test");
+
+            await vi.waitFor(() => {
+                expect(transport.entries[0]?.context).toEqual({requestId: "req-1", component: "PaymentForm"});
+            });
+        });
+
+        it("should let child bindings override parent bindings and per-call context override both", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            const parent = Logger.getInstance().child({source: "parent", scope: "parent"});
+            const child = parent.child({source: "child"});
+            child.info("Test", {scope: "call"});
+
+            await vi.waitFor(() => {
+                expect(transport.entries[0]?.context).toEqual({source: "child", scope: "call"});
+            });
+        });
+
+        it("should not affect the parent's entries", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            Logger.getInstance().child({requestId: "req-1"});
+            Logger.getInstance().info("Test");
+
+            await vi.waitFor(() => expect(transport.entries).toHaveLength(1));
+            expect(transport.entries[0]?.context).toBeUndefined();
+        });
+
+        it("should share transports and plugins added to the parent after creation", async () => {
+            const transport = createMockTransport();
+            Logger.init({});
+
+            const child = Logger.getInstance().child({requestId: "req-1"});
+            Logger.getInstance().addTransport(transport);
+            Logger.getInstance().addPlugin((entry) => ({...entry, message: entry.message.toUpperCase()}));
+            child.info("test");
+
+            await vi.waitFor(() => expect(transport.entries[0]?.message).toBe("TEST"));
+        });
+
+        it("should rank async context below child bindings", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            const child = Logger.getInstance().child({component: "child"});
+            LogContext.run({requestId: "req-1", component: "scope"}, () => child.info("Test"));
+
+            await vi.waitFor(() => {
+                expect(transport.entries[0]?.context).toEqual({requestId: "req-1", component: "child"});
+            });
+        });
+
+        it("should be flushed by the parent", async () => {
+            const transport = createMockTransport();
+            const slowPlugin: Plugin = async (entry) => {
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                return entry;
+            };
+            Logger.init({transports: [transport], plugins: [slowPlugin]});
+
+            Logger.getInstance().child({requestId: "req-1"}).info("Test");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries).toHaveLength(1);
+        });
+    });
+
+    // ─── Independent and named loggers ──────────────────────────────────────────
+
+    describe("create", () => {
+        it("should create loggers independent of the singleton and of each other", async () => {
+            const host = createMockTransport();
+            const widget = createMockTransport();
+            Logger.init({transports: [host]});
+
+            const logger = Logger.create({transports: [widget]});
+            logger.info("Widget");
+            Logger.getInstance().info("Host");
+            await Promise.all([logger.flush(), Logger.getInstance().flush()]);
+
+            expect(logger).not.toBe(Logger.getInstance());
+            expect(widget.entries.map((entry) => entry.message)).toEqual(["Widget"]);
+            expect(host.entries.map((entry) => entry.message)).toEqual(["Host"]);
+        });
+
+        it("should not need or block Logger.init()", async () => {
+            Logger.create({});
+
+            expect(() => Logger.getInstance()).toThrow("Logger is not initialized");
+            expect(() => Logger.init({})).not.toThrow();
+        });
+
+        it("should shut down without affecting other loggers", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.create({});
+            const other = Logger.create({transports: [transport]});
+
+            await logger.shutdown();
+            other.info("Test");
+            await other.flush();
+
+            expect(transport.entries).toHaveLength(1);
+        });
+    });
+
+    describe("named loggers", () => {
+        it("should return the same logger for the same name", () => {
+            Logger.init({});
+
+            expect(Logger.get("payments.stripe")).toBe(Logger.get("payments.stripe"));
+            expect(Logger.get("payments").get("stripe")).toBe(Logger.get("payments.stripe"));
+            expect(Logger.get("payments.stripe").name).toBe("payments.stripe");
+            expect(Logger.getInstance().name).toBe("");
+        });
+
+        it("should reject invalid names", () => {
+            Logger.init({});
+
+            for (const name of ["", "payments.", ".stripe", "payments..stripe", "pay ments"]) {
+                expect(() => Logger.get(name)).toThrow(`Invalid logger name "${name}"`);
+            }
+        });
+
+        it("should throw like getInstance() before init", () => {
+            expect(() => Logger.get("payments")).toThrow("Logger is not initialized");
+        });
+
+        it("should inherit the root's transports, plugins and level and record its name", async () => {
+            const transport = createMockTransport();
+            Logger.init({
+                transports: [transport],
+                plugins: [(entry) => ({...entry, message: entry.message.toUpperCase()})],
+                minLevel: LogLevel.INFO,
+            });
+
+            const logger = Logger.get("payments.stripe");
+            logger.debug("Hidden");
+            logger.info("Charge created");
+            await logger.flush();
+
+            expect(transport.entries.map((entry) => [entry.message, entry.logger])).toEqual([
+                ["CHARGE CREATED", "payments.stripe"],
+            ]);
+        });
+
+        it("should not record a name for the root logger", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries[0]).not.toHaveProperty("logger");
+        });
+
+        it("should let a node override its ancestors for its whole subtree", async () => {
+            const root = createMockTransport("root");
+            const payments = createMockTransport("payments");
+            Logger.init({transports: [root], minLevel: LogLevel.WARN});
+
+            Logger.get("payments", {transports: [payments], minLevel: LogLevel.DEBUG});
+            Logger.get("payments.stripe").debug("Stripe");
+            Logger.get("payments.paypal", {minLevel: LogLevel.ERROR}).warn("Hidden");
+            Logger.get("shipping").debug("Hidden");
+            Logger.get("shipping").warn("Shipping");
+            await Logger.getInstance().flush();
+
+            expect(payments.entries.map((entry) => entry.message)).toEqual(["Stripe"]);
+            expect(root.entries.map((entry) => entry.message)).toEqual(["Shipping"]);
+        });
+
+        it("should apply overrides set on an ancestor after the logger was created", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport], minLevel: LogLevel.INFO});
+
+            const logger = Logger.get("payments.stripe");
+            Logger.get("payments", {minLevel: LogLevel.TRACE});
+            logger.trace("Test");
+            await logger.flush();
+
+            expect(transport.entries).toHaveLength(1);
+        });
+
+        it("should give a node its own lists when transports or plugins are added to it", async () => {
+            const root = createMockTransport("root");
+            const audit = createMockTransport("audit");
+            Logger.init({transports: [root]});
+
+            const logger = Logger.get("payments");
+            logger.addTransport(audit);
+            logger.addPlugin((entry) => ({...entry, message: `[payments] ${entry.message}`}));
+            logger.info("Charge");
+            await logger.flush();
+            Logger.getInstance().info("Other");
+            await Logger.getInstance().flush();
+
+            expect(root.entries.map((entry) => entry.message)).toEqual(["[payments] Charge", "Other"]);
+            expect(audit.entries.map((entry) => entry.message)).toEqual(["[payments] Charge"]);
+        });
+
+        it("should keep the name in child loggers", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport]});
+
+            Logger.get("payments").child({orderId: "ord-1"}).info("Test");
+            await Logger.getInstance().flush();
+
+            expect(transport.entries[0]).toMatchObject({logger: "payments", context: {orderId: "ord-1"}});
+        });
+
+        it("should flush and close transports of named loggers with the root", async () => {
+            const transport = {...createMockTransport("payments"), flush: vi.fn(async () => {}), close: vi.fn(async () => {})};
+            Logger.init({});
+
+            Logger.get("payments", {transports: [transport]});
+            await Logger.getInstance().shutdown();
+
+            expect(transport.flush).toHaveBeenCalledTimes(1);
+            expect(transport.close).toHaveBeenCalledTimes(1);
+        });
+
+        it("should keep a hierarchy per root logger", async () => {
+            const transport = createMockTransport();
+            Logger.init({});
+            const widget = Logger.create({transports: [transport]});
+
+            widget.get("payments").info("Widget");
+            await widget.flush();
+
+            expect(widget.get("payments")).not.toBe(Logger.get("payments"));
+            expect(transport.entries[0]?.logger).toBe("payments");
+        });
+    });
+
+    // ─── Levels and routing ─────────────────────────────────────────────────────
+
+    describe("levels and routing", () => {
+        it("should ignore entries below the global minLevel", async () => {
+            const transport = createMockTransport();
+            Logger.init({transports: [transport], minLevel: LogLevel.WARN});
+
+            const logger = Logger.getInstance();
+            logger.debug("d");
+            logger.info("i");
+            logger.warn("w");
+            await logger.flush();
+
+            expect(transport.entries.map((entry) => entry.level)).toEqual([LogLevel.WARN]);
+        });
+
+        it("should not run plugins for entries nobody receives", async () => {
+            const plugin = vi.fn((entry: LogEntry) => entry);
+            const transport = {...createMockTransport(), rules: {minLevel: LogLevel.ERROR}};
+            Logger.init({transports: [transport], plugins: [plugin]});
+
+            Logger.getInstance().info("Test");
+            await Logger.getInstance().flush();
+
+            expect(plugin).not.toHaveBeenCalled();
+        });
+
+        it("should route entries by transport rules", async () => {
+            const consoleTransport = {...createMockTransport("console"), rules: {maxLevel: LogLevel.INFO}};
+            const http = {...createMockTransport("http"), rules: {minLevel: LogLevel.ERROR}};
+            const pager = {...createMockTransport("pager"), rules: {minLevel: LogLevel.ERROR, match: {critical: true}}};
+            Logger.init({transports: [consoleTransport, http, pager]});
+
+            const logger = Logger.getInstance();
+            logger.debug("debug");
+            logger.error("error");
+            logger.error("critical", undefined, {critical: true});
+            await logger.flush();
+
+            expect(consoleTransport.entries.map((entry) => entry.message)).toEqual(["debug"]);
+            expect(http.entries.map((entry) => entry.message)).toEqual(["error", "critical"]);
+            expect(pager.entries.map((entry) => entry.message)).toEqual(["critical"]);
+        });
+
+        it("should skip a transport whose filter throws and still send to others", async () => {
+            vi.spyOn(console, "error").mockImplementation(() => {});
+            const broken = {
+                ...createMockTransport("broken"),
+                rules: {
+                    filter: () => {
+                        throw new Error("Bad filter");
+                    },
+                },
+            };
+            const working = createMockTransport("working");
+            Logger.init({transports: [broken, working]});
+
+            Logger.getInstance().error("Test");
+            await Logger.getInstance().flush();
+
+            expect(broken.entries).toHaveLength(0);
+            expect(working.entries).toHaveLength(1);
+            vi.mocked(console.error).mockRestore();
+        });
+
+        it("should report whether a level is enabled", () => {
+            const transport = {...createMockTransport(), rules: {minLevel: LogLevel.WARN}};
+            Logger.init({transports: [transport], minLevel: LogLevel.INFO});
+
+            const logger = Logger.getInstance();
+
+            expect(logger.isLevelEnabled(LogLevel.INFO)).toBe(false);
+            expect(logger.isLevelEnabled(LogLevel.WARN)).toBe(true);
+        });
+    });
+
+    describe("captureGlobalErrors", () => {
+        it("should hook process events and remove them on uninstall", () => {
+            const before = process.listenerCount("uncaughtException");
+            const handle = Logger.init({}).captureGlobalErrors();
+
+            expect(process.listenerCount("uncaughtException")).toBe(before + 1);
+
+            handle.uninstall();
+
+            expect(process.listenerCount("uncaughtException")).toBe(before);
+        });
+
+        it("should throw when already capturing", () => {
+            const logger = Logger.init({});
+            logger.captureGlobalErrors();
+
+            expect(() => logger.child({}).captureGlobalErrors()).toThrow("Global errors are already captured");
+        });
+
+        it("should allow capturing again after uninstall", () => {
+            const logger = Logger.init({});
+            logger.captureGlobalErrors().uninstall();
+
+            expect(() => logger.captureGlobalErrors()).not.toThrow();
+        });
+
+        it("should uninstall on reset", () => {
+            const before = process.listenerCount("unhandledRejection");
+            Logger.init({}).captureGlobalErrors();
+
+            Logger.reset();
+
+            expect(process.listenerCount("unhandledRejection")).toBe(before);
+        });
+
+        it("should uninstall on shutdown", async () => {
+            const before = process.listenerCount("uncaughtException");
+            const logger = Logger.init({});
+            logger.captureGlobalErrors();
+
+            await logger.shutdown();
+
+            expect(process.listenerCount("uncaughtException")).toBe(before);
+            expect(() => logger.captureGlobalErrors().uninstall()).not.toThrow();
+        });
+
+        it("should log captured errors with the source marker and the logger's bindings", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport]});
+            const handle = logger.child({service: "api"}).captureGlobalErrors({exitOnFatal: false});
+
+            const error = new Error("Boom");
+            process.emit("warning", error);
+            await logger.flush();
+            handle.uninstall();
+
+            expect(transport.entries[0]).toMatchObject({
+                level: LogLevel.WARN,
+                message: "Process warning",
+                error,
+                context: {service: "api", source: "warning"},
+            });
+        });
+    });
+
+    describe("breadcrumbs", () => {
+        it("should be disabled by default", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport]});
+
+            logger.info("Step");
+            logger.error("Failed");
+            await logger.flush();
+
+            expect(transport.entries[1]!.breadcrumbs).toBeUndefined();
+        });
+
+        it("should attach entries below the level to the next error", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport], breadcrumbs: true});
+
+            logger.debug("Cart loaded", {items: 2});
+            logger.warn("Slow response");
+            logger.error("Checkout failed");
+            await logger.flush();
+
+            expect(transport.entries[2]!.breadcrumbs).toEqual([
+                expect.objectContaining({level: LogLevel.DEBUG, message: "Cart loaded", data: {items: 2}}),
+                expect.objectContaining({level: LogLevel.WARN, message: "Slow response"}),
+            ]);
+            expect(transport.entries[0]!.breadcrumbs).toBeUndefined();
+        });
+
+        it("should not throw from the log call when the context has a throwing getter", async () => {
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport], breadcrumbs: true});
+            const context = {
+                get user(): string {
+                    throw new Error("Session expired");
+                },
+            };
+
+            expect(() => logger.warn("Slow response", context)).not.toThrow();
+            logger.error("Checkout failed");
+            await logger.flush();
+
+            expect(transport.entries.at(-1)!.breadcrumbs).toEqual([
+                expect.not.objectContaining({data: expect.anything()}),
+            ]);
+            consoleError.mockRestore();
+        });
+
+        it("should record entries below minLevel without sending them", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport], minLevel: LogLevel.ERROR, breadcrumbs: true});
+
+            logger.debug("Never sent");
+            logger.error("Failed");
+            await logger.flush();
+
+            expect(transport.entries).toHaveLength(1);
+            expect(transport.entries[0]!.breadcrumbs?.map((crumb) => crumb.message)).toEqual(["Never sent"]);
+        });
+
+        it("should respect maxBreadcrumbs and a custom level", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({
+                transports: [transport],
+                breadcrumbs: {maxBreadcrumbs: 2, level: LogLevel.WARN},
+            });
+
+            logger.info("a");
+            logger.info("b");
+            logger.info("c");
+            logger.warn("Degraded");
+            await logger.flush();
+
+            expect(transport.entries[3]!.breadcrumbs?.map((crumb) => crumb.message)).toEqual(["b", "c"]);
+        });
+
+        it("should include manual breadcrumbs", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport], breadcrumbs: true});
+
+            logger.addBreadcrumb({category: "ui.click", message: "Pay button", data: {id: "pay"}});
+            logger.error("Payment failed");
+            await logger.flush();
+
+            expect(transport.entries[0]!.breadcrumbs).toEqual([expect.objectContaining({
+                level: LogLevel.INFO,
+                category: "ui.click",
+                message: "Pay button",
+                data: {id: "pay"},
+            })]);
+        });
+
+        it("should snapshot the trail when the error is logged", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport], breadcrumbs: true});
+
+            logger.info("Before");
+            logger.error("Failed");
+            logger.info("After");
+            await logger.flush();
+
+            expect(transport.entries[1]!.breadcrumbs?.map((crumb) => crumb.message)).toEqual(["Before"]);
+        });
+
+        it("should keep separate trails per child logger", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport], breadcrumbs: true});
+            const first = logger.child({requestId: "req-1"});
+            const second = logger.child({requestId: "req-2"});
+
+            first.info("First step");
+            second.info("Second step");
+            first.error("First failed");
+            await logger.flush();
+
+            expect(transport.entries[2]!.breadcrumbs?.map((crumb) => crumb.message)).toEqual(["First step"]);
+        });
+
+        it("should keep separate trails per LogContext scope", async () => {
+            const transport = createMockTransport();
+            const logger = Logger.init({transports: [transport], breadcrumbs: true});
+
+            const request = (id: string, delay: number) => LogContext.run({requestId: id}, async () => {
+                logger.info(`Start ${id}`);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                LogContext.run({step: "pay"}, () => logger.info(`Pay ${id}`));
+                logger.error(`Failed ${id}`);
+            });
+
+            await Promise.all([request("req-1", 20), request("req-2", 5)]);
+            await logger.flush();
+
+            const failed = transport.entries.find((entry) => entry.message === "Failed req-1");
+            expect(failed?.breadcrumbs?.map((crumb) => crumb.message)).toEqual(["Start req-1", "Pay req-1"]);
+        });
+    });
+});
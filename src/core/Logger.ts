@@ -1,7 +1,14 @@
 import {createLogEntry, LogEntry} from "./LogEntry";
-import {LogLevel} from "./LogLevel";
-import {Transport} from "../transports/Transport";
-import {Plugin} from "../plugins/Plugin";
+import {levelLabel, LogLevel} from "./LogLevel";
+import {Transport, TransportDropError} from "../transports/Transport";
+import {LoggerPlugin, PluginDefinition, PluginError, PluginErrorPolicy} from "../plugins/Plugin";
+import {acceptsEntry, acceptsLevel} from "../transports/TransportRules";
+import {isError, toError} from "../serializers/serializeError";
+import {CaptureGlobalErrorsOptions, GlobalErrorsHandle, installGlobalHandlers, markReported} from "./globalErrors";
+import {Breadcrumb, BreadcrumbBuffer, BreadcrumbInput, BreadcrumbOptions} from "./Breadcrumbs";
+import {LogContext} from "./LogContext";
+import {generateId} from "./generateId";
+import {unrefTimer} from "./unrefTimer";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -15,12 +22,334 @@ export interface LoggerConfig {
     /**
      * List of plugins that process each entry before sending.
      * Executed in order — output of one is input of the next.
+     * Functions or PluginDefinition objects with lifecycle hooks, error policy and timeout.
      */
-    plugins?: Plugin[];
+    plugins?: LoggerPlugin[];
+
+    /**
+     * Entries below this level are ignored — not created, not processed, not sent.
+     * Default: LogLevel.DEBUG (everything but TRACE).
+     */
+    minLevel?: LogLevel;
+
+    /**
+     * Record entries below a level as breadcrumbs and attach the trail to entries at or above it.
+     * true uses the defaults (50 breadcrumbs, LogLevel.ERROR). Default: false.
+     */
+    breadcrumbs?: BreadcrumbOptions | boolean;
+
+    /**
+     * Creates entry.id. Default: a random UUID v4.
+     * Swap it for ULIDs, snowflakes or whatever your backend indexes best.
+     */
+    generateId?: () => string;
+}
+
+/**
+ * What a named logger may set for itself — everything it leaves out is inherited
+ * from the nearest ancestor that sets it, and finally from the root logger's config.
+ */
+export interface NamedLoggerConfig {
+    minLevel?: LogLevel;
+    transports?: Transport[];
+    plugins?: LoggerPlugin[];
+}
+
+/**
+ * What logger.configure() changes — null makes a named logger inherit the value again.
+ */
+export type LoggerConfigPatch = {
+    [K in keyof NamedLoggerConfig]?: NamedLoggerConfig[K] | null;
+};
+
+export interface ChangeOptions {
+    /**
+     * Who made the change — passed on in the configChange event. Default: "api".
+     */
+    source?: string;
+}
+
+/**
+ * Emitted once per changed value — "payments" switched minLevel from inherited (null) to DEBUG.
+ * Transports and plugins are described by their names, "<anonymous>" for unnamed plugins.
+ */
+export interface ConfigChange {
+    /**
+     * Full name of the logger — "" for a root logger.
+     */
+    logger: string;
+    key: keyof NamedLoggerConfig;
+
+    /**
+     * null when the logger inherited the value.
+     */
+    previous: LogLevel | readonly string[] | null;
+    current: LogLevel | readonly string[] | null;
+    source: string;
+    timestamp: Date;
+}
+
+/**
+ * A transport failed to send an entry, to flush or to close — or its routing rules threw ("route").
+ */
+export interface TransportErrorEvent {
+    transport: string;
+    operation: "send" | "route" | "flush" | "close";
+    error: unknown;
+
+    /**
+     * The entry that was not delivered — for "send" and "route".
+     */
+    entry?: LogEntry;
+}
+
+/**
+ * A plugin threw, rejected, timed out, or failed to set up or tear down.
+ */
+export interface PluginErrorEvent {
+    plugin: string;
+    error: PluginError;
+
+    /**
+     * The entry the plugin was processing — missing for setup and teardown failures.
+     */
+    entry?: LogEntry;
+}
+
+/**
+ * Why an entry never reached the transports:
+ * - "plugin" — a plugin returned null
+ * - "pluginError" — a plugin failed and its error policy is "drop"
+ * - "transport" — a transport rejected it with a TransportDropError
+ * - "shutdown" — logged after shutdown()
+ */
+export type DropReason = "plugin" | "pluginError" | "transport" | "shutdown";
+
+export interface DroppedEvent {
+    reason: DropReason;
+    level: LogLevel;
+    message: string;
+
+    /**
+     * The plugin that dropped it — for "plugin" and "pluginError".
+     */
+    plugin?: string;
+
+    /**
+     * The transport that dropped it — for "transport".
+     */
+    transport?: string;
+
+    /**
+     * The entry as the plugin or transport received it — missing for "shutdown", no entry is created then.
+     */
+    entry?: LogEntry;
+}
+
+/**
+ * Emitted when logger.flush() resolves.
+ */
+export interface FlushedEvent {
+    /**
+     * false if the deadline passed before everything was delivered.
+     */
+    complete: boolean;
+    durationMs: number;
+}
+
+/**
+ * Events of logger.on(), with the payload each listener receives.
+ */
+export interface LoggerEvents {
+    configChange: ConfigChange;
+    transportError: TransportErrorEvent;
+    pluginError: PluginErrorEvent;
+    dropped: DroppedEvent;
+    flushed: FlushedEvent;
+}
+
+/**
+ * Snapshot returned by logger.getStats() — counted since the root logger was created,
+ * for the whole hierarchy. Keys are level labels, transport names and plugin names.
+ */
+export interface LoggerStats {
+    /**
+     * Entries that passed the level check, per level.
+     */
+    logged: Record<string, number>;
+
+    dropped: {
+        /**
+         * Entries a plugin returned null for or dropped after failing.
+         */
+        byPlugin: Record<string, number>;
+
+        /**
+         * Entries a transport rejected with a TransportDropError — not counted as sent or failed.
+         */
+        byTransport: Record<string, number>;
+        afterShutdown: number;
+    };
+
+    /**
+     * failed counts send() rejections and throwing routing rules.
+     */
+    transports: Record<string, { sent: number; failed: number }>;
+
+    /**
+     * Failures per plugin — including setup, teardown and timeouts.
+     */
+    pluginErrors: Record<string, number>;
+
+    /**
+     * Time from handing an entry to its transports until every send() settled.
+     */
+    dispatch: { count: number; averageLatencyMs: number };
+
+    /**
+     * Entries in the plugin pipeline or being delivered right now.
+     */
+    pending: number;
 }
 
+/**
+ * Methods generated by withLevels() — one per custom level, shaped like logger.log() without the level.
+ */
+export type LevelMethods<T extends Record<string, LogLevel>> = {
+    [K in keyof T]: (message: string, errorOrContext?: unknown, context?: Record<string, unknown>) => void;
+};
+
 // Internal — after init all values must be defined
-type ResolvedConfig = Required<LoggerConfig>;
+type ResolvedConfig = Required<Omit<LoggerConfig, "breadcrumbs">> & {
+    breadcrumbs: Required<BreadcrumbOptions> | null;
+};
+
+/**
+ * Internal — what a log call carries besides level and message.
+ */
+interface EntryExtras {
+    error?: Error;
+    context?: Record<string, unknown>;
+    breadcrumbs?: readonly Breadcrumb[];
+}
+
+/**
+ * Internal — a node of the logger hierarchy. "payments.stripe" is a child of "payments",
+ * which is a child of the root node (name "").
+ *
+ * Intermediate nodes exist even if nobody asked for their logger —
+ * Logger.get("payments", {...}) after Logger.get("payments.stripe") must still reach it.
+ */
+interface LoggerNode {
+    name: string;
+    parent: LoggerNode | null;
+
+    /**
+     * Only what this node sets itself — always empty for the root node, whose values are the core config.
+     */
+    overrides: NamedLoggerConfig;
+
+    /**
+     * Created on first Logger.get() — the same name always returns the same logger.
+     */
+    logger: Logger | null;
+}
+
+/**
+ * Internal — state shared by a logger and all of its children.
+ *
+ * Why a separate object?
+ * A child logger must see the same transports, plugins and in-flight work as its parent —
+ * addTransport() on the parent affects the child, flush() on the child waits for the parent's entries.
+ * Sharing one object by reference gives us that for free.
+ */
+interface LoggerCore {
+    config: ResolvedConfig;
+
+    /**
+     * In-flight work, tracked so flush() can wait for it.
+     *
+     * Why two sets?
+     * A buffering transport (HttpTransport) only settles its send() promise after
+     * its batch is sent. flush() must first wait for the plugin pipelines (so every entry
+     * has reached its transports), then ask transports to flush, and only then wait for deliveries.
+     */
+    pipelines: Set<Promise<void>>;
+    deliveries: Set<Promise<void>>;
+
+    isShutdown: boolean;
+    hasWarnedAfterShutdown: boolean;
+
+    /**
+     * True while a plugin's teardown() runs — what it logs synchronously is still delivered after shutdown().
+     */
+    isTearingDown: boolean;
+    shutdownPromise: Promise<boolean> | null;
+
+    /**
+     * Installed by captureGlobalErrors() — at most one per core, the hooks are process-wide.
+     */
+    globalErrors: GlobalErrorsHandle | null;
+
+    /**
+     * Breadcrumb trails of LogContext scopes, keyed by LogContext.rootScope().
+     * Concurrent requests each get their own trail, and it disappears with the request.
+     */
+    scopeBreadcrumbs: WeakMap<object, BreadcrumbBuffer>;
+
+    /**
+     * The logger hierarchy, keyed by full name — the root node is "".
+     */
+    nodes: Map<string, LoggerNode>;
+
+    /**
+     * Names given to plugins with addPlugin(plugin, name) — other plugins go by their own name.
+     */
+    pluginNames: WeakMap<LoggerPlugin, string>;
+
+    /**
+     * Plugins used by any logger of the hierarchy — set up when they join, torn down when they leave.
+     */
+    activePlugins: Set<LoggerPlugin>;
+
+    /**
+     * Resolves to false if setup() failed — the plugin is then handled like a failing one, without reporting it again.
+     */
+    pluginSetups: WeakMap<PluginDefinition, Promise<boolean>>;
+
+    listeners: { [E in keyof LoggerEvents]: Set<(payload: LoggerEvents[E]) => void> };
+
+    stats: StatsCounters;
+}
+
+/**
+ * Internal — the mutable side of LoggerStats. Levels stay numbers until getStats(),
+ * so a label defined later with defineLevels() still shows up.
+ */
+interface StatsCounters {
+    logged: Map<LogLevel, number>;
+    droppedByPlugin: Map<string, number>;
+    droppedByTransport: Map<string, number>;
+    droppedAfterShutdown: number;
+    transports: Map<string, { sent: number; failed: number }>;
+    pluginErrors: Map<string, number>;
+    dispatches: number;
+    dispatchMs: number;
+}
+
+/**
+ * One or more non-empty segments separated by dots — "payments", "payments.stripe".
+ */
+const LOGGER_NAME_PATTERN = /^[^.\s]+(\.[^.\s]+)*$/;
+
+const CONFIG_KEYS = ["minLevel", "transports", "plugins"] as const;
+
+const DEFAULT_PLUGIN_TIMEOUT = 5000;
+
+/**
+ * Returned by runPlugin() when the plugin failed — null already means "drop this entry".
+ */
+const PLUGIN_FAILED = Symbol("pluginFailed");
 
 // ─── Logger ───────────────────────────────────────────────────────────────────
 
@@ -28,18 +357,43 @@ export class Logger {
     /**
      * Singleton instance.
      * Private static — exists on the class, not on the instance.
-     * The only instance in the entire application.
+     * The root logger of the application — loggers from Logger.create() are not stored here.
      */
     private static instance: Logger | null = null;
 
-    private config: ResolvedConfig;
+    private readonly core: LoggerCore;
+
+    /**
+     * Where this logger sits in the hierarchy — child loggers keep the node of their parent.
+     */
+    private readonly node: LoggerNode;
+
+    /**
+     * Context bound by child() — merged into every entry this logger creates.
+     * Empty for the root logger.
+     */
+    private readonly bindings: Record<string, unknown>;
+
+    /**
+     * Breadcrumb trail used outside of LogContext scopes — one per logger,
+     * so a child logger created per request keeps its own trail.
+     */
+    private ownBreadcrumbs: BreadcrumbBuffer | null = null;
+
+    /**
+     * Custom levels installed by withLevels() — passed on to child loggers.
+     */
+    private readonly customLevels: Record<string, LogLevel> = {};
 
     /**
      * Private constructor — prevents `new Logger()` from outside.
-     * The only way to get an instance is through `Logger.init()` or `Logger.getInstance()`.
+     * Root loggers come from `Logger.init()` and `Logger.create()`.
+     * Child and named loggers are created through `logger.child()` and `Logger.get()` and share the root's core.
      */
-    private constructor(config: LoggerConfig) {
-        this.config = this.resolveConfig(config);
+    private constructor(core: LoggerCore, node: LoggerNode, bindings: Record<string, unknown> = {}) {
+        this.core = core;
+        this.node = node;
+        this.bindings = bindings;
     }
 
     // ─── Singleton API ──────────────────────────────────────────────────────────
@@ -59,10 +413,42 @@ export class Logger {
             );
         }
 
-        Logger.instance = new Logger(config);
+        Logger.instance = Logger.create(config);
         return Logger.instance;
     }
 
+    /**
+     * Creates an independent root logger — its own transports, plugins, hierarchy and lifecycle.
+     * It is NOT the singleton: Logger.init() and Logger.getInstance() are not affected.
+     *
+     * Why next to a singleton?
+     * A micro-frontend or a library that wants its own logging must not clobber the host's —
+     * and must not fail because the host already called Logger.init().
+     *
+     * @example
+     * const logger = Logger.create({transports: [new HttpTransport({url: widgetLogsUrl})]})
+     */
+    static create(config: LoggerConfig): Logger {
+        const core = createCore(config);
+        const root = getNode(core, "");
+
+        root.logger = new Logger(core, root);
+        void root.logger.syncPlugins();
+
+        return root.logger;
+    }
+
+    /**
+     * Named logger of the singleton — shorthand for Logger.getInstance().get(name, config).
+     * Like getInstance(), it throws if init has not been called.
+     *
+     * @example
+     * const logger = Logger.get("payments.stripe", {minLevel: LogLevel.TRACE})
+     */
+    static get(name: string, config?: NamedLoggerConfig): Logger {
+        return Logger.getInstance().get(name, config);
+    }
+
     /**
      * Get the existing instance.
      * Throws an error if init has not been called — fail fast principle.
@@ -87,116 +473,1074 @@ export class Logger {
      * that it is clearly documented what this is for.
      */
     static reset(): void {
+        Logger.instance?.core.globalErrors?.uninstall();
         Logger.instance = null;
     }
 
     // ─── Public logging API ─────────────────────────────────────────────────────
 
+    trace(message: string, context?: Record<string, unknown>): void {
+        this.write(LogLevel.TRACE, message, {context});
+    }
+
     debug(message: string, context?: Record<string, unknown>): void {
-        this.log(LogLevel.DEBUG, message, {context});
+        this.write(LogLevel.DEBUG, message, {context});
     }
 
     info(message: string, context?: Record<string, unknown>): void {
-        this.log(LogLevel.INFO, message, {context});
+        this.write(LogLevel.INFO, message, {context});
     }
 
     warn(message: string, context?: Record<string, unknown>): void {
-        this.log(LogLevel.WARN, message, {context});
+        this.write(LogLevel.WARN, message, {context});
     }
 
-    error(message: string, error?: Error, context?: Record<string, unknown>): void {
-        this.log(LogLevel.ERROR, message, {error, context});
+    /**
+     * Accepts unknown — that is what `catch (error)` gives us.
+     * Values that are not Error instances (strings, plain objects) are wrapped
+     * by toError(), so entry.error is always a real Error.
+     */
+    error(message: string, error?: unknown, context?: Record<string, unknown>): void {
+        this.writeError(LogLevel.ERROR, message, error, context);
     }
 
-    // ─── Plugin management ──────────────────────────────────────────────────────
+    /**
+     * For failures the application cannot recover from — typically logged right before exiting.
+     */
+    fatal(message: string, error?: unknown, context?: Record<string, unknown>): void {
+        this.writeError(LogLevel.FATAL, message, error, context);
+    }
 
     /**
-     * Add a plugin after initialization.
-     * Plugins are executed in the order they are added.
+     * Logs at any level — built-in or defined with defineLevels().
+     *
+     * The third argument is the context when it is a plain object and no fourth argument is given,
+     * otherwise it is the error — the same shape as logger.error().
+     *
+     * @example
+     * logger.log(levels.audit, "Role changed", {userId, role})
+     * logger.log(LogLevel.FATAL, "Database unreachable", error, {host})
+     */
+    log(level: LogLevel, message: string, context?: Record<string, unknown>): void;
+    log(level: LogLevel, message: string, error: unknown, context?: Record<string, unknown>): void;
+    log(level: LogLevel, message: string, errorOrContext?: unknown, context?: Record<string, unknown>): void {
+        const isContext = context === undefined
+            && (errorOrContext === undefined || (typeof errorOrContext === "object" && !isError(errorOrContext)));
+
+        if (isContext) {
+            this.write(level, message, {context: errorOrContext as Record<string, unknown> | undefined});
+        } else {
+            this.writeError(level, message, errorOrContext, context);
+        }
+    }
+
+    /**
+     * Adds a method per custom level to this logger and its future children, and returns it typed.
+     * Names of existing Logger members are rejected.
+     *
+     * @example
+     * const levels = defineLevels({audit: {value: 1.5}})
+     * const logger = Logger.init({...}).withLevels(levels)
+     * logger.audit("Role changed", {userId})
      */
-    addPlugin(plugin: Plugin): void {
-        this.config.plugins.push(plugin);
+    withLevels<const T extends Record<string, LogLevel>>(levels: T): this & LevelMethods<T> {
+        for (const [name, level] of Object.entries(levels)) {
+            // hasOwn — "toString" or "constructor" are in every plain object, customLevels included
+            if (name in this && !Object.hasOwn(this.customLevels, name)) {
+                throw new Error(`Level method "${name}" would replace an existing Logger member.`);
+            }
+
+            this.customLevels[name] = level;
+            Object.defineProperty(this, name, {
+                value: (message: string, errorOrContext?: unknown, context?: Record<string, unknown>) =>
+                    this.log(level, message, errorOrContext, context),
+                configurable: true,
+                writable: true,
+            });
+        }
+
+        return this as this & LevelMethods<T>;
     }
 
-    // ─── Transport management ───────────────────────────────────────────────────
+    // ─── Breadcrumbs ────────────────────────────────────────────────────────────
 
-    addTransport(transport: Transport): void {
-        const exists = this.config.transports.some((t) => t.name === transport.name);
+    /**
+     * Adds a breadcrumb to the current trail — e.g. a navigation, a click or an outgoing request.
+     * Level defaults to INFO. Does nothing unless breadcrumbs are enabled.
+     *
+     * @example
+     * logger.addBreadcrumb({category: "http", message: "GET /api/cart", data: {status: 200}})
+     */
+    addBreadcrumb(breadcrumb: BreadcrumbInput): void {
+        this.breadcrumbTrail()?.add({level: LogLevel.INFO, ...breadcrumb, timestamp: new Date()});
+    }
 
-        if (exists) {
+    // ─── Global errors ──────────────────────────────────────────────────────────
+
+    /**
+     * Reports errors nobody caught — uncaught exceptions, unhandled rejections and, in Node,
+     * process warnings — as entries with `context.source` set to where they came from.
+     *
+     * Errors already passed to logger.error() are not reported again when they are rethrown.
+     * In Node, a fatal error flushes the transports and exits with code 1 (see exitOnFatal).
+     *
+     * @example
+     * const handle = Logger.init({...}).captureGlobalErrors()
+     * handle.uninstall() // e.g. in tests or on hot reload
+     */
+    captureGlobalErrors(options: CaptureGlobalErrorsOptions = {}): GlobalErrorsHandle {
+        if (this.core.globalErrors) {
             throw new Error(
-                `Transport with name "${transport.name}" is already registered.`
+                "Global errors are already captured. Call uninstall() on the existing handle first."
             );
         }
 
-        this.config.transports.push(transport);
+        const installed = installGlobalHandlers({
+            report: (level, message, error, context) => this.write(level, message, {error, context}),
+            flush: (timeoutMs) => this.flush(timeoutMs),
+        }, options);
+
+        const handle: GlobalErrorsHandle = {
+            uninstall: () => {
+                installed.uninstall();
+                if (this.core.globalErrors === handle) this.core.globalErrors = null;
+            },
+        };
+
+        this.core.globalErrors = handle;
+        return handle;
     }
 
-    removeTransport(name: string): void {
-        this.config.transports = this.config.transports.filter(
-            (t) => t.name !== name
+    // ─── Levels ─────────────────────────────────────────────────────────────────
+
+    /**
+     * Would an entry of this level reach at least one transport?
+     * Checks the global minLevel and the level rules of every transport.
+     *
+     * Useful to guard expensive log arguments:
+     * if (logger.isLevelEnabled(LogLevel.DEBUG)) logger.debug("State", {state: dump()})
+     */
+    isLevelEnabled(level: LogLevel): boolean {
+        if (level < this.resolve("minLevel")) return false;
+
+        return this.resolve("transports").some((transport) =>
+            acceptsLevel(transport.rules, level)
         );
     }
 
-    // ─── Core ───────────────────────────────────────────────────────────────────
+    // ─── Child loggers ──────────────────────────────────────────────────────────
 
-    private async log(
-        level: LogLevel,
-        message: string,
-        extras: { error?: Error; context?: Record<string, unknown> } = {}
-    ): Promise<void> {
-        /**
-         * Run the plugin pipeline — entry passes through each plugin in order.
-         * If a plugin returns null, we stop the pipeline and send nothing.
-         *
-         * Why for...of instead of reduce?
-         * With reduce we would have to wait for all plugins and then check for null.
-         * With for...of we can exit as soon as we get null — early exit, more efficient.
-         * Also, async/await is more readable inside for...of than inside a reduce callback.
-         */
-        let processedEntry: LogEntry | null = createLogEntry({
-            level,
-            message,
-            error: extras.error,
-            context: extras.context,
-        });
+    /**
+     * Creates a child logger with bound context.
+     *
+     * The child shares transports, plugins and lifecycle with its parent —
+     * it is NOT a new singleton and does not require Logger.init().
+     * Bindings are merged into the context of every entry it creates.
+     *
+     * Precedence (last wins): parent bindings → child bindings → per-call context.
+     *
+     * @example
+     * const requestLogger = logger.child({requestId, tenantId})
+     * requestLogger.info("Order created", {orderId}) // context: {requestId, tenantId, orderId}
+     */
+    child<L extends Logger>(this: L, bindings: Record<string, unknown>): L {
+        return Logger.derive(this, {...this.bindings, ...bindings});
+    }
+
+    /**
+     * Creates a logger on the node of parent with the given bindings and the custom levels of parent.
+     *
+     * Why is the result an L?
+     * The level methods are the only members an L adds to a Logger — and the child gets all of them.
+     */
+    private static derive<L extends Logger>(parent: L, bindings: Record<string, unknown>): L {
+        const child = new Logger(parent.core, parent.node, bindings);
+        child.withLevels(parent.customLevels);
+
+        return child as L;
+    }
 
-        for (const plugin of this.config.plugins) {
-            processedEntry = await plugin(processedEntry);
+    // ─── Named loggers ──────────────────────────────────────────────────────────
 
-            if (processedEntry === null) return;
+    /**
+     * Returns the named logger below this one — on a root logger the name is the full name,
+     * on Logger.get("payments") the name "stripe" means "payments.stripe".
+     * The same name always returns the same logger.
+     *
+     * minLevel, transports and plugins are inherited from the nearest ancestor that sets them.
+     * Passing config sets them for this node (and so for its descendants) — fields left out keep
+     * their current value. Lifecycle is shared with the root: flush() and shutdown() on any
+     * named logger cover the whole hierarchy.
+     *
+     * Entries of a named logger carry its name in entry.logger.
+     *
+     * @example
+     * root.get("payments", {transports: [paymentsTransport]})
+     * root.get("payments.stripe").info("Charge created") // → paymentsTransport
+     */
+    get(name: string, config?: NamedLoggerConfig): Logger {
+        if (!LOGGER_NAME_PATTERN.test(name)) {
+            throw new Error(`Invalid logger name "${name}". Use dot-separated segments, e.g. "payments.stripe".`);
         }
 
-        this.dispatch(processedEntry);
+        const node = getNode(this.core, this.node.name ? `${this.node.name}.${name}` : name);
+        const logger = node.logger ??= new Logger(this.core, node);
+        if (config) logger.applyPatch(config, "api");
+
+        return logger;
     }
 
     /**
-     * Sends the entry to all registered transports in parallel.
+     * Full dot-separated name of this logger — "" for a root logger.
+     */
+    get name(): string {
+        return this.node.name;
+    }
+
+    // ─── Runtime configuration ──────────────────────────────────────────────────
+
+    /**
+     * The minLevel in effect for this logger — its own or the inherited one.
+     */
+    get level(): LogLevel {
+        return this.resolve("minLevel");
+    }
+
+    /**
+     * Changes minLevel of this logger, or of the named logger below it. On a named logger,
+     * null drops its own level so it inherits again. Takes effect for the next log call.
      *
-     * Why Promise.allSettled instead of Promise.all?
-     * Promise.all — if one transport fails, the others do not execute.
-     * Promise.allSettled — all execute, we collect all errors and log them.
+     * @example
+     * Logger.getInstance().setLevel("payments.stripe", LogLevel.DEBUG, {source: "admin:jane"})
+     */
+    setLevel(level: LogLevel | null, options?: ChangeOptions): void;
+    setLevel(name: string, level: LogLevel | null, options?: ChangeOptions): void;
+    setLevel(nameOrLevel: string | LogLevel | null, levelOrOptions?: LogLevel | null | ChangeOptions, options?: ChangeOptions): void {
+        if (typeof nameOrLevel === "string") {
+            this.get(nameOrLevel).setLevel(levelOrOptions as LogLevel | null, options);
+            return;
+        }
+
+        this.applyPatch({minLevel: nameOrLevel}, (levelOrOptions as ChangeOptions | undefined)?.source ?? "api");
+    }
+
+    /**
+     * Replaces minLevel, transports and plugins of this logger in one step — either everything
+     * in the patch is applied or, if it is invalid, nothing is and it throws right away
+     * (like addTransport(), not as a rejected promise). Keys left out stay as they are;
+     * on a named logger, null makes it inherit again.
      *
-     * In the context of a logger this is critical: if the HTTP transport fails,
-     * the Console transport must still work.
+     * Entries already in the plugin pipeline finish with the plugins they started with and
+     * are delivered to the new transports. Transports no longer used by any logger are flushed
+     * before the returned promise resolves — they are not closed, close them yourself when done.
+     * Plugins no longer used are torn down, new ones set up.
+     *
+     * @example
+     * await logger.configure({transports: [new HttpTransport({url: fallbackUrl})]}, {source: "failover"})
      */
-    private dispatch(entry: LogEntry): void {
-        const promises = this.config.transports.map((transport) =>
-            transport.send(entry).catch((error) => {
-                // Fallback — use console directly to avoid infinite recursion
-                console.error(`[Logger] Transport "${transport.name}" failed:`, error);
-            })
-        );
+    configure(patch: LoggerConfigPatch, options: ChangeOptions = {}): Promise<void> {
+        const before = this.allTransports();
+        const teardowns = this.applyPatch(patch, options.source ?? "api");
+
+        const remaining = new Set(this.allTransports());
+        const retired = before.filter((transport) => !remaining.has(transport));
 
-        Promise.allSettled(promises);
+        return Promise.allSettled([
+            ...retired.map((transport) => this.callHook(transport, "flush")),
+            teardowns,
+        ]).then(() => undefined);
     }
 
-    // ─── Config ─────────────────────────────────────────────────────────────────
+    /**
+     * Subscribes to logger events of this logger's hierarchy. Returns a function that unsubscribes.
+     *
+     * - "configChange" — levels, transports or plugins changed (see ConfigChange)
+     * - "transportError" and "pluginError" — failures, reported to the console only while nobody listens
+     * - "dropped" — an entry was dropped by a plugin or after shutdown
+     * - "flushed" — flush() resolved
+     *
+     * A throwing listener is reported to the console and does not affect the others.
+     *
+     * @example
+     * logger.on("transportError", ({transport, error}) => alerts.notify(`Logging to ${transport} fails`, error))
+     */
+    on<E extends keyof LoggerEvents>(event: E, listener: (payload: LoggerEvents[E]) => void): () => void {
+        const listeners = this.core.listeners[event] as Set<(payload: LoggerEvents[E]) => void>;
+        listeners.add(listener);
 
-    private resolveConfig(config: LoggerConfig): ResolvedConfig {
-        return {
-            transports: config.transports ?? [],
-            plugins: config.plugins ?? [],
+        return () => {
+            listeners.delete(listener);
         };
     }
-}
\ No newline at end of file
+
+    // ─── Diagnostics ────────────────────────────────────────────────────────────
+
+    /**
+     * Counters of the whole hierarchy — for health checks and metrics exporters.
+     *
+     * @example
+     * app.get("/health", (req, res) => {
+     *     const {transports, pending} = logger.getStats()
+     *     res.json({healthy: pending < 1000, transports})
+     * })
+     */
+    getStats(): LoggerStats {
+        const stats = this.core.stats;
+        const logged: Record<string, number> = {};
+
+        for (const [level, count] of stats.logged) {
+            const label = levelLabel(level);
+            logged[label] = (logged[label] ?? 0) + count;
+        }
+
+        return {
+            logged,
+            dropped: {
+                byPlugin: Object.fromEntries(stats.droppedByPlugin),
+                byTransport: Object.fromEntries(stats.droppedByTransport),
+                afterShutdown: stats.droppedAfterShutdown,
+            },
+            transports: Object.fromEntries(
+                [...stats.transports].map(([name, counts]) => [name, {...counts}])
+            ),
+            pluginErrors: Object.fromEntries(stats.pluginErrors),
+            dispatch: {
+                count: stats.dispatches,
+                averageLatencyMs: stats.dispatches > 0 ? stats.dispatchMs / stats.dispatches : 0,
+            },
+            pending: this.core.pipelines.size + this.core.deliveries.size,
+        };
+    }
+
+    // ─── Lifecycle ──────────────────────────────────────────────────────────────
+
+    /**
+     * Waits until every entry logged so far has been delivered (or failed),
+     * and asks transports to send whatever they are buffering.
+     *
+     * Resolves to false if the deadline passed first — the remaining work keeps
+     * running in the background, we just stop waiting for it.
+     * Never rejects — transport failures are reported the same way as in dispatch.
+     */
+    flush(timeoutMs = 5000): Promise<boolean> {
+        const start = performance.now();
+
+        return withDeadline(this.drain(), timeoutMs).then((complete) => {
+            this.emit("flushed", {complete, durationMs: performance.now() - start});
+            return complete;
+        });
+    }
+
+    /**
+     * Flushes, tears down plugins and then closes every transport — call it before the process exits
+     * or at the end of a serverless handler.
+     *
+     * Why tear down plugins before closing the transports?
+     * teardown() may log final entries — dedupe reports the duplicates it is still holding back.
+     *
+     * After shutdown, log calls are dropped (with a single console warning),
+     * plugin/transport management still works but has no effect on delivery.
+     * Hooks installed by captureGlobalErrors() are removed — uncaught errors are the runtime's again.
+     * Calling shutdown() again returns the same promise.
+     */
+    shutdown(timeoutMs = 5000): Promise<boolean> {
+        if (this.core.shutdownPromise) return this.core.shutdownPromise;
+
+        this.core.isShutdown = true;
+        this.core.globalErrors?.uninstall();
+        this.core.shutdownPromise = withDeadline(
+            // Entries in flight pass the plugins before they are torn down
+            Promise.allSettled([...this.core.pipelines])
+                .then(() => this.tearDownPlugins([...this.core.activePlugins]))
+                .then(() => this.drain())
+                .then(() => this.closeTransports()),
+            timeoutMs
+        );
+
+        return this.core.shutdownPromise;
+    }
+
+    // ─── Plugin management ──────────────────────────────────────────────────────
+
+    /**
+     * Add a plugin after initialization.
+     * Plugins are executed in the order they are added.
+     *
+     * The name (default: the definition's or the function's name) is what removePlugin() takes and what
+     * configChange events report — a name given here or in a definition must be unique among the logger's plugins.
+     *
+     * On a named logger this gives the node its own plugin list, starting from the inherited one —
+     * the root's plugins are not touched. The same goes for the other methods below.
+     */
+    addPlugin(plugin: LoggerPlugin, name?: string): void {
+        const names = new Map(name === undefined ? [] : [[plugin, name]]);
+
+        this.applyPatch({plugins: [...this.resolve("plugins"), plugin]}, "api", names);
+    }
+
+    /**
+     * Removes a plugin by name or by reference. Entries already in the pipeline still pass it.
+     * A definition's teardown() runs once no logger of the hierarchy uses it.
+     */
+    removePlugin(nameOrPlugin: string | LoggerPlugin): void {
+        this.applyPatch({
+            plugins: this.resolve("plugins").filter((plugin) =>
+                plugin !== nameOrPlugin && this.pluginName(plugin) !== nameOrPlugin
+            ),
+        }, "api");
+    }
+
+    // ─── Transport management ───────────────────────────────────────────────────
+
+    addTransport(transport: Transport): void {
+        this.applyPatch({transports: [...this.resolve("transports"), transport]}, "api");
+    }
+
+    removeTransport(name: string): void {
+        this.applyPatch({transports: this.resolve("transports").filter((t) => t.name !== name)}, "api");
+    }
+
+    // ─── Core ───────────────────────────────────────────────────────────────────
+
+    /**
+     * Entry point of every public log method — starts the pipeline and tracks it.
+     *
+     * Why not just call runPipeline() and drop the promise?
+     * A dropped promise cannot be awaited — flush() would have nothing to wait for,
+     * and a failing plugin would end up as an unhandled rejection.
+     */
+    private write(level: LogLevel, message: string, extras: EntryExtras = {}): void {
+        if (this.core.isShutdown && !this.core.isTearingDown) {
+            this.core.stats.droppedAfterShutdown++;
+            this.emit("dropped", {reason: "shutdown", level, message});
+            this.warnAfterShutdown();
+            return;
+        }
+
+        // Before the level check — DEBUG lines that are never sent still belong in the trail
+        const breadcrumbs = this.handleBreadcrumbs(level, message, extras.context);
+
+        // Short-circuit — nobody would receive this entry, don't pay for building it
+        if (!this.isLevelEnabled(level)) return;
+
+        increment(this.core.stats.logged, level);
+
+        const pipeline = this.runPipeline(level, message, {...extras, breadcrumbs}).catch((error) => {
+            console.error("[Logger] Failed to process log entry:", error);
+        });
+
+        this.track(this.core.pipelines, pipeline);
+    }
+
+    private writeError(level: LogLevel, message: string, error: unknown, context?: Record<string, unknown>): void {
+        // Rethrown after logging, it must not come back as an uncaught exception
+        markReported(error);
+
+        this.write(level, message, {
+            error: error === undefined ? undefined : toError(error),
+            context,
+        });
+    }
+
+    private async runPipeline(level: LogLevel, message: string, extras: EntryExtras = {}): Promise<void> {
+        /**
+         * Run the plugin pipeline — entry passes through each plugin in order.
+         * If a plugin returns null, we stop the pipeline and send nothing.
+         *
+         * Why for...of instead of reduce?
+         * With reduce we would have to wait for all plugins and then check for null.
+         * With for...of we can exit as soon as we get null — early exit, more efficient.
+         * Also, async/await is more readable inside for...of than inside a reduce callback.
+         */
+        const entry = createLogEntry({
+            id: this.core.config.generateId(),
+            level,
+            message,
+            error: extras.error,
+            context: this.mergeBindings(extras.context),
+            logger: this.node.name || undefined,
+        });
+
+        let processedEntry: LogEntry = extras.breadcrumbs ? {...entry, breadcrumbs: extras.breadcrumbs} : entry;
+
+        for (const plugin of this.resolve("plugins")) {
+            const result = await this.runPlugin(plugin, processedEntry);
+
+            if (result === PLUGIN_FAILED) {
+                const policy: PluginErrorPolicy = typeof plugin === "function" ? "skip" : plugin.onError ?? "skip";
+
+                if (policy === "drop") return this.drop("pluginError", plugin, processedEntry);
+                if (policy === "passThrough") break;
+                continue;
+            }
+
+            if (result === null) return this.drop("plugin", plugin, processedEntry);
+            processedEntry = result;
+        }
+
+        this.dispatch(processedEntry);
+    }
+
+    /**
+     * Runs one plugin, isolated — a throw, a rejection or a timeout is reported with the plugin's name
+     * and turned into PLUGIN_FAILED, so the pipeline can apply the plugin's error policy.
+     */
+    private async runPlugin(plugin: LoggerPlugin, entry: LogEntry): Promise<LogEntry | null | typeof PLUGIN_FAILED> {
+        const name = this.pluginName(plugin) || "<anonymous>";
+
+        if (typeof plugin !== "function" && (await this.core.pluginSetups.get(plugin)) === false) {
+            return PLUGIN_FAILED;
+        }
+
+        try {
+            const result = typeof plugin === "function" ? plugin(entry) : plugin.process(entry);
+            if (!(result instanceof Promise)) return result;
+
+            const timeoutMs = typeof plugin === "function" ? DEFAULT_PLUGIN_TIMEOUT : plugin.timeout ?? DEFAULT_PLUGIN_TIMEOUT;
+            return await withPluginTimeout(result, timeoutMs, name);
+        } catch (error) {
+            this.reportPluginError(error instanceof PluginError && error.plugin === name
+                ? error
+                : new PluginError(name, `Plugin "${name}" failed.`, {cause: error}), entry);
+            return PLUGIN_FAILED;
+        }
+    }
+
+    private drop(reason: "plugin" | "pluginError", plugin: LoggerPlugin, entry: LogEntry): void {
+        const name = this.pluginName(plugin) || "<anonymous>";
+
+        increment(this.core.stats.droppedByPlugin, name);
+        this.emit("dropped", {reason, level: entry.level, message: entry.message, plugin: name, entry});
+    }
+
+    /**
+     * Sends the entry to all registered transports whose rules accept it, in parallel.
+     *
+     * Why Promise.allSettled instead of Promise.all?
+     * Promise.all — if one transport fails, the others do not execute.
+     * Promise.allSettled — all execute, we collect all errors and log them.
+     *
+     * In the context of a logger this is critical: if the HTTP transport fails,
+     * the Console transport must still work.
+     */
+    private dispatch(entry: LogEntry): void {
+        const recipients = this.resolve("transports").filter((transport) =>
+            this.isRoutedTo(transport, entry)
+        );
+
+        const start = performance.now();
+        const promises = recipients.map((transport) =>
+            transport.send(entry).then(
+                () => {
+                    this.transportCounts(transport).sent++;
+                },
+                (error) => error instanceof TransportDropError
+                    ? this.dropInTransport(transport, entry)
+                    : this.reportTransportError({transport: transport.name, operation: "send", error, entry})
+            )
+        );
+
+        this.track(this.core.deliveries, Promise.allSettled(promises).then(() => {
+            if (recipients.length === 0) return;
+
+            this.core.stats.dispatches++;
+            this.core.stats.dispatchMs += performance.now() - start;
+        }));
+    }
+
+    /**
+     * A transport that drops an entry on purpose did not fail — no console line, no transportError.
+     */
+    private dropInTransport(transport: Transport, entry: LogEntry): void {
+        increment(this.core.stats.droppedByTransport, transport.name);
+        this.emit("dropped", {reason: "transport", level: entry.level, message: entry.message, transport: transport.name, entry});
+    }
+
+    /**
+     * The value of the nearest node that sets it, or the root config.
+     */
+    private resolve<K extends keyof NamedLoggerConfig>(key: K): Required<NamedLoggerConfig>[K] {
+        for (let node: LoggerNode | null = this.node; node; node = node.parent) {
+            const value = node.overrides[key];
+            if (value !== undefined) return value as Required<NamedLoggerConfig>[K];
+        }
+
+        return this.core.config[key];
+    }
+
+    // ─── Configuration internals ────────────────────────────────────────────────
+
+    /**
+     * Every configuration change ends up here — validated as a whole before anything is applied,
+     * then announced with one configChange event per value that actually changed.
+     *
+     * Why replace the lists instead of pushing to them?
+     * A running pipeline iterates the plugin list it started with. Swapping the array
+     * leaves it untouched, so in-flight entries are neither skipped nor processed twice.
+     *
+     * Plugin names given with the patch are registered only once it passed validation —
+     * a rejected patch must not rename a plugin that is already in use.
+     *
+     * Resolves when plugins that left the hierarchy are torn down — never rejects.
+     */
+    private applyPatch(
+        patch: LoggerConfigPatch,
+        source: string,
+        pluginNames: ReadonlyMap<LoggerPlugin, string> = new Map()
+    ): Promise<void> {
+        for (const key of CONFIG_KEYS) {
+            if (patch[key] === null && !this.node.parent) {
+                throw new Error(`A root logger has no parent to inherit "${key}" from.`);
+            }
+        }
+
+        if (patch.transports) {
+            assertUniqueNames(patch.transports.map((transport) => transport.name), "Transport");
+        }
+
+        // Function names may repeat (two spies are both "spy") — only names given on purpose must be unique
+        if (patch.plugins) {
+            const names = patch.plugins.map((plugin) =>
+                pluginNames.get(plugin)
+                ?? this.core.pluginNames.get(plugin)
+                ?? (typeof plugin === "function" ? undefined : plugin.name)
+            );
+            assertUniqueNames(names.filter((name) => name !== undefined), "Plugin");
+        }
+
+        for (const [plugin, name] of pluginNames) this.core.pluginNames.set(plugin, name);
+
+        const changes: ConfigChange[] = [];
+
+        for (const key of CONFIG_KEYS) {
+            const value = patch[key];
+            if (value === undefined) continue;
+
+            const previous = this.describeOwn(key);
+            this.setOwn(key, value);
+            const current = this.describeOwn(key);
+
+            if (JSON.stringify(previous) !== JSON.stringify(current)) {
+                changes.push({logger: this.node.name, key, previous, current, source, timestamp: new Date()});
+            }
+        }
+
+        for (const change of changes) this.emit("configChange", change);
+
+        return this.syncPlugins();
+    }
+
+    /**
+     * Root values live in the core config, named values in the node — null removes the node's own value.
+     */
+    private setOwn<K extends keyof NamedLoggerConfig>(key: K, value: NamedLoggerConfig[K] | null): void {
+        const copy = (Array.isArray(value) ? [...value] : value) as NamedLoggerConfig[K] | null;
+
+        if (!this.node.parent) {
+            this.core.config[key] = copy as ResolvedConfig[K];
+        } else if (copy === null) {
+            delete this.node.overrides[key];
+        } else {
+            this.node.overrides[key] = copy;
+        }
+    }
+
+    /**
+     * The logger's own value as configChange reports it — null when inherited.
+     */
+    private describeOwn(key: keyof NamedLoggerConfig): LogLevel | readonly string[] | null {
+        const value = this.node.parent ? this.node.overrides[key] : this.core.config[key];
+
+        if (value === undefined) return null;
+        if (key === "transports") return (value as Transport[]).map((transport) => transport.name);
+        if (key === "plugins") return (value as LoggerPlugin[]).map((plugin) => this.pluginName(plugin) || "<anonymous>");
+
+        return value as LogLevel;
+    }
+
+    private pluginName(plugin: LoggerPlugin): string {
+        return this.core.pluginNames.get(plugin) ?? plugin.name;
+    }
+
+    // ─── Plugin lifecycle ───────────────────────────────────────────────────────
+
+    /**
+     * Sets up plugins that joined the hierarchy and tears down those that left it.
+     * A plugin shared by several loggers is set up once and torn down when the last one drops it.
+     */
+    private syncPlugins(): Promise<void> {
+        const current = new Set(this.allPlugins());
+        const removed = [...this.core.activePlugins].filter((plugin) => !current.has(plugin));
+
+        for (const plugin of current) {
+            if (!this.core.activePlugins.has(plugin)) this.setUpPlugin(plugin);
+        }
+
+        this.core.activePlugins = current;
+        return this.tearDownPlugins(removed);
+    }
+
+    /**
+     * Why not await setup() here?
+     * Adding a plugin is synchronous. Instead, entries wait for the setup in runPlugin() —
+     * the rest of the pipeline keeps running in the meantime.
+     */
+    private setUpPlugin(plugin: LoggerPlugin): void {
+        if (typeof plugin === "function" || !plugin.setup) return;
+
+        const name = this.pluginName(plugin);
+        const fail = (error: unknown) => {
+            this.reportPluginError(new PluginError(name, `Plugin "${name}" failed to set up.`, {cause: error}));
+            return false;
+        };
+
+        let ready: Promise<boolean>;
+        try {
+            // A setup that never settles would hold back every entry — it gets the plugin's timeout too
+            ready = withPluginTimeout(Promise.resolve(plugin.setup(this)), plugin.timeout ?? DEFAULT_PLUGIN_TIMEOUT, name)
+                .then(() => true, fail);
+        } catch (error) {
+            ready = Promise.resolve(fail(error));
+        }
+
+        this.core.pluginSetups.set(plugin, ready);
+    }
+
+    private async tearDownPlugins(plugins: readonly LoggerPlugin[]): Promise<void> {
+        this.core.activePlugins = new Set([...this.core.activePlugins].filter((plugin) => !plugins.includes(plugin)));
+
+        await Promise.allSettled(plugins.map(async (plugin) => {
+            if (typeof plugin === "function" || !plugin.teardown) return;
+
+            // A plugin is torn down after its setup — never while it is still starting
+            await this.core.pluginSetups.get(plugin);
+            this.core.pluginSetups.delete(plugin);
+
+            try {
+                this.core.isTearingDown = true;
+                const result = plugin.teardown();
+                this.core.isTearingDown = false;
+
+                await result;
+            } catch (error) {
+                this.core.isTearingDown = false;
+                const name = this.pluginName(plugin);
+                this.reportPluginError(new PluginError(name, `Plugin "${name}" failed to tear down.`, {cause: error}));
+            }
+        }));
+    }
+
+    /**
+     * Plugins of the root and of every named logger — each once.
+     */
+    private allPlugins(): LoggerPlugin[] {
+        const plugins = new Set(this.core.config.plugins);
+
+        for (const node of this.core.nodes.values()) {
+            for (const plugin of node.overrides.plugins ?? []) plugins.add(plugin);
+        }
+
+        return [...plugins];
+    }
+
+    private reportPluginError(error: PluginError, entry?: LogEntry): void {
+        increment(this.core.stats.pluginErrors, error.plugin);
+
+        if (this.core.listeners.pluginError.size > 0) {
+            this.emit("pluginError", {plugin: error.plugin, error, ...(entry ? {entry} : {})});
+        } else {
+            console.error(`[Logger] Plugin "${error.plugin}" failed:`, error);
+        }
+    }
+
+    private emit<E extends keyof LoggerEvents>(event: E, payload: LoggerEvents[E]): void {
+        const listeners = this.core.listeners[event] as Set<(payload: LoggerEvents[E]) => void>;
+
+        for (const listener of [...listeners]) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`[Logger] "${event}" listener failed:`, error);
+            }
+        }
+    }
+
+    /**
+     * Per-call context wins over bindings — the call site knows best.
+     * Returns the context untouched when there are no bindings, so a root logger
+     * still produces entries without context if none was passed.
+     */
+    private mergeBindings(context?: Record<string, unknown>): Record<string, unknown> | undefined {
+        if (Object.keys(this.bindings).length === 0) return context;
+
+        return {...this.bindings, ...context};
+    }
+
+    /**
+     * Below the breadcrumb level the entry is recorded as a breadcrumb and nothing is returned.
+     * At or above it, returns a snapshot of the trail — taken now, not when the pipeline runs,
+     * so breadcrumbs logged right after the error do not end up in its trail.
+     */
+    private handleBreadcrumbs(
+        level: LogLevel,
+        message: string,
+        context?: Record<string, unknown>
+    ): Breadcrumb[] | undefined {
+        const options = this.core.config.breadcrumbs;
+        const trail = this.breadcrumbTrail();
+        if (!options || !trail) return undefined;
+
+        if (level < options.level) {
+            const data = copyContext(context);
+            trail.add({timestamp: new Date(), level, message, ...(data ? {data} : {})});
+            return undefined;
+        }
+
+        const snapshot = trail.snapshot();
+        return snapshot.length > 0 ? snapshot : undefined;
+    }
+
+    /**
+     * The trail of the current LogContext scope, or this logger's own trail outside of scopes.
+     * Null when breadcrumbs are disabled.
+     */
+    private breadcrumbTrail(): BreadcrumbBuffer | null {
+        const options = this.core.config.breadcrumbs;
+        if (!options) return null;
+
+        const scope = LogContext.rootScope();
+        if (!scope) return this.ownBreadcrumbs ??= new BreadcrumbBuffer(options.maxBreadcrumbs);
+
+        let trail = this.core.scopeBreadcrumbs.get(scope);
+        if (!trail) {
+            trail = new BreadcrumbBuffer(options.maxBreadcrumbs);
+            this.core.scopeBreadcrumbs.set(scope, trail);
+        }
+
+        return trail;
+    }
+
+    /**
+     * A throwing filter() must not take the other transports down with it —
+     * the transport simply does not receive the entry.
+     */
+    private isRoutedTo(transport: Transport, entry: LogEntry): boolean {
+        try {
+            return acceptsEntry(transport.rules, entry);
+        } catch (error) {
+            this.reportTransportError({transport: transport.name, operation: "route", error, entry});
+            return false;
+        }
+    }
+
+    // ─── Failure reporting ──────────────────────────────────────────────────────
+
+    /**
+     * Why only to the console when nobody listens?
+     * The console is the fallback — the logger cannot log its own failures through itself,
+     * that could recurse forever. Whoever listens decides where failures go,
+     * and a backend outage does not flood the console on top of that.
+     */
+    private reportTransportError(event: TransportErrorEvent): void {
+        if (event.operation === "send" || event.operation === "route") {
+            this.transportCounts(event.transport).failed++;
+        }
+
+        if (this.core.listeners.transportError.size > 0) {
+            this.emit("transportError", event);
+        } else if (event.operation === "send") {
+            console.error(`[Logger] Transport "${event.transport}" failed:`, event.error);
+        } else if (event.operation === "route") {
+            console.error(`[Logger] Routing rules of transport "${event.transport}" failed:`, event.error);
+        } else {
+            console.error(`[Logger] Transport "${event.transport}" failed to ${event.operation}:`, event.error);
+        }
+    }
+
+    private transportCounts(transport: Transport | string): { sent: number; failed: number } {
+        const name = typeof transport === "string" ? transport : transport.name;
+        let counts = this.core.stats.transports.get(name);
+
+        if (!counts) {
+            counts = {sent: 0, failed: 0};
+            this.core.stats.transports.set(name, counts);
+        }
+
+        return counts;
+    }
+
+    // ─── Lifecycle internals ────────────────────────────────────────────────────
+
+    private track(set: Set<Promise<void>>, promise: Promise<void>): void {
+        set.add(promise);
+        promise.finally(() => set.delete(promise));
+    }
+
+    private async drain(): Promise<void> {
+        // 1. Let running pipelines finish — after this every entry has reached its transports
+        await Promise.allSettled([...this.core.pipelines]);
+
+        // 2. Ask buffering transports to send what they hold
+        await Promise.allSettled(
+            this.allTransports().map((transport) => this.callHook(transport, "flush"))
+        );
+
+        // 3. Wait for the deliveries themselves
+        await Promise.allSettled([...this.core.deliveries]);
+    }
+
+    private async closeTransports(): Promise<void> {
+        await Promise.allSettled(
+            this.allTransports().map((transport) => this.callHook(transport, "close"))
+        );
+    }
+
+    /**
+     * Transports of the root and of every named logger — each once, even if several nodes share it.
+     */
+    private allTransports(): Transport[] {
+        const transports = new Set(this.core.config.transports);
+
+        for (const node of this.core.nodes.values()) {
+            for (const transport of node.overrides.transports ?? []) transports.add(transport);
+        }
+
+        return [...transports];
+    }
+
+    private async callHook(transport: Transport, hook: "flush" | "close"): Promise<void> {
+        try {
+            await transport[hook]?.();
+        } catch (error) {
+            this.reportTransportError({transport: transport.name, operation: hook, error});
+        }
+    }
+
+    private warnAfterShutdown(): void {
+        if (this.core.hasWarnedAfterShutdown) return;
+
+        this.core.hasWarnedAfterShutdown = true;
+        console.warn("[Logger] Logger has been shut down — log calls are dropped.");
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function createCore(config: LoggerConfig): LoggerCore {
+    return {
+        config: {
+            transports: config.transports ?? [],
+            plugins: config.plugins ?? [],
+            minLevel: config.minLevel ?? LogLevel.DEBUG,
+            breadcrumbs: resolveBreadcrumbs(config.breadcrumbs),
+            generateId: config.generateId ?? generateId,
+        },
+        pipelines: new Set(),
+        deliveries: new Set(),
+        isShutdown: false,
+        hasWarnedAfterShutdown: false,
+        isTearingDown: false,
+        shutdownPromise: null,
+        globalErrors: null,
+        scopeBreadcrumbs: new WeakMap(),
+        nodes: new Map(),
+        pluginNames: new WeakMap(),
+        activePlugins: new Set(),
+        pluginSetups: new WeakMap(),
+        listeners: {
+            configChange: new Set(),
+            transportError: new Set(),
+            pluginError: new Set(),
+            dropped: new Set(),
+            flushed: new Set(),
+        },
+        stats: {
+            logged: new Map(),
+            droppedByPlugin: new Map(),
+            droppedByTransport: new Map(),
+            droppedAfterShutdown: 0,
+            transports: new Map(),
+            pluginErrors: new Map(),
+            dispatches: 0,
+            dispatchMs: 0,
+        },
+    };
+}
+
+function increment<K>(counts: Map<K, number>, key: K): void {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/**
+ * Finds or creates the node of a full name, creating missing ancestors on the way.
+ */
+function getNode(core: LoggerCore, name: string): LoggerNode {
+    const existing = core.nodes.get(name);
+    if (existing) return existing;
+
+    const separator = name.lastIndexOf(".");
+    const parent = name === "" ? null : getNode(core, separator === -1 ? "" : name.slice(0, separator));
+    const node: LoggerNode = {name, parent, overrides: {}, logger: null};
+    core.nodes.set(name, node);
+
+    return node;
+}
+
+/**
+ * Rejects with a PluginError once timeoutMs passed — the plugin keeps running, its result is ignored.
+ */
+function withPluginTimeout<T>(promise: Promise<T>, timeoutMs: number, plugin: string): Promise<T> {
+    if (!Number.isFinite(timeoutMs)) return promise;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = unrefTimer(setTimeout(() => reject(new PluginError(plugin, `Plugin "${plugin}" timed out after ${timeoutMs} ms.`)), timeoutMs));
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Runs inside the log call — a throwing getter must not make logger.warn() throw.
+ * The breadcrumb is then recorded without data; the entry itself reports the error through the pipeline.
+ */
+function copyContext(context?: Record<string, unknown>): Record<string, unknown> | undefined {
+    try {
+        return context ? {...context} : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function assertUniqueNames(names: readonly string[], kind: "Transport" | "Plugin"): void {
+    const seen = new Set<string>();
+
+    for (const name of names) {
+        if (seen.has(name)) {
+            throw new Error(`${kind} with name "${name}" is already registered.`);
+        }
+
+        seen.add(name);
+    }
+}
+
+function resolveBreadcrumbs(options?: BreadcrumbOptions | boolean): Required<BreadcrumbOptions> | null {
+    if (!options) return null;
+
+    const {maxBreadcrumbs = 50, level = LogLevel.ERROR} = options === true ? {} : options;
+    return {maxBreadcrumbs, level};
+}
+
+/**
+ * Resolves to true if the promise settles before the deadline, false otherwise.
+ */
+function withDeadline(promise: Promise<void>, timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const deadline = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    return Promise.race([promise.then(() => true), deadline]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,57 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TokenBucketOptions {
+    /**
+     * Largest burst let through at once — the number of tokens a full bucket holds.
+     */
+    capacity: number;
+
+    /**
+     * Tokens added back per second — the sustained rate.
+     */
+    refillPerSecond: number;
+}
+
+// ─── TokenBucket ──────────────────────────────────────────────────────────────
+
+/**
+ * Token bucket — shared by the rateLimit() plugin and the ingestion server.
+ * Starts full and refills continuously at refillPerSecond up to capacity.
+ */
+export class TokenBucket {
+    private readonly capacity: number;
+    private readonly refillPerSecond: number;
+    private tokens: number;
+    private lastRefill = Date.now();
+
+    constructor(options: TokenBucketOptions) {
+        this.capacity = options.capacity;
+        this.refillPerSecond = options.refillPerSecond;
+        this.tokens = options.capacity;
+    }
+
+    /**
+     * Refills for the time passed since the last call, then checks for count whole tokens.
+     */
+    hasToken(now: number, count = 1): boolean {
+        const elapsedSeconds = Math.max(0, now - this.lastRefill) / 1000;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+        this.lastRefill = now;
+
+        return this.tokens >= count;
+    }
+
+    take(count = 1): void {
+        this.tokens -= count;
+    }
+
+    /**
+     * Milliseconds until count tokens are available — as of the last hasToken() call.
+     * Infinity when count is beyond capacity: that many tokens are never available at once.
+     */
+    waitTime(count = 1): number {
+        if (count > this.capacity) return Infinity;
+
+        return Math.max(0, Math.ceil(((count - this.tokens) / this.refillPerSecond) * 1000));
+    }
+}
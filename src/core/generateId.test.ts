@@ -0,0 +1,30 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {generateId, randomHex} from "./generateId";
+
+const UUID_V4 = /^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/;
+
+describe("generateId", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should return unique UUID v4 strings", () => {
+        const ids = new Set(Array.from({length: 100}, generateId));
+
+        expect(ids.size).toBe(100);
+        for (const id of ids) expect(id).toMatch(UUID_V4);
+    });
+
+    it("should build a UUID v4 without crypto.randomUUID", () => {
+        vi.stubGlobal("crypto", {getRandomValues: (bytes: Uint8Array) => bytes.fill(0xff)});
+
+        expect(generateId()).toBe("ffffffff-ffff-4fff-bfff-ffffffffffff");
+    });
+
+    it("should fall back to Math.random without crypto", () => {
+        vi.stubGlobal("crypto", undefined);
+
+        expect(generateId()).toMatch(UUID_V4);
+        expect(randomHex(8)).toMatch(/^[\da-f]{16}$/);
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * Random UUID v4 — the default id of every log entry.
+ *
+ * Why not always crypto.randomUUID()?
+ * Browsers only offer it on secure origins (https, localhost), and older runtimes not at all.
+ * The fallback builds the same format from getRandomValues, or Math.random as a last resort —
+ * entry ids must be unique, not unguessable.
+ */
+export function generateId(): string {
+    const crypto = (globalThis as { crypto?: Partial<Crypto> }).crypto;
+    if (typeof crypto?.randomUUID === "function") return crypto.randomUUID();
+
+    const bytes = randomBytes(16);
+    bytes[6] = (bytes[6]! & 0x0f) | 0x40; // version 4
+    bytes[8] = (bytes[8]! & 0x3f) | 0x80; // RFC 4122 variant
+
+    const hex = toHex(bytes);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Random lowercase hex string of byteLength bytes — trace and span ids.
+ */
+export function randomHex(byteLength: number): string {
+    return toHex(randomBytes(byteLength));
+}
+
+function randomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    const crypto = (globalThis as { crypto?: Partial<Crypto> }).crypto;
+
+    if (typeof crypto?.getRandomValues === "function") {
+        crypto.getRandomValues(bytes);
+    } else {
+        for (let index = 0; index < length; index++) bytes[index] = Math.floor(Math.random() * 256);
+    }
+
+    return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
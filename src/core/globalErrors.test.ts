@@ -0,0 +1,167 @@
+import {EventEmitter} from "node:events";
+import {describe, expect, it, vi} from "vitest";
+import {GlobalErrorReporter, installGlobalHandlers, markReported, ProcessLike} from "./globalErrors";
+import {LogLevel} from "./LogLevel";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+function createReporter() {
+    return {
+        report: vi.fn<GlobalErrorReporter["report"]>(),
+        flush: vi.fn<GlobalErrorReporter["flush"]>().mockResolvedValue(true),
+    };
+}
+
+function createProcess(): EventEmitter & ProcessLike {
+    return Object.assign(new EventEmitter(), {exit: vi.fn()});
+}
+
+function errorEvent(init: Record<string, unknown>): Event {
+    return Object.assign(new Event("error"), init);
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("installGlobalHandlers", () => {
+    describe("node", () => {
+        it("should report uncaught exceptions with a source marker", () => {
+            const reporter = createReporter();
+            const process = createProcess();
+            installGlobalHandlers(reporter, {exitOnFatal: false}, {kind: "node", process});
+
+            const error = new Error("Boom");
+            process.emit("uncaughtException", error);
+
+            expect(reporter.report).toHaveBeenCalledWith(
+                LogLevel.ERROR, "Uncaught exception", error, {source: "uncaughtException"}
+            );
+        });
+
+        it("should wrap non-Error rejection reasons", () => {
+            const reporter = createReporter();
+            const process = createProcess();
+            installGlobalHandlers(reporter, {exitOnFatal: false}, {kind: "node", process});
+
+            process.emit("unhandledRejection", "timeout");
+
+            const [level, message, error, context] = reporter.report.mock.calls[0]!;
+            expect(level).toBe(LogLevel.ERROR);
+            expect(message).toBe("Unhandled promise rejection");
+            expect(error).toMatchObject({name: "NonError", message: "timeout"});
+            expect(context).toEqual({source: "unhandledRejection"});
+        });
+
+        it("should report process warnings as WARN", () => {
+            const reporter = createReporter();
+            const process = createProcess();
+            installGlobalHandlers(reporter, {}, {kind: "node", process});
+
+            const warning = Object.assign(new Error("Buffer() is deprecated"), {name: "DeprecationWarning"});
+            process.emit("warning", warning);
+
+            expect(reporter.report).toHaveBeenCalledWith(LogLevel.WARN, "Process warning", warning, {source: "warning"});
+            expect(process.exit).not.toHaveBeenCalled();
+        });
+
+        it("should flush and exit with code 1 after a fatal error", async () => {
+            const reporter = createReporter();
+            const process = createProcess();
+            installGlobalHandlers(reporter, {flushTimeoutMs: 100}, {kind: "node", process});
+
+            process.emit("uncaughtException", new Error("Boom"));
+            process.emit("unhandledRejection", new Error("Another"));
+            await vi.waitFor(() => expect(process.exit).toHaveBeenCalled());
+
+            expect(reporter.flush).toHaveBeenCalledTimes(1);
+            expect(reporter.flush).toHaveBeenCalledWith(100);
+            expect(process.exit).toHaveBeenCalledTimes(1);
+            expect(process.exit).toHaveBeenCalledWith(1);
+        });
+
+        it("should not report errors that were already reported", () => {
+            const reporter = createReporter();
+            const process = createProcess();
+            installGlobalHandlers(reporter, {exitOnFatal: false}, {kind: "node", process});
+
+            const error = new Error("Logged and rethrown");
+            markReported(error);
+            process.emit("uncaughtException", error);
+
+            const other = new Error("Rejected twice");
+            process.emit("unhandledRejection", other);
+            process.emit("uncaughtException", other);
+
+            expect(reporter.report).toHaveBeenCalledTimes(1);
+        });
+
+        it("should only hook the selected events", () => {
+            const process = createProcess();
+            installGlobalHandlers(createReporter(), {unhandledRejections: false, warnings: false}, {kind: "node", process});
+
+            expect(process.listenerCount("uncaughtException")).toBe(1);
+            expect(process.listenerCount("unhandledRejection")).toBe(0);
+            expect(process.listenerCount("warning")).toBe(0);
+        });
+
+        it("should remove every listener on uninstall", () => {
+            const process = createProcess();
+            const handle = installGlobalHandlers(createReporter(), {}, {kind: "node", process});
+
+            handle.uninstall();
+            handle.uninstall();
+
+            expect(process.eventNames()).toEqual([]);
+        });
+    });
+
+    describe("browser", () => {
+        it("should report window errors with their location", () => {
+            const reporter = createReporter();
+            const window = new EventTarget();
+            installGlobalHandlers(reporter, {}, {kind: "browser", window});
+
+            const error = new TypeError("x is undefined");
+            window.dispatchEvent(errorEvent({error, message: "Uncaught TypeError", filename: "app.js", lineno: 1, colno: 2}));
+
+            expect(reporter.report).toHaveBeenCalledWith(LogLevel.ERROR, "Uncaught exception", error, {
+                source: "uncaughtException",
+                filename: "app.js",
+                lineno: 1,
+                colno: 2,
+            });
+        });
+
+        it("should fall back to the message for cross-origin script errors", () => {
+            const reporter = createReporter();
+            const window = new EventTarget();
+            installGlobalHandlers(reporter, {}, {kind: "browser", window});
+
+            window.dispatchEvent(errorEvent({error: null, message: "Script error."}));
+
+            expect(reporter.report.mock.calls[0]![2]).toMatchObject({message: "Script error."});
+        });
+
+        it("should report unhandled rejections", () => {
+            const reporter = createReporter();
+            const window = new EventTarget();
+            installGlobalHandlers(reporter, {}, {kind: "browser", window});
+
+            const reason = new Error("fetch failed");
+            window.dispatchEvent(Object.assign(new Event("unhandledrejection"), {reason}));
+
+            expect(reporter.report).toHaveBeenCalledWith(
+                LogLevel.ERROR, "Unhandled promise rejection", reason, {source: "unhandledRejection"}
+            );
+        });
+
+        it("should remove the listeners on uninstall", () => {
+            const reporter = createReporter();
+            const window = new EventTarget();
+            installGlobalHandlers(reporter, {}, {kind: "browser", window}).uninstall();
+
+            window.dispatchEvent(errorEvent({error: new Error("Boom")}));
+
+            expect(reporter.report).not.toHaveBeenCalled();
+        });
+    });
+});
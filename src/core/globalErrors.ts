@@ -0,0 +1,245 @@
+import {LogLevel} from "./LogLevel";
+import {toError} from "../serializers/serializeError";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Marker put into the context of captured entries — `context.source`.
+ */
+export type GlobalErrorSource = "uncaughtException" | "unhandledRejection" | "warning";
+
+export interface CaptureGlobalErrorsOptions {
+    /**
+     * Capture uncaught exceptions — process "uncaughtException" in Node, window "error" in browsers.
+     * Default: true.
+     */
+    uncaughtExceptions?: boolean;
+
+    /**
+     * Capture unhandled promise rejections. Default: true.
+     */
+    unhandledRejections?: boolean;
+
+    /**
+     * Capture process warnings (deprecations, MaxListenersExceeded, ...) as WARN entries.
+     * Node only. Default: true.
+     */
+    warnings?: boolean;
+
+    /**
+     * Exit with code 1 after an uncaught exception or unhandled rejection, once transports are flushed.
+     * Node only. Default: true.
+     *
+     * Why exit at all?
+     * A listener on these events disables Node's own crash. Continuing after an uncaught
+     * exception leaves the process in an unknown state — we only add logging, not resilience.
+     */
+    exitOnFatal?: boolean;
+
+    /**
+     * How long to wait for transports before exiting. Default: 2000 ms.
+     */
+    flushTimeoutMs?: number;
+}
+
+/**
+ * Returned by captureGlobalErrors() — removes the hooks again.
+ */
+export interface GlobalErrorsHandle {
+    uninstall(): void;
+}
+
+/**
+ * Internal — how captured errors reach the logger.
+ */
+export interface GlobalErrorReporter {
+    report(level: LogLevel, message: string, error: Error, context: Record<string, unknown>): void;
+    flush(timeoutMs: number): Promise<boolean>;
+}
+
+/**
+ * Internal — the part of Node's process we use.
+ */
+export interface ProcessLike {
+    on(event: string, listener: (value: unknown) => void): unknown;
+    off(event: string, listener: (value: unknown) => void): unknown;
+    exit(code: number): void;
+}
+
+/**
+ * Internal — the part of window we use.
+ */
+export interface WindowLike {
+    addEventListener(type: string, listener: (event: unknown) => void): void;
+    removeEventListener(type: string, listener: (event: unknown) => void): void;
+}
+
+/**
+ * Internal — where the hooks go. Injectable so tests do not touch the real process.
+ */
+export type GlobalTarget =
+    | { readonly kind: "node"; readonly process: ProcessLike }
+    | { readonly kind: "browser"; readonly window: WindowLike };
+
+// ─── Double reporting ─────────────────────────────────────────────────────────
+
+/**
+ * Values already reported — by Logger.error or by a global hook.
+ *
+ * Why?
+ * `catch (e) { logger.error("Failed", e); throw e }` is a common pattern. Without this,
+ * the rethrown error would be reported a second time as an uncaught exception.
+ * A WeakSet does not keep the errors alive.
+ */
+const reported = new WeakSet<object>();
+
+export function markReported(value: unknown): void {
+    if (typeof value === "object" && value !== null) reported.add(value);
+}
+
+function wasReported(value: unknown): boolean {
+    return typeof value === "object" && value !== null && reported.has(value);
+}
+
+// ─── Installation ─────────────────────────────────────────────────────────────
+
+export function detectGlobalTarget(): GlobalTarget | null {
+    const {process, addEventListener} = globalThis as unknown as {
+        process?: Partial<ProcessLike>;
+        addEventListener?: unknown;
+    };
+
+    if (typeof process?.on === "function" && typeof process.off === "function") {
+        return {kind: "node", process: process as ProcessLike};
+    }
+
+    if (typeof addEventListener === "function") {
+        return {kind: "browser", window: globalThis as unknown as WindowLike};
+    }
+
+    return null;
+}
+
+export function installGlobalHandlers(
+    reporter: GlobalErrorReporter,
+    options: CaptureGlobalErrorsOptions = {},
+    target: GlobalTarget | null = detectGlobalTarget()
+): GlobalErrorsHandle {
+    const capture = (
+        source: GlobalErrorSource,
+        level: LogLevel,
+        message: string,
+        thrown: unknown,
+        details: Record<string, unknown> = {}
+    ) => {
+        if (wasReported(thrown)) return;
+        markReported(thrown);
+
+        reporter.report(level, message, toError(thrown), {source, ...details});
+    };
+
+    const removers = target?.kind === "node"
+        ? installNode(target.process, capture, reporter, options)
+        : target?.kind === "browser"
+            ? installBrowser(target.window, capture, options)
+            : [];
+
+    let installed = true;
+
+    return {
+        uninstall() {
+            if (!installed) return;
+
+            installed = false;
+            removers.forEach((remove) => remove());
+        },
+    };
+}
+
+type Capture = (
+    source: GlobalErrorSource,
+    level: LogLevel,
+    message: string,
+    thrown: unknown,
+    details?: Record<string, unknown>
+) => void;
+
+function installNode(
+    process: ProcessLike,
+    capture: Capture,
+    reporter: GlobalErrorReporter,
+    options: CaptureGlobalErrorsOptions
+): (() => void)[] {
+    const exitOnFatal = options.exitOnFatal ?? true;
+    const flushTimeoutMs = options.flushTimeoutMs ?? 2000;
+    let exiting = false;
+
+    const exit = () => {
+        if (!exitOnFatal || exiting) return;
+
+        exiting = true;
+        void reporter.flush(flushTimeoutMs).then(() => process.exit(1));
+    };
+
+    const listeners: [string, (value: unknown) => void][] = [];
+
+    if (options.uncaughtExceptions ?? true) {
+        listeners.push(["uncaughtException", (error) => {
+            capture("uncaughtException", LogLevel.ERROR, "Uncaught exception", error);
+            exit();
+        }]);
+    }
+
+    if (options.unhandledRejections ?? true) {
+        listeners.push(["unhandledRejection", (reason) => {
+            capture("unhandledRejection", LogLevel.ERROR, "Unhandled promise rejection", reason);
+            exit();
+        }]);
+    }
+
+    if (options.warnings ?? true) {
+        listeners.push(["warning", (warning) => {
+            capture("warning", LogLevel.WARN, "Process warning", warning);
+        }]);
+    }
+
+    for (const [event, listener] of listeners) process.on(event, listener);
+
+    return listeners.map(([event, listener]) => () => process.off(event, listener));
+}
+
+function installBrowser(
+    window: WindowLike,
+    capture: Capture,
+    options: CaptureGlobalErrorsOptions
+): (() => void)[] {
+    const listeners: [string, (event: unknown) => void][] = [];
+
+    if (options.uncaughtExceptions ?? true) {
+        listeners.push(["error", (event) => {
+            const {error, message, filename, lineno, colno} = event as {
+                error?: unknown;
+                message?: string;
+                filename?: string;
+                lineno?: number;
+                colno?: number;
+            };
+
+            // Cross-origin scripts only give us "Script error." without an error object
+            capture("uncaughtException", LogLevel.ERROR, "Uncaught exception", error ?? message, {
+                ...(filename ? {filename, lineno, colno} : {}),
+            });
+        }]);
+    }
+
+    if (options.unhandledRejections ?? true) {
+        listeners.push(["unhandledrejection", (event) => {
+            const {reason} = event as { reason?: unknown };
+            capture("unhandledRejection", LogLevel.ERROR, "Unhandled promise rejection", reason);
+        }]);
+    }
+
+    for (const [type, listener] of listeners) window.addEventListener(type, listener);
+
+    return listeners.map(([type, listener]) => () => window.removeEventListener(type, listener));
+}
@@ -0,0 +1,65 @@
+import {beforeEach, describe, expect, it} from "vitest";
+import {applyLevelSpec, levelSpecFromEnv, parseLevelConfig, parseLevelSpec} from "./levelSpec";
+import {Logger} from "./Logger";
+import {LogLevel} from "./LogLevel";
+
+describe("parseLevelSpec", () => {
+    it("should parse namespaces and a bare root level", () => {
+        expect(parseLevelSpec("warn, payments=debug,payments.stripe=TRACE,audit=1.5")).toEqual({
+            "": LogLevel.WARN,
+            payments: LogLevel.DEBUG,
+            "payments.stripe": LogLevel.TRACE,
+            audit: 1.5,
+        });
+    });
+
+    it("should ignore empty items and reject unknown levels", () => {
+        expect(parseLevelSpec(" , ")).toEqual({});
+        expect(() => parseLevelSpec("payments=loud")).toThrow("Unknown level \"loud\" in \"payments=loud\".");
+    });
+});
+
+describe("levelSpecFromEnv", () => {
+    it("should combine LOG_LEVEL and LOG_NAMESPACES", () => {
+        expect(levelSpecFromEnv({LOG_LEVEL: "error", LOG_NAMESPACES: "payments=debug"})).toEqual({
+            "": LogLevel.ERROR,
+            payments: LogLevel.DEBUG,
+        });
+        expect(levelSpecFromEnv({})).toEqual({});
+    });
+});
+
+describe("parseLevelConfig", () => {
+    it("should read level and namespaces", () => {
+        expect(parseLevelConfig({level: "info", namespaces: {payments: "debug", audit: 1.5}})).toEqual({
+            "": LogLevel.INFO,
+            payments: LogLevel.DEBUG,
+            audit: 1.5,
+        });
+    });
+
+    it("should reject other shapes", () => {
+        expect(() => parseLevelConfig([])).toThrow("Log config must be a JSON object.");
+        expect(() => parseLevelConfig({namespaces: "payments=debug"})).toThrow("\"namespaces\" must be an object.");
+        expect(() => parseLevelConfig({namespaces: {payments: true}})).toThrow("in \"namespaces.payments\"");
+    });
+});
+
+describe("applyLevelSpec", () => {
+    beforeEach(() => {
+        Logger.reset();
+    });
+
+    it("should set the root and named levels with the given source", () => {
+        const logger = Logger.init({minLevel: LogLevel.INFO});
+        const sources: string[] = [];
+        logger.on("configChange", (change) => sources.push(change.source));
+
+        applyLevelSpec(logger, {"": LogLevel.WARN, "payments.stripe": LogLevel.TRACE}, {source: "env"});
+
+        expect(logger.level).toBe(LogLevel.WARN);
+        expect(Logger.get("payments.stripe").level).toBe(LogLevel.TRACE);
+        expect(Logger.get("payments").level).toBe(LogLevel.WARN);
+        expect(sources).toEqual(["env", "env"]);
+    });
+});
@@ -0,0 +1,110 @@
+import {levelFromLabel, LogLevel} from "./LogLevel";
+import {ChangeOptions, Logger} from "./Logger";
+
+/**
+ * Levels per logger name — "" is the root logger. null makes a named logger inherit again.
+ */
+export type LevelSpec = Record<string, LogLevel | null>;
+
+/**
+ * The JSON shape read by watchLogConfig() and parseLevelConfig().
+ *
+ * @example
+ * {"level": "warn", "namespaces": {"payments": "debug", "payments.stripe": "trace"}}
+ */
+export interface LevelConfig {
+    level?: string | number;
+    namespaces?: Record<string, string | number>;
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parses a comma-separated spec like "warn,payments=debug,payments.stripe=trace".
+ * A bare level sets the root logger. Levels are labels (any case, custom ones too) or numbers.
+ * Throws on an unknown level — a typo should not silently keep the old level.
+ */
+export function parseLevelSpec(spec: string): Record<string, LogLevel> {
+    const levels: Record<string, LogLevel> = {};
+
+    for (const item of spec.split(",").map((part) => part.trim()).filter(Boolean)) {
+        const separator = item.lastIndexOf("=");
+        const name = separator === -1 ? "" : item.slice(0, separator).trim();
+
+        levels[name] = parseLevel(separator === -1 ? item : item.slice(separator + 1).trim(), item);
+    }
+
+    return levels;
+}
+
+/**
+ * Reads LOG_LEVEL (the root level) and LOG_NAMESPACES (a parseLevelSpec() spec).
+ * LOG_NAMESPACES wins when both set the root level.
+ *
+ * @example
+ * // LOG_LEVEL=warn LOG_NAMESPACES=payments=debug node server.js
+ * applyLevelSpec(Logger.getInstance(), levelSpecFromEnv(), {source: "env"})
+ */
+export function levelSpecFromEnv(env: Record<string, string | undefined> = processEnv()): Record<string, LogLevel> {
+    return {
+        ...(env.LOG_LEVEL?.trim() ? {"": parseLevel(env.LOG_LEVEL.trim(), "LOG_LEVEL")} : {}),
+        ...parseLevelSpec(env.LOG_NAMESPACES ?? ""),
+    };
+}
+
+/**
+ * Validates a parsed JSON config — see LevelConfig.
+ */
+export function parseLevelConfig(value: unknown): Record<string, LogLevel> {
+    if (!isRecord(value)) throw new Error("Log config must be a JSON object.");
+
+    const {level, namespaces} = value as LevelConfig;
+    if (namespaces !== undefined && !isRecord(namespaces)) throw new Error("\"namespaces\" must be an object.");
+
+    const levels: Record<string, LogLevel> = {};
+    if (level !== undefined) levels[""] = parseLevel(level, "level");
+
+    for (const [name, namespaceLevel] of Object.entries(namespaces ?? {})) {
+        levels[name] = parseLevel(namespaceLevel, `namespaces.${name}`);
+    }
+
+    return levels;
+}
+
+// ─── Applying ─────────────────────────────────────────────────────────────────
+
+/**
+ * Sets the level of every logger in the spec, below the given logger.
+ * Each change is announced as a configChange event with options.source.
+ */
+export function applyLevelSpec(logger: Logger, spec: LevelSpec, options: ChangeOptions = {}): void {
+    for (const [name, level] of Object.entries(spec)) {
+        if (name === "") {
+            logger.setLevel(level, options);
+        } else {
+            logger.setLevel(name, level, options);
+        }
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function parseLevel(value: unknown, where: string): LogLevel {
+    const level = typeof value === "number" ? value
+        : typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value) ? Number(value)
+            : typeof value === "string" ? levelFromLabel(value) : undefined;
+
+    if (level === undefined || !Number.isFinite(level)) {
+        throw new Error(`Unknown level ${JSON.stringify(value)} in "${where}".`);
+    }
+
+    return level;
+}
+
+function processEnv(): Record<string, string | undefined> {
+    return (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env ?? {};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
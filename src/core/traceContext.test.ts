@@ -0,0 +1,121 @@
+import {describe, expect, it} from "vitest";
+import {
+    createTraceContext,
+    currentTraceContext,
+    extractTraceContext,
+    formatTraceparent,
+    injectTraceContext,
+    parseTraceparent,
+    withTraceContext,
+} from "./traceContext";
+import {createLogEntry} from "./LogEntry";
+import {LogLevel} from "./LogLevel";
+import {LogContext} from "./LogContext";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe("traceContext", () => {
+    describe("parseTraceparent", () => {
+        it("should parse a valid header", () => {
+            expect(parseTraceparent(TRACEPARENT)).toEqual({traceId: TRACE_ID, spanId: SPAN_ID, sampled: true});
+        });
+
+        it("should read the sampled flag", () => {
+            expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(false);
+        });
+
+        it("should accept upper case and surrounding whitespace", () => {
+            expect(parseTraceparent(`  ${TRACEPARENT.toUpperCase()} `)?.traceId).toBe(TRACE_ID);
+        });
+
+        it("should accept extra fields from future versions only", () => {
+            expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-future`)?.traceId).toBe(TRACE_ID);
+            expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeNull();
+        });
+
+        it("should reject invalid headers", () => {
+            expect(parseTraceparent(undefined)).toBeNull();
+            expect(parseTraceparent("garbage")).toBeNull();
+            expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+            expect(parseTraceparent(`00-${"0".repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+            expect(parseTraceparent(`00-${TRACE_ID}-${"0".repeat(16)}-01`)).toBeNull();
+        });
+    });
+
+    it("should format a context as a traceparent header", () => {
+        expect(formatTraceparent({traceId: TRACE_ID, spanId: SPAN_ID})).toBe(TRACEPARENT);
+        expect(formatTraceparent({traceId: TRACE_ID, spanId: SPAN_ID, sampled: false})).toBe(`00-${TRACE_ID}-${SPAN_ID}-00`);
+    });
+
+    it("should create a new trace with valid ids", () => {
+        const context = createTraceContext();
+
+        expect(parseTraceparent(formatTraceparent(context))).toEqual(context);
+    });
+
+    describe("propagation", () => {
+        it("should extract from fetch Headers", () => {
+            const headers = new Headers({traceparent: TRACEPARENT});
+
+            expect(extractTraceContext(headers)?.traceId).toBe(TRACE_ID);
+        });
+
+        it("should extract from Node's incoming headers", () => {
+            expect(extractTraceContext({traceparent: TRACEPARENT})?.spanId).toBe(SPAN_ID);
+            expect(extractTraceContext({traceparent: [TRACEPARENT, "other"]})?.spanId).toBe(SPAN_ID);
+            expect(extractTraceContext({})).toBeNull();
+        });
+
+        it("should inject the current trace", () => {
+            const headers: Record<string, string> = {};
+
+            withTraceContext({traceId: TRACE_ID, spanId: SPAN_ID}, () => injectTraceContext(headers));
+
+            expect(headers.traceparent).toBe(TRACEPARENT);
+        });
+
+        it("should inject a new trace outside of traced scopes", () => {
+            const headers = new Headers();
+
+            const sent = injectTraceContext(headers);
+
+            expect(headers.get("traceparent")).toBe(formatTraceparent(sent));
+        });
+    });
+
+    describe("async context", () => {
+        it("should expose the trace of the current scope", () => {
+            expect(currentTraceContext()).toBeUndefined();
+
+            withTraceContext({traceId: TRACE_ID, spanId: SPAN_ID}, () => {
+                expect(currentTraceContext()).toMatchObject({traceId: TRACE_ID, spanId: SPAN_ID});
+            });
+        });
+
+        it("should keep the sampled flag of the scope, nested scopes included", async () => {
+            const headers: Record<string, string> = {};
+
+            await withTraceContext({traceId: TRACE_ID, spanId: SPAN_ID, sampled: false}, () =>
+                LogContext.run({userId: "123"}, async () => {
+                    await Promise.resolve();
+                    injectTraceContext(headers);
+                })
+            );
+
+            expect(headers.traceparent).toBe(`00-${TRACE_ID}-${SPAN_ID}-00`);
+        });
+
+        it("should put the trace on entries created inside the scope", async () => {
+            const entry = await withTraceContext({traceId: TRACE_ID, spanId: SPAN_ID}, async () => {
+                await Promise.resolve();
+                return createLogEntry({level: LogLevel.INFO, message: "Test"});
+            });
+
+            expect(entry.traceId).toBe(TRACE_ID);
+            expect(entry.spanId).toBe(SPAN_ID);
+            expect(entry.context).toBeUndefined();
+        });
+    });
+});
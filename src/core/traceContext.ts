@@ -0,0 +1,168 @@
+import {LogContext} from "./LogContext";
+import {randomHex} from "./generateId";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * The identifiers of a W3C Trace Context (https://www.w3.org/TR/trace-context/).
+ */
+export interface TraceContext {
+    /**
+     * 32 lowercase hex characters — shared by everything that happens for one operation,
+     * across browser, API and downstream services.
+     */
+    readonly traceId: string;
+
+    /**
+     * 16 lowercase hex characters — the operation (span) that is currently running.
+     */
+    readonly spanId: string;
+
+    /**
+     * The "sampled" trace flag — whether the caller records this trace. Default: true.
+     */
+    readonly sampled?: boolean;
+}
+
+/**
+ * Incoming headers — a fetch Headers object or Node's IncomingHttpHeaders.
+ */
+export type ReadableHeaders =
+    | { get(name: string): string | null }
+    | Record<string, string | string[] | undefined>;
+
+/**
+ * Outgoing headers — a fetch Headers object or a plain object.
+ */
+export type WritableHeaders =
+    | { set(name: string, value: string): void }
+    | Record<string, string>;
+
+const TRACEPARENT = "traceparent";
+const TRACEPARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/;
+const TRACE_ID_PATTERN = /^[\da-f]{32}$/;
+const SPAN_ID_PATTERN = /^[\da-f]{16}$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+/**
+ * Scopes opened by withTraceContext() → their trace.
+ *
+ * Why not a field of the scope?
+ * Scope fields are merged into the context of every entry — a sampled flag does not belong there.
+ */
+const traces = new WeakMap<object, TraceContext>();
+
+// ─── traceparent ──────────────────────────────────────────────────────────────
+
+/**
+ * Parses a traceparent header value — "00-<trace-id>-<span-id>-<flags>".
+ * Returns null for anything invalid, as the spec requires: an invalid header starts a new trace.
+ */
+export function parseTraceparent(value: string | null | undefined): TraceContext | null {
+    const match = TRACEPARENT_PATTERN.exec(value?.trim().toLowerCase() ?? "");
+    if (!match) return null;
+
+    const [, version, traceId, spanId, flags, extra] = match;
+
+    // Version ff is forbidden; version 00 has exactly four fields, later versions may add more
+    if (version === "ff" || (version === "00" && extra !== undefined)) return null;
+    if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null;
+
+    return {traceId, spanId, sampled: (parseInt(flags, 16) & 0x01) === 1};
+}
+
+/**
+ * 32 lowercase hex characters, not all zeros — what the spec, OTLP and the ingestion server accept.
+ */
+export function isValidTraceId(value: unknown): value is string {
+    return typeof value === "string" && TRACE_ID_PATTERN.test(value) && value !== INVALID_TRACE_ID;
+}
+
+/**
+ * 16 lowercase hex characters, not all zeros.
+ */
+export function isValidSpanId(value: unknown): value is string {
+    return typeof value === "string" && SPAN_ID_PATTERN.test(value) && value !== INVALID_SPAN_ID;
+}
+
+export function formatTraceparent(context: TraceContext): string {
+    return `00-${context.traceId}-${context.spanId}-${context.sampled === false ? "00" : "01"}`;
+}
+
+/**
+ * A new trace with random ids — for work that did not arrive with a traceparent.
+ */
+export function createTraceContext(): TraceContext {
+    return {traceId: randomHex(16), spanId: randomHex(8), sampled: true};
+}
+
+// ─── Async context ────────────────────────────────────────────────────────────
+
+/**
+ * Runs fn inside a LogContext scope carrying the trace — every entry logged inside
+ * gets entry.traceId and entry.spanId.
+ *
+ * @example
+ * app.use((req, res, next) => {
+ *     withTraceContext(extractTraceContext(req.headers) ?? createTraceContext(), next)
+ * })
+ */
+export function withTraceContext<R>(context: TraceContext, fn: () => R): R {
+    return LogContext.run({traceId: context.traceId, spanId: context.spanId}, () => {
+        traces.set(LogContext.get()!, context);
+        return fn();
+    });
+}
+
+/**
+ * The trace of the current LogContext scope, or undefined outside of a traced scope.
+ */
+export function currentTraceContext(): TraceContext | undefined {
+    const {traceId, spanId} = LogContext.get() ?? {};
+    if (typeof traceId !== "string" || typeof spanId !== "string") return undefined;
+
+    // Ids set some other way — LogContext.run({traceId}) — carry no flag, they count as sampled
+    const trace = LogContext.lookup(traces);
+    return {traceId, spanId, sampled: trace?.traceId === traceId ? trace.sampled !== false : true};
+}
+
+// ─── Propagation ──────────────────────────────────────────────────────────────
+
+/**
+ * Reads the trace of an incoming request. Null when the header is missing or invalid.
+ */
+export function extractTraceContext(headers: ReadableHeaders): TraceContext | null {
+    if (typeof headers.get === "function") {
+        return parseTraceparent((headers as { get(name: string): string | null }).get(TRACEPARENT));
+    }
+
+    // Node lower-cases incoming header names; repeated headers arrive as an array
+    const value = (headers as Record<string, string | string[] | undefined>)[TRACEPARENT];
+    return parseTraceparent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Sets the traceparent header of an outgoing request — the current trace by default,
+ * a new one outside of traced scopes. Returns the trace that was sent,
+ * so the caller can log under the same ids.
+ *
+ * @example
+ * const headers = new Headers()
+ * injectTraceContext(headers)
+ * await fetch("/api/orders", {headers})
+ */
+export function injectTraceContext(
+    headers: WritableHeaders,
+    context: TraceContext = currentTraceContext() ?? createTraceContext()
+): TraceContext {
+    const value = formatTraceparent(context);
+
+    if (typeof headers.set === "function") {
+        (headers as { set(name: string, value: string): void }).set(TRACEPARENT, value);
+    } else {
+        (headers as Record<string, string>)[TRACEPARENT] = value;
+    }
+
+    return context;
+}
@@ -0,0 +1,14 @@
+/**
+ * Lets the process exit while the timer is pending — returns the timer, so it can wrap setTimeout().
+ *
+ * Why?
+ * In Node a pending timer keeps the process alive — a logger must never do that.
+ * Browser timers have no unref() and never hold anything open, so there it does nothing.
+ *
+ * @example
+ * this.timer = unrefTimer(setTimeout(() => this.flush(), this.flushInterval))
+ */
+export function unrefTimer<T extends ReturnType<typeof setTimeout> | ReturnType<typeof setInterval>>(timer: T): T {
+    (timer as { unref?: () => void }).unref?.();
+    return timer;
+}
@@ -0,0 +1,76 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {mkdtemp, rm, unlink, writeFile} from "node:fs/promises";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {LogConfigWatcher, watchLogConfig} from "./watchLogConfig";
+import {ConfigChange, Logger} from "./Logger";
+import {LogLevel} from "./LogLevel";
+
+describe("watchLogConfig", () => {
+    let directory: string;
+    let path: string;
+    let watcher: LogConfigWatcher | undefined;
+
+    beforeEach(async () => {
+        Logger.reset();
+        directory = await mkdtemp(join(tmpdir(), "log-config-"));
+        path = join(directory, "logging.json");
+    });
+
+    afterEach(async () => {
+        watcher?.close();
+        watcher = undefined;
+        await rm(directory, {recursive: true, force: true});
+    });
+
+    it("should apply the file right away, with the file as source", async () => {
+        await writeFile(path, JSON.stringify({level: "warn", namespaces: {"payments.stripe": "debug"}}));
+        const logger = Logger.init({minLevel: LogLevel.INFO});
+        const changes: ConfigChange[] = [];
+        logger.on("configChange", (change) => changes.push(change));
+
+        watcher = watchLogConfig(logger, path, {interval: 10});
+
+        await vi.waitFor(() => expect(Logger.get("payments.stripe").level).toBe(LogLevel.DEBUG));
+        expect(logger.level).toBe(LogLevel.WARN);
+        expect(changes.every((change) => change.source === `file:${path}`)).toBe(true);
+    });
+
+    it("should follow changes and restore loggers the file no longer mentions", async () => {
+        await writeFile(path, JSON.stringify({level: "error", namespaces: {payments: "debug"}}));
+        const logger = Logger.init({minLevel: LogLevel.INFO});
+
+        watcher = watchLogConfig(logger, path, {interval: 10});
+        await vi.waitFor(() => expect(Logger.get("payments").level).toBe(LogLevel.DEBUG));
+
+        await writeFile(path, JSON.stringify({namespaces: {shipping: "trace"}}));
+
+        await vi.waitFor(() => expect(Logger.get("shipping").level).toBe(LogLevel.TRACE));
+        expect(Logger.get("payments").level).toBe(LogLevel.INFO);
+        expect(logger.level).toBe(LogLevel.INFO);
+    });
+
+    it("should treat a deleted file as empty", async () => {
+        await writeFile(path, JSON.stringify({namespaces: {payments: "debug"}}));
+        const logger = Logger.init({minLevel: LogLevel.INFO});
+
+        watcher = watchLogConfig(logger, path, {interval: 10});
+        await vi.waitFor(() => expect(Logger.get("payments").level).toBe(LogLevel.DEBUG));
+        await unlink(path);
+
+        await vi.waitFor(() => expect(Logger.get("payments").level).toBe(LogLevel.INFO));
+    });
+
+    it("should keep the levels and report an invalid file", async () => {
+        await writeFile(path, JSON.stringify({namespaces: {payments: "debug"}}));
+        const logger = Logger.init({minLevel: LogLevel.INFO});
+        const onError = vi.fn();
+
+        watcher = watchLogConfig(logger, path, {interval: 10, onError});
+        await vi.waitFor(() => expect(Logger.get("payments").level).toBe(LogLevel.DEBUG));
+        await writeFile(path, "{\"namespaces\": {\"payments\": \"loud\"}}");
+
+        await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({message: expect.stringContaining("loud")})));
+        expect(Logger.get("payments").level).toBe(LogLevel.DEBUG);
+    });
+});
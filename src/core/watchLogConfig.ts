@@ -0,0 +1,96 @@
+import {readFile} from "node:fs/promises";
+import {Stats, unwatchFile, watchFile} from "node:fs";
+import {LogLevel} from "./LogLevel";
+import {Logger} from "./Logger";
+import {applyLevelSpec, LevelSpec, parseLevelConfig} from "./levelSpec";
+
+export interface WatchLogConfigOptions {
+    /**
+     * How often the file is checked for changes, in ms. Default: 1000.
+     *
+     * Why polling instead of fs.watch?
+     * Editors and config management save by writing a new file and renaming it over the old one.
+     * fs.watch loses track of the file after a rename on some platforms; polling the path does not.
+     */
+    interval?: number;
+
+    /**
+     * Called when the file cannot be read or is invalid — the levels applied before stay in place.
+     * Default: console.error.
+     */
+    onError?: (error: Error) => void;
+}
+
+export interface LogConfigWatcher {
+    /**
+     * Stops watching. Levels applied so far stay in place.
+     */
+    close(): void;
+}
+
+// ─── watchLogConfig ───────────────────────────────────────────────────────────
+
+/**
+ * Applies the levels of a JSON file (see LevelConfig) to a logger, now and whenever the file changes —
+ * turn on DEBUG for one component in production without a redeploy:
+ *
+ * {"level": "warn", "namespaces": {"payments.stripe": "debug"}}
+ *
+ * Loggers that disappear from the file go back to what they had before the watcher touched them:
+ * named loggers inherit again, the root gets its level from when watching started.
+ * A missing file counts as an empty one. Changes are announced as configChange events with
+ * source "file:<path>".
+ *
+ * Node-only.
+ */
+export function watchLogConfig(logger: Logger, path: string, options: WatchLogConfigOptions = {}): LogConfigWatcher {
+    const onError = options.onError ?? ((error: Error) => console.error("[watchLogConfig] Failed to apply log config:", error));
+    const initialRootLevel = logger.level;
+    let applied = new Set<string>();
+    let loading = Promise.resolve();
+
+    const apply = async () => {
+        try {
+            const levels = await readLevels(path);
+            const spec: LevelSpec = {...levels};
+
+            for (const name of applied) {
+                if (!(name in levels)) spec[name] = name === "" ? initialRootLevel : null;
+            }
+
+            applyLevelSpec(logger, spec, {source: `file:${path}`});
+            applied = new Set(Object.keys(levels));
+        } catch (error) {
+            onError(error as Error);
+        }
+    };
+
+    // One load at a time — a slow read must not apply an older version after a newer one
+    const reload = () => {
+        loading = loading.then(apply);
+    };
+
+    const listener = (current: Stats, previous: Stats) => {
+        if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) reload();
+    };
+
+    watchFile(path, {interval: options.interval ?? 1000, persistent: false}, listener);
+    reload();
+
+    return {
+        close: () => unwatchFile(path, listener),
+    };
+}
+
+async function readLevels(path: string): Promise<Record<string, LogLevel>> {
+    let text: string;
+
+    try {
+        text = await readFile(path, "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+        throw error;
+    }
+
+    return parseLevelConfig(JSON.parse(text));
+}
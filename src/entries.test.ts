@@ -0,0 +1,59 @@
+import {afterAll, beforeAll, describe, expect, it} from "vitest";
+import {execFile} from "node:child_process";
+import {mkdtemp, readFile, rm} from "node:fs/promises";
+import {createRequire} from "node:module";
+import {tmpdir} from "node:os";
+import {dirname, join} from "node:path";
+import {pathToFileURL} from "node:url";
+import {promisify} from "node:util";
+
+type MainEntry = typeof import("./index");
+type NodeEntry = typeof import("./node");
+
+/**
+ * Builds the package with its own tsup config and checks that the two entries share state —
+ * a level defined through the main entry must be known to everything exported from /node.
+ */
+describe("built entries", () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await mkdtemp(join(tmpdir(), "entries-"));
+
+        const require = createRequire(import.meta.url);
+        const cli = join(dirname(require.resolve("tsup/package.json")), "dist/cli-default.js");
+        await promisify(execFile)(process.execPath, [cli, "--out-dir", join(directory, "dist"), "--silent"]);
+    }, 120_000);
+
+    afterAll(async () => {
+        await rm(directory, {recursive: true, force: true});
+    });
+
+    async function writeWithCustomLevel(main: MainEntry, node: NodeEntry, name: string): Promise<unknown> {
+        const levels = main.defineLevels({[name]: {value: 1.5}});
+        const path = join(directory, `${name}.log`);
+        const transport = new node.FileTransport({path});
+
+        await transport.send({id: "1", level: levels[name]!, message: "Role changed", timestamp: new Date()});
+        await transport.close();
+
+        return JSON.parse(await readFile(path, "utf8")).level;
+    }
+
+    it("should share custom levels between the CommonJS entries", async () => {
+        const require = createRequire(import.meta.url);
+        const main = require(join(directory, "dist/index.js")) as MainEntry;
+        const node = require(join(directory, "dist/node.js")) as NodeEntry;
+
+        expect(await writeWithCustomLevel(main, node, "audit")).toBe("AUDIT");
+        expect(node.parseLogQuery(new URLSearchParams("level%3E=AUDIT")).minLevel).toBe(1.5);
+    });
+
+    it("should share custom levels between the ES module entries", async () => {
+        const main = await import(pathToFileURL(join(directory, "dist/index.mjs")).href) as MainEntry;
+        const node = await import(pathToFileURL(join(directory, "dist/node.mjs")).href) as NodeEntry;
+
+        expect(await writeWithCustomLevel(main, node, "review")).toBe("REVIEW");
+        expect(node.parseLogQuery(new URLSearchParams("level%3E=REVIEW")).minLevel).toBe(1.5);
+    });
+});
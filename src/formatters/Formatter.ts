@@ -0,0 +1,91 @@
+import {LogEntry} from "../core/LogEntry";
+import {levelLabel} from "../core/LogLevel";
+import {serializeError} from "../serializers/serializeError";
+import {toSafeValue} from "./toSafeValue";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * A formatter turns an entry into a string — the same contract ConsoleTransport
+ * and FileTransport accept as their `formatter` option.
+ */
+export type Formatter = (entry: LogEntry) => string;
+
+export type TimestampFormat =
+    | "iso"    // 2026-10-19T06:45:00.123Z
+    | "epoch"  // 1792392300123 (milliseconds)
+    | "local"; // 2026-10-19T08:45:00.123+02:00
+
+/**
+ * Options shared by the general-purpose formatters (JSON, logfmt, pretty).
+ * ECS and GELF follow fixed schemas and have their own options.
+ */
+export interface FormatterOptions {
+    /**
+     * How the timestamp is rendered. Default: "iso".
+     */
+    timestamp?: TimestampFormat;
+
+    /**
+     * Which fields to include, in this order. Default: all fields.
+     * Field names are the LogEntry names: "timestamp", "level", "message", "error", "context", ...
+     */
+    fields?: readonly string[];
+
+    /**
+     * Rename fields in the output, e.g. {timestamp: "@t", message: "msg"}.
+     */
+    rename?: Readonly<Record<string, string>>;
+}
+
+// ─── Record ───────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the flat, JSON-safe record that formatters render.
+ *
+ * The level becomes its label, the error a SerializedError, every value is made safe.
+ * Fields added to LogEntry later are carried over automatically after the standard ones.
+ */
+export function buildRecord(entry: LogEntry, options: FormatterOptions = {}): Record<string, unknown> {
+    const {timestamp, level, message, error, context, ...rest} = entry;
+
+    const fields: Record<string, unknown> = {
+        timestamp: formatTimestamp(timestamp, options.timestamp ?? "iso"),
+        level: levelLabel(level),
+        message,
+        error: error !== undefined ? serializeError(error) : undefined,
+        context,
+        ...rest,
+    };
+
+    const record: Record<string, unknown> = {};
+    for (const name of options.fields ?? Object.keys(fields)) {
+        const value = toSafeValue(fields[name]);
+        if (value === undefined) continue;
+
+        record[options.rename?.[name] ?? name] = value;
+    }
+
+    return record;
+}
+
+export function formatTimestamp(date: Date, format: TimestampFormat): string | number {
+    if (format === "epoch") return date.getTime();
+    if (format === "local") return toLocalIsoString(date);
+
+    return date.toISOString();
+}
+
+/**
+ * ISO 8601 in local time with the UTC offset — toISOString() is always UTC.
+ */
+function toLocalIsoString(date: Date): string {
+    const pad = (value: number, length = 2) => String(Math.abs(value)).padStart(length, "0");
+    const offset = -date.getTimezoneOffset();
+    const sign = offset >= 0 ? "+" : "-";
+
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+        `.${pad(date.getMilliseconds(), 3)}` +
+        `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
@@ -0,0 +1,58 @@
+import {describe, expect, it} from "vitest";
+import {ECS_VERSION, ecsFormatter} from "./ecsFormatter";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+describe("ecsFormatter", () => {
+    const entry = createLogEntry({
+        level: LogLevel.ERROR,
+        message: "Payment failed",
+        error: Object.assign(new TypeError("Card declined"), {code: "E_CARD"}),
+        context: {orderId: "ord-456"},
+    });
+
+    it("should render the ECS base fields", () => {
+        const output = JSON.parse(ecsFormatter()(entry));
+
+        expect(output).toMatchObject({
+            "@timestamp": entry.timestamp.toISOString(),
+            "log.level": "error",
+            message: "Payment failed",
+            "ecs.version": ECS_VERSION,
+        });
+    });
+
+    it("should map the error to ECS error fields", () => {
+        const output = JSON.parse(ecsFormatter()(entry));
+
+        expect(output.error).toMatchObject({type: "TypeError", message: "Card declined", code: "E_CARD"});
+        expect(output.error.stack_trace).toContain("TypeError: Card declined");
+    });
+
+    it("should include service fields and context", () => {
+        const output = JSON.parse(ecsFormatter({serviceName: "checkout", environment: "production", contextField: "labels"})(entry));
+
+        expect(output.service).toEqual({name: "checkout", environment: "production"});
+        expect(output.labels).toEqual({orderId: "ord-456"});
+    });
+
+    it("should map entry, trace and span ids", () => {
+        const traced = createLogEntry({
+            id: "e1",
+            level: LogLevel.INFO,
+            message: "Test",
+            context: {traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7"},
+        });
+        const output = JSON.parse(ecsFormatter()(traced));
+
+        expect(output["event.id"]).toBe("e1");
+        expect(output["trace.id"]).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+        expect(output["span.id"]).toBe("00f067aa0ba902b7");
+    });
+
+    it("should map the logger name to log.logger", () => {
+        const output = JSON.parse(ecsFormatter()({...createLogEntry({level: LogLevel.INFO, message: "Test"}), logger: "payments.stripe"}));
+
+        expect(output["log.logger"]).toBe("payments.stripe");
+    });
+});
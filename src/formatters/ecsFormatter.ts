@@ -0,0 +1,70 @@
+import {levelLabel} from "../core/LogLevel";
+import {serializeError} from "../serializers/serializeError";
+import {Formatter} from "./Formatter";
+import {toSafeValue} from "./toSafeValue";
+
+export interface EcsFormatterOptions {
+    /**
+     * service.name — identifies the application in Kibana.
+     */
+    serviceName?: string;
+
+    /**
+     * service.version
+     */
+    serviceVersion?: string;
+
+    /**
+     * service.environment — "production", "staging", ...
+     */
+    environment?: string;
+
+    /**
+     * Field that holds entry.context. Default: "context".
+     * ECS has no field for free-form context — custom fields are allowed outside the ECS names.
+     */
+    contextField?: string;
+}
+
+export const ECS_VERSION = "8.11.0";
+
+/**
+ * Formatter factory — Elastic Common Schema JSON, as specified by ecs-logging.
+ *
+ * The schema is fixed, so the shared FormatterOptions (rename, fields, timestamp) do not apply:
+ * Elasticsearch expects exactly these names and an ISO "@timestamp".
+ */
+export function ecsFormatter(options: EcsFormatterOptions = {}): Formatter {
+    const service = {
+        ...(options.serviceName ? {name: options.serviceName} : {}),
+        ...(options.serviceVersion ? {version: options.serviceVersion} : {}),
+        ...(options.environment ? {environment: options.environment} : {}),
+    };
+
+    return (entry) => {
+        const error = entry.error !== undefined ? serializeError(entry.error) : undefined;
+
+        const record: Record<string, unknown> = {
+            "@timestamp": entry.timestamp.toISOString(),
+            "log.level": levelLabel(entry.level).toLowerCase(),
+            ...(entry.logger ? {"log.logger": entry.logger} : {}),
+            message: entry.message,
+            "ecs.version": ECS_VERSION,
+            "event.id": entry.id,
+            ...(entry.traceId ? {"trace.id": entry.traceId} : {}),
+            ...(entry.spanId ? {"span.id": entry.spanId} : {}),
+            ...(Object.keys(service).length > 0 ? {service} : {}),
+            ...(error ? {
+                error: {
+                    type: error.name,
+                    message: error.message,
+                    ...(error.stack ? {stack_trace: error.stack} : {}),
+                    ...(error.code !== undefined ? {code: String(error.code)} : {}),
+                },
+            } : {}),
+            ...(entry.context ? {[options.contextField ?? "context"]: toSafeValue(entry.context)} : {}),
+        };
+
+        return JSON.stringify(record);
+    };
+}
@@ -0,0 +1,51 @@
+import {describe, expect, it} from "vitest";
+import {gelfFormatter} from "./gelfFormatter";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+describe("gelfFormatter", () => {
+    const entry = {
+        ...createLogEntry({
+            level: LogLevel.WARN,
+            message: "Slow query",
+            context: {id: "q-1", db: {name: "orders", ms: 1200}, tags: ["a"]},
+        }),
+        timestamp: new Date("2026-10-19T06:45:00.123Z"),
+    };
+
+    it("should render the GELF 1.1 base fields", () => {
+        const output = JSON.parse(gelfFormatter({host: "api-1"})(entry));
+
+        expect(output).toMatchObject({
+            version: "1.1",
+            host: "api-1",
+            short_message: "Slow query",
+            timestamp: 1792392300.123,
+            level: 4,
+        });
+    });
+
+    it("should flatten context into underscore-prefixed fields", () => {
+        const output = JSON.parse(gelfFormatter()(entry));
+
+        expect(output._db_name).toBe("orders");
+        expect(output._db_ms).toBe(1200);
+        expect(output._tags).toBe('["a"]');
+    });
+
+    it("should not emit the reserved _id field", () => {
+        const output = JSON.parse(gelfFormatter()(entry));
+
+        expect(output._id).toBeUndefined();
+        expect(output._context_id).toBe("q-1");
+        expect(output._entry_id).toBe(entry.id);
+    });
+
+    it("should put the stack into full_message", () => {
+        const error = new Error("Oops");
+        const output = JSON.parse(gelfFormatter()(createLogEntry({level: LogLevel.ERROR, message: "Test", error})));
+
+        expect(output.full_message).toBe(error.stack);
+        expect(output.level).toBe(3);
+    });
+});
@@ -0,0 +1,76 @@
+import {levelLabel} from "../core/LogLevel";
+import {serializeError, SerializedError} from "../serializers/serializeError";
+import {Formatter} from "./Formatter";
+import {toSyslogSeverity} from "./syslogSeverity";
+import {toSafeValue} from "./toSafeValue";
+
+export interface GelfFormatterOptions {
+    /**
+     * "host" field — the name of the machine or application that sent the message. Default: "unknown".
+     */
+    host?: string;
+}
+
+/**
+ * Formatter factory — Graylog Extended Log Format (GELF 1.1) JSON.
+ *
+ * GELF rules we have to follow:
+ * - timestamp in seconds (with decimals), level as syslog severity
+ * - additional fields are prefixed with "_", flat, and only strings or numbers
+ * - "_id" is reserved — entry.id goes to "_entry_id"
+ *
+ * Context is flattened with "_" separators: {user: {id: 1}} → "_user_id": 1.
+ */
+export function gelfFormatter(options: GelfFormatterOptions = {}): Formatter {
+    return (entry) => {
+        const error = entry.error !== undefined ? serializeError(entry.error) : undefined;
+
+        const record: Record<string, unknown> = {
+            version: "1.1",
+            host: options.host ?? "unknown",
+            short_message: entry.message,
+            ...(error ? {full_message: describeError(error)} : {}),
+            timestamp: entry.timestamp.getTime() / 1000,
+            level: toSyslogSeverity(entry.level),
+            _level_name: levelLabel(entry.level),
+            _entry_id: entry.id,
+            ...(entry.traceId ? {_trace_id: entry.traceId} : {}),
+            ...(entry.spanId ? {_span_id: entry.spanId} : {}),
+            ...(entry.logger ? {_logger: entry.logger} : {}),
+            ...(error ? {_error_name: error.name, _error_message: error.message} : {}),
+        };
+
+        flatten(toSafeValue(entry.context ?? {}), "", record);
+
+        return JSON.stringify(record);
+    };
+}
+
+function flatten(value: unknown, key: string, record: Record<string, unknown>): void {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+        for (const [childKey, child] of Object.entries(value)) {
+            flatten(child, key ? `${key}_${childKey}` : childKey, record);
+        }
+        return;
+    }
+
+    const name = `_${key.replace(/[^\w.-]/g, "_")}`;
+    if (name === "_id") {
+        record._context_id = toGelfValue(value);
+        return;
+    }
+
+    record[name] = toGelfValue(value);
+}
+
+function toGelfValue(value: unknown): string | number {
+    if (typeof value === "number") return value;
+    if (typeof value === "string") return value;
+
+    return JSON.stringify(value);
+}
+
+function describeError(error: SerializedError): string {
+    const head = error.stack ?? `${error.name}: ${error.message}`;
+    return error.cause ? `${head}\nCaused by: ${describeError(error.cause)}` : head;
+}
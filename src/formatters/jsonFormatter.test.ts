@@ -0,0 +1,68 @@
+import {describe, expect, it} from "vitest";
+import {jsonFormatter, ndjsonFormatter} from "./jsonFormatter";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+const entry = {
+    ...createLogEntry({
+        level: LogLevel.ERROR,
+        message: "Payment failed",
+        error: new TypeError("Card declined"),
+        context: {orderId: "ord-456"},
+    }),
+    timestamp: new Date("2026-10-19T06:45:00.123Z"),
+};
+
+describe("jsonFormatter", () => {
+    it("should render the entry as JSON with the level label", () => {
+        const output = JSON.parse(jsonFormatter()(entry));
+
+        expect(output).toMatchObject({
+            timestamp: "2026-10-19T06:45:00.123Z",
+            level: "ERROR",
+            message: "Payment failed",
+            error: {name: "TypeError", message: "Card declined"},
+            context: {orderId: "ord-456"},
+        });
+    });
+
+    it("should render the timestamp as epoch milliseconds", () => {
+        expect(JSON.parse(jsonFormatter({timestamp: "epoch"})(entry)).timestamp).toBe(1792392300123);
+    });
+
+    it("should render the timestamp in local time with offset", () => {
+        const timestamp = JSON.parse(jsonFormatter({timestamp: "local"})(entry)).timestamp;
+
+        expect(timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.123[+-]\d{2}:\d{2}$/);
+        expect(new Date(timestamp).getTime()).toBe(entry.timestamp.getTime());
+    });
+
+    it("should include only the selected fields in order", () => {
+        expect(jsonFormatter({fields: ["message", "level"]})(entry)).toBe('{"message":"Payment failed","level":"ERROR"}');
+    });
+
+    it("should rename fields", () => {
+        const output = JSON.parse(jsonFormatter({rename: {timestamp: "@t", message: "msg"}})(entry));
+
+        expect(output["@t"]).toBe("2026-10-19T06:45:00.123Z");
+        expect(output.msg).toBe("Payment failed");
+        expect(output.message).toBeUndefined();
+    });
+
+    it("should render unsafe context values safely", () => {
+        const context: Record<string, unknown> = {big: 1n};
+        context.self = context;
+
+        const output = JSON.parse(jsonFormatter()({...entry, context}));
+
+        expect(output.context).toEqual({big: "1", self: "[Circular]"});
+    });
+});
+
+describe("ndjsonFormatter", () => {
+    it("should always produce a single line", () => {
+        const output = ndjsonFormatter()({...entry, message: "multi\nline"});
+
+        expect(output.includes("\n")).toBe(false);
+    });
+});
@@ -0,0 +1,28 @@
+import {buildRecord, Formatter, FormatterOptions} from "./Formatter";
+
+export interface JsonFormatterOptions extends FormatterOptions {
+    /**
+     * Indentation passed to JSON.stringify. Default: none (single line).
+     */
+    space?: number;
+}
+
+/**
+ * Formatter factory — one JSON object per entry.
+ *
+ * @example
+ * jsonFormatter({timestamp: "epoch", rename: {message: "msg"}})
+ * // {"timestamp":1792392300123,"level":"INFO","msg":"User logged in","context":{"userId":"123"}}
+ */
+export function jsonFormatter(options: JsonFormatterOptions = {}): Formatter {
+    return (entry) => JSON.stringify(buildRecord(entry, options), null, options.space);
+}
+
+/**
+ * Formatter factory — newline-delimited JSON: always a single line per entry,
+ * whatever the options, so the output can be split on "\n".
+ * The newline itself is added by the transport.
+ */
+export function ndjsonFormatter(options: FormatterOptions = {}): Formatter {
+    return jsonFormatter({...options, space: undefined});
+}
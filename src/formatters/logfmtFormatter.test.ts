@@ -0,0 +1,41 @@
+import {describe, expect, it} from "vitest";
+import {logfmtFormatter} from "./logfmtFormatter";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+const timestamp = new Date("2026-10-19T06:45:00.123Z");
+
+describe("logfmtFormatter", () => {
+    it("should render key=value pairs", () => {
+        const entry = {...createLogEntry({id: "e1", level: LogLevel.INFO, message: "Started"}), timestamp};
+
+        expect(logfmtFormatter()(entry)).toBe("timestamp=2026-10-19T06:45:00.123Z level=INFO message=Started id=e1");
+    });
+
+    it("should quote and escape values", () => {
+        const entry = {...createLogEntry({level: LogLevel.INFO, message: 'say "hi"\nnow'}), timestamp};
+
+        expect(logfmtFormatter({fields: ["message"]})(entry)).toBe('message="say \\"hi\\"\\nnow"');
+    });
+
+    it("should flatten nested context and errors with dotted keys", () => {
+        const entry = createLogEntry({
+            level: LogLevel.ERROR,
+            message: "Failed",
+            error: new Error("Card declined"),
+            context: {user: {id: 123}, tags: ["a", "b"]},
+        });
+
+        const output = logfmtFormatter({fields: ["error", "context"]})(entry);
+
+        expect(output).toContain('error.message="Card declined"');
+        expect(output).toContain("context.user.id=123");
+        expect(output).toContain("context.tags.0=a context.tags.1=b");
+    });
+
+    it("should keep empty objects", () => {
+        const entry = createLogEntry({level: LogLevel.INFO, message: "Test", context: {}});
+
+        expect(logfmtFormatter({fields: ["context"]})(entry)).toBe("context={}");
+    });
+});
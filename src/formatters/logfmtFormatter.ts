@@ -0,0 +1,53 @@
+import {buildRecord, Formatter, FormatterOptions} from "./Formatter";
+
+/**
+ * Formatter factory — logfmt: `key=value` pairs separated by spaces.
+ *
+ * Nested values are flattened with dotted keys, so tools like Loki and Heroku
+ * can index them: context.userId=123 error.name=TypeError.
+ *
+ * @example
+ * level=ERROR message="Payment failed" context.orderId=ord-456 error.message="Card declined"
+ */
+export function logfmtFormatter(options: FormatterOptions = {}): Formatter {
+    return (entry) => {
+        const pairs: string[] = [];
+        flatten(buildRecord(entry, options), "", pairs);
+        return pairs.join(" ");
+    };
+}
+
+function flatten(value: unknown, key: string, pairs: string[]): void {
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value);
+
+        // Empty objects and arrays still deserve a key — otherwise they vanish silently
+        if (entries.length === 0 && key) {
+            pairs.push(`${key}=${Array.isArray(value) ? "[]" : "{}"}`);
+            return;
+        }
+
+        for (const [childKey, child] of entries) {
+            flatten(child, key ? `${key}.${childKey}` : childKey, pairs);
+        }
+        return;
+    }
+
+    pairs.push(`${key}=${quote(String(value))}`);
+}
+
+/**
+ * Values with spaces, quotes, "=" or control characters are quoted and escaped.
+ */
+function quote(value: string): string {
+    if (value !== "" && !/[\s"=\\]/.test(value)) return value;
+
+    const escaped = value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, "\\\"")
+        .replace(/\n/g, "\\n")
+        .replace(/\r/g, "\\r")
+        .replace(/\t/g, "\\t");
+
+    return `"${escaped}"`;
+}
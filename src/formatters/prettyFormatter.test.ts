@@ -0,0 +1,44 @@
+import {describe, expect, it} from "vitest";
+import {prettyFormatter} from "./prettyFormatter";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+describe("prettyFormatter", () => {
+    const timestamp = new Date("2026-10-19T06:45:00.123Z");
+
+    it("should render timestamp, level, message and context", () => {
+        const entry = {...createLogEntry({level: LogLevel.INFO, message: "Logged in", context: {userId: "123"}}), timestamp};
+
+        expect(prettyFormatter()(entry)).toBe('[2026-10-19T06:45:00.123Z] [INFO] Logged in {"userId":"123"}');
+    });
+
+    it("should render the error chain", () => {
+        const entry = {
+            ...createLogEntry({
+                level: LogLevel.ERROR,
+                message: "Payment failed",
+                error: new TypeError("Card declined", {cause: new Error("timeout")}),
+            }),
+            timestamp,
+        };
+
+        expect(prettyFormatter()(entry)).toBe(
+            "[2026-10-19T06:45:00.123Z] [ERROR] Payment failed | TypeError: Card declined ← caused by: Error: timeout"
+        );
+    });
+
+    it("should append stack frames when asked", () => {
+        const entry = createLogEntry({level: LogLevel.ERROR, message: "Test", error: new Error("Oops")});
+
+        const lines = prettyFormatter({stack: true})(entry).split("\n");
+
+        expect(lines.length).toBeGreaterThan(1);
+        expect(lines[1]).toMatch(/^\s+at /);
+    });
+
+    it("should color the level label when asked", () => {
+        const entry = createLogEntry({level: LogLevel.ERROR, message: "Test"});
+
+        expect(prettyFormatter({colors: true})(entry)).toContain("\u001b[31mERROR\u001b[0m");
+    });
+});
@@ -0,0 +1,73 @@
+import {LogLevel, nearestBuiltInLevel} from "../core/LogLevel";
+import {SerializedError} from "../serializers/serializeError";
+import {buildRecord, Formatter, FormatterOptions} from "./Formatter";
+import {safeStringify} from "./toSafeValue";
+
+export interface PrettyFormatterOptions extends Omit<FormatterOptions, "rename"> {
+    /**
+     * Color the level label with ANSI codes. Default: false.
+     * Turn it on for terminals — browsers and files show the codes as garbage.
+     */
+    colors?: boolean;
+
+    /**
+     * Append the stack trace of the error on the following lines. Default: false.
+     */
+    stack?: boolean;
+}
+
+const ANSI_RESET = "\u001b[0m";
+
+/**
+ * Custom levels take the color of the closest built-in level below them.
+ */
+const LEVEL_COLORS: Record<LogLevel, string> = {
+    [LogLevel.TRACE]: "\u001b[90m", // gray
+    [LogLevel.DEBUG]: "\u001b[90m", // gray
+    [LogLevel.INFO]: "\u001b[36m",  // cyan
+    [LogLevel.WARN]: "\u001b[33m",  // yellow
+    [LogLevel.ERROR]: "\u001b[31m", // red
+    [LogLevel.FATAL]: "\u001b[35m", // magenta
+};
+
+/**
+ * Formatter factory — human-readable output for the console.
+ *
+ * @example
+ * [2026-10-19T06:45:00.123Z] [ERROR] Payment failed | TypeError: Card declined ← caused by: Error: timeout {"orderId":"ord-456"}
+ */
+export function prettyFormatter(options: PrettyFormatterOptions = {}): Formatter {
+    return (entry) => {
+        const {timestamp, level, message, error, context} = buildRecord(entry, options);
+        const serializedError = error as SerializedError | undefined;
+
+        const parts: string[] = [];
+        if (timestamp !== undefined) parts.push(`[${timestamp}]`);
+        if (level !== undefined) parts.push(`[${colorize(String(level), entry.level, options.colors)}]`);
+        if (message !== undefined) parts.push(String(message));
+
+        let line = parts.join(" ");
+        if (serializedError) line += ` | ${describeChain(serializedError)}`;
+        if (context !== undefined && Object.keys(context as object).length > 0) line += ` ${safeStringify(context)}`;
+
+        if (options.stack && serializedError?.stack) {
+            const frames = serializedError.stack.split("\n").filter((frameLine) => /^\s+at |@/.test(frameLine));
+            if (frames.length > 0) line += `\n${frames.join("\n")}`;
+        }
+
+        return line;
+    };
+}
+
+/**
+ * One line per error chain: "TypeError: Card declined ← caused by: Error: timeout".
+ */
+function describeChain(error: SerializedError): string {
+    const head = `${error.name}: ${error.message}`;
+    return error.cause ? `${head} ← caused by: ${describeChain(error.cause)}` : head;
+}
+
+function colorize(label: string, level: LogLevel, enabled?: boolean): string {
+    const color = LEVEL_COLORS[nearestBuiltInLevel(level)];
+    return enabled && color ? `${color}${label}${ANSI_RESET}` : label;
+}
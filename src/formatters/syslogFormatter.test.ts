@@ -0,0 +1,94 @@
+import {describe, expect, it} from "vitest";
+import {resolveFacility, syslogFormatter} from "./syslogFormatter";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+function entry(overrides: Partial<LogEntry> = {}): LogEntry {
+    return {
+        ...createLogEntry({id: "e1", level: LogLevel.ERROR, message: "Payment failed"}),
+        timestamp: new Date(2026, 9, 9, 8, 45, 0, 123),
+        ...overrides,
+    };
+}
+
+describe("syslogFormatter — RFC 5424", () => {
+    it("should write the header, entry structured data and message", () => {
+        const format = syslogFormatter({hostname: "web-1", appName: "checkout", procId: 4242});
+        const value = entry();
+
+        expect(format(value)).toBe(
+            `<11>1 ${value.timestamp.toISOString()} web-1 checkout 4242 - [entry@32473 id="e1"] Payment failed`
+        );
+    });
+
+    it("should compute the priority from facility and severity", () => {
+        const format = syslogFormatter({facility: "local0"});
+
+        expect(format(entry({level: LogLevel.FATAL}))).toMatch(/^<130>1 /);
+        expect(format(entry({level: LogLevel.INFO}))).toMatch(/^<134>1 /);
+        expect(format(entry({level: LogLevel.TRACE}))).toMatch(/^<135>1 /);
+    });
+
+    it("should use the nil value for missing header fields", () => {
+        expect(syslogFormatter()(entry())).toMatch(/^<11>1 \S+ - - - - \[/);
+    });
+
+    it("should replace spaces and non-ASCII in header fields", () => {
+        const line = syslogFormatter({hostname: "web 1", appName: "čekaonica"})(entry());
+
+        expect(line.split(" ").slice(2, 4)).toEqual(["web_1", "_ekaonica"]);
+    });
+
+    it("should carry trace ids, the logger name and flattened context as structured data", () => {
+        const line = syslogFormatter({enterpriseId: 99999})(entry({
+            traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+            spanId: "00f067aa0ba902b7",
+            logger: "payments.stripe",
+            context: {orderId: "ord-456", user: {id: 7}, tags: ["a", "b"]},
+        }));
+
+        expect(line).toContain(
+            "[entry@99999 id=\"e1\" traceId=\"4bf92f3577b34da6a3ce929d0e0e4736\" spanId=\"00f067aa0ba902b7\" logger=\"payments.stripe\"]" +
+            "[context@99999 orderId=\"ord-456\" user.id=\"7\" tags=\"[\\\"a\\\",\\\"b\\\"\\]\"]"
+        );
+    });
+
+    it("should escape quotes, backslashes and brackets in values and sanitize names", () => {
+        const line = syslogFormatter()(entry({context: {"a b=c": "say \"hi\" [ok] C:\\tmp"}}));
+
+        expect(line).toContain("[context@32473 a_b_c=\"say \\\"hi\\\" [ok\\] C:\\\\tmp\"]");
+    });
+
+    it("should append the error chain to the message", () => {
+        const error = new TypeError("Card declined", {cause: new Error("Timeout")});
+        const line = syslogFormatter()(entry({error}));
+
+        expect(line).toMatch(/ Payment failed \| TypeError: Card declined ← Error: Timeout$/);
+    });
+});
+
+describe("syslogFormatter — RFC 3164", () => {
+    it("should write the BSD timestamp, hostname and tag", () => {
+        const format = syslogFormatter({format: "rfc3164", hostname: "web-1", appName: "checkout", procId: 4242});
+
+        expect(format(entry())).toBe("<11>Oct  9 08:45:00 web-1 checkout[4242]: Payment failed");
+    });
+
+    it("should append context as JSON", () => {
+        const line = syslogFormatter({format: "rfc3164", hostname: "web-1"})(entry({context: {orderId: "ord-456"}}));
+
+        expect(line).toBe("<11>Oct  9 08:45:00 web-1 Payment failed {\"orderId\":\"ord-456\"}");
+    });
+});
+
+describe("resolveFacility", () => {
+    it("should accept names and numbers", () => {
+        expect(resolveFacility("local7")).toBe(23);
+        expect(resolveFacility(3)).toBe(3);
+    });
+
+    it("should reject unknown facilities", () => {
+        expect(() => resolveFacility(24)).toThrow(RangeError);
+        expect(() => resolveFacility("nope" as "user")).toThrow("Unknown syslog facility \"nope\"");
+    });
+});
@@ -0,0 +1,217 @@
+import {LogEntry} from "../core/LogEntry";
+import {serializeError, SerializedError} from "../serializers/serializeError";
+import {Formatter} from "./Formatter";
+import {toSyslogSeverity} from "./syslogSeverity";
+import {toSafeValue} from "./toSafeValue";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SyslogFormat =
+    | "rfc5424"  // <11>1 2026-10-19T06:45:00.123Z web-1 checkout 4242 - [context@32473 orderId="ord-456"] Payment failed
+    | "rfc3164"; // <11>Oct 19 08:45:00 web-1 checkout[4242]: Payment failed {"orderId":"ord-456"}
+
+/**
+ * Syslog facilities (RFC 5424, section 6.2.1) — which part of the system a message comes from.
+ */
+export const SYSLOG_FACILITY = {
+    kern: 0,
+    user: 1,
+    mail: 2,
+    daemon: 3,
+    auth: 4,
+    syslog: 5,
+    lpr: 6,
+    news: 7,
+    uucp: 8,
+    cron: 9,
+    authpriv: 10,
+    ftp: 11,
+    local0: 16,
+    local1: 17,
+    local2: 18,
+    local3: 19,
+    local4: 20,
+    local5: 21,
+    local6: 22,
+    local7: 23,
+} as const;
+
+export type SyslogFacility = keyof typeof SYSLOG_FACILITY | number;
+
+export interface SyslogFormatterOptions {
+    /**
+     * Message format. Default: "rfc5424".
+     */
+    format?: SyslogFormat;
+
+    /**
+     * Facility — a name ("local0") or its number (16). Default: "user".
+     */
+    facility?: SyslogFacility;
+
+    /**
+     * HOSTNAME field — the machine that sent the message. Default: "-" (unknown).
+     */
+    hostname?: string;
+
+    /**
+     * APP-NAME field (the TAG in RFC 3164). Default: "-" (unknown).
+     */
+    appName?: string;
+
+    /**
+     * PROCID field, usually the process id. Default: "-" (unknown).
+     */
+    procId?: string | number;
+
+    /**
+     * MSGID field — the type of message, e.g. "AUDIT". RFC 5424 only. Default: "-".
+     */
+    msgId?: string;
+
+    /**
+     * Private Enterprise Number used in the structured data ids ("context@32473").
+     * Default: 32473, the number IANA reserves for documentation — collectors accept it,
+     * but organizations with their own number should use it.
+     */
+    enterpriseId?: number;
+}
+
+const NIL = "-";
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// ─── syslogFormatter ──────────────────────────────────────────────────────────
+
+/**
+ * Formatter factory — syslog messages, RFC 5424 or legacy RFC 3164 (BSD syslog).
+ *
+ * The result is one message without framing — SyslogTransport adds the
+ * octet count for TCP and TLS.
+ *
+ * RFC 5424 carries the entry as structured data:
+ * - [entry@PEN id="..." traceId="..." spanId="..." logger="..."]
+ * - [context@PEN key="value" ...] — nested context is flattened with dotted keys
+ *
+ * RFC 3164 has no structured data, so context is appended to the message as JSON.
+ * Its timestamp has no year and no time zone — it is written in local time, as syslog daemons expect.
+ */
+export function syslogFormatter(options: SyslogFormatterOptions = {}): Formatter {
+    const format = options.format ?? "rfc5424";
+    const facility = resolveFacility(options.facility ?? "user");
+    const hostname = toHeaderField(options.hostname, 255);
+    const appName = toHeaderField(options.appName, 48);
+    const procId = toHeaderField(options.procId === undefined ? undefined : String(options.procId), 128);
+    const msgId = toHeaderField(options.msgId, 32);
+    const enterpriseId = options.enterpriseId ?? 32473;
+
+    return (entry) => {
+        const priority = `<${facility * 8 + toSyslogSeverity(entry.level)}>`;
+        const message = describeMessage(entry);
+
+        if (format === "rfc3164") {
+            const tag = appName === NIL ? "" : ` ${appName.slice(0, 32)}${procId === NIL ? "" : `[${procId}]`}:`;
+            const context = entry.context && Object.keys(entry.context).length > 0
+                ? ` ${JSON.stringify(toSafeValue(entry.context))}`
+                : "";
+
+            return `${priority}${toBsdTimestamp(entry.timestamp)} ${hostname}${tag} ${message}${context}`;
+        }
+
+        const header = `${priority}1 ${entry.timestamp.toISOString()} ${hostname} ${appName} ${procId} ${msgId}`;
+        return `${header} ${toStructuredData(entry, enterpriseId)} ${message}`;
+    };
+}
+
+export function resolveFacility(facility: SyslogFacility): number {
+    const value = typeof facility === "number" ? facility : SYSLOG_FACILITY[facility];
+
+    if (!Number.isInteger(value) || value < 0 || value > 23) {
+        throw new RangeError(`Unknown syslog facility "${facility}" — expected a name or a number from 0 to 23.`);
+    }
+
+    return value;
+}
+
+// ─── Fields ───────────────────────────────────────────────────────────────────
+
+/**
+ * Header fields are printable US-ASCII without spaces, with a maximum length —
+ * anything else would shift the fields that follow.
+ */
+function toHeaderField(value: string | undefined, maxLength: number): string {
+    const field = (value ?? "").replace(/[^\x21-\x7e]/g, "_").slice(0, maxLength);
+    return field === "" ? NIL : field;
+}
+
+/**
+ * "Oct 19 08:45:00" — the day is padded with a space, not a zero.
+ */
+function toBsdTimestamp(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+
+    return `${MONTHS[date.getMonth()]} ${String(date.getDate()).padStart(2, " ")} ` +
+        `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * The message followed by the error chain: "Payment failed | TypeError: Card declined ← Error: Timeout".
+ * Syslog messages are single lines for most collectors, so the stack is left out.
+ */
+function describeMessage(entry: LogEntry): string {
+    if (entry.error === undefined) return entry.message;
+
+    const chain: string[] = [];
+    for (let error: SerializedError | undefined = serializeError(entry.error); error; error = error.cause) {
+        chain.push(`${error.name}: ${error.message}`);
+    }
+
+    return `${entry.message} | ${chain.join(" ← ")}`;
+}
+
+// ─── Structured data ──────────────────────────────────────────────────────────
+
+function toStructuredData(entry: LogEntry, enterpriseId: number): string {
+    const elements: string[] = [];
+
+    const meta: [string, string][] = [["id", entry.id]];
+    if (entry.traceId) meta.push(["traceId", entry.traceId]);
+    if (entry.spanId) meta.push(["spanId", entry.spanId]);
+    if (entry.logger) meta.push(["logger", entry.logger]);
+    elements.push(toElement(`entry@${enterpriseId}`, meta));
+
+    const params: [string, string][] = [];
+    flatten(toSafeValue(entry.context ?? {}), "", params);
+    if (params.length > 0) elements.push(toElement(`context@${enterpriseId}`, params));
+
+    return elements.join("");
+}
+
+function toElement(id: string, params: [string, string][]): string {
+    const rendered = params.map(([name, value]) => ` ${toParamName(name)}="${escapeParamValue(value)}"`);
+    return `[${id}${rendered.join("")}]`;
+}
+
+function flatten(value: unknown, key: string, params: [string, string][]): void {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+        for (const [childKey, child] of Object.entries(value)) {
+            flatten(child, key ? `${key}.${childKey}` : childKey, params);
+        }
+        return;
+    }
+
+    params.push([key, typeof value === "string" ? value : JSON.stringify(value)]);
+}
+
+/**
+ * PARAM-NAME: 1-32 printable characters except "=", space, "]" and '"'.
+ */
+function toParamName(name: string): string {
+    return (name.replace(/[^\x21-\x7e]|[=\]"]/g, "_").slice(0, 32)) || "_";
+}
+
+/**
+ * PARAM-VALUE: '"', "\" and "]" must be escaped with a backslash.
+ */
+function escapeParamValue(value: string): string {
+    return value.replace(/["\\\]]/g, (character) => `\\${character}`);
+}
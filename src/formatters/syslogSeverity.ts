@@ -0,0 +1,28 @@
+import {LogLevel} from "../core/LogLevel";
+
+/**
+ * Syslog severities (RFC 5424, section 6.2.1) — also used by GELF.
+ * Lower number = more severe, the opposite of LogLevel.
+ */
+export const SYSLOG_SEVERITY = {
+    EMERGENCY: 0,
+    ALERT: 1,
+    CRITICAL: 2,
+    ERROR: 3,
+    WARNING: 4,
+    NOTICE: 5,
+    INFORMATIONAL: 6,
+    DEBUG: 7,
+} as const;
+
+/**
+ * Compares by range, so custom levels map too — an AUDIT level at 1.5 becomes INFORMATIONAL.
+ */
+export function toSyslogSeverity(level: LogLevel): number {
+    if (level >= LogLevel.FATAL) return SYSLOG_SEVERITY.CRITICAL;
+    if (level >= LogLevel.ERROR) return SYSLOG_SEVERITY.ERROR;
+    if (level >= LogLevel.WARN) return SYSLOG_SEVERITY.WARNING;
+    if (level >= LogLevel.INFO) return SYSLOG_SEVERITY.INFORMATIONAL;
+
+    return SYSLOG_SEVERITY.DEBUG;
+}
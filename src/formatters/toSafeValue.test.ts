@@ -0,0 +1,61 @@
+import {describe, expect, it} from "vitest";
+import {safeStringify, toSafeValue} from "./toSafeValue";
+
+describe("toSafeValue", () => {
+    it("should replace circular references", () => {
+        const value: Record<string, unknown> = {name: "root"};
+        value.self = value;
+
+        expect(toSafeValue(value)).toEqual({name: "root", self: "[Circular]"});
+    });
+
+    it("should keep shared references that are not circular", () => {
+        const shared = {id: 1};
+
+        expect(toSafeValue({a: shared, b: shared})).toEqual({a: {id: 1}, b: {id: 1}});
+    });
+
+    it("should convert BigInt, Map, Set and Date", () => {
+        expect(toSafeValue({
+            big: 10n,
+            map: new Map<unknown, unknown>([["a", 1], [2, "b"]]),
+            set: new Set([1, 2]),
+            date: new Date("2026-10-19T06:45:00.000Z"),
+            invalid: new Date("nope"),
+        })).toEqual({
+            big: "10",
+            map: {a: 1, 2: "b"},
+            set: [1, 2],
+            date: "2026-10-19T06:45:00.000Z",
+            invalid: "Invalid Date",
+        });
+    });
+
+    it("should serialize errors", () => {
+        expect(toSafeValue({error: new Error("Oops")})).toMatchObject({error: {name: "Error", message: "Oops"}});
+    });
+
+    it("should drop undefined properties and stringify functions and symbols", () => {
+        expect(toSafeValue({gone: undefined, fn: function handler() {}, sym: Symbol("s")})).toEqual({
+            fn: "[Function handler]",
+            sym: "Symbol(s)",
+        });
+    });
+
+    it("should stringify non-finite numbers", () => {
+        expect(toSafeValue([NaN, Infinity])).toEqual(["NaN", "Infinity"]);
+    });
+
+    it("should cut off values deeper than maxDepth", () => {
+        expect(toSafeValue({a: {b: {c: 1}}, list: [[1]]}, {maxDepth: 1})).toEqual({a: "[Object]", list: "[Array]"});
+    });
+});
+
+describe("safeStringify", () => {
+    it("should never throw", () => {
+        const value: Record<string, unknown> = {big: 1n};
+        value.self = value;
+
+        expect(safeStringify(value)).toBe('{"big":"1","self":"[Circular]"}');
+    });
+});
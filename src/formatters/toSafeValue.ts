@@ -0,0 +1,76 @@
+import {isError, serializeError} from "../serializers/serializeError";
+
+export interface SafeValueOptions {
+    /**
+     * Nesting depth after which objects are replaced with "[Object]" / "[Array]". Default: 10.
+     */
+    maxDepth?: number;
+}
+
+/**
+ * Converts any value into something JSON.stringify handles correctly.
+ *
+ * Why not just JSON.stringify with a replacer?
+ * A replacer sees Dates already converted and cannot tell a circular reference from
+ * a shared one. Walking the value ourselves lets us handle every case explicitly:
+ *
+ * - circular references → "[Circular]" (shared, non-circular references are kept)
+ * - BigInt → string (JSON.stringify throws on BigInt)
+ * - Map → plain object, Set → array
+ * - Date → ISO string (invalid dates → "Invalid Date")
+ * - Error → SerializedError
+ * - functions and symbols → their string form
+ * - undefined object properties are dropped, like JSON does
+ */
+export function toSafeValue(value: unknown, options: SafeValueOptions = {}): unknown {
+    return walk(value, options.maxDepth ?? 10, 0, new Set());
+}
+
+function walk(value: unknown, maxDepth: number, depth: number, ancestors: Set<object>): unknown {
+    if (value === null || typeof value === "string" || typeof value === "boolean") return value;
+    if (typeof value === "number") return Number.isFinite(value) ? value : String(value);
+    if (typeof value === "bigint") return value.toString();
+    if (typeof value === "function") return `[Function ${value.name || "anonymous"}]`;
+    if (typeof value === "symbol") return value.toString();
+    if (value === undefined) return undefined;
+
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+    }
+
+    if (isError(value)) return serializeError(value);
+
+    const object = value as object;
+    if (ancestors.has(object)) return "[Circular]";
+    if (depth >= maxDepth) return Array.isArray(object) || object instanceof Set ? "[Array]" : "[Object]";
+
+    ancestors.add(object);
+
+    try {
+        const next = (item: unknown) => walk(item, maxDepth, depth + 1, ancestors);
+
+        if (Array.isArray(object)) return object.map((item) => next(item) ?? null);
+        if (object instanceof Set) return [...object].map((item) => next(item) ?? null);
+
+        const entries = object instanceof Map
+            ? [...object.entries()].map(([key, item]) => [String(key), item] as const)
+            : Object.entries(object);
+
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of entries) {
+            const safe = next(item);
+            if (safe !== undefined) result[key] = safe;
+        }
+
+        return result;
+    } finally {
+        ancestors.delete(object);
+    }
+}
+
+/**
+ * JSON.stringify that never throws.
+ */
+export function safeStringify(value: unknown, space?: number): string {
+    return JSON.stringify(toSafeValue(value), null, space) ?? "undefined";
+}
@@ -1,21 +1,98 @@
 // ─── Core ─────────────────────────────────────────────────────────────────────
 export { Logger } from "./core/Logger";
-export { LogLevel, LOG_LEVEL_LABELS } from "./core/LogLevel";
+export { LogLevel, LOG_LEVEL_LABELS, defineLevels, levelLabel, levelFromLabel } from "./core/LogLevel";
+export { LogContext } from "./core/LogContext";
+export { parseTraceparent, formatTraceparent, createTraceContext, withTraceContext, currentTraceContext, extractTraceContext, injectTraceContext } from "./core/traceContext";
+export { generateId } from "./core/generateId";
+export { parseLevelSpec, parseLevelConfig, levelSpecFromEnv, applyLevelSpec } from "./core/levelSpec";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 // We export only the interface and factory function — not the implementation details
 export type { LogEntry } from "./core/LogEntry";
-export type { LoggerConfig } from "./core/Logger";
+export type { LoggerConfig, LevelMethods, NamedLoggerConfig, LoggerConfigPatch, ChangeOptions, ConfigChange, LoggerEvents, TransportErrorEvent, PluginErrorEvent, DropReason, DroppedEvent, FlushedEvent, LoggerStats } from "./core/Logger";
+export type { LevelSpec, LevelConfig } from "./core/levelSpec";
+export type { LevelDefinition, ConsoleMethod } from "./core/LogLevel";
+export type { ContextStorage } from "./core/LogContext";
+export type { TraceContext, ReadableHeaders, WritableHeaders } from "./core/traceContext";
+export type { Breadcrumb, BreadcrumbInput, BreadcrumbOptions } from "./core/Breadcrumbs";
+export type { CaptureGlobalErrorsOptions, GlobalErrorsHandle, GlobalErrorSource } from "./core/globalErrors";
+
+// ─── Serializers ──────────────────────────────────────────────────────────────
+export { serializeError, toError, isError, NON_ERROR_NAME } from "./serializers/serializeError";
+export type { SerializedError, SerializeErrorOptions } from "./serializers/serializeError";
+export { serializeEntry } from "./serializers/serializeEntry";
+export type { SerializedLogEntry, SerializedBreadcrumb } from "./serializers/serializeEntry";
+export { deserializeEntry, deserializeError } from "./serializers/deserializeEntry";
+
+// ─── Formatters ───────────────────────────────────────────────────────────────
+// Formatters are factories too — pass the result as a transport's `formatter` option
+export { jsonFormatter, ndjsonFormatter } from "./formatters/jsonFormatter";
+export type { JsonFormatterOptions } from "./formatters/jsonFormatter";
+export { logfmtFormatter } from "./formatters/logfmtFormatter";
+export { ecsFormatter, ECS_VERSION } from "./formatters/ecsFormatter";
+export type { EcsFormatterOptions } from "./formatters/ecsFormatter";
+export { gelfFormatter } from "./formatters/gelfFormatter";
+export type { GelfFormatterOptions } from "./formatters/gelfFormatter";
+export { prettyFormatter } from "./formatters/prettyFormatter";
+export type { PrettyFormatterOptions } from "./formatters/prettyFormatter";
+export { buildRecord, formatTimestamp } from "./formatters/Formatter";
+export type { Formatter, FormatterOptions, TimestampFormat } from "./formatters/Formatter";
+export { toSafeValue, safeStringify } from "./formatters/toSafeValue";
+export type { SafeValueOptions } from "./formatters/toSafeValue";
+export { syslogFormatter, SYSLOG_FACILITY } from "./formatters/syslogFormatter";
+export type { SyslogFormatterOptions, SyslogFormat, SyslogFacility } from "./formatters/syslogFormatter";
+export { SYSLOG_SEVERITY, toSyslogSeverity } from "./formatters/syslogSeverity";
+
+// ─── Stack traces ─────────────────────────────────────────────────────────────
+export { parseStack, isInAppFile } from "./stack/parseStack";
+export type { StackFrame, ParseStackOptions } from "./stack/parseStack";
+export { SourceMap } from "./stack/SourceMap";
+export type { RawSourceMap, OriginalPosition } from "./stack/SourceMap";
 
 // ─── Plugins ──────────────────────────────────────────────────────────────────
 // We export only the type — user writes plugin as a regular function
-export type { Plugin } from "./plugins/Plugin";
+export type { Plugin, PluginDefinition, PluginErrorPolicy, LoggerPlugin } from "./plugins/Plugin";
+export { PluginError } from "./plugins/Plugin";
+
+// Built-in plugins are factories — call them with options, get a Plugin back
+export { stackFrames } from "./plugins/stackFrames";
+export { symbolicate } from "./plugins/symbolicate";
+export type { SymbolicateOptions } from "./plugins/symbolicate";
+export { redact } from "./plugins/redact";
+export type { RedactOptions, RedactStrategy } from "./plugins/redact";
+export { DETECTORS, isValidLuhn, isValidIban } from "./plugins/redactDetectors";
+export type { RedactDetector, BuiltInDetector } from "./plugins/redactDetectors";
+export { sha256 } from "./plugins/sha256";
+export { dedupe } from "./plugins/dedupe";
+export type { DedupeOptions, DuplicateSummary } from "./plugins/dedupe";
+export { rateLimit } from "./plugins/rateLimit";
+export type { RateLimitOptions, RateLimitReason } from "./plugins/rateLimit";
+export type { TokenBucketOptions } from "./core/TokenBucket";
+export { fingerprintEntry, normalizeMessage } from "./plugins/fingerprint";
+export type { FingerprintOptions } from "./plugins/fingerprint";
 
 // ─── Transports ───────────────────────────────────────────────────────────────
 export { ConsoleTransport } from "./transports/ConsoleTransport";
 export type { ConsoleTransportOptions } from "./transports/ConsoleTransport";
+export { HttpTransport, HttpTransportError } from "./transports/HttpTransport";
+export type { HttpTransportOptions, HttpBodyEncoder } from "./transports/HttpTransport";
+export { OtlpTransport, otlpEncoder, toOtlpLogRecord, toSeverityNumber } from "./transports/OtlpTransport";
+export type { OtlpTransportOptions, OtlpLogRecord, OtlpAnyValue, OtlpKeyValue, OtlpExportLogsRequest } from "./transports/OtlpTransport";
+export { QueuedTransport } from "./transports/QueuedTransport";
+export type { QueuedTransportOptions, QueueOverflow, QueueEvictionReason } from "./transports/QueuedTransport";
+export { ResilientTransport } from "./transports/ResilientTransport";
+export type { ResilientTransportOptions, CircuitState } from "./transports/ResilientTransport";
+export { FanoutTransport } from "./transports/FanoutTransport";
+export type { FanoutTransportOptions } from "./transports/FanoutTransport";
+export { FirstSuccessTransport } from "./transports/FirstSuccessTransport";
+export type { FirstSuccessTransportOptions } from "./transports/FirstSuccessTransport";
+export { MemoryQueueStorage } from "./transports/QueueStorage";
+export type { QueueStorage, QueuedRecord } from "./transports/QueueStorage";
+export { IndexedDbQueueStorage } from "./transports/IndexedDbQueueStorage";
+export type { IndexedDbQueueStorageOptions } from "./transports/IndexedDbQueueStorage";
 
 // We export the Transport interface because users must implement
 // this contract if they write a custom transport
 export type { Transport } from "./transports/Transport";
-export { TransportError } from "./transports/Transport";
\ No newline at end of file
+export { TransportError, TransportDropError } from "./transports/Transport";
+export type { TransportRules, ContextMatcher, ContextMatcherValue } from "./transports/TransportRules";
\ No newline at end of file
@@ -0,0 +1,30 @@
+// ─── Node-only API ────────────────────────────────────────────────────────────
+// Everything here depends on Node built-ins (fs, net, ...).
+// Kept out of the main entry so browser bundles never pull them in.
+
+// ─── Transports ───────────────────────────────────────────────────────────────
+export { FileTransport } from "./transports/FileTransport";
+export type { FileTransportOptions } from "./transports/FileTransport";
+export { FileQueueStorage } from "./transports/FileQueueStorage";
+export type { FileQueueStorageOptions } from "./transports/FileQueueStorage";
+export { SyslogTransport } from "./transports/SyslogTransport";
+export type { SyslogTransportOptions, SyslogProtocol } from "./transports/SyslogTransport";
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+export { watchLogConfig } from "./core/watchLogConfig";
+export type { WatchLogConfigOptions, LogConfigWatcher } from "./core/watchLogConfig";
+
+// ─── Server ───────────────────────────────────────────────────────────────────
+export { IngestionServer } from "./server/IngestionServer";
+export type { IngestionServerOptions, IngestionProject, IngestionResponse, IngestionErrorResponse, IngestionErrorCode, RejectedEntry, LogQueryResponse, LevelCountResponse, FingerprintResponse } from "./server/IngestionServer";
+export { MemoryLogStorage, InvalidQueryError, serializeStoredEntry, deserializeStoredEntry } from "./server/LogStorage";
+export type { LogStorage, QueryableLogStorage, StoredEntry, SerializedStoredEntry, MemoryLogStorageOptions, LogFilter, LogQuery, LogQueryResult, LevelCountQuery, LevelCountBucket, FingerprintQuery, FingerprintSummary, RetentionOptions } from "./server/LogStorage";
+export { FileLogStorage } from "./server/FileLogStorage";
+export type { FileLogStorageOptions } from "./server/FileLogStorage";
+export { parseLogQuery, parseLevelCountQuery, parseFingerprintQuery } from "./server/parseLogQuery";
+export { validateEntry } from "./server/validateEntry";
+export type { EntryValidation, ValidationIssue } from "./server/validateEntry";
+
+// ─── Stack ────────────────────────────────────────────────────────────────────
+export { localSourceMaps } from "./stack/localSourceMaps";
+export type { LocalSourceMapsOptions } from "./stack/localSourceMaps";
@@ -1,4 +1,5 @@
 import { LogEntry } from "../core/LogEntry";
+import { Logger } from "../core/Logger";
 
 /**
  * Plugin is a pure function — takes entry, returns entry or null.
@@ -19,4 +20,79 @@ import { LogEntry } from "../core/LogEntry";
  */
 export type Plugin = (
     entry: LogEntry
-) => Promise<LogEntry | null> | LogEntry | null;
\ No newline at end of file
+) => Promise<LogEntry | null> | LogEntry | null;
+/**
+ * What happens to an entry when a plugin throws, rejects, times out or failed to set up:
+ * - "skip" — the plugin is skipped, the next one gets the entry as this one received it (default)
+ * - "drop" — the entry is dropped
+ * - "passThrough" — the entry is delivered as this plugin received it, the remaining plugins do not run
+ *
+ * Why not always skip?
+ * It depends on the plugin. A failing enrichment plugin can be skipped, but a failing redaction
+ * plugin must not let the unredacted entry through — give it "drop".
+ */
+export type PluginErrorPolicy = "skip" | "drop" | "passThrough";
+
+/**
+ * The object form of a plugin — for plugins that hold resources or need their own error handling.
+ *
+ * @example
+ * const geoIp: PluginDefinition = {
+ *     name: "geoIp",
+ *     setup: async () => { database = await openGeoDatabase() },
+ *     teardown: () => database.close(),
+ *     process: (entry) => ({...entry, context: {...entry.context, country: lookup(entry)}}),
+ *     timeout: 200,
+ * }
+ */
+export interface PluginDefinition {
+    /**
+     * Used by removePlugin(), in configChange events and in failure reports.
+     */
+    readonly name: string;
+
+    readonly process: Plugin;
+
+    /**
+     * Called once when the plugin is added to a logger (config, addPlugin() or configure()).
+     * Entries wait for it to finish before this plugin processes them — at most the plugin's timeout,
+     * after which the setup counts as failed.
+     */
+    setup?(logger: Logger): void | Promise<void>;
+
+    /**
+     * Called once when no logger of the hierarchy uses the plugin anymore, and on shutdown().
+     * On shutdown() it runs before the transports are closed — entries it logs synchronously are still delivered.
+     */
+    teardown?(): void | Promise<void>;
+
+    /**
+     * Default: "skip".
+     */
+    readonly onError?: PluginErrorPolicy;
+
+    /**
+     * How long setup() or an async process() may take, in ms, before it counts as failed.
+     * Default: 5000. Infinity waits forever.
+     */
+    readonly timeout?: number;
+}
+
+/**
+ * What LoggerConfig.plugins and addPlugin() accept.
+ */
+export type LoggerPlugin = Plugin | PluginDefinition;
+
+/**
+ * Reported when a plugin throws, rejects, times out or fails to set up or tear down —
+ * the original error, if any, is the cause.
+ */
+export class PluginError extends Error {
+    readonly plugin: string;
+
+    constructor(plugin: string, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "PluginError";
+        this.plugin = plugin;
+    }
+}
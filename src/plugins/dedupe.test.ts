@@ -0,0 +1,173 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {dedupe, DuplicateSummary} from "./dedupe";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {Logger} from "../core/Logger";
+import {Transport} from "../transports/Transport";
+import {Plugin} from "./Plugin";
+
+function entry(message = "Payment failed"): LogEntry {
+    return createLogEntry({level: LogLevel.ERROR, message});
+}
+
+describe("dedupe", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        Logger.reset();
+    });
+
+    it("should let the first entry through with its fingerprint and drop repeats", async () => {
+        const plugin = dedupe({onSummary: () => undefined});
+
+        const first = await plugin.process(entry());
+
+        expect(first?.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+        expect(await plugin.process(entry())).toBeNull();
+        expect(await plugin.process(entry("Other problem"))).not.toBeNull();
+    });
+
+    it("should report suppressed duplicates when the window ends", async () => {
+        const summaries: DuplicateSummary[] = [];
+        const plugin = dedupe({windowMs: 1000, onSummary: (summary) => summaries.push(summary)});
+
+        const first = await plugin.process(entry("Payment 1 failed"));
+        await plugin.process(entry("Payment 2 failed"));
+        await plugin.process(entry("Payment 3 failed"));
+
+        vi.advanceTimersByTime(1000);
+
+        expect(summaries).toEqual([expect.objectContaining({
+            fingerprint: first?.fingerprint,
+            level: LogLevel.ERROR,
+            message: "Payment 1 failed",
+            count: 2,
+        })]);
+    });
+
+    it("should not report windows without duplicates", async () => {
+        const onSummary = vi.fn();
+        const plugin = dedupe({windowMs: 1000, onSummary});
+
+        await plugin.process(entry());
+        vi.advanceTimersByTime(1000);
+
+        expect(onSummary).not.toHaveBeenCalled();
+    });
+
+    it("should let the entry through again after the window", async () => {
+        const plugin = dedupe({windowMs: 1000, onSummary: () => undefined});
+
+        await plugin.process(entry());
+        vi.advanceTimersByTime(1000);
+
+        expect(await plugin.process(entry())).not.toBeNull();
+    });
+
+    it("should stop tracking beyond maxFingerprints", async () => {
+        const plugin = dedupe({maxFingerprints: 1, onSummary: () => undefined});
+
+        await plugin.process(entry("First"));
+
+        expect(await plugin.process(entry("Second"))).not.toBeNull();
+        expect(await plugin.process(entry("Second"))).not.toBeNull();
+        expect(await plugin.process(entry("First"))).toBeNull();
+    });
+
+    it("should log the summary through the Logger by default", async () => {
+        const transport: Transport = {name: "mock", send: vi.fn().mockResolvedValue(undefined)};
+        const logger = Logger.init({plugins: [dedupe({windowMs: 1000})], transports: [transport]});
+
+        for (let i = 0; i < 1500; i++) logger.error("Payment failed", new Error("Card declined"));
+        await logger.flush();
+
+        vi.advanceTimersByTime(1000);
+        await logger.flush();
+
+        const messages = vi.mocked(transport.send).mock.calls.map(([sent]) => sent.message);
+        expect(messages).toEqual(["Payment failed", 'Suppressed 1,499 duplicates of "Payment failed"']);
+
+        const summary = vi.mocked(transport.send).mock.calls[1]![0];
+        expect(summary.level).toBe(LogLevel.ERROR);
+        expect(summary.context).toMatchObject({suppressed: 1499});
+    });
+
+    it("should log the summary through the logger it was added to", async () => {
+        const transport: Transport = {name: "mock", send: vi.fn().mockResolvedValue(undefined)};
+        const appLogger = Logger.init({transports: [{name: "app", send: vi.fn().mockResolvedValue(undefined)}]});
+        const libraryLogger = Logger.create({plugins: [dedupe({windowMs: 1000})], transports: [transport]});
+
+        for (let i = 0; i < 3; i++) libraryLogger.error("Payment failed");
+        await libraryLogger.flush();
+
+        vi.advanceTimersByTime(1000);
+        await libraryLogger.flush();
+        await appLogger.flush();
+
+        expect(vi.mocked(transport.send).mock.calls.map(([sent]) => sent.message))
+            .toEqual(["Payment failed", 'Suppressed 2 duplicates of "Payment failed"']);
+        expect(appLogger.getStats().logged).toEqual({});
+    });
+
+    it("should log the summary at the level of the duplicates", async () => {
+        const transport: Transport = {name: "mock", send: vi.fn().mockResolvedValue(undefined)};
+        const logger = Logger.init({minLevel: LogLevel.TRACE, plugins: [dedupe({windowMs: 1000})], transports: [transport]});
+
+        for (let i = 0; i < 3; i++) logger.fatal("Database unreachable");
+        for (let i = 0; i < 3; i++) logger.trace("Cache miss");
+        await logger.flush();
+
+        vi.advanceTimersByTime(1000);
+        await logger.flush();
+
+        const summaries = vi.mocked(transport.send).mock.calls.map(([sent]) => sent).filter((sent) => sent.message.startsWith("Suppressed"));
+        expect(summaries.map((summary) => summary.level)).toEqual([LogLevel.FATAL, LogLevel.TRACE]);
+    });
+
+    it("should report the open windows when the plugin is removed", async () => {
+        const transport: Transport = {name: "mock", send: vi.fn().mockResolvedValue(undefined)};
+        const logger = Logger.init({plugins: [dedupe({windowMs: 60_000})], transports: [transport]});
+
+        for (let i = 0; i < 3; i++) logger.error("Payment failed");
+        await logger.flush();
+
+        logger.removePlugin("dedupe");
+        await logger.flush();
+
+        expect(vi.mocked(transport.send).mock.calls.map(([sent]) => sent.message))
+            .toEqual(["Payment failed", 'Suppressed 2 duplicates of "Payment failed"']);
+    });
+
+    it("should report the open windows on shutdown", async () => {
+        const transport: Transport = {name: "mock", send: vi.fn().mockResolvedValue(undefined)};
+        const logger = Logger.init({plugins: [dedupe({windowMs: 60_000})], transports: [transport]});
+
+        for (let i = 0; i < 3; i++) logger.error("Payment failed");
+        await logger.shutdown();
+
+        expect(vi.mocked(transport.send).mock.calls.map(([sent]) => sent.message))
+            .toEqual(["Payment failed", 'Suppressed 2 duplicates of "Payment failed"']);
+        expect(logger.getStats().dropped.afterShutdown).toBe(0);
+    });
+
+    it("should track entries with the text of a summary that was dropped before reaching it", async () => {
+        const transport: Transport = {name: "mock", send: vi.fn().mockResolvedValue(undefined)};
+        const dropSummaries: Plugin = (sent) => sent.context?.dedupeSummary ? null : sent;
+        const logger = Logger.init({plugins: [dropSummaries, dedupe({windowMs: 1000})], transports: [transport]});
+
+        for (let i = 0; i < 3; i++) logger.error("Payment failed");
+        await logger.flush();
+        vi.advanceTimersByTime(1000);
+        await logger.flush();
+
+        logger.error('Suppressed 2 duplicates of "Payment failed"');
+        logger.error('Suppressed 2 duplicates of "Payment failed"');
+        await logger.flush();
+
+        expect(vi.mocked(transport.send).mock.calls.map(([sent]) => sent.message))
+            .toEqual(["Payment failed", 'Suppressed 2 duplicates of "Payment failed"']);
+    });
+});
@@ -0,0 +1,175 @@
+import {PluginDefinition} from "./Plugin";
+import {fingerprintEntry, FingerprintOptions} from "./fingerprint";
+import {Logger} from "../core/Logger";
+import {LogLevel} from "../core/LogLevel";
+import {LogEntry} from "../core/LogEntry";
+import {unrefTimer} from "../core/unrefTimer";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Duplicates suppressed during one window of a fingerprint.
+ */
+export interface DuplicateSummary {
+    readonly fingerprint: string;
+    readonly level: LogLevel;
+
+    /**
+     * Message of the entry that opened the window — the one that got through.
+     */
+    readonly message: string;
+
+    /**
+     * How many duplicates were dropped.
+     */
+    readonly count: number;
+
+    readonly firstSeen: Date;
+    readonly lastSeen: Date;
+}
+
+export interface DedupeOptions extends FingerprintOptions {
+    /**
+     * How long repeats of an entry are suppressed after it got through. Default: 60000 ms.
+     */
+    windowMs?: number;
+
+    /**
+     * Maximum number of fingerprints tracked at once. Default: 1000.
+     * Entries with new fingerprints beyond this pass through untracked —
+     * a flood of unique errors must not grow memory without bound.
+     */
+    maxFingerprints?: number;
+
+    /**
+     * Called when a window with suppressed duplicates ends — and for every open window
+     * when the plugin is removed or the logger shuts down.
+     * Default: logs 'Suppressed 4,812 duplicates of "..."' at the original level, through the logger
+     * the plugin was added to, with `context.dedupeSummary: true`.
+     */
+    onSummary?: (summary: DuplicateSummary) => void;
+}
+
+interface DedupeWindow {
+    readonly level: LogLevel;
+    readonly message: string;
+    readonly firstSeen: Date;
+    lastSeen: Date;
+    suppressed: number;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+/**
+ * Plugin factory — lets the first entry of each fingerprint through and drops repeats
+ * within the window, then reports how many were dropped.
+ *
+ * Entries that get through carry their fingerprint (entry.fingerprint),
+ * so transports and the server can group by it.
+ *
+ * Why a summary instead of silently dropping?
+ * "It happened once" and "it happened 5,000 times" are very different incidents —
+ * the count is the one piece of information the duplicates carried.
+ *
+ * Why a definition and not a plain function?
+ * setup() hands over the logger the plugin was added to — summaries go back through that one,
+ * not through Logger.getInstance(), which may be another application's logger or none at all.
+ *
+ * @example
+ * Logger.init({plugins: [dedupe({windowMs: 30_000})], transports: [...]})
+ */
+export function dedupe(options: DedupeOptions = {}): PluginDefinition {
+    const windowMs = options.windowMs ?? 60_000;
+    const maxFingerprints = options.maxFingerprints ?? 1000;
+    const windows = new Map<string, DedupeWindow>();
+    let owner: Logger | undefined;
+
+    const onSummary = options.onSummary ?? ((summary: DuplicateSummary) => {
+        // Not added to a logger (yet, or anymore) — there is nowhere to log to
+        if (owner) logSummary(owner, summary);
+    });
+
+    const closeWindow = (fingerprint: string) => {
+        const window = windows.get(fingerprint);
+        windows.delete(fingerprint);
+        clearTimeout(window?.timer);
+        if (!window || window.suppressed === 0) return;
+
+        try {
+            onSummary({
+                fingerprint,
+                level: window.level,
+                message: window.message,
+                count: window.suppressed,
+                firstSeen: window.firstSeen,
+                lastSeen: window.lastSeen,
+            });
+        } catch (error) {
+            // Runs from a timer — nobody else would see this error
+            console.error("[dedupe] onSummary failed:", error);
+        }
+    };
+
+    const process = (entry: LogEntry): LogEntry | null => {
+        // Our own summaries pass without being tracked themselves
+        if (entry.context?.dedupeSummary === true) return entry;
+
+        const fingerprint = fingerprintEntry(entry, options);
+        const window = windows.get(fingerprint);
+
+        if (window) {
+            window.suppressed++;
+            window.lastSeen = entry.timestamp;
+            return null;
+        }
+
+        if (windows.size < maxFingerprints) {
+            const window: DedupeWindow = {
+                level: entry.level,
+                message: entry.message,
+                firstSeen: entry.timestamp,
+                lastSeen: entry.timestamp,
+                suppressed: 0,
+            };
+
+            windows.set(fingerprint, window);
+            window.timer = unrefTimer(setTimeout(() => closeWindow(fingerprint), windowMs));
+        }
+
+        return {...entry, fingerprint};
+    };
+
+    return {
+        name: "dedupe",
+        setup: (logger) => {
+            owner = logger;
+        },
+        // Removal and shutdown are when a flood ends — the duplicates held back so far are reported first
+        teardown: () => {
+            for (const fingerprint of [...windows.keys()]) closeWindow(fingerprint);
+            owner = undefined;
+        },
+        process,
+    };
+}
+
+/**
+ * Default summary output — the summary goes through the whole pipeline like any other entry.
+ *
+ * Why mark the entry instead of remembering the message?
+ * A remembered message stays behind when a plugin before dedupe drops the summary —
+ * and a real entry with the same text would then skip dedupe.
+ */
+function logSummary(logger: Logger, summary: DuplicateSummary): void {
+    const message = `Suppressed ${summary.count.toLocaleString("en-US")} duplicates of "${summary.message}"`;
+    const context = {
+        dedupeSummary: true,
+        fingerprint: summary.fingerprint,
+        suppressed: summary.count,
+        firstSeen: summary.firstSeen.toISOString(),
+        lastSeen: summary.lastSeen.toISOString(),
+    };
+
+    logger.log(summary.level, message, context);
+}
@@ -0,0 +1,80 @@
+import {describe, expect, it} from "vitest";
+import {fingerprintEntry, normalizeMessage} from "./fingerprint";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+function errorEntry(message: string, errorMessage: string, stack: string[]): LogEntry {
+    const error = new TypeError(errorMessage);
+    error.stack = [`TypeError: ${errorMessage}`, ...stack].join("\n");
+
+    return createLogEntry({level: LogLevel.ERROR, message, error});
+}
+
+const STACK = [
+    "    at loadUser (/app/src/users.ts:10:5)",
+    "    at handler (/app/src/routes.ts:20:3)",
+    "    at next (/app/node_modules/express/router.js:1:1)",
+];
+
+describe("normalizeMessage", () => {
+    it("should replace numbers, ids and quoted values", () => {
+        expect(normalizeMessage('User 123 "jane" not found')).toBe("User <n> <str> not found");
+        expect(normalizeMessage("Order 0b0c5f46-8d4a-4c5e-9a43-2f6e1d6f1a11 failed")).toBe("Order <uuid> failed");
+        expect(normalizeMessage("Commit 3f2a9c1d4e5b failed after 1.5s")).toBe("Commit <hex> failed after <n>s");
+    });
+
+    it("should keep ordinary words", () => {
+        expect(normalizeMessage("Payment failed")).toBe("Payment failed");
+    });
+});
+
+describe("fingerprintEntry", () => {
+    it("should be equal for entries that differ only in variable parts", () => {
+        const a = errorEntry("Load failed for 1", "User 1 not found", STACK);
+        const b = errorEntry("Load failed for 2", "User 2 not found", STACK);
+
+        expect(fingerprintEntry(a)).toBe(fingerprintEntry(b));
+        expect(fingerprintEntry(a)).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it("should ignore line numbers and dependency frames", () => {
+        const a = errorEntry("Load failed", "Not found", STACK);
+        const b = errorEntry("Load failed", "Not found", [
+            "    at loadUser (/app/src/users.ts:99:1)",
+            "    at handler (/app/src/routes.ts:20:3)",
+            "    at other (/app/node_modules/koa/index.js:5:5)",
+        ]);
+
+        expect(fingerprintEntry(a)).toBe(fingerprintEntry(b));
+    });
+
+    it("should differ for different code paths", () => {
+        const a = errorEntry("Load failed", "Not found", STACK);
+        const b = errorEntry("Load failed", "Not found", ["    at loadOrder (/app/src/orders.ts:10:5)"]);
+
+        expect(fingerprintEntry(a)).not.toBe(fingerprintEntry(b));
+    });
+
+    it("should differ for different levels", () => {
+        const warn = createLogEntry({level: LogLevel.WARN, message: "Slow"});
+        const error = createLogEntry({level: LogLevel.ERROR, message: "Slow"});
+
+        expect(fingerprintEntry(warn)).not.toBe(fingerprintEntry(error));
+    });
+
+    it("should use the user-supplied key", () => {
+        const key = (entry: LogEntry) => entry.context?.route as string | undefined;
+        const a = createLogEntry({level: LogLevel.ERROR, message: "A", context: {route: "/orders"}});
+        const b = createLogEntry({level: LogLevel.ERROR, message: "B", context: {route: "/orders"}});
+        const c = createLogEntry({level: LogLevel.ERROR, message: "A"});
+
+        expect(fingerprintEntry(a, {key})).toBe(fingerprintEntry(b, {key}));
+        expect(fingerprintEntry(c, {key})).toBe(fingerprintEntry(c));
+    });
+
+    it("should return an existing fingerprint", () => {
+        const entry = {...createLogEntry({level: LogLevel.INFO, message: "Test"}), fingerprint: "abc"};
+
+        expect(fingerprintEntry(entry)).toBe("abc");
+    });
+});
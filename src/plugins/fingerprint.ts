@@ -0,0 +1,71 @@
+import {LogEntry} from "../core/LogEntry";
+import {levelLabel} from "../core/LogLevel";
+import {parseStack, ParseStackOptions, StackFrame} from "../stack/parseStack";
+import {sha256} from "./sha256";
+
+export interface FingerprintOptions extends ParseStackOptions {
+    /**
+     * User-supplied grouping key — entries with the same key are duplicates.
+     * Return undefined to fall back to the computed fingerprint.
+     */
+    key?: (entry: LogEntry) => string | undefined;
+
+    /**
+     * How many in-app stack frames take part. Default: 3.
+     */
+    frames?: number;
+}
+
+/**
+ * Computes a fingerprint — 16 hex characters that are equal for entries describing the same problem.
+ *
+ * Built from the level, the normalized message, the error name and normalized error message,
+ * and the top in-app stack frames (function and file, without line numbers — those shift
+ * with every deploy). An existing entry.fingerprint is returned as it is.
+ *
+ * Why normalize messages?
+ * "User 123 not found" and "User 456 not found" are the same bug. Ids, numbers and quoted values
+ * are replaced with placeholders so they do not split one problem into thousands of groups.
+ */
+export function fingerprintEntry(entry: LogEntry, options: FingerprintOptions = {}): string {
+    if (entry.fingerprint) return entry.fingerprint;
+
+    const key = options.key?.(entry);
+    if (key !== undefined) return sha256(`key:${key}`).slice(0, 16);
+
+    const parts = [
+        levelLabel(entry.level),
+        normalizeMessage(entry.message),
+    ];
+
+    if (entry.error) {
+        const frames = (entry.stackFrames ?? parseStack(entry.error.stack, options))
+            .filter((frame) => frame.inApp)
+            .slice(0, options.frames ?? 3)
+            .map(describeFrame);
+
+        parts.push(entry.error.name, normalizeMessage(entry.error.message), ...frames);
+    }
+
+    return sha256(parts.join("\n")).slice(0, 16);
+}
+
+/**
+ * Replaces the variable parts of a message with placeholders.
+ *
+ * @example
+ * normalizeMessage('User 123 "jane" not found') // 'User <n> <str> not found'
+ */
+export function normalizeMessage(message: string): string {
+    return message
+        .replace(/"[^"]*"|'[^']*'/g, "<str>")
+        .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+        .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<hex>")
+        .replace(/\d+(?:\.\d+)?/g, "<n>");
+}
+
+function describeFrame(frame: StackFrame): string {
+    // Query strings and hashes are cache busters, not code locations
+    const file = frame.file?.replace(/[?#].*$/, "");
+    return `${frame.function ?? "?"}@${file ?? "?"}`;
+}
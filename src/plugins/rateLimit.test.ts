@@ -0,0 +1,92 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {rateLimit} from "./rateLimit";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+function entry(level = LogLevel.DEBUG, message = "Cache miss"): LogEntry {
+    return createLogEntry({level, message});
+}
+
+async function passed(plugin: ReturnType<typeof rateLimit>, entries: LogEntry[]): Promise<number> {
+    let count = 0;
+    for (const item of entries) if (await plugin(item)) count++;
+    return count;
+}
+
+describe("rateLimit", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should let a burst of capacity through per level", async () => {
+        const plugin = rateLimit({perLevel: {[LogLevel.DEBUG]: {capacity: 3, refillPerSecond: 1}}});
+
+        expect(await passed(plugin, Array.from({length: 5}, () => entry()))).toBe(3);
+    });
+
+    it("should not limit levels without a bucket", async () => {
+        const plugin = rateLimit({perLevel: {[LogLevel.DEBUG]: {capacity: 1, refillPerSecond: 1}}});
+
+        expect(await passed(plugin, Array.from({length: 5}, () => entry(LogLevel.ERROR)))).toBe(5);
+    });
+
+    it("should refill tokens over time", async () => {
+        const plugin = rateLimit({perLevel: {[LogLevel.DEBUG]: {capacity: 2, refillPerSecond: 2}}});
+
+        await passed(plugin, [entry(), entry()]);
+        expect(await plugin(entry())).toBeNull();
+
+        vi.advanceTimersByTime(500);
+        expect(await plugin(entry())).not.toBeNull();
+        expect(await plugin(entry())).toBeNull();
+
+        vi.advanceTimersByTime(10_000);
+        expect(await passed(plugin, [entry(), entry(), entry()])).toBe(2);
+    });
+
+    it("should limit each fingerprint separately", async () => {
+        const plugin = rateLimit({perFingerprint: {capacity: 1, refillPerSecond: 1}});
+
+        const first = await plugin(entry(LogLevel.ERROR, "Payment failed"));
+
+        expect(first?.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+        expect(await plugin(entry(LogLevel.ERROR, "Payment failed"))).toBeNull();
+        expect(await plugin(entry(LogLevel.ERROR, "Login failed"))).not.toBeNull();
+    });
+
+    it("should only take tokens when every bucket has one", async () => {
+        const plugin = rateLimit({
+            perLevel: {[LogLevel.ERROR]: {capacity: 2, refillPerSecond: 1}},
+            perFingerprint: {capacity: 1, refillPerSecond: 1},
+        });
+
+        await plugin(entry(LogLevel.ERROR, "A"));
+        await plugin(entry(LogLevel.ERROR, "A")); // dropped by the fingerprint bucket
+
+        expect(await plugin(entry(LogLevel.ERROR, "B"))).not.toBeNull();
+    });
+
+    it("should evict the least recently used fingerprint bucket", async () => {
+        const plugin = rateLimit({perFingerprint: {capacity: 1, refillPerSecond: 1}, maxFingerprints: 1});
+
+        await plugin(entry(LogLevel.ERROR, "A"));
+        await plugin(entry(LogLevel.ERROR, "B"));
+
+        // The bucket of "A" was evicted — it starts full again
+        expect(await plugin(entry(LogLevel.ERROR, "A"))).not.toBeNull();
+    });
+
+    it("should report dropped entries", async () => {
+        const onDrop = vi.fn();
+        const plugin = rateLimit({perLevel: {[LogLevel.DEBUG]: {capacity: 1, refillPerSecond: 1}}, onDrop});
+
+        await passed(plugin, [entry(), entry()]);
+
+        expect(onDrop).toHaveBeenCalledTimes(1);
+        expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({message: "Cache miss"}), "level");
+    });
+});
@@ -0,0 +1,108 @@
+import {Plugin} from "./Plugin";
+import {fingerprintEntry, FingerprintOptions} from "./fingerprint";
+import {LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {TokenBucket, TokenBucketOptions} from "../core/TokenBucket";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type RateLimitReason = "level" | "fingerprint";
+
+export interface RateLimitOptions extends FingerprintOptions {
+    /**
+     * One bucket per level, shared by all entries of that level.
+     * Levels without a bucket are not limited.
+     *
+     * @example
+     * {[LogLevel.DEBUG]: {capacity: 100, refillPerSecond: 10}}
+     */
+    perLevel?: Partial<Record<LogLevel, TokenBucketOptions>>;
+
+    /**
+     * One bucket per fingerprint — limits a single failing code path
+     * without starving every other entry of the same level.
+     */
+    perFingerprint?: TokenBucketOptions;
+
+    /**
+     * Maximum number of fingerprint buckets. Default: 1000.
+     * The least recently used bucket is evicted beyond this.
+     */
+    maxFingerprints?: number;
+
+    /**
+     * Called for every dropped entry — e.g. to count drops in a metric.
+     */
+    onDrop?: (entry: LogEntry, reason: RateLimitReason) => void;
+}
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+/**
+ * Plugin factory — token-bucket rate limiting per level and per fingerprint.
+ *
+ * An entry passes only if every bucket that applies to it has a token left;
+ * buckets refill continuously at refillPerSecond up to capacity.
+ *
+ * Why token buckets?
+ * They allow short bursts (a request failing on three calls at once is normal)
+ * while capping the sustained rate — exactly what protects the backend in an outage.
+ *
+ * @example
+ * Logger.init({
+ *     plugins: [rateLimit({
+ *         perLevel: {[LogLevel.DEBUG]: {capacity: 100, refillPerSecond: 10}},
+ *         perFingerprint: {capacity: 10, refillPerSecond: 1},
+ *     })],
+ *     transports: [...],
+ * })
+ */
+export function rateLimit(options: RateLimitOptions): Plugin {
+    const maxFingerprints = options.maxFingerprints ?? 1000;
+    const levelBuckets = new Map<LogLevel, TokenBucket>();
+    const fingerprintBuckets = new Map<string, TokenBucket>();
+
+    for (const [level, bucketOptions] of Object.entries(options.perLevel ?? {})) {
+        if (bucketOptions) levelBuckets.set(Number(level) as LogLevel, new TokenBucket(bucketOptions));
+    }
+
+    const fingerprintBucket = (fingerprint: string, bucketOptions: TokenBucketOptions): TokenBucket => {
+        let bucket = fingerprintBuckets.get(fingerprint);
+
+        // Re-inserted on every use — Map order then doubles as the LRU order
+        if (bucket) fingerprintBuckets.delete(fingerprint);
+        else bucket = new TokenBucket(bucketOptions);
+        fingerprintBuckets.set(fingerprint, bucket);
+
+        if (fingerprintBuckets.size > maxFingerprints) {
+            fingerprintBuckets.delete(fingerprintBuckets.keys().next().value!);
+        }
+
+        return bucket;
+    };
+
+    const drop = (entry: LogEntry, reason: RateLimitReason): null => {
+        options.onDrop?.(entry, reason);
+        return null;
+    };
+
+    return (entry) => {
+        const now = Date.now();
+        const levelBucket = levelBuckets.get(entry.level);
+        if (levelBucket && !levelBucket.hasToken(now)) return drop(entry, "level");
+
+        if (!options.perFingerprint) {
+            levelBucket?.take();
+            return entry;
+        }
+
+        const fingerprint = fingerprintEntry(entry, options);
+        const bucket = fingerprintBucket(fingerprint, options.perFingerprint);
+        if (!bucket.hasToken(now)) return drop({...entry, fingerprint}, "fingerprint");
+
+        levelBucket?.take();
+        bucket.take();
+
+        return {...entry, fingerprint};
+    };
+}
@@ -0,0 +1,241 @@
+import {describe, expect, it, vi} from "vitest";
+import {redact} from "./redact";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {Logger} from "../core/Logger";
+
+function entry(params: Partial<Pick<LogEntry, "message" | "error" | "context">>): LogEntry {
+    return createLogEntry({level: LogLevel.ERROR, message: "Test", ...params});
+}
+
+async function run(plugin: ReturnType<typeof redact>, input: LogEntry): Promise<LogEntry> {
+    const output = await plugin.process(input);
+    if (!output) throw new Error("entry was dropped");
+    return output;
+}
+
+describe("redact", () => {
+    describe("paths", () => {
+        it("should mask values at exact paths", async () => {
+            const output = await run(redact({paths: ["password", "headers.authorization"]}), entry({
+                context: {password: "hunter2", headers: {authorization: "secret", accept: "json"}},
+            }));
+
+            expect(output.context).toEqual({password: "[REDACTED]", headers: {authorization: "[REDACTED]", accept: "json"}});
+        });
+
+        it("should match one segment with * and any number with **", async () => {
+            const output = await run(redact({paths: ["*.password", "**.token"]}), entry({
+                context: {password: "top", user: {password: "one"}, a: {b: {c: {token: "deep"}}}, token: "root"},
+            }));
+
+            expect(output.context).toEqual({
+                password: "top",
+                user: {password: "[REDACTED]"},
+                a: {b: {c: {token: "[REDACTED]"}}},
+                token: "[REDACTED]",
+            });
+        });
+
+        it("should match array indices as segments", async () => {
+            const output = await run(redact({paths: ["cards.*.number"]}), entry({
+                context: {cards: [{number: "1", brand: "visa"}, {number: "2", brand: "amex"}]},
+            }));
+
+            expect(output.context).toEqual({
+                cards: [{number: "[REDACTED]", brand: "visa"}, {number: "[REDACTED]", brand: "amex"}],
+            });
+        });
+
+        it("should match path segments case-insensitively", async () => {
+            const output = await run(redact({paths: ["headers.authorization", "Session.*.Cookie"]}), entry({
+                context: {headers: {Authorization: "Bearer secret"}, session: {web: {cookie: "id=1"}}},
+            }));
+
+            expect(output.context).toEqual({headers: {Authorization: "[REDACTED]"}, session: {web: {cookie: "[REDACTED]"}}});
+        });
+    });
+
+    describe("keys", () => {
+        it("should match key names at any depth, strings case-insensitively", async () => {
+            const output = await run(redact({keys: ["password", /token/i]}), entry({
+                context: {user: {Password: "x", accessToken: "y", name: "Jane"}, list: [{refresh_token: "z"}]},
+            }));
+
+            expect(output.context).toEqual({
+                user: {Password: "[REDACTED]", accessToken: "[REDACTED]", name: "Jane"},
+                list: [{refresh_token: "[REDACTED]"}],
+            });
+        });
+
+        it("should work with global RegExps", async () => {
+            const plugin = redact({keys: [/secret/g]});
+            const output = await run(plugin, entry({context: {secretA: 1, secretB: 2}}));
+
+            expect(output.context).toEqual({secretA: "[REDACTED]", secretB: "[REDACTED]"});
+        });
+    });
+
+    describe("detectors", () => {
+        it("should scan the message and string values with all built-in detectors by default", async () => {
+            const output = await run(redact(), entry({
+                message: "Charge 4111 1111 1111 1111 for jane@example.com failed",
+                context: {header: "Bearer abc123", iban: "DE89370400440532013000"},
+            }));
+
+            expect(output.message).toBe("Charge [REDACTED] for [REDACTED] failed");
+            expect(output.context).toEqual({header: "Bearer [REDACTED]", iban: "[REDACTED]"});
+        });
+
+        it("should use only the selected detectors", async () => {
+            const output = await run(redact({detectors: ["email"]}), entry({
+                message: "jane@example.com paid with 4111111111111111",
+            }));
+
+            expect(output.message).toBe("[REDACTED] paid with 4111111111111111");
+        });
+
+        it("should accept custom detectors", async () => {
+            const output = await run(redact({detectors: [{name: "orderId", pattern: /ord-\d+/}]}), entry({
+                message: "ord-1 and ord-2",
+            }));
+
+            expect(output.message).toBe("[REDACTED] and [REDACTED]");
+        });
+
+        it("should throw on unknown detector names", () => {
+            expect(() => redact({detectors: ["phone" as never]})).toThrow('Unknown redaction detector: "phone"');
+        });
+    });
+
+    describe("breadcrumbs", () => {
+        it("should redact the message and data of every breadcrumb", async () => {
+            const output = await run(redact({keys: ["password"]}), {
+                ...entry({}),
+                breadcrumbs: [
+                    {timestamp: new Date(), level: LogLevel.INFO, message: "login", data: {password: "hunter2", email: "a@b.com"}},
+                    {timestamp: new Date(), level: LogLevel.DEBUG, message: "mail sent to a@b.com"},
+                ],
+            });
+
+            expect(output.breadcrumbs).toEqual([
+                expect.objectContaining({message: "login", data: {password: "[REDACTED]", email: "[REDACTED]"}}),
+                expect.objectContaining({message: "mail sent to [REDACTED]"}),
+            ]);
+        });
+    });
+
+    describe("strategies", () => {
+        it("should remove matched properties and array elements", async () => {
+            const output = await run(redact({strategy: "remove", keys: ["password"], paths: ["list.0"]}), entry({
+                context: {password: "x", name: "Jane", list: ["a", "b"]},
+            }));
+
+            expect(output.context).toEqual({name: "Jane", list: ["b"]});
+        });
+
+        it("should mask text matches even with the remove strategy", async () => {
+            const output = await run(redact({strategy: "remove"}), entry({message: "mail jane@example.com"}));
+
+            expect(output.message).toBe("mail [REDACTED]");
+        });
+
+        it("should use a custom mask", async () => {
+            const output = await run(redact({mask: "***", keys: ["password"]}), entry({context: {password: "x"}}));
+
+            expect(output.context).toEqual({password: "***"});
+        });
+
+        it("should hash values so equal values stay correlatable", async () => {
+            const plugin = redact({strategy: "hash", keys: ["email"]});
+            const output = await run(plugin, entry({
+                message: "from jane@example.com",
+                context: {email: "jane@example.com", other: {email: "john@example.com"}},
+            }));
+
+            const hashed = output.context?.email as string;
+            expect(hashed).toMatch(/^\[HASH:[0-9a-f]{16}]$/);
+            expect(output.message).toBe(`from ${hashed}`);
+            expect((output.context?.other as Record<string, unknown>).email).not.toBe(hashed);
+        });
+
+        it("should include the salt in the hash", async () => {
+            const input = entry({context: {email: "jane@example.com"}});
+            const plain = await run(redact({strategy: "hash", keys: ["email"]}), input);
+            const salted = await run(redact({strategy: "hash", keys: ["email"], salt: "pepper"}), input);
+
+            expect(salted.context?.email).not.toBe(plain.context?.email);
+        });
+    });
+
+    describe("errors", () => {
+        it("should redact the error message, stack, cause and properties", async () => {
+            const cause = new Error("token eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxMjMifQ.sig expired");
+            const error = Object.assign(new TypeError("Card 4111111111111111 declined", {cause}), {
+                config: {headers: {authorization: "Bearer abc"}},
+                apiKey: "k-123",
+            });
+
+            const output = await run(redact({keys: ["apiKey"]}), entry({error}));
+            const redacted = output.error as TypeError & { config: unknown; apiKey: unknown };
+
+            expect(redacted).toBeInstanceOf(TypeError);
+            expect(redacted.message).toBe("Card [REDACTED] declined");
+            expect(redacted.stack).toContain("TypeError: Card [REDACTED] declined");
+            expect((redacted.cause as Error).message).toBe("token [REDACTED] expired");
+            expect(redacted.config).toEqual({headers: {authorization: "Bearer [REDACTED]"}});
+            expect(redacted.apiKey).toBe("[REDACTED]");
+            expect(Object.keys(redacted)).toEqual(["config", "apiKey"]);
+        });
+    });
+
+    describe("immutability", () => {
+        it("should never mutate the original entry, context or error", async () => {
+            const context = {password: "x", nested: {email: "jane@example.com"}};
+            const error = new Error("jane@example.com");
+            const input = entry({message: "jane@example.com", context, error});
+
+            const output = await run(redact({keys: ["password"]}), input);
+
+            expect(output).not.toBe(input);
+            expect(input.message).toBe("jane@example.com");
+            expect(context).toEqual({password: "x", nested: {email: "jane@example.com"}});
+            expect(error.message).toBe("jane@example.com");
+        });
+
+        it("should keep circular references pointing at the copy", async () => {
+            const context: Record<string, unknown> = {password: "x"};
+            context.self = context;
+
+            const output = await run(redact({keys: ["password"]}), entry({context}));
+
+            expect(output.context?.self).toBe(output.context);
+            expect(output.context?.password).toBe("[REDACTED]");
+            expect(context.password).toBe("x");
+        });
+
+        it("should pass non-plain objects through", async () => {
+            const date = new Date();
+            const output = await run(redact(), entry({context: {date}}));
+
+            expect(output.context?.date).toBe(date);
+        });
+    });
+
+    describe("failures", () => {
+        it("should never let an entry through unredacted when redaction fails", async () => {
+            const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+            const send = vi.fn(async () => {});
+            const broken = {name: "broken", pattern: /hunter\d/g, validate: () => {
+                throw new Error("Boom");
+            }};
+            const logger = Logger.create({transports: [{name: "mock", send}], plugins: [redact({detectors: [broken]})]});
+
+            logger.error("password is hunter2", {password: "hunter2"});
+            await logger.flush();
+
+            expect(send).not.toHaveBeenCalled();
+            consoleError.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,278 @@
+import {PluginDefinition} from "./Plugin";
+import {sha256} from "./sha256";
+import {BuiltInDetector, DETECTORS, RedactDetector} from "./redactDetectors";
+import {isError} from "../serializers/serializeError";
+import {safeStringify} from "../formatters/toSafeValue";
+import {Breadcrumb} from "../core/Breadcrumbs";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type RedactStrategy =
+    | "remove" // drop the property (text matches inside strings are masked — half a string cannot be dropped)
+    | "mask"   // replace with the mask, "[REDACTED]"
+    | "hash";  // replace with "[HASH:<16 hex chars of SHA-256>]" — equal values stay correlatable
+
+export interface RedactOptions {
+    /**
+     * Context paths to redact, dot-separated: "password", "headers.authorization", "items.*.card".
+     * "*" matches one segment, "**" any number of segments — "**.token" matches a token at any depth.
+     * Segments match case-insensitively, like keys — "headers.authorization" covers "headers.Authorization".
+     */
+    paths?: readonly string[];
+
+    /**
+     * Key names redacted at any depth — in the context and in error properties.
+     * Strings match case-insensitively, RegExps are tested against the key.
+     */
+    keys?: readonly (string | RegExp)[];
+
+    /**
+     * Detectors that scan string values, the message and error messages and stacks.
+     * Default: all built-in detectors. Pass [] to disable scanning.
+     */
+    detectors?: readonly (BuiltInDetector | RedactDetector)[];
+
+    /**
+     * What happens to a sensitive value. Default: "mask".
+     */
+    strategy?: RedactStrategy;
+
+    /**
+     * Replacement for the "mask" strategy. Default: "[REDACTED]".
+     */
+    mask?: string;
+
+    /**
+     * Prepended to values before hashing — without it, short values like card numbers
+     * can be recovered by hashing every candidate.
+     */
+    salt?: string;
+}
+
+/**
+ * Options resolved once per plugin, shared by every entry.
+ */
+interface Rules {
+    readonly paths: readonly string[][];
+    readonly keys: readonly (string | RegExp)[];
+    readonly detectors: readonly RedactDetector[];
+    readonly remove: boolean;
+    readonly replace: (value: unknown) => string;
+}
+
+/**
+ * Copies made so far for the current entry — original → copy.
+ * Keeps circular and shared references pointing at the redacted copy, never the original.
+ */
+type Copies = WeakMap<object, unknown>;
+
+/**
+ * Marks a property for removal.
+ */
+const REMOVED = Symbol("removed");
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+/**
+ * Plugin factory — removes, masks or hashes sensitive data in the message, the context, the error
+ * and the breadcrumbs (their messages and data — path rules apply to data as they do to the context).
+ *
+ * The entry is never modified — plain objects, arrays and errors on the way are copied,
+ * so the caller's context object and error stay exactly as they were.
+ * Other objects (class instances, Maps, Dates) are passed through as they are.
+ *
+ * Why a definition and not a plain function?
+ * A failing function plugin is skipped — for redaction that would send the unredacted entry.
+ * The definition is named "redact" and drops the entry when it fails (onError: "drop").
+ *
+ * @example
+ * Logger.init({
+ *     plugins: [redact({paths: ["headers.authorization"], keys: ["password", /token/i], strategy: "hash"})],
+ *     transports: [...],
+ * })
+ */
+export function redact(options: RedactOptions = {}): PluginDefinition {
+    const strategy = options.strategy ?? "mask";
+    const mask = options.mask ?? "[REDACTED]";
+    const salt = options.salt ?? "";
+
+    const rules: Rules = {
+        paths: (options.paths ?? []).map((path) => path.toLowerCase().split(".")),
+        keys: (options.keys ?? []).map((key) => (typeof key === "string" ? key.toLowerCase() : key)),
+        detectors: (options.detectors ?? Object.values(DETECTORS)).map(resolveDetector),
+        remove: strategy === "remove",
+        replace: strategy === "hash"
+            ? (value) => `[HASH:${sha256(salt + (typeof value === "string" ? value : safeStringify(value))).slice(0, 16)}]`
+            : () => mask,
+    };
+
+    return {
+        name: "redact",
+        onError: "drop",
+        process: (entry) => {
+            const copies: Copies = new WeakMap();
+
+            return {
+                ...entry,
+                message: redactText(entry.message, rules),
+                ...(entry.error ? {error: redactError(entry.error, rules, copies)} : {}),
+                ...(entry.context ? {context: redactObject(entry.context, [], rules, copies)} : {}),
+                ...(entry.breadcrumbs
+                    ? {breadcrumbs: entry.breadcrumbs.map((breadcrumb) => redactBreadcrumb(breadcrumb, rules, copies))}
+                    : {}),
+            };
+        },
+    };
+}
+
+function resolveDetector(detector: BuiltInDetector | RedactDetector): RedactDetector {
+    const resolved = typeof detector === "string" ? DETECTORS[detector] : detector;
+    if (!resolved) throw new Error(`Unknown redaction detector: "${String(detector)}"`);
+
+    // A non-global pattern would only replace the first occurrence
+    return resolved.pattern.global
+        ? resolved
+        : {...resolved, pattern: new RegExp(resolved.pattern.source, resolved.pattern.flags + "g")};
+}
+
+// ─── Walking ──────────────────────────────────────────────────────────────────
+
+/**
+ * @param path - Path from the context root, or null outside the context (path rules do not apply).
+ */
+function redactValue(value: unknown, path: string[] | null, rules: Rules, copies: Copies): unknown {
+    if (typeof value === "string") return redactText(value, rules);
+    if (value === null || typeof value !== "object") return value;
+
+    const copy = copies.get(value);
+    if (copy !== undefined) return copy;
+
+    if (Array.isArray(value)) return redactArray(value, path, rules, copies);
+    if (isError(value)) return redactError(value, rules, copies);
+    if (isPlainObject(value)) return redactObject(value, path, rules, copies);
+
+    return value;
+}
+
+function redactObject(
+    object: Record<string, unknown>,
+    path: string[] | null,
+    rules: Rules,
+    copies: Copies
+): Record<string, unknown> {
+    const copy: Record<string, unknown> = {};
+    copies.set(object, copy);
+
+    for (const [key, value] of Object.entries(object)) {
+        const redacted = redactProperty(key, value, path && [...path, key], rules, copies);
+        if (redacted !== REMOVED) copy[key] = redacted;
+    }
+
+    return copy;
+}
+
+function redactArray(array: unknown[], path: string[] | null, rules: Rules, copies: Copies): unknown[] {
+    const copy: unknown[] = [];
+    copies.set(array, copy);
+
+    array.forEach((value, index) => {
+        const redacted = redactProperty(String(index), value, path && [...path, String(index)], rules, copies);
+        if (redacted !== REMOVED) copy.push(redacted);
+    });
+
+    return copy;
+}
+
+/**
+ * Copies an error with its prototype and own properties, redacting message, stack, cause
+ * and any extra properties libraries attach (request configs with auth headers are common).
+ */
+function redactError(error: Error, rules: Rules, copies: Copies): Error {
+    const copy = Object.create(Object.getPrototypeOf(error)) as Error;
+    copies.set(error, copy);
+
+    for (const key of Reflect.ownKeys(error)) {
+        const descriptor = Object.getOwnPropertyDescriptor(error, key)!;
+        // Some engines expose stack as an accessor — read it through the error
+        const value = "value" in descriptor ? descriptor.value : Reflect.get(error, key);
+
+        let redacted: unknown = value;
+        if (key === "message" || key === "stack") {
+            redacted = typeof value === "string" ? redactText(value, rules) : value;
+        } else if (typeof key === "string" && key !== "name") {
+            redacted = redactProperty(key, value, null, rules, copies);
+        }
+
+        if (redacted === REMOVED) continue;
+
+        Object.defineProperty(copy, key, {
+            value: redacted,
+            writable: true,
+            enumerable: descriptor.enumerable,
+            configurable: true,
+        });
+    }
+
+    return copy;
+}
+
+/**
+ * Breadcrumbs carry the messages and contexts of earlier entries — as sensitive as the entry itself.
+ */
+function redactBreadcrumb(breadcrumb: Breadcrumb, rules: Rules, copies: Copies): Breadcrumb {
+    return {
+        ...breadcrumb,
+        message: redactText(breadcrumb.message, rules),
+        ...(breadcrumb.data ? {data: redactObject(breadcrumb.data, [], rules, copies)} : {}),
+    };
+}
+
+function redactProperty(key: string, value: unknown, path: string[] | null, rules: Rules, copies: Copies): unknown {
+    if (!isSensitive(key, path, rules)) return redactValue(value, path, rules, copies);
+
+    return rules.remove ? REMOVED : rules.replace(value);
+}
+
+function redactText(text: string, rules: Rules): string {
+    let result = text;
+
+    for (const detector of rules.detectors) {
+        result = result.replace(detector.pattern, (match: string, ...args: unknown[]) => {
+            if (detector.validate && !detector.validate(match)) return match;
+
+            // With a capture group, only the group is secret — args[0] is the offset otherwise
+            const secret = typeof args[0] === "string" ? args[0] : match;
+            const start = match.lastIndexOf(secret);
+
+            return match.slice(0, start) + rules.replace(secret) + match.slice(start + secret.length);
+        });
+    }
+
+    return result;
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+function isSensitive(key: string, path: string[] | null, rules: Rules): boolean {
+    if (path && rules.paths.some((pattern) => matchesPath(pattern, path))) return true;
+
+    // search() instead of test() — a global RegExp would carry lastIndex from key to key
+    return rules.keys.some((rule) => (typeof rule === "string" ? rule === key.toLowerCase() : key.search(rule) !== -1));
+}
+
+function matchesPath(pattern: readonly string[], path: readonly string[]): boolean {
+    if (pattern.length === 0) return path.length === 0;
+
+    const [head, ...rest] = pattern;
+
+    if (head === "**") {
+        return matchesPath(rest, path) || (path.length > 0 && matchesPath(pattern, path.slice(1)));
+    }
+
+    return path.length > 0 && (head === "*" || head === path[0]!.toLowerCase()) && matchesPath(rest, path.slice(1));
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,103 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Finds sensitive values inside strings.
+ *
+ * The global flag is added if missing. If the pattern has a capture group, only the first group
+ * is redacted and the rest of the match is kept — "Bearer abc" becomes "Bearer [REDACTED]".
+ */
+export interface RedactDetector {
+    readonly name: string;
+    readonly pattern: RegExp;
+
+    /**
+     * Rejects matches that only look sensitive — e.g. digit runs that fail the Luhn check.
+     */
+    readonly validate?: (match: string) => boolean;
+}
+
+// ─── Built-in detectors ───────────────────────────────────────────────────────
+
+/**
+ * Why validate card numbers and IBANs instead of matching digits alone?
+ * Logs are full of long numbers — order ids, phone numbers, timestamps. Without the
+ * checksum, redaction would destroy exactly the data we need for debugging.
+ */
+export const DETECTORS = {
+    /**
+     * 13–19 digits, optionally grouped by spaces or dashes, starting with 2–6 (Mastercard, Visa,
+     * Amex, Discover, ...) and passing the Luhn check.
+     */
+    creditCard: {
+        name: "creditCard",
+        pattern: /\b[2-6](?:[ -]?\d){12,18}\b/g,
+        validate: (match: string) => isValidLuhn(match.replace(/[ -]/g, "")),
+    },
+
+    email: {
+        name: "email",
+        pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    },
+
+    /**
+     * Three base64url segments — header and payload are JSON objects, so both start with "eyJ".
+     */
+    jwt: {
+        name: "jwt",
+        pattern: /\beyJ[A-Za-z0-9_-]*\.eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*/g,
+    },
+
+    bearerToken: {
+        name: "bearerToken",
+        pattern: /\bBearer\s+([A-Za-z0-9\-._~+/]+=*)/gi,
+    },
+
+    /**
+     * Country code, check digits and 11–30 alphanumerics, optionally grouped by spaces,
+     * passing the ISO 7064 mod-97 check.
+     */
+    iban: {
+        name: "iban",
+        pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+        validate: (match: string) => isValidIban(match.replace(/ /g, "")),
+    },
+} satisfies Record<string, RedactDetector>;
+
+export type BuiltInDetector = keyof typeof DETECTORS;
+
+// ─── Checksums ────────────────────────────────────────────────────────────────
+
+export function isValidLuhn(digits: string): boolean {
+    if (!/^\d{13,19}$/.test(digits)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+
+        // Every second digit from the right is doubled
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+
+        sum += digit;
+    }
+
+    return sum % 10 === 0;
+}
+
+export function isValidIban(iban: string): boolean {
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+    // Move the first four characters to the end, letters become 10–35
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+
+    // Digit by digit — the number is far too long for a double
+    let remainder = 0;
+    for (const char of rearranged) {
+        const value = parseInt(char, 36);
+        remainder = (value > 9 ? remainder * 100 + value : remainder * 10 + value) % 97;
+    }
+
+    return remainder === 1;
+}
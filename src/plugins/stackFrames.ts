@@ -0,0 +1,17 @@
+import {Plugin} from "./Plugin";
+import {parseStack, ParseStackOptions} from "../stack/parseStack";
+
+/**
+ * Plugin factory — attaches error.stack parsed into frames as entry.stackFrames.
+ * Entries without an error, or with frames already attached, pass through untouched.
+ *
+ * @example
+ * Logger.init({plugins: [stackFrames()], transports: [...]})
+ */
+export function stackFrames(options: ParseStackOptions = {}): Plugin {
+    return (entry) => {
+        if (!entry.error?.stack || entry.stackFrames) return entry;
+
+        return {...entry, stackFrames: parseStack(entry.error.stack, options)};
+    };
+}
@@ -0,0 +1,100 @@
+import {describe, expect, it, vi} from "vitest";
+import {symbolicate} from "./symbolicate";
+import {stackFrames} from "./stackFrames";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+const RAW_MAP = {
+    version: 3,
+    sources: ["src/payment.ts"],
+    names: ["handlePayment"],
+    mappings: "AAAA,IAAIA",
+};
+
+function entryWithStack(stack: string): LogEntry {
+    const error = new Error("Card declined");
+    error.stack = stack;
+
+    return createLogEntry({level: LogLevel.ERROR, message: "Test", error});
+}
+
+const STACK = [
+    "Error: Card declined",
+    "    at a (https://app.com/main.js:1:6)",
+    "    at b (https://cdn.com/vendor.js:1:1)",
+].join("\n");
+
+describe("stackFrames", () => {
+    it("should attach parsed frames to the entry", async () => {
+        const entry = await stackFrames()(entryWithStack(STACK));
+
+        expect(entry?.stackFrames).toHaveLength(2);
+        expect(entry?.stackFrames?.[0]).toMatchObject({function: "a", line: 1, column: 6});
+    });
+
+    it("should pass entries without an error through untouched", async () => {
+        const entry = createLogEntry({level: LogLevel.INFO, message: "Test"});
+
+        expect(await stackFrames()(entry)).toBe(entry);
+    });
+});
+
+describe("symbolicate", () => {
+    it("should map frames back to original sources", async () => {
+        const plugin = symbolicate({
+            loadSourceMap: async (file) => (file === "https://app.com/main.js" ? RAW_MAP : null),
+        });
+
+        const entry = await plugin(entryWithStack(STACK));
+
+        expect(entry?.stackFrames?.[0]).toEqual({
+            function: "handlePayment",
+            file: "src/payment.ts",
+            line: 1,
+            column: 5,
+            inApp: true,
+        });
+    });
+
+    it("should leave frames without a source map untouched", async () => {
+        const plugin = symbolicate({loadSourceMap: async () => null});
+
+        const entry = await plugin(entryWithStack(STACK));
+
+        expect(entry?.stackFrames?.[1]).toMatchObject({function: "b", file: "https://cdn.com/vendor.js"});
+    });
+
+    it("should load each source map only once", async () => {
+        const loadSourceMap = vi.fn(async () => RAW_MAP);
+        const plugin = symbolicate({loadSourceMap});
+
+        await plugin(entryWithStack(STACK));
+        await plugin(entryWithStack(STACK));
+
+        expect(loadSourceMap).toHaveBeenCalledTimes(2); // main.js and vendor.js, once each
+    });
+
+    it("should treat a failing loader as a missing map", async () => {
+        const plugin = symbolicate({
+            loadSourceMap: async () => {
+                throw new Error("ENOENT");
+            },
+        });
+
+        const entry = await plugin(entryWithStack(STACK));
+
+        expect(entry?.stackFrames?.[0]?.file).toBe("https://app.com/main.js");
+    });
+
+    it("should reuse frames attached by a previous plugin", async () => {
+        const plugin = symbolicate({loadSourceMap: async () => RAW_MAP});
+        const entry = {
+            ...createLogEntry({level: LogLevel.ERROR, message: "Test"}),
+            stackFrames: [{function: "a", file: "https://app.com/main.js", line: 1, column: 1, inApp: true}],
+        };
+
+        const result = await plugin(entry);
+
+        expect(result?.stackFrames?.[0]?.file).toBe("src/payment.ts");
+    });
+});
@@ -0,0 +1,67 @@
+import {Plugin} from "./Plugin";
+import {isInAppFile, parseStack, ParseStackOptions, StackFrame} from "../stack/parseStack";
+import {RawSourceMap, SourceMap} from "../stack/SourceMap";
+
+export interface SymbolicateOptions extends ParseStackOptions {
+    /**
+     * Loads the source map for a generated file (the file of a stack frame — usually a URL).
+     * Return null if there is no map — the frame is left as it is.
+     *
+     * In Node, localSourceMaps() from "error-logging-service/node" reads .map files from a directory.
+     */
+    loadSourceMap: (file: string) => Promise<RawSourceMap | string | null | undefined>;
+}
+
+/**
+ * Plugin factory — maps minified frames back to their original sources.
+ *
+ * Uses entry.stackFrames if a previous plugin attached them, otherwise parses error.stack.
+ * Source maps are loaded once per file and cached for the lifetime of the plugin.
+ * A map that fails to load or parse is treated as missing — symbolication must never
+ * cost us the entry itself.
+ *
+ * @example
+ * Logger.init({
+ *     plugins: [symbolicate({loadSourceMap: localSourceMaps({directory: "./dist"})})],
+ *     transports: [...],
+ * })
+ */
+export function symbolicate(options: SymbolicateOptions): Plugin {
+    const cache = new Map<string, Promise<SourceMap | null>>();
+
+    const getSourceMap = (file: string): Promise<SourceMap | null> => {
+        let sourceMap = cache.get(file);
+
+        if (!sourceMap) {
+            sourceMap = options.loadSourceMap(file)
+                .then((raw) => (raw ? new SourceMap(raw) : null))
+                .catch(() => null);
+            cache.set(file, sourceMap);
+        }
+
+        return sourceMap;
+    };
+
+    const mapFrame = async (frame: StackFrame): Promise<StackFrame> => {
+        if (!frame.file || frame.line === undefined || frame.column === undefined) return frame;
+
+        const sourceMap = await getSourceMap(frame.file);
+        const original = sourceMap?.originalPositionFor(frame.line, frame.column);
+        if (!original) return frame;
+
+        return {
+            function: original.name ?? frame.function,
+            file: original.source,
+            line: original.line,
+            column: original.column,
+            inApp: isInAppFile(original.source, options),
+        };
+    };
+
+    return async (entry) => {
+        const frames = entry.stackFrames ?? parseStack(entry.error?.stack, options);
+        if (frames.length === 0) return entry;
+
+        return {...entry, stackFrames: await Promise.all(frames.map(mapFrame))};
+    };
+}
@@ -0,0 +1,65 @@
+import {describe, expect, it} from "vitest";
+import {deserializeEntry, deserializeError} from "./deserializeEntry";
+import {serializeEntry} from "./serializeEntry";
+import {serializeError} from "./serializeError";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+describe("deserializeEntry", () => {
+    it("should restore the timestamp and keep the other fields", () => {
+        const entry = createLogEntry({level: LogLevel.WARN, message: "Test", context: {userId: "123"}});
+
+        const restored = deserializeEntry(JSON.parse(JSON.stringify(serializeEntry(entry))));
+
+        expect(restored.timestamp).toEqual(entry.timestamp);
+        expect(restored).toMatchObject({level: LogLevel.WARN, message: "Test", context: {userId: "123"}});
+        expect("error" in restored).toBe(false);
+    });
+
+    it("should restore breadcrumb timestamps", () => {
+        const timestamp = new Date("2026-10-19T06:45:00.000Z");
+        const entry = {
+            ...createLogEntry({level: LogLevel.ERROR, message: "Test"}),
+            breadcrumbs: [{timestamp, level: LogLevel.INFO, message: "Step"}],
+        };
+
+        const restored = deserializeEntry(JSON.parse(JSON.stringify(serializeEntry(entry))));
+
+        expect(restored.breadcrumbs).toEqual([{timestamp, level: LogLevel.INFO, message: "Step"}]);
+    });
+});
+
+describe("deserializeError", () => {
+    it("should restore name, message, stack, code and properties", () => {
+        const original = Object.assign(new TypeError("Card declined"), {code: "E_CARD", statusCode: 402});
+
+        const error = deserializeError(serializeError(original));
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error).toMatchObject({name: "TypeError", message: "Card declined", code: "E_CARD", statusCode: 402});
+        expect(error.stack).toBe(original.stack);
+    });
+
+    it("should restore the cause chain", () => {
+        const original = new Error("Payment failed", {cause: new Error("timeout")});
+
+        const error = deserializeError(serializeError(original));
+
+        expect((error.cause as Error).message).toBe("timeout");
+    });
+
+    it("should restore AggregateError.errors", () => {
+        const original = new AggregateError([new Error("a"), new Error("b")], "Many failed");
+
+        const error = deserializeError(serializeError(original));
+
+        expect(error).toBeInstanceOf(AggregateError);
+        expect((error as AggregateError).errors.map((nested: Error) => nested.message)).toEqual(["a", "b"]);
+    });
+
+    it("should round-trip through serializeError", () => {
+        const serialized = serializeError(Object.assign(new RangeError("Out of range", {cause: "limit"}), {code: 7}));
+
+        expect(serializeError(deserializeError(serialized))).toEqual(serialized);
+    });
+});
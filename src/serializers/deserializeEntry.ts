@@ -0,0 +1,44 @@
+import {LogEntry} from "../core/LogEntry";
+import {SerializedError} from "./serializeError";
+import {SerializedLogEntry} from "./serializeEntry";
+
+/**
+ * Turns a serialized entry back into a LogEntry — the reverse of serializeEntry.
+ *
+ * Used wherever entries come back from storage or the network: the offline queue
+ * replays them into transports that expect real Dates and Errors.
+ */
+export function deserializeEntry(serialized: SerializedLogEntry): LogEntry {
+    const {timestamp, error, breadcrumbs, ...rest} = serialized;
+
+    return {
+        ...rest,
+        timestamp: new Date(timestamp),
+        ...(error ? {error: deserializeError(error)} : {}),
+        ...(breadcrumbs ? {
+            breadcrumbs: breadcrumbs.map((breadcrumb) => ({...breadcrumb, timestamp: new Date(breadcrumb.timestamp)})),
+        } : {}),
+    };
+}
+
+/**
+ * Rebuilds an Error from a SerializedError — name, message, stack, code, properties,
+ * the cause chain and AggregateError.errors.
+ *
+ * The prototype is always Error (or AggregateError) — the original class is not
+ * available here, error.name still tells which one it was.
+ */
+export function deserializeError(serialized: SerializedError): Error {
+    const options = serialized.cause ? {cause: deserializeError(serialized.cause)} : undefined;
+
+    const error = serialized.errors
+        ? new AggregateError(serialized.errors.map(deserializeError), serialized.message, options)
+        : new Error(serialized.message, options);
+
+    error.name = serialized.name;
+    error.stack = serialized.stack;
+    Object.assign(error, serialized.properties);
+    if (serialized.code !== undefined) Object.assign(error, {code: serialized.code});
+
+    return error;
+}
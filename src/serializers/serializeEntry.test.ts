@@ -0,0 +1,43 @@
+import {describe, expect, it} from "vitest";
+import {serializeEntry} from "./serializeEntry";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+describe("serializeEntry", () => {
+    it("should convert the timestamp to an ISO string", () => {
+        const entry = createLogEntry({level: LogLevel.INFO, message: "Test"});
+
+        expect(serializeEntry(entry).timestamp).toBe(entry.timestamp.toISOString());
+    });
+
+    it("should serialize the error", () => {
+        const entry = createLogEntry({level: LogLevel.ERROR, message: "Test", error: new Error("Oops")});
+
+        expect(serializeEntry(entry).error).toMatchObject({name: "Error", message: "Oops"});
+    });
+
+    it("should keep the other fields", () => {
+        const entry = createLogEntry({level: LogLevel.WARN, message: "Test", context: {userId: "123"}});
+
+        expect(serializeEntry(entry)).toMatchObject({
+            level: LogLevel.WARN,
+            message: "Test",
+            context: {userId: "123"},
+        });
+    });
+
+    it("should make the context and breadcrumb data JSON-safe", () => {
+        const context: Record<string, unknown> = {amount: 10n};
+        context.self = context;
+        const entry = {
+            ...createLogEntry({level: LogLevel.ERROR, message: "Test", context}),
+            breadcrumbs: [{timestamp: new Date(), level: LogLevel.INFO, message: "login", data: {id: 1n}}],
+        };
+
+        const serialized = serializeEntry(entry);
+
+        expect(serialized.context).toEqual({amount: "10", self: "[Circular]"});
+        expect(serialized.breadcrumbs![0]!.data).toEqual({id: "1"});
+        expect(() => JSON.stringify(serialized)).not.toThrow();
+    });
+});
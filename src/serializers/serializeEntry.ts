@@ -0,0 +1,43 @@
+import {LogEntry} from "../core/LogEntry";
+import {Breadcrumb} from "../core/Breadcrumbs";
+import {serializeError, SerializedError, SerializeErrorOptions} from "./serializeError";
+import {toSafeValue} from "../formatters/toSafeValue";
+
+/**
+ * JSON-safe representation of a LogEntry — what JSON-producing transports send.
+ * Same fields as LogEntry, with Dates and the Error replaced by their serialized forms.
+ */
+export type SerializedLogEntry = Omit<LogEntry, "timestamp" | "error" | "breadcrumbs"> & {
+    readonly timestamp: string;
+    readonly error?: SerializedError;
+    readonly breadcrumbs?: readonly SerializedBreadcrumb[];
+};
+
+export type SerializedBreadcrumb = Omit<Breadcrumb, "timestamp"> & {
+    readonly timestamp: string;
+};
+
+/**
+ * Converts an entry into a plain object that survives JSON.stringify.
+ * Fields are copied as-is, so fields added to LogEntry later are carried over automatically.
+ *
+ * The context and breadcrumb data go through toSafeValue() — one BigInt or circular reference
+ * would otherwise make JSON.stringify throw for the whole batch the entry is part of.
+ */
+export function serializeEntry(entry: LogEntry, options: SerializeErrorOptions = {}): SerializedLogEntry {
+    return {
+        ...entry,
+        timestamp: entry.timestamp.toISOString(),
+        error: entry.error !== undefined ? serializeError(entry.error, options) : undefined,
+        context: entry.context !== undefined ? toSafeRecord(entry.context) : undefined,
+        breadcrumbs: entry.breadcrumbs?.map((breadcrumb) => ({
+            ...breadcrumb,
+            timestamp: breadcrumb.timestamp.toISOString(),
+            data: breadcrumb.data !== undefined ? toSafeRecord(breadcrumb.data) : undefined,
+        })),
+    };
+}
+
+function toSafeRecord(record: Record<string, unknown>): Record<string, unknown> {
+    return toSafeValue(record) as Record<string, unknown>;
+}
@@ -0,0 +1,125 @@
+import {describe, expect, it} from "vitest";
+import {NON_ERROR_NAME, serializeError, toError} from "./serializeError";
+
+describe("serializeError", () => {
+    it("should serialize name, message and stack", () => {
+        const error = new TypeError("Card declined");
+        const serialized = serializeError(error);
+
+        expect(serialized.name).toBe("TypeError");
+        expect(serialized.message).toBe("Card declined");
+        expect(serialized.stack).toBe(error.stack);
+    });
+
+    it("should survive JSON.stringify", () => {
+        const serialized = JSON.parse(JSON.stringify(serializeError(new Error("Oops"))));
+
+        expect(serialized.message).toBe("Oops");
+    });
+
+    it("should omit the stack if includeStack is false", () => {
+        expect(serializeError(new Error("Oops"), {includeStack: false}).stack).toBeUndefined();
+    });
+
+    it("should include code and other own enumerable properties", () => {
+        const error = Object.assign(new Error("Connection refused"), {
+            code: "ECONNREFUSED",
+            port: 5432,
+        });
+
+        const serialized = serializeError(error);
+
+        expect(serialized.code).toBe("ECONNREFUSED");
+        expect(serialized.properties).toEqual({port: 5432});
+    });
+
+    it("should make property values JSON-safe", () => {
+        const circular: Record<string, unknown> = {};
+        circular.self = circular;
+        const error = Object.assign(new Error("Oops"), {big: 10n, circular});
+
+        expect(serializeError(error).properties).toEqual({big: "10", circular: "[Unserializable]"});
+    });
+
+    it("should serialize the cause chain", () => {
+        const root = new Error("Socket hang up");
+        const middle = new Error("Request failed", {cause: root});
+        const top = new Error("Payment failed", {cause: middle});
+
+        const serialized = serializeError(top);
+
+        expect(serialized.cause?.message).toBe("Request failed");
+        expect(serialized.cause?.cause?.message).toBe("Socket hang up");
+    });
+
+    it("should stop at maxDepth", () => {
+        const error = new Error("1", {cause: new Error("2", {cause: new Error("3")})});
+
+        const serialized = serializeError(error, {maxDepth: 1});
+
+        expect(serialized.cause?.message).toBe("2");
+        expect(serialized.cause?.cause).toBeUndefined();
+    });
+
+    it("should not loop on cyclic causes", () => {
+        const first = new Error("first");
+        const second = new Error("second", {cause: first});
+        Object.defineProperty(first, "cause", {value: second});
+
+        const serialized = serializeError(first);
+
+        expect(serialized.cause?.message).toBe("second");
+        expect(serialized.cause?.cause).toBeUndefined();
+    });
+
+    it("should serialize AggregateError.errors", () => {
+        const error = new AggregateError([new Error("a"), new TypeError("b")], "Many failed");
+
+        const serialized = serializeError(error);
+
+        expect(serialized.name).toBe("AggregateError");
+        expect(serialized.errors?.map((e) => e.message)).toEqual(["a", "b"]);
+    });
+
+    it("should serialize non-Error causes", () => {
+        const serialized = serializeError(new Error("Wrapped", {cause: "raw reason"}));
+
+        expect(serialized.cause).toMatchObject({name: NON_ERROR_NAME, message: "raw reason"});
+    });
+
+    describe("non-Error throwables", () => {
+        it("should serialize a thrown string", () => {
+            expect(serializeError("Boom")).toMatchObject({name: NON_ERROR_NAME, message: "Boom"});
+        });
+
+        it("should serialize a thrown object", () => {
+            const serialized = serializeError({status: 500});
+
+            expect(serialized.message).toBe('{"status":500}');
+            expect(serialized.properties).toEqual({thrown: {status: 500}});
+        });
+
+        it("should serialize undefined and null", () => {
+            expect(serializeError(undefined).message).toBe("undefined");
+            expect(serializeError(null).message).toBe("null");
+        });
+
+        it("should not include a misleading stack", () => {
+            expect(serializeError("Boom").stack).toBeUndefined();
+        });
+    });
+});
+
+describe("toError", () => {
+    it("should return Error instances untouched", () => {
+        const error = new Error("Oops");
+
+        expect(toError(error)).toBe(error);
+    });
+
+    it("should keep the original value on the wrapper", () => {
+        const thrown = {reason: "nope"};
+
+        expect(toError(thrown)).toMatchObject({name: NON_ERROR_NAME, thrown});
+    });
+});
@@ -0,0 +1,174 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * JSON-safe representation of an error.
+ *
+ * Why not just JSON.stringify(error)?
+ * name, message and stack are non-enumerable own properties —
+ * JSON.stringify(new Error("x")) is "{}". Everything useful is lost.
+ */
+export interface SerializedError {
+    readonly name: string;
+    readonly message: string;
+    readonly stack?: string;
+
+    /**
+     * error.code — Node system errors ("ECONNREFUSED"), database drivers, etc.
+     */
+    readonly code?: string | number;
+
+    /**
+     * Other own enumerable properties — statusCode, details, anything libraries attach.
+     */
+    readonly properties?: Record<string, unknown>;
+
+    /**
+     * error.cause, serialized recursively (ES2022 error chaining).
+     */
+    readonly cause?: SerializedError;
+
+    /**
+     * AggregateError.errors, serialized recursively.
+     */
+    readonly errors?: SerializedError[];
+}
+
+export interface SerializeErrorOptions {
+    /**
+     * How deep cause chains and AggregateError.errors are followed. Default: 5.
+     * Deeper levels are cut off — a cyclic or runaway chain must not blow up a log call.
+     */
+    maxDepth?: number;
+
+    /**
+     * Include stack traces. Default: true.
+     */
+    includeStack?: boolean;
+}
+
+/**
+ * Name given to errors created from values that are not Error instances.
+ */
+export const NON_ERROR_NAME = "NonError";
+
+// ─── Normalization ────────────────────────────────────────────────────────────
+
+/**
+ * Turns anything that can be thrown into an Error.
+ *
+ * `catch (e)` gives us `unknown` — strings, plain objects, even undefined can be thrown.
+ * Errors pass through untouched; everything else is wrapped in an Error named "NonError"
+ * whose message describes the value and whose `thrown` property holds the original.
+ */
+export function toError(value: unknown): Error {
+    if (isError(value)) return value;
+
+    const error = new Error(describeThrown(value));
+    error.name = NON_ERROR_NAME;
+    // The stack would point into the logger, not to where the value was thrown — misleading
+    error.stack = undefined;
+    Object.assign(error, {thrown: value});
+
+    return error;
+}
+
+/**
+ * instanceof fails for errors from another realm (iframe, vm context) — check the tag too.
+ */
+export function isError(value: unknown): value is Error {
+    return value instanceof Error || Object.prototype.toString.call(value) === "[object Error]";
+}
+
+function describeThrown(value: unknown): string {
+    if (typeof value === "string") return value;
+    if (value === null || typeof value !== "object") return String(value);
+
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return Object.prototype.toString.call(value);
+    }
+}
+
+// ─── Serialization ────────────────────────────────────────────────────────────
+
+/**
+ * Serializes any thrown value into a SerializedError.
+ *
+ * @example
+ * try { ... } catch (error) {
+ *     JSON.stringify(serializeError(error))
+ * }
+ */
+export function serializeError(value: unknown, options: SerializeErrorOptions = {}): SerializedError {
+    return serialize(toError(value), {
+        maxDepth: options.maxDepth ?? 5,
+        includeStack: options.includeStack ?? true,
+    }, 0, new Set());
+}
+
+function serialize(
+    error: Error,
+    options: Required<SerializeErrorOptions>,
+    depth: number,
+    seen: Set<Error>
+): SerializedError {
+    seen.add(error);
+
+    const canGoDeeper = depth < options.maxDepth;
+    const serializeNested = (value: unknown): SerializedError | undefined => {
+        const nested = toError(value);
+        return seen.has(nested) ? undefined : serialize(nested, options, depth + 1, seen);
+    };
+
+    const cause = canGoDeeper && "cause" in error && error.cause !== undefined
+        ? serializeNested(error.cause)
+        : undefined;
+
+    const errors = canGoDeeper && isAggregateError(error)
+        ? error.errors.map(serializeNested).filter((nested) => nested !== undefined)
+        : undefined;
+
+    const code = (error as { code?: unknown }).code;
+    const properties = ownProperties(error);
+
+    return {
+        name: error.name,
+        message: error.message,
+        ...(options.includeStack && error.stack !== undefined ? {stack: error.stack} : {}),
+        ...(typeof code === "string" || typeof code === "number" ? {code} : {}),
+        ...(properties ? {properties} : {}),
+        ...(cause ? {cause} : {}),
+        ...(errors ? {errors} : {}),
+    };
+}
+
+function isAggregateError(error: Error): error is Error & { errors: unknown[] } {
+    return Array.isArray((error as { errors?: unknown }).errors);
+}
+
+/**
+ * Own enumerable properties, minus the ones SerializedError already has a field for.
+ * Values are made JSON-safe; anything that cannot be is replaced with a placeholder.
+ */
+function ownProperties(error: Error): Record<string, unknown> | undefined {
+    const skip = new Set(["name", "message", "stack", "code", "cause", "errors"]);
+    const entries = Object.entries(error).filter(([key]) => !skip.has(key));
+
+    if (entries.length === 0) return undefined;
+
+    return Object.fromEntries(entries.map(([key, value]) => [key, toJSONSafe(value)]));
+}
+
+function toJSONSafe(value: unknown): unknown {
+    if (typeof value === "bigint") return value.toString();
+    if (typeof value === "function" || typeof value === "symbol") return String(value);
+    if (isError(value)) return {name: value.name, message: value.message};
+
+    try {
+        // Round-trip drops what JSON cannot carry and throws on circular structures
+        return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    } catch {
+        return "[Unserializable]";
+    }
+}
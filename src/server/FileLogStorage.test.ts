@@ -0,0 +1,109 @@
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {appendFile, mkdtemp, readFile, rm} from "node:fs/promises";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {FileLogStorage} from "./FileLogStorage";
+import {StoredEntry} from "./LogStorage";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+function stored(id: string, timestamp = new Date(), overrides: Partial<StoredEntry> = {}): StoredEntry {
+    return {
+        ...createLogEntry({id, level: LogLevel.ERROR, message: `entry ${id}`, error: new TypeError("Card declined")}),
+        timestamp,
+        project: "checkout",
+        receivedAt: new Date(),
+        ...overrides,
+    };
+}
+
+async function ids(storage: FileLogStorage): Promise<string[]> {
+    return (await storage.query({})).entries.map((entry) => entry.id);
+}
+
+describe("FileLogStorage", () => {
+    let directory: string;
+    let path: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "file-log-storage-"));
+        path = join(directory, "data", "logs.ndjson");
+    });
+
+    afterEach(async () => {
+        await rm(directory, {recursive: true, force: true});
+    });
+
+    it("should append entries as NDJSON lines", async () => {
+        const storage = new FileLogStorage({path});
+
+        await storage.write([stored("a"), stored("b")]);
+
+        const lines = (await readFile(path, "utf8")).trim().split("\n").map((line) => JSON.parse(line));
+        expect(lines.map((line) => [line.id, line.project, line.error.name])).toEqual([
+            ["a", "checkout", "TypeError"],
+            ["b", "checkout", "TypeError"],
+        ]);
+    });
+
+    it("should rebuild the indexes in a new instance", async () => {
+        await new FileLogStorage({path, contextKeys: ["userId"]}).write([
+            stored("a", new Date(1000), {context: {userId: "7"}}),
+            stored("b", new Date(2000)),
+        ]);
+
+        const reopened = new FileLogStorage({path, contextKeys: ["userId"]});
+        const result = await reopened.query({context: {userId: "7"}});
+
+        expect(result.entries.map((entry) => entry.id)).toEqual(["a"]);
+        expect(result.entries[0]!.timestamp).toEqual(new Date(1000));
+        expect(result.entries[0]!.error).toBeInstanceOf(Error);
+        expect(result.entries[0]!.receivedAt).toBeInstanceOf(Date);
+    });
+
+    it("should not append entries it already stored", async () => {
+        const storage = new FileLogStorage({path});
+
+        await storage.write([stored("a"), stored("a")]);
+        await storage.write([stored("a"), stored("b")]);
+
+        expect((await readFile(path, "utf8")).trim().split("\n")).toHaveLength(2);
+    });
+
+    it("should cut off a torn last line", async () => {
+        await new FileLogStorage({path}).write([stored("a")]);
+        await appendFile(path, "{\"id\":\"torn");
+
+        const reopened = new FileLogStorage({path});
+        await reopened.write([stored("b")]);
+
+        expect(await ids(reopened)).toEqual(["b", "a"]);
+        expect(await ids(new FileLogStorage({path}))).toEqual(["b", "a"]);
+    });
+
+    it("should rewrite the file without expired entries on compact", async () => {
+        const storage = new FileLogStorage({path, retention: {maxAgeMs: 60_000}});
+        const old = new Date(Date.now() - 120_000);
+
+        await storage.write([stored("old", old), stored("new")]);
+
+        expect(await storage.compact()).toBe(1);
+        expect(await ids(storage)).toEqual(["new"]);
+        expect(await ids(new FileLogStorage({path}))).toEqual(["new"]);
+        expect(await storage.compact()).toBe(0);
+
+        await storage.close();
+    });
+
+    it("should enforce maxBytes from the newest entry back", async () => {
+        const storage = new FileLogStorage({path, retention: {maxBytes: 1}});
+
+        await storage.write([stored("a", new Date(1000)), stored("b", new Date(2000))]);
+        await storage.compact();
+
+        expect(await ids(storage)).toEqual([]);
+        expect(await readFile(path, "utf8")).toBe("");
+
+        await storage.close();
+    });
+});
@@ -0,0 +1,205 @@
+import {appendFile, mkdir, readFile, rename, truncate, writeFile} from "node:fs/promises";
+import {dirname} from "node:path";
+import {scheduleCompaction} from "./compactor";
+import {LogIndex} from "./LogIndex";
+import {
+    deserializeStoredEntry,
+    FingerprintQuery,
+    FingerprintSummary,
+    LevelCountBucket,
+    LevelCountQuery,
+    LogQuery,
+    LogQueryResult,
+    QueryableLogStorage,
+    RetentionOptions,
+    serializeStoredEntry,
+    StoredEntry,
+} from "./LogStorage";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface FileLogStorageOptions {
+    /**
+     * Path of the data file, e.g. "data/logs.ndjson". Missing directories are created.
+     */
+    path: string;
+
+    /**
+     * Context keys with an index — dotted paths reach into nested objects: ["userId", "request.id"].
+     */
+    contextKeys?: readonly string[];
+
+    /**
+     * Retention enforced by the background compactor.
+     */
+    retention?: RetentionOptions;
+
+    /**
+     * How often the compactor runs, in milliseconds. Default: 60000.
+     */
+    compactInterval?: number;
+}
+
+// ─── FileLogStorage ───────────────────────────────────────────────────────────
+
+/**
+ * Stores entries in an append-only NDJSON file, one serialized StoredEntry per line.
+ *
+ * Node only — exported from "error-logging-service/node".
+ *
+ * The file is the source of truth, the indexes live in memory: they are rebuilt from the
+ * file on first use, and every write appends to the file before it is indexed.
+ * Size the retention so the entries fit in memory.
+ *
+ * How does retention work in an append-only file?
+ * The compactor removes expired entries from the indexes and rewrites the file with the
+ * remaining ones — into a temporary file that replaces the data file in one rename,
+ * so a crash leaves either the old or the new file, never half of one.
+ * A line torn by a crash mid-append is cut off on the next load.
+ */
+export class FileLogStorage implements QueryableLogStorage {
+    private readonly path: string;
+    private readonly retention: RetentionOptions;
+    private readonly index: LogIndex;
+    private readonly stopCompactor: () => void;
+
+    private loaded = false;
+
+    /**
+     * Operations run one at a time — a query must not see an index the compactor is rebuilding.
+     */
+    private lock: Promise<unknown> = Promise.resolve();
+
+    constructor(options: FileLogStorageOptions) {
+        this.path = options.path;
+        this.retention = options.retention ?? {};
+        this.index = new LogIndex({contextKeys: options.contextKeys});
+        this.stopCompactor = options.retention
+            ? scheduleCompaction(() => this.compact(), options.compactInterval ?? 60_000, "FileLogStorage")
+            : () => undefined;
+    }
+
+    /**
+     * Entries with an id already stored for the same project are skipped.
+     */
+    write(entries: readonly StoredEntry[]): Promise<void> {
+        return this.exclusive(async () => {
+            const seen = new Set<string>();
+            const fresh = entries.filter((entry) => {
+                const key = `${entry.project}\u0000${entry.id}`;
+                if (this.index.has(entry) || seen.has(key)) return false;
+
+                seen.add(key);
+                return true;
+            });
+            if (fresh.length === 0) return;
+
+            const lines = fresh.map(toLine);
+            await appendFile(this.path, lines.join(""));
+
+            fresh.forEach((entry, index) => this.index.add(entry, Buffer.byteLength(lines[index]!)));
+        });
+    }
+
+    query(query: LogQuery): Promise<LogQueryResult> {
+        return this.exclusive(async () => this.index.query(query));
+    }
+
+    countByLevel(query: LevelCountQuery): Promise<LevelCountBucket[]> {
+        return this.exclusive(async () => this.index.countByLevel(query));
+    }
+
+    topFingerprints(query: FingerprintQuery): Promise<FingerprintSummary[]> {
+        return this.exclusive(async () => this.index.topFingerprints(query));
+    }
+
+    /**
+     * Enforces retention now — rewrites the file when anything expired.
+     */
+    compact(): Promise<number> {
+        return this.exclusive(async () => {
+            const expired = this.index.countExpired(this.retention, Date.now());
+            if (expired === 0) return 0;
+
+            const temporary = `${this.path}.tmp`;
+            const remaining = this.index.entries().slice(expired);
+
+            await writeFile(temporary, remaining.map(toLine).join(""));
+            await rename(temporary, this.path);
+
+            this.index.removeOldest(expired);
+            return expired;
+        });
+    }
+
+    /**
+     * Stops the compactor and waits for running operations.
+     */
+    async close(): Promise<void> {
+        this.stopCompactor();
+        await this.lock;
+    }
+
+    // ─── File handling ──────────────────────────────────────────────────────────
+
+    private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.lock.then(async () => {
+            if (!this.loaded) {
+                await this.load();
+                this.loaded = true;
+            }
+
+            return operation();
+        });
+
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+
+    private async load(): Promise<void> {
+        await mkdir(dirname(this.path), {recursive: true});
+
+        const data = await readFile(this.path).catch(ignoreMissing);
+        if (!data) return;
+
+        let start = 0;
+        let validEnd = 0;
+        const end = data.lastIndexOf(0x0a) + 1;
+
+        while (start < end) {
+            const newline = data.indexOf(0x0a, start);
+            const entry = parseLine(data.toString("utf8", start, newline));
+
+            // Unreadable lines in the middle stay in the file until the next compaction
+            if (entry) {
+                this.index.add(entry, newline + 1 - start);
+                validEnd = newline + 1;
+            }
+
+            start = newline + 1;
+        }
+
+        // Cut off a torn last line and unreadable lines after the last entry,
+        // so the next append starts on a clean line
+        if (validEnd < data.length) await truncate(this.path, validEnd);
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function toLine(entry: StoredEntry): string {
+    return JSON.stringify(serializeStoredEntry(entry)) + "\n";
+}
+
+function parseLine(line: string): StoredEntry | null {
+    try {
+        return deserializeStoredEntry(JSON.parse(line));
+    } catch {
+        return null;
+    }
+}
+
+function ignoreMissing(error: NodeJS.ErrnoException): null {
+    if (error.code === "ENOENT") return null;
+    throw error;
+}
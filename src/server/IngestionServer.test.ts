@@ -0,0 +1,338 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {
+    FingerprintResponse,
+    IngestionErrorResponse,
+    IngestionResponse,
+    IngestionServer,
+    IngestionServerOptions,
+    LevelCountResponse,
+    LogQueryResponse,
+} from "./IngestionServer";
+import {LogStorage, MemoryLogStorage} from "./LogStorage";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {serializeEntry} from "../serializers/serializeEntry";
+import {HttpTransport} from "../transports/HttpTransport";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+const KEY = "key-checkout";
+const READ_KEY = "read-checkout";
+
+function serialized(message = "Payment failed") {
+    return serializeEntry(createLogEntry({level: LogLevel.ERROR, message, error: new TypeError("Card declined")}));
+}
+
+describe("IngestionServer", () => {
+    let storage: MemoryLogStorage;
+    let server: IngestionServer;
+    let baseUrl: string;
+
+    async function start(options: Partial<IngestionServerOptions> = {}): Promise<void> {
+        await server?.close();
+        server = new IngestionServer({
+            projects: [{id: "checkout", apiKeys: [KEY, "key-old"], readKeys: [READ_KEY]}],
+            storage,
+            ...options,
+        });
+
+        const {port} = await server.listen(0, "127.0.0.1");
+        baseUrl = `http://127.0.0.1:${port}`;
+    }
+
+    function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+        return fetch(`${baseUrl}/logs`, {
+            method: "POST",
+            headers: {"Content-Type": "application/json", Authorization: `Bearer ${KEY}`, ...headers},
+            body: typeof body === "string" ? body : JSON.stringify(body),
+        });
+    }
+
+    function get(path: string, key = READ_KEY): Promise<Response> {
+        return fetch(`${baseUrl}${path}`, {headers: {Authorization: `Bearer ${key}`}});
+    }
+
+    beforeEach(async () => {
+        storage = new MemoryLogStorage();
+        await start();
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    // ─── Ingestion ───────────────────────────────────────────────────────────────
+
+    it("should store a single entry with project and arrival time", async () => {
+        const entry = serialized();
+
+        const response = await post(entry);
+
+        expect(response.status).toBe(202);
+        expect(await response.json()).toEqual({accepted: 1, rejected: []} satisfies IngestionResponse);
+
+        const [stored] = storage.list();
+        expect(stored!.id).toBe(entry.id);
+        expect(stored!.project).toBe("checkout");
+        expect(stored!.receivedAt).toBeInstanceOf(Date);
+        expect(stored!.timestamp).toEqual(new Date(entry.timestamp));
+        expect(stored!.error).toBeInstanceOf(Error);
+        expect(stored!.error!.name).toBe("TypeError");
+    });
+
+    it("should store a batch", async () => {
+        const response = await post([serialized("first"), serialized("second")]);
+
+        expect(await response.json()).toEqual({accepted: 2, rejected: []});
+        expect(storage.list().map((entry) => entry.message).sort()).toEqual(["first", "second"]);
+    });
+
+    it("should store valid entries and report invalid ones", async () => {
+        const response = await post([serialized("good"), {...serialized(), level: "loud"}]);
+
+        expect(response.status).toBe(202);
+        expect(await response.json()).toEqual({
+            accepted: 1,
+            rejected: [{index: 1, issues: [{path: "level", message: "must be a finite number"}]}],
+        });
+        expect(storage.list()).toHaveLength(1);
+    });
+
+    it("should answer 400 when no entry is valid", async () => {
+        const response = await post({message: "no id"});
+        const body = await response.json() as IngestionErrorResponse;
+
+        expect(response.status).toBe(400);
+        expect(body.error.code).toBe("validation_failed");
+        expect(body.error.details![0]!.issues.map((issue) => issue.path)).toEqual(["id", "level", "timestamp"]);
+    });
+
+    it("should accept what HttpTransport sends", async () => {
+        const transport = new HttpTransport({url: `${baseUrl}/logs`, headers: {"X-Api-Key": KEY}, batchSize: 2});
+
+        await Promise.all([
+            transport.send(createLogEntry({level: LogLevel.INFO, message: "one", context: {orderId: "ord-1"}})),
+            transport.send(createLogEntry({level: LogLevel.WARN, message: "two"})),
+        ]);
+
+        expect(storage.list().map((entry) => [entry.message, entry.context])).toEqual(expect.arrayContaining([
+            ["one", {orderId: "ord-1"}],
+            ["two", undefined],
+        ]));
+        expect(storage.list()).toHaveLength(2);
+    });
+
+    // ─── Rejections ──────────────────────────────────────────────────────────────
+
+    it("should reject missing and unknown API keys", async () => {
+        const missing = await post(serialized(), {Authorization: ""});
+        const unknown = await post(serialized(), {Authorization: "Bearer nope"});
+
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get("WWW-Authenticate")).toBe("Bearer");
+        expect((await missing.json() as IngestionErrorResponse).error).toEqual({code: "unauthorized", message: "API key is missing."});
+        expect((await unknown.json() as IngestionErrorResponse).error.message).toBe("API key is not valid.");
+        expect(storage.list()).toHaveLength(0);
+    });
+
+    it("should accept every key of a project", async () => {
+        const response = await post(serialized(), {Authorization: "Bearer key-old"});
+
+        expect(response.status).toBe(202);
+    });
+
+    it("should reject other content types", async () => {
+        const response = await post(serialized(), {"Content-Type": "text/plain"});
+
+        expect(response.status).toBe(415);
+        expect((await response.json() as IngestionErrorResponse).error.code).toBe("unsupported_media_type");
+    });
+
+    it("should reject invalid JSON", async () => {
+        const response = await post("{not json");
+
+        expect(response.status).toBe(400);
+        expect((await response.json() as IngestionErrorResponse).error.code).toBe("invalid_json");
+    });
+
+    it("should reject bodies and batches beyond the limits", async () => {
+        await start({maxBodySize: 1024, maxBatchSize: 2});
+
+        const tooLarge = await post([{...serialized(), message: "x".repeat(2000)}]);
+        const tooMany = await post([{}, {}, {}]);
+
+        expect(tooLarge.status).toBe(413);
+        expect(tooMany.status).toBe(413);
+        expect((await tooMany.json() as IngestionErrorResponse).error.message).toBe("Batch of 3 entries exceeds 2.");
+    });
+
+    it("should rate limit entries per project with Retry-After", async () => {
+        await start({maxBatchSize: 2, rateLimit: {capacity: 3, refillPerSecond: 1}});
+
+        expect((await post([serialized(), serialized()])).status).toBe(202);
+        const limited = await post([serialized(), serialized()]);
+
+        expect(limited.status).toBe(429);
+        expect(limited.headers.get("Retry-After")).toBe("1");
+        expect((await limited.json() as IngestionErrorResponse).error.code).toBe("rate_limited");
+        expect(storage.list()).toHaveLength(2);
+    });
+
+    it("should answer 503 when the storage fails", async () => {
+        const onError = vi.fn();
+        const failing: LogStorage = {write: () => Promise.reject(new Error("disk full"))};
+        await start({storage: failing, onError});
+
+        const response = await post(serialized());
+
+        expect(response.status).toBe(503);
+        expect((await response.json() as IngestionErrorResponse).error.code).toBe("storage_unavailable");
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({message: "disk full"}));
+    });
+
+    it("should answer 404 and 405 with structured errors", async () => {
+        const notFound = await fetch(`${baseUrl}/nope`);
+        const wrongMethod = await fetch(`${baseUrl}/logs`, {method: "PUT"});
+
+        expect(notFound.status).toBe(404);
+        expect((await notFound.json() as IngestionErrorResponse).error.code).toBe("not_found");
+        expect(wrongMethod.status).toBe(405);
+        expect(wrongMethod.headers.get("Allow")).toBe("GET, POST, OPTIONS");
+    });
+
+    it("should not offer reads when the storage cannot query", async () => {
+        const writeOnly: LogStorage = {write: async () => undefined};
+        await start({storage: writeOnly});
+
+        const response = await get("/logs");
+
+        expect(response.status).toBe(405);
+        expect(response.headers.get("Allow")).toBe("POST, OPTIONS");
+    });
+
+    // ─── Queries ─────────────────────────────────────────────────────────────────
+
+    describe("queries", () => {
+        function entry(message: string, level: LogLevel, minutesAgo: number, context?: Record<string, unknown>) {
+            return serializeEntry({
+                ...createLogEntry({level, message, context}),
+                timestamp: new Date(Date.now() - minutesAgo * 60_000),
+            });
+        }
+
+        beforeEach(async () => {
+            await post([
+                entry("Cart loaded", LogLevel.INFO, 3, {userId: 123}),
+                entry("Payment slow", LogLevel.WARN, 2, {userId: 123}),
+                entry("Payment failed", LogLevel.ERROR, 1, {userId: 123}),
+                entry("Payment failed", LogLevel.ERROR, 0, {userId: 456}),
+            ]);
+        });
+
+        it("should filter entries newest first", async () => {
+            const response = await get("/logs?level>=WARN&context.userId=123&q=payment");
+            const body = await response.json() as LogQueryResponse;
+
+            expect(response.status).toBe(200);
+            expect(body.entries.map((stored) => [stored.message, stored.project])).toEqual([
+                ["Payment failed", "checkout"],
+                ["Payment slow", "checkout"],
+            ]);
+            expect(body.nextCursor).toBeUndefined();
+        });
+
+        it("should page with nextCursor", async () => {
+            const first = await (await get("/logs?limit=3")).json() as LogQueryResponse;
+            const second = await (await get(`/logs?limit=3&cursor=${first.nextCursor}`)).json() as LogQueryResponse;
+
+            expect(first.entries).toHaveLength(3);
+            expect(second.entries.map((stored) => stored.message)).toEqual(["Cart loaded"]);
+            expect(second.nextCursor).toBeUndefined();
+        });
+
+        it("should only show entries of the key's project", async () => {
+            await start({
+                projects: [
+                    {id: "checkout", apiKeys: [KEY], readKeys: [READ_KEY]},
+                    {id: "admin", apiKeys: ["key-admin"], readKeys: ["read-admin"]},
+                ],
+            });
+
+            const body = await (await get("/logs", "read-admin")).json() as LogQueryResponse;
+
+            expect(body.entries).toEqual([]);
+        });
+
+        it("should not let ingestion keys read", async () => {
+            const response = await get("/logs", KEY);
+            const body = await response.json() as IngestionErrorResponse;
+
+            expect(response.status).toBe(403);
+            expect(body.error.code).toBe("forbidden");
+        });
+
+        it("should answer 400 for an invalid query", async () => {
+            const response = await get("/logs?level>WARN");
+            const body = await response.json() as IngestionErrorResponse;
+
+            expect(response.status).toBe(400);
+            expect(body.error.code).toBe("invalid_query");
+            expect(body.error.message).toContain("level>=");
+        });
+
+        it("should count entries per level per bucket", async () => {
+            const response = await get("/logs/stats/levels?bucket=1d");
+            const body = await response.json() as LevelCountResponse;
+            const totals = body.buckets.reduce<Record<string, number>>((sum, bucket) => {
+                for (const [label, count] of Object.entries(bucket.counts)) sum[label] = (sum[label] ?? 0) + count;
+                return sum;
+            }, {});
+
+            expect(body.bucketMs).toBe(86_400_000);
+            expect(totals).toEqual({INFO: 1, WARN: 1, ERROR: 2});
+        });
+
+        it("should list the top error fingerprints", async () => {
+            const response = await get("/logs/stats/fingerprints");
+            const body = await response.json() as FingerprintResponse;
+
+            expect(body.fingerprints).toHaveLength(1);
+            expect(body.fingerprints[0]).toMatchObject({count: 2, level: LogLevel.ERROR, message: "Payment failed"});
+        });
+    });
+
+    // ─── Health and CORS ─────────────────────────────────────────────────────────
+
+    it("should report health", async () => {
+        const response = await fetch(`${baseUrl}/health`);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({status: "ok"});
+    });
+
+    it("should answer preflight requests from allowed origins", async () => {
+        await start({corsOrigins: ["https://shop.example"]});
+
+        const allowed = await fetch(`${baseUrl}/logs`, {method: "OPTIONS", headers: {Origin: "https://shop.example"}});
+        const other = await fetch(`${baseUrl}/logs`, {method: "OPTIONS", headers: {Origin: "https://evil.example"}});
+
+        expect(allowed.status).toBe(204);
+        expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe("https://shop.example");
+        expect(allowed.headers.get("Access-Control-Allow-Headers")).toContain("Authorization");
+        expect(other.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    });
+
+    // ─── Configuration ───────────────────────────────────────────────────────────
+
+    it("should reject an API key shared by two projects", () => {
+        expect(() => new IngestionServer({
+            projects: [{id: "a", apiKeys: ["k"]}, {id: "b", apiKeys: ["k"]}],
+        })).toThrow("API key of project \"b\" is already used by project \"a\".");
+    });
+
+    it("should reject a rate limit smaller than a batch", () => {
+        expect(() => new IngestionServer({
+            projects: [{id: "a", apiKeys: ["k"], rateLimit: {capacity: 10, refillPerSecond: 1}}],
+        })).toThrow(RangeError);
+    });
+});
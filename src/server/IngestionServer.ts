@@ -0,0 +1,580 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from "node:http";
+import {AddressInfo} from "node:net";
+import {TokenBucket, TokenBucketOptions} from "../core/TokenBucket";
+import {deserializeEntry} from "../serializers/deserializeEntry";
+import {
+    FingerprintSummary,
+    InvalidQueryError,
+    LogStorage,
+    MemoryLogStorage,
+    QueryableLogStorage,
+    SerializedStoredEntry,
+    serializeStoredEntry,
+    StoredEntry,
+} from "./LogStorage";
+import {parseFingerprintQuery, parseLevelCountQuery, parseLogQuery} from "./parseLogQuery";
+import {validateEntry, ValidationIssue} from "./validateEntry";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface IngestionProject {
+    /**
+     * Stored with every entry as entry.project.
+     */
+    readonly id: string;
+
+    /**
+     * Keys that may send entries — several, so keys can be rotated without downtime.
+     */
+    readonly apiKeys: readonly string[];
+
+    /**
+     * Keys that may query the project's entries. Kept apart from apiKeys:
+     * ingestion keys end up in browser bundles, read keys must not.
+     */
+    readonly readKeys?: readonly string[];
+
+    /**
+     * Overrides the server's rateLimit for this project.
+     */
+    readonly rateLimit?: TokenBucketOptions | false;
+}
+
+export interface IngestionServerOptions {
+    projects: readonly IngestionProject[];
+
+    /**
+     * Where accepted entries go. Default: a MemoryLogStorage.
+     * The query and stats endpoints are served when the storage is a QueryableLogStorage.
+     */
+    storage?: LogStorage;
+
+    /**
+     * Path of the ingestion endpoint. Default: "/logs".
+     */
+    path?: string;
+
+    /**
+     * Largest accepted request body in bytes. Default: 1 MiB.
+     */
+    maxBodySize?: number;
+
+    /**
+     * Largest accepted batch. Default: 1000 entries.
+     */
+    maxBatchSize?: number;
+
+    /**
+     * Entries per project — a bucket of capacity entries, refilled at refillPerSecond.
+     * Default: {capacity: 5000, refillPerSecond: 500}. false disables rate limiting.
+     */
+    rateLimit?: TokenBucketOptions | false;
+
+    /**
+     * Origins allowed to post from a browser (CORS), or "*" for any. Default: none.
+     */
+    corsOrigins?: readonly string[] | "*";
+
+    /**
+     * Called when storing fails or a request breaks unexpectedly. Default: console.error.
+     */
+    onError?: (error: unknown) => void;
+}
+
+export type IngestionErrorCode =
+    | "not_found"
+    | "method_not_allowed"
+    | "unauthorized"
+    | "forbidden"
+    | "unsupported_media_type"
+    | "payload_too_large"
+    | "invalid_json"
+    | "invalid_query"
+    | "validation_failed"
+    | "rate_limited"
+    | "storage_unavailable"
+    | "internal_error";
+
+/**
+ * Body of every error response.
+ */
+export interface IngestionErrorResponse {
+    error: {
+        code: IngestionErrorCode;
+        message: string;
+        details?: readonly RejectedEntry[];
+    };
+}
+
+/**
+ * Body of a successful POST — entries that failed validation are listed, the rest are stored.
+ */
+export interface IngestionResponse {
+    accepted: number;
+    rejected: readonly RejectedEntry[];
+}
+
+export interface RejectedEntry {
+    /**
+     * Position in the batch — 0 for a single entry.
+     */
+    index: number;
+    issues: readonly ValidationIssue[];
+}
+
+/**
+ * Body of GET /logs — pass nextCursor back as ?cursor= for the next, older page.
+ */
+export interface LogQueryResponse {
+    entries: SerializedStoredEntry[];
+    nextCursor?: string;
+}
+
+/**
+ * Body of GET /logs/stats/levels — buckets without entries are left out.
+ */
+export interface LevelCountResponse {
+    bucketMs: number;
+    buckets: Array<{ start: string; counts: Record<string, number> }>;
+}
+
+/**
+ * Body of GET /logs/stats/fingerprints — dates as ISO strings.
+ */
+export interface FingerprintResponse {
+    fingerprints: Array<Omit<FingerprintSummary, "firstSeen" | "lastSeen"> & { firstSeen: string; lastSeen: string }>;
+}
+
+type Access = "write" | "read";
+
+/**
+ * Project a key belongs to, and what the key may do.
+ */
+interface KeyGrant {
+    project: IngestionProject;
+    access: Set<Access>;
+}
+
+/**
+ * A request that ends in an error response — thrown inside the handler, answered in one place.
+ */
+class IngestionError extends Error {
+    readonly status: number;
+    readonly code: IngestionErrorCode;
+    readonly details?: readonly RejectedEntry[];
+    readonly headers?: Record<string, string>;
+
+    constructor(
+        status: number,
+        code: IngestionErrorCode,
+        message: string,
+        extra: { details?: readonly RejectedEntry[]; headers?: Record<string, string> } = {}
+    ) {
+        super(message);
+        this.name = "IngestionError";
+        this.status = status;
+        this.code = code;
+        this.details = extra.details;
+        this.headers = extra.headers;
+    }
+}
+
+// ─── IngestionServer ──────────────────────────────────────────────────────────
+
+/**
+ * The receiving side of HttpTransport — accepts entries over HTTP and stores them.
+ *
+ * Node only — exported from "error-logging-service/node". Built on node:http,
+ * no framework: handle() can also be mounted in an existing server.
+ *
+ * Endpoints:
+ * - POST /logs — one entry or an array of entries, as serializeEntry() produces them
+ * - GET /logs — entries of the key's project, newest first, filtered and paginated
+ * - GET /logs/stats/levels — entries per level per time bucket
+ * - GET /logs/stats/fingerprints — the most frequent errors
+ * - GET /health — liveness check
+ *
+ * The GET endpoints need a read key and a QueryableLogStorage.
+ *
+ * Why partial acceptance?
+ * HttpTransport sends batches and does not retry a 400. Rejecting a whole batch
+ * because of one malformed entry would lose every good entry with it — so valid entries
+ * are stored and the invalid ones are listed in the response. Only a batch without a
+ * single valid entry is a 400.
+ *
+ * Status codes are chosen so HttpTransport does the right thing: 429 and 503 are retried
+ * (429 with Retry-After), client errors are not.
+ *
+ * @example
+ * const server = new IngestionServer({
+ *     projects: [{id: "checkout", apiKeys: [process.env.CHECKOUT_KEY!]}],
+ *     storage: new MemoryLogStorage(),
+ * })
+ * await server.listen(8080)
+ */
+export class IngestionServer {
+    private readonly storage: LogStorage;
+    private readonly path: string;
+    private readonly maxBodySize: number;
+    private readonly maxBatchSize: number;
+    private readonly corsOrigins: readonly string[] | "*";
+    private readonly onError: (error: unknown) => void;
+
+    /**
+     * API key → project and access, built once — a lookup per request instead of a scan.
+     */
+    private readonly keys = new Map<string, KeyGrant>();
+
+    /**
+     * Rate limit buckets, created on a project's first request.
+     */
+    private readonly buckets = new Map<string, TokenBucket>();
+    private readonly rateLimits = new Map<string, TokenBucketOptions | false>();
+
+    private server: Server | null = null;
+
+    constructor(options: IngestionServerOptions) {
+        this.storage = options.storage ?? new MemoryLogStorage();
+        this.path = options.path ?? "/logs";
+        this.maxBodySize = options.maxBodySize ?? 1024 * 1024;
+        this.maxBatchSize = options.maxBatchSize ?? 1000;
+        this.corsOrigins = options.corsOrigins ?? [];
+        this.onError = options.onError ?? ((error) => console.error("[IngestionServer] Request failed:", error));
+
+        const defaultRateLimit = options.rateLimit ?? {capacity: 5000, refillPerSecond: 500};
+
+        for (const project of options.projects) {
+            const rateLimit = project.rateLimit ?? defaultRateLimit;
+
+            // A batch larger than the bucket could never pass — it would be retried forever
+            if (rateLimit && rateLimit.capacity < this.maxBatchSize) {
+                throw new RangeError(
+                    `Rate limit capacity of project "${project.id}" (${rateLimit.capacity}) is smaller than maxBatchSize (${this.maxBatchSize}).`
+                );
+            }
+
+            this.rateLimits.set(project.id, rateLimit);
+
+            this.grant(project, project.apiKeys, "write");
+            this.grant(project, project.readKeys ?? [], "read");
+        }
+    }
+
+    private grant(project: IngestionProject, keys: readonly string[], access: Access): void {
+        for (const key of keys) {
+            const grant = this.keys.get(key);
+
+            if (grant && grant.project !== project) {
+                throw new Error(`API key of project "${project.id}" is already used by project "${grant.project.id}".`);
+            }
+
+            if (grant) grant.access.add(access);
+            else this.keys.set(key, {project, access: new Set([access])});
+        }
+    }
+
+    /**
+     * Starts listening. Resolves with the bound address — pass port 0 for a free port.
+     */
+    async listen(port = 0, host?: string): Promise<AddressInfo> {
+        if (this.server) throw new Error("IngestionServer is already listening.");
+
+        const server = createServer((request, response) => this.handle(request, response));
+        this.server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(port, host, () => {
+                server.off("error", reject);
+                resolve();
+            });
+        });
+
+        return server.address() as AddressInfo;
+    }
+
+    /**
+     * Stops accepting connections, waits for running requests, then closes the storage.
+     */
+    async close(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+
+        if (server) {
+            await new Promise<void>((resolve) => {
+                server.close(() => resolve());
+                server.closeIdleConnections();
+            });
+        }
+
+        await this.storage.close?.();
+    }
+
+    /**
+     * Request listener — for mounting the endpoints in an existing node:http server.
+     */
+    handle(request: IncomingMessage, response: ServerResponse): void {
+        this.route(request, response).catch((error: unknown) => {
+            if (error instanceof InvalidQueryError) {
+                error = new IngestionError(400, "invalid_query", error.message);
+            }
+
+            if (error instanceof IngestionError) {
+                sendJson(response, error.status, {
+                    error: {code: error.code, message: error.message, ...(error.details ? {details: error.details} : {})},
+                } satisfies IngestionErrorResponse, error.headers);
+                return;
+            }
+
+            this.onError(error);
+            sendJson(response, 500, {
+                error: {code: "internal_error", message: "The request could not be processed."},
+            } satisfies IngestionErrorResponse);
+        });
+    }
+
+    // ─── Routing ────────────────────────────────────────────────────────────────
+
+    private async route(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const {pathname, searchParams} = new URL(request.url ?? "/", "http://localhost");
+        this.applyCors(request, response);
+
+        if (pathname === "/health") {
+            if (request.method !== "GET" && request.method !== "HEAD") throw methodNotAllowed("GET, HEAD");
+
+            sendJson(response, 200, {status: "ok"});
+            return;
+        }
+
+        const storage = isQueryableStorage(this.storage) ? this.storage : null;
+        const readPaths = storage ? [this.path, `${this.path}/stats/levels`, `${this.path}/stats/fingerprints`] : [];
+
+        if (pathname !== this.path && !readPaths.includes(pathname)) {
+            throw new IngestionError(404, "not_found", `No endpoint at ${pathname}.`);
+        }
+
+        if (request.method === "OPTIONS") {
+            response.writeHead(204).end();
+            return;
+        }
+
+        if (pathname === this.path && request.method === "POST") {
+            sendJson(response, 202, await this.ingest(request));
+            return;
+        }
+
+        if (storage && request.method === "GET") {
+            sendJson(response, 200, await this.read(storage, pathname, searchParams, request));
+            return;
+        }
+
+        if (pathname !== this.path) throw methodNotAllowed("GET, OPTIONS");
+        throw methodNotAllowed(storage ? "GET, POST, OPTIONS" : "POST, OPTIONS");
+    }
+
+    private applyCors(request: IncomingMessage, response: ServerResponse): void {
+        const origin = request.headers.origin;
+        if (!origin) return;
+        if (this.corsOrigins !== "*" && !this.corsOrigins.includes(origin)) return;
+
+        response.setHeader("Access-Control-Allow-Origin", this.corsOrigins === "*" ? "*" : origin);
+        response.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+        response.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, X-Api-Key");
+        response.setHeader("Access-Control-Max-Age", "86400");
+        if (this.corsOrigins !== "*") response.setHeader("Vary", "Origin");
+    }
+
+    // ─── Ingestion ──────────────────────────────────────────────────────────────
+
+    /**
+     * Order of checks: the cheap ones first — an unauthenticated client must not
+     * make the server read and parse a megabyte.
+     */
+    private async ingest(request: IncomingMessage): Promise<IngestionResponse> {
+        const project = this.authenticate(request, "write");
+
+        const contentType = request.headers["content-type"]?.split(";")[0]?.trim().toLowerCase();
+        if (contentType !== "application/json") {
+            throw new IngestionError(415, "unsupported_media_type", "Content-Type must be application/json.");
+        }
+
+        const body = await readBody(request, this.maxBodySize);
+        if (body === null) {
+            throw new IngestionError(413, "payload_too_large", `Request body exceeds ${this.maxBodySize} bytes.`, {
+                headers: {Connection: "close"},
+            });
+        }
+
+        let payload: unknown;
+        try {
+            payload = JSON.parse(body.toString("utf8"));
+        } catch {
+            throw new IngestionError(400, "invalid_json", "Request body is not valid JSON.");
+        }
+
+        const items = Array.isArray(payload) ? payload : [payload];
+        if (items.length > this.maxBatchSize) {
+            throw new IngestionError(413, "payload_too_large", `Batch of ${items.length} entries exceeds ${this.maxBatchSize}.`);
+        }
+
+        this.consumeRateLimit(project, items.length);
+
+        const receivedAt = new Date();
+        const accepted: StoredEntry[] = [];
+        const rejected: RejectedEntry[] = [];
+
+        items.forEach((item, index) => {
+            const result = validateEntry(item);
+
+            if (result.valid) accepted.push({...deserializeEntry(result.entry), project: project.id, receivedAt});
+            else rejected.push({index, issues: result.issues});
+        });
+
+        if (accepted.length === 0 && rejected.length > 0) {
+            throw new IngestionError(400, "validation_failed", "No entry in the request is valid.", {details: rejected});
+        }
+
+        if (accepted.length > 0) {
+            try {
+                await this.storage.write(accepted);
+            } catch (error) {
+                this.onError(error);
+                throw new IngestionError(503, "storage_unavailable", "Entries could not be stored, try again later.");
+            }
+        }
+
+        return {accepted: accepted.length, rejected};
+    }
+
+    // ─── Queries ────────────────────────────────────────────────────────────────
+
+    /**
+     * Every query is scoped to the project of the read key — the project is not a parameter.
+     */
+    private async read(
+        storage: QueryableLogStorage,
+        pathname: string,
+        params: URLSearchParams,
+        request: IncomingMessage
+    ): Promise<unknown> {
+        const project = this.authenticate(request, "read").id;
+
+        if (pathname === `${this.path}/stats/levels`) {
+            const query = {...parseLevelCountQuery(params), project};
+            return {bucketMs: query.bucketMs, buckets: await storage.countByLevel(query)};
+        }
+
+        if (pathname === `${this.path}/stats/fingerprints`) {
+            return {fingerprints: await storage.topFingerprints({...parseFingerprintQuery(params), project})};
+        }
+
+        const {entries, nextCursor} = await storage.query({...parseLogQuery(params), project});
+        return {entries: entries.map(serializeStoredEntry), ...(nextCursor ? {nextCursor} : {})};
+    }
+
+    // ─── Authentication ─────────────────────────────────────────────────────────
+
+    /**
+     * Accepts "Authorization: Bearer <key>" and "X-Api-Key: <key>".
+     */
+    private authenticate(request: IncomingMessage, access: Access): IngestionProject {
+        const authorization = request.headers.authorization;
+        const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+        const headerKey = request.headers["x-api-key"];
+        const key = bearer ?? (Array.isArray(headerKey) ? headerKey[0] : headerKey);
+
+        if (!key) {
+            throw new IngestionError(401, "unauthorized", "API key is missing.", {headers: {"WWW-Authenticate": "Bearer"}});
+        }
+
+        const grant = this.keys.get(key.trim());
+        if (!grant) {
+            throw new IngestionError(401, "unauthorized", "API key is not valid.", {headers: {"WWW-Authenticate": "Bearer"}});
+        }
+
+        if (!grant.access.has(access)) {
+            throw new IngestionError(403, "forbidden", access === "read" ? "API key may not read entries." : "API key may not send entries.");
+        }
+
+        return grant.project;
+    }
+
+    /**
+     * Every entry costs a token — a batch of 100 counts like 100 single requests.
+     */
+    private consumeRateLimit(project: IngestionProject, count: number): void {
+        const rateLimit = this.rateLimits.get(project.id);
+        if (!rateLimit || count === 0) return;
+
+        let bucket = this.buckets.get(project.id);
+        if (!bucket) {
+            bucket = new TokenBucket(rateLimit);
+            this.buckets.set(project.id, bucket);
+        }
+
+        if (!bucket.hasToken(Date.now(), count)) {
+            const retryAfterSeconds = Math.max(1, Math.ceil(bucket.waitTime(count) / 1000));
+
+            throw new IngestionError(429, "rate_limited", `Rate limit of project "${project.id}" exceeded.`, {
+                headers: {"Retry-After": String(retryAfterSeconds)},
+            });
+        }
+
+        bucket.take(count);
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function isQueryableStorage(storage: LogStorage): storage is QueryableLogStorage {
+    const candidate = storage as Partial<QueryableLogStorage>;
+    return typeof candidate.query === "function"
+        && typeof candidate.countByLevel === "function"
+        && typeof candidate.topFingerprints === "function";
+}
+
+function methodNotAllowed(allow: string): IngestionError {
+    return new IngestionError(405, "method_not_allowed", `Method not allowed — use ${allow}.`, {headers: {Allow: allow}});
+}
+
+/**
+ * Resolves with null as soon as the body exceeds maxBytes — the rest is discarded, not buffered.
+ */
+function readBody(request: IncomingMessage, maxBytes: number): Promise<Buffer | null> {
+    const declaredLength = Number(request.headers["content-length"]);
+    if (declaredLength > maxBytes) {
+        request.resume();
+        return Promise.resolve(null);
+    }
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size <= maxBytes) {
+                chunks.push(chunk);
+                return;
+            }
+
+            request.off("data", onData);
+            request.resume();
+            resolve(null);
+        };
+
+        request.on("data", onData);
+        request.once("end", () => resolve(Buffer.concat(chunks)));
+        request.once("error", reject);
+    });
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    if (response.headersSent) {
+        response.end();
+        return;
+    }
+
+    response.writeHead(status, {...headers, "Content-Type": "application/json; charset=utf-8"});
+    response.end(JSON.stringify(body));
+}
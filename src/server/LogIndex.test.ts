@@ -0,0 +1,188 @@
+import {describe, expect, it} from "vitest";
+import {LogIndex} from "./LogIndex";
+import {InvalidQueryError, StoredEntry} from "./LogStorage";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+const T0 = Date.UTC(2026, 9, 19, 6, 0, 0);
+const MINUTE = 60_000;
+
+function stored(minute: number, overrides: Partial<StoredEntry> = {}): StoredEntry {
+    return {
+        ...createLogEntry({id: overrides.id ?? `e${minute}`, level: LogLevel.INFO, message: `entry ${minute}`}),
+        timestamp: new Date(T0 + minute * MINUTE),
+        project: "checkout",
+        receivedAt: new Date(T0 + minute * MINUTE),
+        ...overrides,
+    };
+}
+
+function indexOf(entries: StoredEntry[], contextKeys?: string[]): LogIndex {
+    const index = new LogIndex({contextKeys});
+    for (const entry of entries) index.add(entry, 100);
+    return index;
+}
+
+const ids = (entries: readonly StoredEntry[]) => entries.map((entry) => entry.id);
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("LogIndex", () => {
+    it("should keep entries in timestamp order regardless of arrival", () => {
+        const index = indexOf([stored(2), stored(0), stored(1)]);
+
+        expect(ids(index.entries())).toEqual(["e0", "e1", "e2"]);
+    });
+
+    it("should ignore an id the project already stored", () => {
+        const index = indexOf([stored(0)]);
+
+        expect(index.add(stored(5, {id: "e0"}), 100)).toBe(false);
+        expect(index.add(stored(5, {id: "e0", project: "admin"}), 100)).toBe(true);
+        expect(index.size).toBe(2);
+    });
+
+    describe("query", () => {
+        const entries = [
+            stored(0, {level: LogLevel.DEBUG}),
+            stored(1, {level: LogLevel.WARN, context: {userId: 123}}),
+            stored(2, {level: LogLevel.ERROR, message: "Payment failed", context: {userId: "123", user: {plan: "pro"}}}),
+            stored(3, {level: LogLevel.ERROR, project: "admin"}),
+            stored(4, {level: LogLevel.INFO, error: new TypeError("Card declined")}),
+        ];
+
+        it("should return entries newest first", () => {
+            expect(ids(indexOf(entries).query({}).entries)).toEqual(["e4", "e3", "e2", "e1", "e0"]);
+        });
+
+        it("should filter by project, level range and time range", () => {
+            const index = indexOf(entries);
+
+            expect(ids(index.query({project: "checkout", minLevel: LogLevel.WARN}).entries)).toEqual(["e2", "e1"]);
+            expect(ids(index.query({maxLevel: LogLevel.WARN}).entries)).toEqual(["e4", "e1", "e0"]);
+            expect(ids(index.query({from: new Date(T0 + MINUTE), to: new Date(T0 + 3 * MINUTE)}).entries)).toEqual(["e2", "e1"]);
+        });
+
+        it("should filter by context values, indexed or not, and dotted paths", () => {
+            for (const index of [indexOf(entries), indexOf(entries, ["userId", "user.plan"])]) {
+                expect(ids(index.query({context: {userId: "123"}}).entries)).toEqual(["e2", "e1"]);
+                expect(ids(index.query({context: {"user.plan": "pro"}}).entries)).toEqual(["e2"]);
+                expect(index.query({context: {userId: "999"}}).entries).toEqual([]);
+            }
+        });
+
+        it("should search message and error case-insensitively", () => {
+            const index = indexOf(entries);
+
+            expect(ids(index.query({q: "PAYMENT"}).entries)).toEqual(["e2"]);
+            expect(ids(index.query({q: "declined"}).entries)).toEqual(["e4"]);
+            expect(ids(index.query({q: "typeerror"}).entries)).toEqual(["e4"]);
+        });
+
+        it("should paginate with cursors", () => {
+            const index = indexOf(entries);
+
+            const first = index.query({limit: 2});
+            const second = index.query({limit: 2, cursor: first.nextCursor});
+            const third = index.query({limit: 2, cursor: second.nextCursor});
+
+            expect(ids(first.entries)).toEqual(["e4", "e3"]);
+            expect(ids(second.entries)).toEqual(["e2", "e1"]);
+            expect(ids(third.entries)).toEqual(["e0"]);
+            expect(third.nextCursor).toBeUndefined();
+        });
+
+        it("should keep pages stable when newer entries arrive", () => {
+            const index = indexOf(entries);
+            const first = index.query({limit: 2});
+
+            index.add(stored(10), 100);
+
+            expect(ids(index.query({limit: 2, cursor: first.nextCursor}).entries)).toEqual(["e2", "e1"]);
+        });
+
+        it("should reject a broken cursor", () => {
+            expect(() => indexOf(entries).query({cursor: "nope"})).toThrow(InvalidQueryError);
+        });
+    });
+
+    describe("countByLevel", () => {
+        it("should count entries per level per bucket", () => {
+            const index = indexOf([
+                stored(0, {level: LogLevel.ERROR}),
+                stored(1, {level: LogLevel.ERROR}),
+                stored(2, {level: LogLevel.WARN}),
+                stored(7, {level: LogLevel.ERROR}),
+            ]);
+
+            expect(index.countByLevel({bucketMs: 5 * MINUTE})).toEqual([
+                {start: new Date(T0), counts: {ERROR: 2, WARN: 1}},
+                {start: new Date(T0 + 5 * MINUTE), counts: {ERROR: 1}},
+            ]);
+        });
+
+        it("should reject a bucket width that is not positive", () => {
+            expect(() => indexOf([]).countByLevel({bucketMs: 0})).toThrow(InvalidQueryError);
+        });
+    });
+
+    describe("topFingerprints", () => {
+        it("should group errors and order them by count", () => {
+            const index = indexOf([
+                stored(0, {level: LogLevel.ERROR, message: "User 1 not found"}),
+                stored(1, {level: LogLevel.ERROR, message: "Timeout", error: new Error("ETIMEDOUT")}),
+                stored(2, {level: LogLevel.ERROR, message: "User 2 not found"}),
+                stored(3, {level: LogLevel.ERROR, message: "User 3 not found"}),
+            ]);
+
+            const [top, second] = index.topFingerprints({});
+
+            expect(top).toMatchObject({
+                count: 3,
+                firstSeen: new Date(T0),
+                lastSeen: new Date(T0 + 3 * MINUTE),
+                level: LogLevel.ERROR,
+                message: "User 3 not found",
+            });
+            expect(top!.fingerprint).toMatch(/^[\da-f]{16}$/);
+            expect(second).toMatchObject({count: 1, message: "Timeout", errorName: "Error"});
+            expect(index.topFingerprints({limit: 1})).toHaveLength(1);
+        });
+
+        it("should use fingerprints the client computed", () => {
+            const index = indexOf([stored(0, {fingerprint: "abc"}), stored(1, {fingerprint: "abc", message: "other"})]);
+
+            expect(index.topFingerprints({})).toMatchObject([{fingerprint: "abc", count: 2}]);
+        });
+    });
+
+    describe("retention", () => {
+        it("should count entries older than maxAgeMs", () => {
+            const index = indexOf([stored(0), stored(1), stored(2), stored(3)]);
+
+            expect(index.countExpired({maxAgeMs: 2 * MINUTE}, T0 + 3 * MINUTE)).toBe(1);
+        });
+
+        it("should count the oldest entries beyond maxBytes", () => {
+            const index = indexOf([stored(0), stored(1), stored(2), stored(3)]);
+
+            expect(index.countExpired({maxBytes: 250}, T0)).toBe(2);
+            expect(index.countExpired({maxAgeMs: 2 * MINUTE, maxBytes: 350}, T0 + 3 * MINUTE)).toBe(1);
+        });
+
+        it("should remove the oldest entries from every index", () => {
+            const index = indexOf([
+                stored(0, {level: LogLevel.ERROR, context: {userId: "1"}}),
+                stored(1, {level: LogLevel.ERROR, context: {userId: "1"}}),
+            ], ["userId"]);
+
+            expect(ids(index.removeOldest(1))).toEqual(["e0"]);
+            expect(index.bytes).toBe(100);
+            expect(ids(index.query({context: {userId: "1"}}).entries)).toEqual(["e1"]);
+            expect(ids(index.query({minLevel: LogLevel.ERROR}).entries)).toEqual(["e1"]);
+            expect(index.add(stored(0), 100)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,433 @@
+import {levelLabel, LogLevel} from "../core/LogLevel";
+import {fingerprintEntry} from "../plugins/fingerprint";
+import {
+    FingerprintQuery,
+    FingerprintSummary,
+    InvalidQueryError,
+    LevelCountBucket,
+    LevelCountQuery,
+    LogFilter,
+    LogQuery,
+    LogQueryResult,
+    RetentionOptions,
+    StoredEntry,
+} from "./LogStorage";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface LogIndexOptions {
+    /**
+     * Context keys with an index — dotted paths reach into nested objects.
+     */
+    contextKeys?: readonly string[];
+}
+
+interface IndexedRecord {
+    readonly entry: StoredEntry;
+    readonly time: number;
+
+    /**
+     * Bytes the entry takes in storage — counted against RetentionOptions.maxBytes.
+     */
+    readonly size: number;
+
+    /**
+     * Computed on the first aggregation that needs it.
+     */
+    fingerprint?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_FINGERPRINT_LIMIT = 10;
+
+// ─── LogIndex ─────────────────────────────────────────────────────────────────
+
+/**
+ * In-memory indexes over stored entries — shared by MemoryLogStorage and FileLogStorage.
+ *
+ * - all records, sorted by timestamp (then id) — time ranges are two binary searches,
+ *   retention removes a prefix
+ * - a set of records per project, per level and per value of each indexed context key
+ *
+ * How is a query answered?
+ * The smallest candidate set wins: the time range, the project's records, the records of
+ * the wanted levels, or the records with a wanted context value. Only those are checked
+ * against the full filter — a query for one user's entries does not scan a million others.
+ */
+export class LogIndex {
+    private records: IndexedRecord[] = [];
+    private readonly byId = new Map<string, IndexedRecord>();
+    private readonly byProject = new Map<string, Set<IndexedRecord>>();
+    private readonly byLevel = new Map<LogLevel, Set<IndexedRecord>>();
+    private readonly byContext = new Map<string, Map<string, Set<IndexedRecord>>>();
+
+    private totalSize = 0;
+
+    constructor(options: LogIndexOptions = {}) {
+        for (const key of options.contextKeys ?? []) this.byContext.set(key, new Map());
+    }
+
+    get size(): number {
+        return this.records.length;
+    }
+
+    get bytes(): number {
+        return this.totalSize;
+    }
+
+    /**
+     * Every entry, oldest first.
+     */
+    entries(): StoredEntry[] {
+        return this.records.map((record) => record.entry);
+    }
+
+    has(entry: StoredEntry): boolean {
+        return this.byId.has(idKey(entry));
+    }
+
+    /**
+     * Adds an entry. Returns false for an entry whose id the project already stored.
+     */
+    add(entry: StoredEntry, size: number): boolean {
+        const key = idKey(entry);
+        if (this.byId.has(key)) return false;
+
+        const record: IndexedRecord = {entry, time: entry.timestamp.getTime(), size};
+
+        // Entries mostly arrive in order — the insert position is then the end
+        const position = this.upperBound(record);
+        if (position === this.records.length) this.records.push(record);
+        else this.records.splice(position, 0, record);
+
+        this.byId.set(key, record);
+        this.totalSize += size;
+
+        addTo(this.byProject, entry.project, record);
+        addTo(this.byLevel, entry.level, record);
+
+        for (const [contextKey, values] of this.byContext) {
+            const value = contextValue(entry.context, contextKey);
+            if (value !== undefined) addTo(values, value, record);
+        }
+
+        return true;
+    }
+
+    /**
+     * Removes the count oldest entries and returns them.
+     */
+    removeOldest(count: number): StoredEntry[] {
+        if (count <= 0) return [];
+
+        const removed = this.records.splice(0, count);
+
+        for (const record of removed) {
+            const {entry} = record;
+            this.byId.delete(idKey(entry));
+            this.totalSize -= record.size;
+
+            deleteFrom(this.byProject, entry.project, record);
+            deleteFrom(this.byLevel, entry.level, record);
+
+            for (const [contextKey, values] of this.byContext) {
+                const value = contextValue(entry.context, contextKey);
+                if (value !== undefined) deleteFrom(values, value, record);
+            }
+        }
+
+        return removed.map((record) => record.entry);
+    }
+
+    /**
+     * How many of the oldest entries violate the retention — older than maxAgeMs,
+     * or beyond maxBytes counted from the newest entry back.
+     */
+    countExpired(retention: RetentionOptions, now: number): number {
+        let count = retention.maxAgeMs !== undefined ? this.lowerBound(now - retention.maxAgeMs) : 0;
+
+        if (retention.maxBytes !== undefined) {
+            let size = this.totalSize;
+            for (let index = 0; index < count; index++) size -= this.records[index]!.size;
+
+            while (size > retention.maxBytes && count < this.records.length) {
+                size -= this.records[count++]!.size;
+            }
+        }
+
+        return count;
+    }
+
+    // ─── Queries ────────────────────────────────────────────────────────────────
+
+    /**
+     * One page, newest first. The cursor is the position of the last entry of the
+     * previous page — entries stored meanwhile do not shift the pages, as offsets would.
+     */
+    query(query: LogQuery): LogQueryResult {
+        const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+        const cursor = query.cursor !== undefined ? decodeCursor(query.cursor) : undefined;
+        const selected = this.select(query);
+
+        let end = selected.length;
+        if (cursor) {
+            // First record at or after the cursor — the page continues below it
+            let low = 0;
+            let high = selected.length;
+            while (low < high) {
+                const middle = (low + high) >>> 1;
+                if (compareToCursor(selected[middle]!, cursor) < 0) low = middle + 1;
+                else high = middle;
+            }
+            end = low;
+        }
+
+        const start = Math.max(0, end - limit);
+        const page = selected.slice(start, end).reverse();
+
+        return {
+            entries: page.map((record) => record.entry),
+            ...(start > 0 && page.length > 0 ? {nextCursor: encodeCursor(page[page.length - 1]!)} : {}),
+        };
+    }
+
+    countByLevel(query: LevelCountQuery): LevelCountBucket[] {
+        if (!(query.bucketMs > 0)) throw new InvalidQueryError("Bucket width must be a positive number of milliseconds.");
+
+        const buckets = new Map<number, Record<string, number>>();
+
+        for (const record of this.select(query)) {
+            const start = Math.floor(record.time / query.bucketMs) * query.bucketMs;
+
+            let counts = buckets.get(start);
+            if (!counts) {
+                counts = {};
+                buckets.set(start, counts);
+            }
+
+            const label = levelLabel(record.entry.level);
+            counts[label] = (counts[label] ?? 0) + 1;
+        }
+
+        // Records are selected in time order, so buckets are created in order too
+        return [...buckets].map(([start, counts]) => ({start: new Date(start), counts}));
+    }
+
+    topFingerprints(query: FingerprintQuery): FingerprintSummary[] {
+        const groups = new Map<string, FingerprintSummary>();
+
+        for (const record of this.select(query)) {
+            const {entry} = record;
+            record.fingerprint ??= fingerprintEntry(entry);
+
+            const group = groups.get(record.fingerprint);
+            if (!group) {
+                groups.set(record.fingerprint, {
+                    fingerprint: record.fingerprint,
+                    count: 1,
+                    firstSeen: entry.timestamp,
+                    lastSeen: entry.timestamp,
+                    level: entry.level,
+                    message: entry.message,
+                    ...(entry.error ? {errorName: entry.error.name} : {}),
+                });
+                continue;
+            }
+
+            group.count++;
+            group.lastSeen = entry.timestamp;
+            group.level = Math.max(group.level, entry.level);
+            group.message = entry.message;
+            if (entry.error) group.errorName = entry.error.name;
+        }
+
+        return [...groups.values()]
+            .sort((a, b) => b.count - a.count || b.lastSeen.getTime() - a.lastSeen.getTime())
+            .slice(0, query.limit ?? DEFAULT_FINGERPRINT_LIMIT);
+    }
+
+    // ─── Selection ──────────────────────────────────────────────────────────────
+
+    /**
+     * Records matching the filter, oldest first.
+     */
+    private select(filter: LogFilter): IndexedRecord[] {
+        const start = filter.from ? this.lowerBound(filter.from.getTime()) : 0;
+        const end = filter.to ? this.lowerBound(filter.to.getTime()) : this.records.length;
+        if (start >= end) return [];
+
+        let candidates: Iterable<IndexedRecord> = this.records.slice(start, end);
+        let candidateCount = end - start;
+        let inTimeOrder = true;
+
+        // Sets are only materialized when they win — counting them is cheap, copying them is not
+        const consider = (count: number, records: () => Iterable<IndexedRecord>) => {
+            if (count >= candidateCount) return;
+
+            candidates = records();
+            candidateCount = count;
+            inTimeOrder = false;
+        };
+
+        if (filter.project !== undefined) {
+            const records = this.byProject.get(filter.project);
+            consider(records?.size ?? 0, () => records ?? []);
+        }
+
+        if (filter.minLevel !== undefined || filter.maxLevel !== undefined) {
+            const sets = [...this.byLevel]
+                .filter(([level]) => matchesLevel(level, filter))
+                .map(([, records]) => records);
+
+            consider(sets.reduce((total, records) => total + records.size, 0), () => sets.flatMap((records) => [...records]));
+        }
+
+        for (const [key, value] of Object.entries(filter.context ?? {})) {
+            const values = this.byContext.get(key);
+            if (!values) continue;
+
+            const records = values.get(value);
+            consider(records?.size ?? 0, () => records ?? []);
+        }
+
+        const selected: IndexedRecord[] = [];
+        for (const record of candidates) {
+            if (matches(record, filter)) selected.push(record);
+        }
+
+        return inTimeOrder ? selected : selected.sort(compareRecords);
+    }
+
+    /**
+     * Position of the first record at or after the given time.
+     */
+    private lowerBound(time: number): number {
+        let low = 0;
+        let high = this.records.length;
+
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (this.records[middle]!.time < time) low = middle + 1;
+            else high = middle;
+        }
+
+        return low;
+    }
+
+    /**
+     * Position after the last record that sorts before or equal to the given one.
+     */
+    private upperBound(record: IndexedRecord): number {
+        let low = 0;
+        let high = this.records.length;
+
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (compareRecords(this.records[middle]!, record) <= 0) low = middle + 1;
+            else high = middle;
+        }
+
+        return low;
+    }
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+function matches(record: IndexedRecord, filter: LogFilter): boolean {
+    const {entry} = record;
+
+    if (filter.project !== undefined && entry.project !== filter.project) return false;
+    if (!matchesLevel(entry.level, filter)) return false;
+    if (filter.from && record.time < filter.from.getTime()) return false;
+    if (filter.to && record.time >= filter.to.getTime()) return false;
+
+    for (const [key, value] of Object.entries(filter.context ?? {})) {
+        if (contextValue(entry.context, key) !== value) return false;
+    }
+
+    if (filter.q) {
+        const needle = filter.q.toLowerCase();
+        const haystack = [entry.message, entry.error?.name, entry.error?.message];
+        if (!haystack.some((text) => text?.toLowerCase().includes(needle))) return false;
+    }
+
+    return true;
+}
+
+function matchesLevel(level: LogLevel, filter: LogFilter): boolean {
+    if (filter.minLevel !== undefined && level < filter.minLevel) return false;
+    return !(filter.maxLevel !== undefined && level > filter.maxLevel);
+}
+
+/**
+ * The context value at key as a string — an exact key wins over a dotted path.
+ * Objects and arrays are not indexable values.
+ */
+function contextValue(context: Record<string, unknown> | undefined, key: string): string | undefined {
+    if (!context) return undefined;
+
+    let value: unknown = key in context ? context[key] : undefined;
+    if (value === undefined && key.includes(".")) {
+        value = key.split(".").reduce<unknown>((current, part) => {
+            return current !== null && typeof current === "object" ? (current as Record<string, unknown>)[part] : undefined;
+        }, context);
+    }
+
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean" || typeof value === "bigint") return String(value);
+
+    return undefined;
+}
+
+// ─── Ordering and cursors ─────────────────────────────────────────────────────
+
+function compareRecords(a: IndexedRecord, b: IndexedRecord): number {
+    return a.time - b.time || compareStrings(a.entry.id, b.entry.id);
+}
+
+function compareToCursor(record: IndexedRecord, cursor: { time: number; id: string }): number {
+    return record.time - cursor.time || compareStrings(record.entry.id, cursor.id);
+}
+
+function compareStrings(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function encodeCursor(record: IndexedRecord): string {
+    return Buffer.from(JSON.stringify([record.time, record.entry.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { time: number; id: string } {
+    try {
+        const [time, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as unknown[];
+        if (Number.isFinite(time) && typeof id === "string") return {time: time as number, id};
+    } catch {
+        // Reported below
+    }
+
+    throw new InvalidQueryError("Cursor is not valid.");
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function idKey(entry: StoredEntry): string {
+    return `${entry.project}\u0000${entry.id}`;
+}
+
+function addTo<K>(index: Map<K, Set<IndexedRecord>>, key: K, record: IndexedRecord): void {
+    let records = index.get(key);
+    if (!records) {
+        records = new Set();
+        index.set(key, records);
+    }
+
+    records.add(record);
+}
+
+function deleteFrom<K>(index: Map<K, Set<IndexedRecord>>, key: K, record: IndexedRecord): void {
+    const records = index.get(key);
+    if (!records) return;
+
+    records.delete(record);
+    if (records.size === 0) index.delete(key);
+}
@@ -0,0 +1,288 @@
+import {LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {deserializeEntry} from "../serializers/deserializeEntry";
+import {serializeEntry, SerializedLogEntry} from "../serializers/serializeEntry";
+import {scheduleCompaction} from "./compactor";
+import {LogIndex} from "./LogIndex";
+import {validateEntry} from "./validateEntry";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * An entry as the ingestion server stores it — the client's entry plus
+ * which project sent it and when it arrived.
+ */
+export interface StoredEntry extends LogEntry {
+    readonly project: string;
+
+    /**
+     * Server time of arrival — entry.timestamp is the client's clock, which may be wrong.
+     */
+    readonly receivedAt: Date;
+}
+
+/**
+ * JSON-safe StoredEntry — what the query endpoint returns and FileLogStorage writes.
+ */
+export type SerializedStoredEntry = SerializedLogEntry & {
+    readonly project: string;
+    readonly receivedAt: string;
+};
+
+/**
+ * Where the ingestion server puts accepted entries.
+ *
+ * Strategy Pattern again, as with Transport: the server validates, authenticates and
+ * limits — what happens to the entries afterwards is up to the storage.
+ */
+export interface LogStorage {
+    /**
+     * Stores a batch. A rejection makes the server answer 503, so clients retry.
+     */
+    write(entries: readonly StoredEntry[]): Promise<void>;
+
+    /**
+     * Optional — release resources. Called by IngestionServer.close().
+     */
+    close?(): Promise<void>;
+}
+
+/**
+ * Which entries a query or an aggregation looks at. Every field is optional
+ * and all given fields must match.
+ */
+export interface LogFilter {
+    project?: string;
+
+    /**
+     * Inclusive level range.
+     */
+    minLevel?: LogLevel;
+    maxLevel?: LogLevel;
+
+    /**
+     * Entry timestamp range — from is inclusive, to is exclusive.
+     */
+    from?: Date;
+    to?: Date;
+
+    /**
+     * Context values, compared as strings. Keys may be dotted paths: {"user.id": "7"}.
+     */
+    context?: Readonly<Record<string, string>>;
+
+    /**
+     * Case-insensitive text search in the message and the error name and message.
+     */
+    q?: string;
+}
+
+export interface LogQuery extends LogFilter {
+    /**
+     * Page size. Default: 50.
+     */
+    limit?: number;
+
+    /**
+     * nextCursor of the previous page.
+     */
+    cursor?: string;
+}
+
+/**
+ * One page of entries, newest first. nextCursor is missing on the last page.
+ */
+export interface LogQueryResult {
+    entries: StoredEntry[];
+    nextCursor?: string;
+}
+
+export interface LevelCountQuery extends LogFilter {
+    /**
+     * Bucket width in milliseconds — buckets start at multiples of it since the epoch.
+     */
+    bucketMs: number;
+}
+
+/**
+ * Entries per level label in one time bucket. Only non-empty buckets are returned.
+ */
+export interface LevelCountBucket {
+    start: Date;
+    counts: Record<string, number>;
+}
+
+export interface FingerprintQuery extends LogFilter {
+    /**
+     * How many fingerprints are returned. Default: 10.
+     */
+    limit?: number;
+}
+
+/**
+ * One group of entries describing the same problem — see fingerprintEntry().
+ */
+export interface FingerprintSummary {
+    fingerprint: string;
+    count: number;
+    firstSeen: Date;
+    lastSeen: Date;
+
+    /**
+     * Highest level seen in the group.
+     */
+    level: LogLevel;
+
+    /**
+     * Message and error name of the most recent entry.
+     */
+    message: string;
+    errorName?: string;
+}
+
+/**
+ * Enforced by the background compactor — the oldest entries (by entry timestamp) go first.
+ */
+export interface RetentionOptions {
+    /**
+     * Remove entries older than this many milliseconds.
+     */
+    maxAgeMs?: number;
+
+    /**
+     * Remove the oldest entries while the stored entries take more than this many bytes
+     * (measured as serialized JSON).
+     */
+    maxBytes?: number;
+}
+
+/**
+ * A storage the query and aggregation endpoints can read from.
+ */
+export interface QueryableLogStorage extends LogStorage {
+    query(query: LogQuery): Promise<LogQueryResult>;
+    countByLevel(query: LevelCountQuery): Promise<LevelCountBucket[]>;
+    topFingerprints(query: FingerprintQuery): Promise<FingerprintSummary[]>;
+
+    /**
+     * Enforces retention now. Resolves with the number of removed entries.
+     */
+    compact(): Promise<number>;
+}
+
+/**
+ * A query the storage cannot answer — a broken cursor, an impossible range.
+ * The ingestion server answers it with 400.
+ */
+export class InvalidQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidQueryError";
+    }
+}
+
+export interface MemoryLogStorageOptions {
+    /**
+     * Maximum number of entries kept — the oldest are dropped beyond this. Default: 100000.
+     */
+    maxEntries?: number;
+
+    /**
+     * Context keys with an index — filters on them do not scan every entry.
+     * Dotted paths reach into nested objects: ["userId", "request.id"].
+     */
+    contextKeys?: readonly string[];
+
+    /**
+     * Retention enforced by the background compactor.
+     */
+    retention?: RetentionOptions;
+
+    /**
+     * How often the compactor runs, in milliseconds. Default: 60000.
+     */
+    compactInterval?: number;
+}
+
+// ─── MemoryLogStorage ─────────────────────────────────────────────────────────
+
+/**
+ * Keeps entries in memory — for tests, development, and as the server's default.
+ * Entries with an id already stored for the same project are ignored, so a client
+ * retrying a batch that did arrive does not duplicate it.
+ */
+export class MemoryLogStorage implements QueryableLogStorage {
+    private readonly maxEntries: number;
+    private readonly retention: RetentionOptions;
+    private readonly index: LogIndex;
+    private readonly stopCompactor: () => void;
+
+    constructor(options: MemoryLogStorageOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 100_000;
+        this.retention = options.retention ?? {};
+        this.index = new LogIndex({contextKeys: options.contextKeys});
+        this.stopCompactor = options.retention
+            ? scheduleCompaction(() => this.compact(), options.compactInterval ?? 60_000, "MemoryLogStorage")
+            : () => undefined;
+    }
+
+    async write(entries: readonly StoredEntry[]): Promise<void> {
+        for (const entry of entries) this.index.add(entry, measureEntry(entry));
+
+        const excess = this.index.size - this.maxEntries;
+        if (excess > 0) this.index.removeOldest(excess);
+    }
+
+    /**
+     * Every stored entry, oldest first.
+     */
+    list(): readonly StoredEntry[] {
+        return this.index.entries();
+    }
+
+    async query(query: LogQuery): Promise<LogQueryResult> {
+        return this.index.query(query);
+    }
+
+    async countByLevel(query: LevelCountQuery): Promise<LevelCountBucket[]> {
+        return this.index.countByLevel(query);
+    }
+
+    async topFingerprints(query: FingerprintQuery): Promise<FingerprintSummary[]> {
+        return this.index.topFingerprints(query);
+    }
+
+    async compact(): Promise<number> {
+        return this.index.removeOldest(this.index.countExpired(this.retention, Date.now())).length;
+    }
+
+    async close(): Promise<void> {
+        this.stopCompactor();
+    }
+}
+
+// ─── Serialization ────────────────────────────────────────────────────────────
+
+export function serializeStoredEntry(entry: StoredEntry): SerializedStoredEntry {
+    return {...serializeEntry(entry), project: entry.project, receivedAt: entry.receivedAt.toISOString()};
+}
+
+/**
+ * The reverse of serializeStoredEntry — null when the value is not a stored entry.
+ */
+export function deserializeStoredEntry(value: unknown): StoredEntry | null {
+    const result = validateEntry(value);
+    if (!result.valid) return null;
+
+    const {project, receivedAt} = value as Partial<SerializedStoredEntry>;
+    if (typeof project !== "string" || typeof receivedAt !== "string" || Number.isNaN(Date.parse(receivedAt))) return null;
+
+    return {...deserializeEntry(result.entry), project, receivedAt: new Date(receivedAt)};
+}
+
+/**
+ * Bytes the entry takes as one NDJSON line — what maxBytes retention counts.
+ */
+export function measureEntry(entry: StoredEntry): number {
+    return Buffer.byteLength(JSON.stringify(serializeStoredEntry(entry))) + 1;
+}
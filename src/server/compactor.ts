@@ -0,0 +1,22 @@
+import {unrefTimer} from "../core/unrefTimer";
+
+/**
+ * Runs compact every intervalMs in the background. Returns a function that stops it.
+ *
+ * A run that is still busy when the next one is due is not overlapped — the tick is skipped.
+ * The timer is unref'd: a storage waiting to compact must not keep the process alive.
+ */
+export function scheduleCompaction(compact: () => Promise<unknown>, intervalMs: number, owner: string): () => void {
+    let running = false;
+
+    const timer = unrefTimer(setInterval(() => {
+        if (running) return;
+        running = true;
+
+        compact()
+            .catch((error: unknown) => console.error(`[${owner}] Compaction failed:`, error))
+            .finally(() => running = false);
+    }, intervalMs));
+
+    return () => clearInterval(timer);
+}
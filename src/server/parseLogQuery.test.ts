@@ -0,0 +1,65 @@
+import {describe, expect, it} from "vitest";
+import {parseDuration, parseFingerprintQuery, parseLevelCountQuery, parseLogQuery} from "./parseLogQuery";
+import {InvalidQueryError} from "./LogStorage";
+import {LogLevel} from "../core/LogLevel";
+
+const params = (query: string) => new URL(`http://localhost/logs?${query}`).searchParams;
+
+describe("parseLogQuery", () => {
+    it("should parse level comparisons, dates, context, text and paging", () => {
+        expect(parseLogQuery(params(
+            "level>=WARN&level<=error&from=2026-10-19T00:00:00Z&to=1792392300123&context.userId=123&q=payment&limit=20&cursor=abc"
+        ))).toEqual({
+            minLevel: LogLevel.WARN,
+            maxLevel: LogLevel.ERROR,
+            from: new Date("2026-10-19T00:00:00Z"),
+            to: new Date(1792392300123),
+            context: {userId: "123"},
+            q: "payment",
+            limit: 20,
+            cursor: "abc",
+        });
+    });
+
+    it("should treat level= as an exact level and accept numbers", () => {
+        expect(parseLogQuery(params("level=2"))).toMatchObject({minLevel: 2, maxLevel: 2});
+    });
+
+    it("should default the page size to 50", () => {
+        expect(parseLogQuery(params(""))).toEqual({limit: 50});
+    });
+
+    it("should reject unknown parameters, levels, dates and limits", () => {
+        expect(() => parseLogQuery(params("contxt.userId=1"))).toThrow("Unknown query parameter \"contxt.userId\".");
+        expect(() => parseLogQuery(params("level>WARN"))).toThrow("use level>=, level<= or level=");
+        expect(() => parseLogQuery(params("level>=LOUD"))).toThrow("Unknown level \"LOUD\".");
+        expect(() => parseLogQuery(params("from=yesterday"))).toThrow(InvalidQueryError);
+        expect(() => parseLogQuery(params("limit=5000"))).toThrow("\"limit\" must be a whole number from 1 to 1000.");
+    });
+});
+
+describe("parseLevelCountQuery", () => {
+    it("should parse the bucket width, 1h by default", () => {
+        expect(parseLevelCountQuery(params("bucket=5m&level>=ERROR"))).toEqual({bucketMs: 300_000, minLevel: LogLevel.ERROR});
+        expect(parseLevelCountQuery(params("")).bucketMs).toBe(3_600_000);
+    });
+});
+
+describe("parseFingerprintQuery", () => {
+    it("should look at errors unless a level is given", () => {
+        expect(parseFingerprintQuery(params(""))).toEqual({minLevel: LogLevel.ERROR, limit: 10});
+        expect(parseFingerprintQuery(params("level>=WARN&limit=3"))).toEqual({minLevel: LogLevel.WARN, limit: 3});
+    });
+});
+
+describe("parseDuration", () => {
+    it("should accept units and milliseconds", () => {
+        expect(["30s", "5m", "1h", "1d", "250ms", "250"].map(parseDuration))
+            .toEqual([30_000, 300_000, 3_600_000, 86_400_000, 250, 250]);
+    });
+
+    it("should reject anything else", () => {
+        expect(() => parseDuration("0")).toThrow(InvalidQueryError);
+        expect(() => parseDuration("1w")).toThrow("\"1w\" is not a duration");
+    });
+});
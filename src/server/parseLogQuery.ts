@@ -0,0 +1,137 @@
+import {levelFromLabel, LogLevel} from "../core/LogLevel";
+import {FingerprintQuery, InvalidQueryError, LevelCountQuery, LogFilter, LogQuery} from "./LogStorage";
+
+const MAX_PAGE_SIZE = 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+};
+
+// ─── Query strings ────────────────────────────────────────────────────────────
+
+/**
+ * GET /logs?level>=WARN&from=2026-10-19T00:00:00Z&context.userId=123&q=payment&limit=50&cursor=...
+ *
+ * Why is "level>=WARN" a parameter?
+ * It reads like the filter it is. URLSearchParams splits it at the "=" into the name "level>"
+ * and the value "WARN" — so "level>" means at least, "level<" at most and "level" exactly.
+ */
+export function parseLogQuery(params: URLSearchParams): LogQuery {
+    checkNames(params, ["limit", "cursor"]);
+
+    return {
+        ...parseFilter(params),
+        limit: parseLimit(params.get("limit"), 50, MAX_PAGE_SIZE),
+        ...(params.has("cursor") ? {cursor: params.get("cursor")!} : {}),
+    };
+}
+
+/**
+ * GET /logs/stats/levels?bucket=1h&from=... — bucket is a duration ("30s", "5m", "1h", "1d")
+ * or milliseconds. Default: 1h.
+ */
+export function parseLevelCountQuery(params: URLSearchParams): LevelCountQuery {
+    checkNames(params, ["bucket"]);
+
+    return {...parseFilter(params), bucketMs: parseDuration(params.get("bucket") ?? "1h")};
+}
+
+/**
+ * GET /logs/stats/fingerprints?limit=10 — errors only, unless a level filter says otherwise.
+ */
+export function parseFingerprintQuery(params: URLSearchParams): FingerprintQuery {
+    checkNames(params, ["limit"]);
+
+    const filter = parseFilter(params);
+    const hasLevelFilter = filter.minLevel !== undefined || filter.maxLevel !== undefined;
+
+    return {
+        ...filter,
+        ...(hasLevelFilter ? {} : {minLevel: LogLevel.ERROR}),
+        limit: parseLimit(params.get("limit"), 10, MAX_PAGE_SIZE),
+    };
+}
+
+/**
+ * "30s", "5m", "1h", "1d" or a number of milliseconds.
+ */
+export function parseDuration(value: string): number {
+    const match = /^(\d+)(ms|[smhd])?$/.exec(value.trim());
+    const milliseconds = match ? Number(match[1]) * (match[2] && match[2] !== "ms" ? DURATION_UNITS[match[2]]! : 1) : NaN;
+
+    if (!(milliseconds > 0)) throw new InvalidQueryError(`"${value}" is not a duration — use e.g. 30s, 5m, 1h or 1d.`);
+    return milliseconds;
+}
+
+// ─── Parts ────────────────────────────────────────────────────────────────────
+
+function parseFilter(params: URLSearchParams): LogFilter {
+    const filter: LogFilter & { context: Record<string, string> } = {context: {}};
+
+    for (const [name, value] of params) {
+        if (name === "level") {
+            filter.minLevel = filter.maxLevel = parseLevel(value);
+        } else if (name === "level>") {
+            filter.minLevel = parseLevel(value);
+        } else if (name === "level<") {
+            filter.maxLevel = parseLevel(value);
+        } else if (name === "from" || name === "to") {
+            filter[name] = parseDate(name, value);
+        } else if (name === "q") {
+            if (value !== "") filter.q = value;
+        } else if (name.startsWith("context.") && name.length > "context.".length) {
+            filter.context[name.slice("context.".length)] = value;
+        }
+    }
+
+    if (Object.keys(filter.context).length === 0) delete (filter as LogFilter).context;
+    return filter;
+}
+
+/**
+ * Unknown names are rejected — a typo like "contxt.userId" would otherwise
+ * silently return everything.
+ */
+function checkNames(params: URLSearchParams, extra: readonly string[]): void {
+    for (const name of params.keys()) {
+        if (["level", "level>", "level<", "from", "to", "q", ...extra].includes(name)) continue;
+        if (name.startsWith("context.") && name.length > "context.".length) continue;
+
+        const hint = /^level[<>]./.test(name) ? " — use level>=, level<= or level=" : "";
+        throw new InvalidQueryError(`Unknown query parameter "${name}"${hint}.`);
+    }
+}
+
+/**
+ * A level label ("warn", "ERROR", custom labels too) or a number.
+ */
+function parseLevel(value: string): LogLevel {
+    const level = /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : levelFromLabel(value);
+    if (level === undefined) throw new InvalidQueryError(`Unknown level "${value}".`);
+
+    return level;
+}
+
+/**
+ * An ISO 8601 date or milliseconds since the epoch.
+ */
+function parseDate(name: string, value: string): Date {
+    const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    if (Number.isNaN(date.getTime())) throw new InvalidQueryError(`"${name}" must be an ISO 8601 date or milliseconds.`);
+
+    return date;
+}
+
+function parseLimit(value: string | null, fallback: number, max: number): number {
+    if (value === null) return fallback;
+
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > max) {
+        throw new InvalidQueryError(`"limit" must be a whole number from 1 to ${max}.`);
+    }
+
+    return limit;
+}
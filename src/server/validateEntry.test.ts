@@ -0,0 +1,94 @@
+import {describe, expect, it} from "vitest";
+import {validateEntry} from "./validateEntry";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {serializeEntry} from "../serializers/serializeEntry";
+
+function issuesOf(value: unknown) {
+    const result = validateEntry(value);
+    return result.valid ? [] : result.issues;
+}
+
+const valid = () => JSON.parse(JSON.stringify(serializeEntry(createLogEntry({
+    level: LogLevel.ERROR,
+    message: "Payment failed",
+    error: new TypeError("Card declined", {cause: new Error("Timeout")}),
+    context: {orderId: "ord-456", traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7"},
+}))));
+
+describe("validateEntry", () => {
+    it("should accept what serializeEntry produces", () => {
+        const value = valid();
+        const result = validateEntry(value);
+
+        expect(result).toEqual({valid: true, entry: value});
+    });
+
+    it("should report every missing required field", () => {
+        expect(issuesOf({})).toEqual([
+            {path: "id", message: "must be a non-empty string"},
+            {path: "level", message: "must be a finite number"},
+            {path: "message", message: "must be a string"},
+            {path: "timestamp", message: "must be an ISO 8601 date string"},
+        ]);
+    });
+
+    it("should reject values that are not objects", () => {
+        expect(issuesOf([])).toEqual([{path: "", message: "must be an object"}]);
+        expect(issuesOf("entry")).toEqual([{path: "", message: "must be an object"}]);
+    });
+
+    it("should reject timestamps that are not ISO dates", () => {
+        expect(issuesOf({...valid(), timestamp: "yesterday"})).toEqual([{path: "timestamp", message: "must be an ISO 8601 date string"}]);
+        expect(issuesOf({...valid(), timestamp: 1792392300123})).toHaveLength(1);
+    });
+
+    it("should check nested errors with their path", () => {
+        const value = valid();
+        value.error.cause.message = 42;
+        value.error.errors = [{name: "Error"}];
+
+        expect(issuesOf(value)).toEqual([
+            {path: "error.cause.message", message: "must be a string"},
+            {path: "error.errors[0].message", message: "must be a string"},
+        ]);
+    });
+
+    it("should stop at deeply nested cause chains", () => {
+        let error: Record<string, unknown> = {name: "Error", message: "root"};
+        for (let depth = 0; depth < 40; depth++) error = {name: "Error", message: `level ${depth}`, cause: error};
+
+        expect(issuesOf({...valid(), error})).toEqual([
+            {path: `error${".cause".repeat(32)}`, message: "is nested deeper than 32 levels"},
+        ]);
+    });
+
+    it("should check trace ids, the logger name, breadcrumbs and stack frames", () => {
+        expect(issuesOf({
+            ...valid(),
+            traceId: "not-hex",
+            spanId: "00F067AA0BA902B7",
+            logger: 42,
+            breadcrumbs: [{timestamp: "2026-10-19T06:45:00.000Z", level: 1, message: "Clicked"}, {level: 1}],
+            stackFrames: [{file: "app.js", line: 1.5}],
+        }).map((issue) => issue.path)).toEqual([
+            "traceId",
+            "spanId",
+            "logger",
+            "breadcrumbs[1].timestamp",
+            "breadcrumbs[1].message",
+            "stackFrames[0].inApp",
+            "stackFrames[0].line",
+        ]);
+    });
+
+    it("should treat null as missing and drop unknown fields", () => {
+        const result = validateEntry({...valid(), error: null, context: null, isAdmin: true});
+
+        expect(result.valid).toBe(true);
+        if (!result.valid) return;
+        expect(result.entry).not.toHaveProperty("error");
+        expect(result.entry).not.toHaveProperty("context");
+        expect(result.entry).not.toHaveProperty("isAdmin");
+    });
+});
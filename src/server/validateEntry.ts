@@ -0,0 +1,198 @@
+import {SerializedLogEntry} from "../serializers/serializeEntry";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ValidationIssue {
+    /**
+     * Where the problem is — "level", "error.cause.message", "breadcrumbs[2].timestamp".
+     */
+    readonly path: string;
+    readonly message: string;
+}
+
+export type EntryValidation =
+    | { readonly valid: true; readonly entry: SerializedLogEntry }
+    | { readonly valid: false; readonly issues: readonly ValidationIssue[] };
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Deeper cause chains are rejected — recursion over untrusted input needs a bound.
+ */
+const MAX_ERROR_DEPTH = 32;
+
+/**
+ * The fields of a SerializedLogEntry — everything else in a request is dropped.
+ */
+const ENTRY_FIELDS = [
+    "id", "level", "message", "timestamp", "error", "context",
+    "fingerprint", "traceId", "spanId", "logger", "breadcrumbs", "stackFrames",
+] as const;
+
+const TRACE_ID_PATTERN = /^[\da-f]{32}$/;
+const SPAN_ID_PATTERN = /^[\da-f]{16}$/;
+
+// ─── validateEntry ────────────────────────────────────────────────────────────
+
+/**
+ * Checks that an untrusted value (a parsed request body) is a SerializedLogEntry —
+ * what serializeEntry() produces and HttpTransport sends.
+ *
+ * Every problem is reported, not just the first, so a client can fix them all at once.
+ * The returned entry contains only the known fields: unknown fields are dropped instead of
+ * being stored unchecked. Optional fields may be missing or null.
+ */
+export function validateEntry(value: unknown): EntryValidation {
+    const issues: ValidationIssue[] = [];
+    const check = (condition: boolean, path: string, message: string) => {
+        if (!condition) issues.push({path, message});
+    };
+
+    if (!isRecord(value)) {
+        return {valid: false, issues: [{path: "", message: "must be an object"}]};
+    }
+
+    check(typeof value.id === "string" && value.id !== "", "id", "must be a non-empty string");
+    check(Number.isFinite(value.level), "level", "must be a finite number");
+    check(typeof value.message === "string", "message", "must be a string");
+    check(isTimestamp(value.timestamp), "timestamp", "must be an ISO 8601 date string");
+
+    if (isPresent(value.error)) validateError(value.error, "error", 0, issues);
+    if (isPresent(value.context)) check(isRecord(value.context), "context", "must be an object");
+    if (isPresent(value.fingerprint)) check(typeof value.fingerprint === "string", "fingerprint", "must be a string");
+
+    if (isPresent(value.traceId)) {
+        const valid = typeof value.traceId === "string" && TRACE_ID_PATTERN.test(value.traceId);
+        check(valid, "traceId", "must be 32 lowercase hex characters");
+    }
+
+    if (isPresent(value.spanId)) {
+        const valid = typeof value.spanId === "string" && SPAN_ID_PATTERN.test(value.spanId);
+        check(valid, "spanId", "must be 16 lowercase hex characters");
+    }
+
+    if (isPresent(value.logger)) check(typeof value.logger === "string", "logger", "must be a string");
+    if (isPresent(value.breadcrumbs)) validateList(value.breadcrumbs, "breadcrumbs", validateBreadcrumb, issues);
+    if (isPresent(value.stackFrames)) validateList(value.stackFrames, "stackFrames", validateStackFrame, issues);
+
+    if (issues.length > 0) return {valid: false, issues};
+
+    return {valid: true, entry: pick(value, ENTRY_FIELDS) as SerializedLogEntry};
+}
+
+// ─── Parts ────────────────────────────────────────────────────────────────────
+
+function validateError(value: unknown, path: string, depth: number, issues: ValidationIssue[]): void {
+    if (!isRecord(value)) {
+        issues.push({path, message: "must be an object"});
+        return;
+    }
+
+    if (depth >= MAX_ERROR_DEPTH) {
+        issues.push({path, message: `is nested deeper than ${MAX_ERROR_DEPTH} levels`});
+        return;
+    }
+
+    if (typeof value.name !== "string") issues.push({path: `${path}.name`, message: "must be a string"});
+    if (typeof value.message !== "string") issues.push({path: `${path}.message`, message: "must be a string"});
+
+    if (isPresent(value.stack) && typeof value.stack !== "string") {
+        issues.push({path: `${path}.stack`, message: "must be a string"});
+    }
+
+    if (isPresent(value.code) && typeof value.code !== "string" && typeof value.code !== "number") {
+        issues.push({path: `${path}.code`, message: "must be a string or a number"});
+    }
+
+    if (isPresent(value.properties) && !isRecord(value.properties)) {
+        issues.push({path: `${path}.properties`, message: "must be an object"});
+    }
+
+    if (isPresent(value.cause)) validateError(value.cause, `${path}.cause`, depth + 1, issues);
+
+    if (isPresent(value.errors)) {
+        validateList(value.errors, `${path}.errors`, (item, itemPath, itemIssues) => {
+            validateError(item, itemPath, depth + 1, itemIssues);
+        }, issues);
+    }
+}
+
+function validateBreadcrumb(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!isRecord(value)) {
+        issues.push({path, message: "must be an object"});
+        return;
+    }
+
+    if (!isTimestamp(value.timestamp)) issues.push({path: `${path}.timestamp`, message: "must be an ISO 8601 date string"});
+    if (!Number.isFinite(value.level)) issues.push({path: `${path}.level`, message: "must be a finite number"});
+    if (typeof value.message !== "string") issues.push({path: `${path}.message`, message: "must be a string"});
+
+    if (isPresent(value.category) && typeof value.category !== "string") {
+        issues.push({path: `${path}.category`, message: "must be a string"});
+    }
+
+    if (isPresent(value.data) && !isRecord(value.data)) {
+        issues.push({path: `${path}.data`, message: "must be an object"});
+    }
+}
+
+function validateStackFrame(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!isRecord(value)) {
+        issues.push({path, message: "must be an object"});
+        return;
+    }
+
+    if (typeof value.inApp !== "boolean") issues.push({path: `${path}.inApp`, message: "must be a boolean"});
+
+    for (const field of ["function", "file"]) {
+        if (isPresent(value[field]) && typeof value[field] !== "string") {
+            issues.push({path: `${path}.${field}`, message: "must be a string"});
+        }
+    }
+
+    for (const field of ["line", "column"]) {
+        if (isPresent(value[field]) && !Number.isInteger(value[field])) {
+            issues.push({path: `${path}.${field}`, message: "must be an integer"});
+        }
+    }
+}
+
+function validateList(
+    value: unknown,
+    path: string,
+    validateItem: (item: unknown, path: string, issues: ValidationIssue[]) => void,
+    issues: ValidationIssue[]
+): void {
+    if (!Array.isArray(value)) {
+        issues.push({path, message: "must be an array"});
+        return;
+    }
+
+    value.forEach((item, index) => validateItem(item, `${path}[${index}]`, issues));
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is JsonObject {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * JSON has no undefined — clients that do not strip empty fields send null instead.
+ */
+function isPresent(value: unknown): boolean {
+    return value !== undefined && value !== null;
+}
+
+function isTimestamp(value: unknown): boolean {
+    return typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function pick(value: JsonObject, fields: readonly string[]): JsonObject {
+    const picked: JsonObject = {};
+    for (const field of fields) {
+        if (isPresent(value[field])) picked[field] = value[field];
+    }
+
+    return picked;
+}
@@ -0,0 +1,65 @@
+import {describe, expect, it} from "vitest";
+import {SourceMap} from "./SourceMap";
+
+/**
+ * Line 1: column 0 → app.ts 1:0, column 4 → app.ts 1:4 (name "handlePayment")
+ * Line 2: column 0 → app.ts 2:4
+ */
+const RAW_MAP = {
+    version: 3,
+    sources: ["app.ts"],
+    sourceRoot: "src",
+    names: ["handlePayment"],
+    mappings: "AAAA,IAAIA;AACA",
+};
+
+describe("SourceMap", () => {
+    it("should map a generated position to the original position", () => {
+        const map = new SourceMap(RAW_MAP);
+
+        expect(map.originalPositionFor(1, 1)).toEqual({
+            source: "src/app.ts",
+            line: 1,
+            column: 1,
+            name: undefined,
+        });
+    });
+
+    it("should use the closest segment to the left and its name", () => {
+        const map = new SourceMap(RAW_MAP);
+
+        expect(map.originalPositionFor(1, 10)).toEqual({
+            source: "src/app.ts",
+            line: 1,
+            column: 5,
+            name: "handlePayment",
+        });
+    });
+
+    it("should carry original positions across lines", () => {
+        const map = new SourceMap(RAW_MAP);
+
+        expect(map.originalPositionFor(2, 1)).toMatchObject({line: 2, column: 5});
+    });
+
+    it("should return null for unmapped lines", () => {
+        expect(new SourceMap(RAW_MAP).originalPositionFor(5, 1)).toBeNull();
+    });
+
+    it("should accept the map as a JSON string", () => {
+        const map = new SourceMap(JSON.stringify(RAW_MAP));
+
+        expect(map.originalPositionFor(1, 1)?.source).toBe("src/app.ts");
+    });
+
+    it("should decode negative offsets", () => {
+        // Line 1 → 3:0, line 2 → 1:0 ("AAFA" moves the original line by -2)
+        const map = new SourceMap({version: 3, sources: ["a.ts"], mappings: "AAEA;AAFA"});
+
+        expect(map.originalPositionFor(2, 1)?.line).toBe(1);
+    });
+
+    it("should reject unsupported versions", () => {
+        expect(() => new SourceMap({...RAW_MAP, version: 2})).toThrow("Unsupported source map version");
+    });
+});
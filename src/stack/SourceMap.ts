@@ -0,0 +1,184 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Source map v3 as produced by bundlers (the contents of a .map file).
+ * Indexed maps ("sections") are not supported.
+ */
+export interface RawSourceMap {
+    readonly version: number;
+    readonly sources: readonly string[];
+    readonly names?: readonly string[];
+    readonly mappings: string;
+    readonly sourceRoot?: string;
+    readonly file?: string;
+}
+
+/**
+ * Original location of a generated position. Line and column are 1-based like stack traces.
+ */
+export interface OriginalPosition {
+    readonly source: string;
+    readonly line: number;
+    readonly column: number;
+    readonly name?: string;
+}
+
+/**
+ * One decoded mapping segment — all values 0-based.
+ * [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+ */
+type Segment = [number, number, number, number, number?];
+
+// ─── SourceMap ────────────────────────────────────────────────────────────────
+
+/**
+ * Minimal source map consumer — just enough to map stack frames back to sources.
+ *
+ * Why not the "source-map" package?
+ * The library has zero runtime dependencies, and lookup of a single position
+ * needs nothing more than a VLQ decoder and a binary search.
+ */
+export class SourceMap {
+    private readonly sources: string[];
+    private readonly names: readonly string[];
+
+    /**
+     * Segments per generated line (0-based index), sorted by generated column.
+     */
+    private readonly lines: Segment[][];
+
+    constructor(raw: RawSourceMap | string) {
+        const map: RawSourceMap = typeof raw === "string" ? JSON.parse(raw) : raw;
+
+        if (map.version !== 3) {
+            throw new Error(`Unsupported source map version: ${map.version}`);
+        }
+
+        const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/, "/") : "";
+        this.sources = map.sources.map((source) => root + source);
+        this.names = map.names ?? [];
+        this.lines = decodeMappings(map.mappings);
+    }
+
+    /**
+     * Finds the original position of a generated position (1-based line and column).
+     * Returns null if the position is not covered by the map.
+     */
+    originalPositionFor(line: number, column: number): OriginalPosition | null {
+        const segments = this.lines[line - 1];
+        if (!segments || segments.length === 0) return null;
+
+        const segment = findSegment(segments, column - 1);
+        if (!segment) return null;
+
+        const [, sourceIndex, originalLine, originalColumn, nameIndex] = segment;
+        const source = this.sources[sourceIndex];
+        if (source === undefined) return null;
+
+        return {
+            source,
+            line: originalLine + 1,
+            column: originalColumn + 1,
+            name: nameIndex !== undefined ? this.names[nameIndex] : undefined,
+        };
+    }
+}
+
+// ─── Decoding ─────────────────────────────────────────────────────────────────
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map([...BASE64].map((char, index) => [char, index]));
+
+/**
+ * Decodes the "mappings" string.
+ *
+ * Lines are separated by ";", segments by ",". Every field is a Base64 VLQ
+ * relative to the previous segment — the generated column resets on each line,
+ * the other fields carry over across lines.
+ */
+function decodeMappings(mappings: string): Segment[][] {
+    const lines: Segment[][] = [];
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+
+    for (const line of mappings.split(";")) {
+        const segments: Segment[] = [];
+        let generatedColumn = 0;
+
+        for (const encoded of line.split(",")) {
+            if (!encoded) continue;
+
+            const fields = decodeVlq(encoded);
+            generatedColumn += fields[0] ?? 0;
+
+            // Segments with a single field map to nothing — skip them
+            if (fields.length < 4) continue;
+
+            sourceIndex += fields[1]!;
+            originalLine += fields[2]!;
+            originalColumn += fields[3]!;
+
+            if (fields.length >= 5) {
+                nameIndex += fields[4]!;
+                segments.push([generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex]);
+            } else {
+                segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+            }
+        }
+
+        segments.sort((a, b) => a[0] - b[0]);
+        lines.push(segments);
+    }
+
+    return lines;
+}
+
+function decodeVlq(encoded: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    for (const char of encoded) {
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) throw new Error(`Invalid Base64 VLQ character: "${char}"`);
+
+        value += (digit & 31) << shift;
+
+        if (digit & 32) {
+            shift += 5;
+            continue;
+        }
+
+        // Lowest bit is the sign
+        values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+    }
+
+    return values;
+}
+
+/**
+ * Binary search for the last segment that starts at or before the column.
+ */
+function findSegment(segments: Segment[], column: number): Segment | null {
+    let low = 0;
+    let high = segments.length - 1;
+    let found: Segment | null = null;
+
+    while (low <= high) {
+        const middle = (low + high) >>> 1;
+        const segment = segments[middle]!;
+
+        if (segment[0] <= column) {
+            found = segment;
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+
+    return found;
+}
@@ -0,0 +1,39 @@
+import {afterAll, beforeAll, describe, expect, it} from "vitest";
+import {mkdtemp, mkdir, rm, writeFile} from "node:fs/promises";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {localSourceMaps} from "./localSourceMaps";
+
+describe("localSourceMaps", () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await mkdtemp(join(tmpdir(), "source-maps-"));
+        await mkdir(join(directory, "assets"));
+        await writeFile(join(directory, "assets", "main.js.map"), "{\"version\":3}");
+    });
+
+    afterAll(async () => {
+        await rm(directory, {recursive: true, force: true});
+    });
+
+    it("should read the map for a URL by its path", async () => {
+        const load = localSourceMaps({directory});
+
+        expect(await load("https://app.com/assets/main.js")).toBe("{\"version\":3}");
+    });
+
+    it("should strip a path prefix", async () => {
+        const load = localSourceMaps({directory, stripPrefix: "/static"});
+
+        expect(await load("https://app.com/static/assets/main.js")).toBe("{\"version\":3}");
+    });
+
+    it("should return null for missing maps", async () => {
+        expect(await localSourceMaps({directory})("https://app.com/other.js")).toBeNull();
+    });
+
+    it("should refuse paths outside the directory", async () => {
+        expect(await localSourceMaps({directory})("../../etc/passwd")).toBeNull();
+    });
+});
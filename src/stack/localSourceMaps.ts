@@ -0,0 +1,54 @@
+import {readFile} from "node:fs/promises";
+import {join, resolve, sep} from "node:path";
+
+export interface LocalSourceMapsOptions {
+    /**
+     * Directory that holds the build output with the .map files.
+     */
+    directory: string;
+
+    /**
+     * Prefix stripped from the URL path before it is looked up in the directory.
+     * E.g. "/static" when "https://app.com/static/js/main.js" lives at "<directory>/js/main.js".
+     */
+    stripPrefix?: string;
+}
+
+/**
+ * Source map loader for symbolicate() — reads "<file>.map" from a local directory.
+ *
+ * Frame files are usually URLs; only the path is used, so maps built once can
+ * serve every environment the bundle is deployed to. Paths that would resolve
+ * outside the directory are rejected — the file name comes from an untrusted stack trace.
+ *
+ * Node only — exported from "error-logging-service/node".
+ */
+export function localSourceMaps(options: LocalSourceMapsOptions): (file: string) => Promise<string | null> {
+    const root = resolve(options.directory);
+
+    return async (file) => {
+        let path = toPathname(file);
+
+        if (options.stripPrefix && path.startsWith(options.stripPrefix)) {
+            path = path.slice(options.stripPrefix.length);
+        }
+
+        const mapPath = resolve(join(root, `${path}.map`));
+        if (!mapPath.startsWith(root + sep)) return null;
+
+        try {
+            return await readFile(mapPath, "utf8");
+        } catch {
+            return null;
+        }
+    };
+}
+
+function toPathname(file: string): string {
+    try {
+        return decodeURIComponent(new URL(file).pathname);
+    } catch {
+        // Not a URL — already a path
+        return file;
+    }
+}
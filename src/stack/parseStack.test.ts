@@ -0,0 +1,116 @@
+import {describe, expect, it} from "vitest";
+import {parseStack} from "./parseStack";
+
+describe("parseStack", () => {
+    it("should return no frames for an empty stack", () => {
+        expect(parseStack(undefined)).toEqual([]);
+        expect(parseStack("")).toEqual([]);
+    });
+
+    describe("V8", () => {
+        const stack = [
+            "TypeError: Cannot read properties of undefined",
+            "    at PaymentService.charge (/app/src/payment.js:42:13)",
+            "    at async handler (/app/src/routes.js:10:5)",
+            "    at /app/src/index.js:3:1",
+            "    at Layer.handle (/app/node_modules/express/lib/router/layer.js:95:5)",
+            "    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)",
+            "    at Array.map (<anonymous>)",
+        ].join("\n");
+
+        it("should parse function, file, line and column", () => {
+            expect(parseStack(stack)[0]).toEqual({
+                function: "PaymentService.charge",
+                file: "/app/src/payment.js",
+                line: 42,
+                column: 13,
+                inApp: true,
+            });
+        });
+
+        it("should strip the async marker", () => {
+            expect(parseStack(stack)[1]?.function).toBe("handler");
+        });
+
+        it("should parse anonymous frames", () => {
+            expect(parseStack(stack)[2]).toEqual({
+                function: undefined,
+                file: "/app/src/index.js",
+                line: 3,
+                column: 1,
+                inApp: true,
+            });
+        });
+
+        it("should mark node_modules and Node internals as not in-app", () => {
+            const frames = parseStack(stack);
+
+            expect(frames[3]?.inApp).toBe(false);
+            expect(frames[4]?.inApp).toBe(false);
+        });
+
+        it("should parse frames without a location", () => {
+            expect(parseStack(stack)[5]).toEqual({function: "Array.map", inApp: false});
+        });
+
+        it("should parse URLs and Windows paths", () => {
+            const frames = parseStack([
+                "    at main (https://app.com/assets/main.js:1:2345)",
+                "    at run (C:\\app\\src\\index.js:7:9)",
+            ].join("\n"));
+
+            expect(frames[0]?.file).toBe("https://app.com/assets/main.js");
+            expect(frames[1]?.file).toBe("C:\\app\\src\\index.js");
+        });
+    });
+
+    describe("SpiderMonkey", () => {
+        const stack = [
+            "charge@https://app.com/assets/main.js:1:2345",
+            "outer/</<@https://app.com/assets/main.js:1:100",
+            "@https://app.com/assets/main.js:2:10",
+        ].join("\n");
+
+        it("should parse function, file, line and column", () => {
+            expect(parseStack(stack)[0]).toEqual({
+                function: "charge",
+                file: "https://app.com/assets/main.js",
+                line: 1,
+                column: 2345,
+                inApp: true,
+            });
+        });
+
+        it("should clean closure names", () => {
+            expect(parseStack(stack)[1]?.function).toBe("outer");
+        });
+
+        it("should parse anonymous frames", () => {
+            expect(parseStack(stack)[2]?.function).toBeUndefined();
+        });
+    });
+
+    describe("JavaScriptCore", () => {
+        const stack = [
+            "charge@https://app.com/assets/main.js:1:2345",
+            "map@[native code]",
+            "global code@https://app.com/assets/main.js:5:1",
+        ].join("\n");
+
+        it("should parse native frames", () => {
+            expect(parseStack(stack)[1]).toEqual({function: "map", inApp: false});
+        });
+
+        it("should drop the global code pseudo-name", () => {
+            expect(parseStack(stack)[2]).toMatchObject({function: undefined, line: 5, column: 1});
+        });
+    });
+
+    it("should use a custom isInApp", () => {
+        const frames = parseStack("    at a (/app/vendor/lib.js:1:1)", {
+            isInApp: (file) => !file.includes("/vendor/"),
+        });
+
+        expect(frames[0]?.inApp).toBe(false);
+    });
+});
@@ -0,0 +1,155 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * One frame of a stack trace, as data.
+ * Every location field is optional — native frames have no file, eval frames may have no column.
+ */
+export interface StackFrame {
+    readonly function?: string;
+    readonly file?: string;
+
+    /**
+     * 1-based, as printed in the stack trace.
+     */
+    readonly line?: number;
+
+    /**
+     * 1-based, as printed in the stack trace.
+     */
+    readonly column?: number;
+
+    /**
+     * Does the frame belong to the application — or to a dependency / the runtime?
+     * Grouping and display focus on in-app frames.
+     */
+    readonly inApp: boolean;
+}
+
+export interface ParseStackOptions {
+    /**
+     * Decides whether a file belongs to the application.
+     * Default: everything except node_modules, Node internals and native code.
+     */
+    isInApp?: (file: string) => boolean;
+}
+
+// ─── Formats ──────────────────────────────────────────────────────────────────
+
+/**
+ * V8 (Chrome, Edge, Node, Deno):
+ *     at functionName (file:line:column)
+ *     at file:line:column
+ */
+const V8_FRAME = /^\s*at\s+(?:(.*?)\s+\()?(.+?):(\d+):(\d+)\)?\s*$/;
+
+/**
+ * V8 frames without a location:
+ *     at functionName (native)
+ *     at functionName (<anonymous>)
+ */
+const V8_NATIVE_FRAME = /^\s*at\s+(.*?)\s*\((native|<anonymous>)\)\s*$/;
+
+/**
+ * SpiderMonkey (Firefox) and JavaScriptCore (Safari):
+ *     functionName@file:line:column
+ *     @file:line:column
+ */
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+)(?::(\d+))?\s*$/;
+
+/**
+ * JavaScriptCore frames without a location:
+ *     functionName@[native code]
+ *     [native code]
+ */
+const JSC_NATIVE_FRAME = /^\s*(?:(.*?)@)?\[native code]\s*$/;
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+/**
+ * Parses a stack string from any major engine into frames, most recent call first.
+ * Lines that are not frames (the "Error: message" header, blank lines) are skipped.
+ *
+ * Why regexes per engine instead of one clever regex?
+ * The formats genuinely differ — one regex for all of them is unreadable and
+ * breaks in surprising ways when one engine changes its format.
+ */
+export function parseStack(stack: string | undefined, options: ParseStackOptions = {}): StackFrame[] {
+    if (!stack) return [];
+
+    const frames: StackFrame[] = [];
+
+    for (const line of stack.split("\n")) {
+        const frame = parseLine(line);
+        if (!frame) continue;
+
+        frames.push({
+            ...frame,
+            inApp: frame.file !== undefined && isInAppFile(frame.file, options),
+        });
+    }
+
+    return frames;
+}
+
+/**
+ * Applies options.isInApp, or the default rule, to a single file.
+ */
+export function isInAppFile(file: string, options: ParseStackOptions = {}): boolean {
+    return (options.isInApp ?? defaultIsInApp)(file);
+}
+
+function parseLine(line: string): Omit<StackFrame, "inApp"> | null {
+    const nativeV8 = V8_NATIVE_FRAME.exec(line);
+    if (nativeV8) return {function: cleanFunctionName(nativeV8[1])};
+
+    const v8 = V8_FRAME.exec(line);
+    if (v8) {
+        return {
+            function: cleanFunctionName(v8[1]),
+            file: v8[2],
+            line: Number(v8[3]),
+            column: Number(v8[4]),
+        };
+    }
+
+    const nativeJsc = JSC_NATIVE_FRAME.exec(line);
+    if (nativeJsc) return {function: cleanFunctionName(nativeJsc[1])};
+
+    const gecko = GECKO_FRAME.exec(line);
+    if (gecko) {
+        return {
+            function: cleanFunctionName(gecko[1]),
+            file: gecko[2],
+            line: Number(gecko[3]),
+            column: gecko[4] !== undefined ? Number(gecko[4]) : undefined,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Strips engine noise from function names:
+ * "async handler" → "handler", Firefox closures "outer/</<" → "outer", Safari "global code" → undefined.
+ */
+function cleanFunctionName(name: string | undefined): string | undefined {
+    const cleaned = name
+        ?.replace(/^async\s+/, "")
+        .replace(/(\/<)+$/, "")
+        .replace(/<$/, "")
+        .trim();
+
+    if (!cleaned || cleaned === "global code" || cleaned === "<anonymous>") return undefined;
+
+    return cleaned;
+}
+
+function defaultIsInApp(file: string): boolean {
+    return !(
+        file.includes("/node_modules/") ||
+        file.includes("\\node_modules\\") ||
+        file.startsWith("node:") ||
+        file.startsWith("internal/") ||
+        file === "native"
+    );
+}
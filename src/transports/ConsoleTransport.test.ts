@@ -1,7 +1,7 @@
 import {beforeEach, describe, expect, it, vi} from "vitest";
 import {ConsoleTransport} from "./ConsoleTransport";
 import {createLogEntry} from "../core/LogEntry";
-import {LogLevel} from "../core/LogLevel";
+import {defineLevels, LogLevel} from "../core/LogLevel";
 
 describe("ConsoleTransport", () => {
     beforeEach(() => {
@@ -53,6 +53,37 @@ describe("ConsoleTransport", () => {
 
             expect(spy).toHaveBeenCalledOnce();
         });
+
+        it("should call console.debug for TRACE level", async () => {
+            const spy = vi.spyOn(console, "debug").mockImplementation(() => {
+            });
+            const transport = new ConsoleTransport();
+            const entry = createLogEntry({level: LogLevel.TRACE, message: "Test"});
+
+            await transport.send(entry);
+
+            expect(spy).toHaveBeenCalledOnce();
+        });
+
+        it("should use the console method of a custom level", async () => {
+            const spy = vi.spyOn(console, "log").mockImplementation(() => {
+            });
+            const {notice} = defineLevels({notice: {value: 33, consoleMethod: "log"}});
+
+            await new ConsoleTransport().send(createLogEntry({level: notice, message: "Test"}));
+
+            expect(spy).toHaveBeenCalledWith(expect.stringContaining("[NOTICE]"));
+        });
+
+        it("should fall back to the closest built-in level below a custom level", async () => {
+            const spy = vi.spyOn(console, "warn").mockImplementation(() => {
+            });
+            const {deprecation} = defineLevels({deprecation: {value: 2.5}});
+
+            await new ConsoleTransport().send(createLogEntry({level: deprecation, message: "Test"}));
+
+            expect(spy).toHaveBeenCalledOnce();
+        });
     });
 
     describe("default formatter", () => {
@@ -94,6 +125,38 @@ describe("ConsoleTransport", () => {
         });
     });
 
+    describe("context", () => {
+        it("should include context in output", async () => {
+            const spy = vi.spyOn(console, "info").mockImplementation(() => {
+            });
+            const transport = new ConsoleTransport();
+            const entry = createLogEntry({level: LogLevel.INFO, message: "Test", context: {userId: "123"}});
+
+            await transport.send(entry);
+
+            expect(spy).toHaveBeenCalledWith(expect.stringContaining('{"userId":"123"}'));
+        });
+    });
+
+    describe("error chains", () => {
+        it("should include the cause chain in output", async () => {
+            const spy = vi.spyOn(console, "error").mockImplementation(() => {
+            });
+            const transport = new ConsoleTransport();
+            const entry = createLogEntry({
+                level: LogLevel.ERROR,
+                message: "Test",
+                error: new Error("Payment failed", {cause: new TypeError("Socket hang up")}),
+            });
+
+            await transport.send(entry);
+
+            expect(spy).toHaveBeenCalledWith(
+                expect.stringContaining("Error: Payment failed ← caused by: TypeError: Socket hang up")
+            );
+        });
+    });
+
     describe("custom formatter", () => {
         it("should use custom formatter if provided", async () => {
             const spy = vi.spyOn(console, "info").mockImplementation(() => {
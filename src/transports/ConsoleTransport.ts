@@ -1,31 +1,38 @@
 import {LogEntry} from "../core/LogEntry";
-import {LOG_LEVEL_LABELS, LogLevel} from "../core/LogLevel";
+import {consoleMethodFor, LogLevel} from "../core/LogLevel";
 import {Transport, TransportError} from "./Transport";
+import {TransportRules} from "./TransportRules";
+import {prettyFormatter} from "../formatters/prettyFormatter";
 
 export interface ConsoleTransportOptions {
     /**
      * Custom formatter — user can fully control the appearance.
-     * If not provided, we use the defaultFormatter below.
+     * If not provided, we use prettyFormatter() — any formatter from the formatter library fits here.
      *
      * This is again the DI principle — format logic is not hardcoded.
      */
     formatter?: (entry: LogEntry) => string;
+
+    /**
+     * Routing rules — e.g. {maxLevel: LogLevel.INFO} to keep errors out of the console.
+     */
+    rules?: TransportRules;
 }
 
 export class ConsoleTransport implements Transport {
     readonly name = "console";
+    readonly rules?: TransportRules;
 
-    private readonly formatter?: (entry: LogEntry) => string;
+    private readonly formatter: (entry: LogEntry) => string;
 
     constructor(options: ConsoleTransportOptions = {}) {
-        this.formatter = options.formatter;
+        this.formatter = options.formatter ?? prettyFormatter();
+        this.rules = options.rules;
     }
 
     async send(entry: LogEntry): Promise<void> {
         try {
-            const message = this.formatter
-                ? this.formatter(entry)
-                : this.defaultFormatter(entry);
+            const message = this.formatter(entry);
 
             const consoleMethod = this.resolveConsoleMethod(entry.level);
             consoleMethod(message);
@@ -34,15 +41,9 @@ export class ConsoleTransport implements Transport {
         }
     }
 
-    private defaultFormatter(entry: LogEntry): string {
-        const label = LOG_LEVEL_LABELS[entry.level];
-        const time = entry.timestamp.toISOString();
-        const errorPart = entry.error ? ` | ${entry.error.message}` : "";
-        return `[${time}] [${label}] ${entry.message}${errorPart}`;
-    }
-
     /**
-     * Mapping levels to console methods.
+     * Mapping levels to console methods — custom levels use their own consoleMethod
+     * or the method of the closest built-in level below them.
      *
      * Bind is necessary — if you destructure console.error without bind,
      * 'this' context is lost and browser throws TypeError in strict mode.
@@ -50,13 +51,6 @@ export class ConsoleTransport implements Transport {
     private resolveConsoleMethod(
         level: LogLevel
     ): (...args: unknown[]) => void {
-        const methods: Record<LogLevel, (...args: unknown[]) => void> = {
-            [LogLevel.DEBUG]: console.debug.bind(console),
-            [LogLevel.INFO]: console.info.bind(console),
-            [LogLevel.WARN]: console.warn.bind(console),
-            [LogLevel.ERROR]: console.error.bind(console),
-        };
-
-        return methods[level];
+        return console[consoleMethodFor(level)].bind(console);
     }
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import {describe, expect, it, vi} from "vitest";
+import {FanoutTransport} from "./FanoutTransport";
+import {Transport, TransportError} from "./Transport";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+function createMockTransport(name: string, options: { fails?: boolean; rules?: Transport["rules"] } = {}) {
+    const entries: LogEntry[] = [];
+
+    const transport: Transport = {
+        name,
+        rules: options.rules,
+        send: vi.fn(async (entry: LogEntry) => {
+            if (options.fails) throw new Error(`${name} is down`);
+            entries.push(entry);
+        }),
+    };
+
+    return {transport, entries};
+}
+
+const entry = (level = LogLevel.ERROR) => createLogEntry({level, message: "Test"});
+
+describe("FanoutTransport", () => {
+    it("should send every entry to all transports", async () => {
+        const file = createMockTransport("file");
+        const terminal = createMockTransport("console");
+
+        await new FanoutTransport({transports: [file.transport, terminal.transport]}).send(entry());
+
+        expect(file.entries).toHaveLength(1);
+        expect(terminal.entries).toHaveLength(1);
+    });
+
+    it("should respect the rules of each transport", async () => {
+        const pager = createMockTransport("pager", {rules: {minLevel: LogLevel.FATAL}});
+
+        await new FanoutTransport({transports: [pager.transport]}).send(entry(LogLevel.ERROR));
+
+        expect(pager.transport.send).not.toHaveBeenCalled();
+    });
+
+    it("should reject naming the failed transports by default", async () => {
+        const fanout = new FanoutTransport({
+            transports: [createMockTransport("file").transport, createMockTransport("http", {fails: true}).transport],
+        });
+
+        const error = await fanout.send(entry()).catch((reason: unknown) => reason);
+
+        expect(error).toBeInstanceOf(TransportError);
+        expect(error).toMatchObject({message: "FanoutTransport \"fanout\" failed to send to \"http\""});
+    });
+
+    it("should resolve if any transport delivered with require any", async () => {
+        const fanout = new FanoutTransport({
+            require: "any",
+            transports: [createMockTransport("file").transport, createMockTransport("http", {fails: true}).transport],
+        });
+
+        await expect(fanout.send(entry())).resolves.toBeUndefined();
+        await expect(new FanoutTransport({require: "any", transports: [createMockTransport("http", {fails: true}).transport]})
+            .send(entry())).rejects.toThrow(TransportError);
+    });
+
+    it("should need at least one transport", () => {
+        expect(() => new FanoutTransport({transports: []})).toThrow("FanoutTransport needs at least one transport.");
+    });
+});
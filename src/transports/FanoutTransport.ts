@@ -0,0 +1,76 @@
+import {LogEntry} from "../core/LogEntry";
+import {Transport, TransportError} from "./Transport";
+import {acceptsEntry, TransportRules} from "./TransportRules";
+
+export interface FanoutTransportOptions {
+    /**
+     * Every entry goes to all of these, at the same time.
+     */
+    transports: Transport[];
+
+    /**
+     * Unique transport name. Default: "fanout".
+     */
+    name?: string;
+
+    /**
+     * Routing rules of the whole group — the rules of each transport still apply on top.
+     */
+    rules?: TransportRules;
+
+    /**
+     * When send() counts as delivered. Default: "all".
+     * - "all" — rejects if any transport failed
+     * - "any" — rejects only if every transport failed
+     */
+    require?: "all" | "any";
+}
+
+/**
+ * Sends each entry to several transports in parallel and registers them as one —
+ * e.g. as the fallback of a ResilientTransport: "while the backend is down, write to a file AND the console".
+ *
+ * A transport whose rules reject the entry is skipped and does not count either way.
+ */
+export class FanoutTransport implements Transport {
+    readonly name: string;
+    readonly rules?: TransportRules;
+
+    private readonly transports: Transport[];
+    private readonly require: "all" | "any";
+
+    constructor(options: FanoutTransportOptions) {
+        if (options.transports.length === 0) {
+            throw new Error("FanoutTransport needs at least one transport.");
+        }
+
+        this.transports = [...options.transports];
+        this.name = options.name ?? "fanout";
+        this.rules = options.rules;
+        this.require = options.require ?? "all";
+    }
+
+    async send(entry: LogEntry): Promise<void> {
+        const recipients = this.transports.filter((transport) => acceptsEntry(transport.rules, entry));
+        const results = await Promise.allSettled(recipients.map((transport) => transport.send(entry)));
+
+        const failed = results.flatMap((result, index) =>
+            result.status === "rejected" ? [{name: recipients[index]!.name, error: result.reason as unknown}] : []
+        );
+
+        if (failed.length === 0 || (this.require === "any" && failed.length < recipients.length)) return;
+
+        throw new TransportError(
+            `FanoutTransport "${this.name}" failed to send to ${failed.map(({name}) => `"${name}"`).join(", ")}`,
+            {cause: new AggregateError(failed.map(({error}) => error))}
+        );
+    }
+
+    async flush(): Promise<void> {
+        await Promise.all(this.transports.map((transport) => transport.flush?.()));
+    }
+
+    async close(): Promise<void> {
+        await Promise.all(this.transports.map((transport) => transport.close?.()));
+    }
+}
@@ -0,0 +1,119 @@
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {appendFile, mkdtemp, readFile, rm, stat} from "node:fs/promises";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {FileQueueStorage} from "./FileQueueStorage";
+import {QueuedRecord} from "./QueueStorage";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {serializeEntry} from "../serializers/serializeEntry";
+
+function record(id: string): QueuedRecord {
+    return {id, storedAt: Date.now(), entry: serializeEntry(createLogEntry({level: LogLevel.ERROR, message: id}))};
+}
+
+async function ids(storage: FileQueueStorage): Promise<string[]> {
+    return (await storage.peek(100)).map((stored) => stored.id);
+}
+
+describe("FileQueueStorage", () => {
+    let directory: string;
+    let path: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "file-queue-"));
+        path = join(directory, "queue", "entries.ndjson");
+    });
+
+    afterEach(async () => {
+        await rm(directory, {recursive: true, force: true});
+    });
+
+    it("should keep records in order", async () => {
+        const storage = new FileQueueStorage({path});
+
+        await storage.push([record("a"), record("b")]);
+        await storage.push([record("c")]);
+
+        expect(await ids(storage)).toEqual(["a", "b", "c"]);
+        expect(await storage.size()).toBe(3);
+    });
+
+    it("should append records as NDJSON lines", async () => {
+        const storage = new FileQueueStorage({path});
+
+        await storage.push([record("a"), record("b")]);
+
+        const lines = (await readFile(path, "utf8")).trim().split("\n");
+        expect(lines.map((line) => JSON.parse(line).id)).toEqual(["a", "b"]);
+    });
+
+    it("should remove records from the head on shift", async () => {
+        const storage = new FileQueueStorage({path});
+
+        await storage.push([record("a"), record("b"), record("c")]);
+        await storage.shift(2);
+
+        expect(await ids(storage)).toEqual(["c"]);
+    });
+
+    it("should restore the queue in a new instance", async () => {
+        const first = new FileQueueStorage({path});
+        await first.push([record("a"), record("b"), record("c")]);
+        await first.shift(1);
+
+        const second = new FileQueueStorage({path});
+
+        expect(await ids(second)).toEqual(["b", "c"]);
+    });
+
+    it("should truncate the file when the queue runs empty", async () => {
+        const storage = new FileQueueStorage({path});
+
+        await storage.push([record("a"), record("b")]);
+        await storage.shift(2);
+
+        expect((await stat(path)).size).toBe(0);
+        expect(await ids(new FileQueueStorage({path}))).toEqual([]);
+    });
+
+    it("should compact the file once compactThreshold bytes are consumed", async () => {
+        const storage = new FileQueueStorage({path, compactThreshold: 1});
+
+        await storage.push([record("a"), record("b"), record("c")]);
+        const before = (await stat(path)).size;
+        await storage.shift(1);
+
+        expect((await stat(path)).size).toBeLessThan(before);
+        expect(await readFile(`${path}.offset`, "utf8")).toBe("0");
+
+        await storage.push([record("d")]);
+        await storage.shift(1);
+
+        expect(await ids(new FileQueueStorage({path}))).toEqual(["c", "d"]);
+    });
+
+    it("should skip unreadable lines", async () => {
+        const storage = new FileQueueStorage({path});
+        await storage.push([record("a")]);
+        await appendFile(path, "not json\n");
+        await appendFile(path, JSON.stringify(record("b")) + "\n");
+
+        const restored = new FileQueueStorage({path});
+        expect(await ids(restored)).toEqual(["a", "b"]);
+
+        await restored.shift(1);
+        expect(await ids(new FileQueueStorage({path}))).toEqual(["b"]);
+    });
+
+    it("should cut off a line torn by a crash before appending", async () => {
+        const storage = new FileQueueStorage({path});
+        await storage.push([record("a")]);
+        await appendFile(path, "{\"id\":\"torn");
+
+        const restored = new FileQueueStorage({path});
+        await restored.push([record("b")]);
+
+        expect(await ids(new FileQueueStorage({path}))).toEqual(["a", "b"]);
+    });
+});
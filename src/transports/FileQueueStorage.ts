@@ -0,0 +1,213 @@
+import {appendFile, mkdir, readFile, rename, truncate, writeFile} from "node:fs/promises";
+import {dirname} from "node:path";
+import {QueuedRecord, QueueStorage} from "./QueueStorage";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface FileQueueStorageOptions {
+    /**
+     * Path of the queue file, e.g. "logs/queue.ndjson". Missing directories are created.
+     * The read position is kept next to it in "<path>.offset".
+     */
+    path: string;
+
+    /**
+     * Rewrite the file once this many bytes at its start are consumed. Default: 1048576 (1 MiB).
+     */
+    compactThreshold?: number;
+}
+
+/**
+ * Record together with the bytes it occupies in the file — what shift() advances the offset by.
+ */
+interface StoredRecord {
+    record: QueuedRecord;
+    bytes: number;
+}
+
+// ─── FileQueueStorage ─────────────────────────────────────────────────────────
+
+/**
+ * Keeps the queue in an append-only NDJSON file — survives process restarts.
+ *
+ * Node only — exported from "error-logging-service/node".
+ *
+ * How does removal work in an append-only file?
+ * push() appends lines, shift() only moves a byte offset stored in a separate file.
+ * The consumed start of the file is dropped by rewriting it once it reaches
+ * compactThreshold, and the file is truncated whenever the queue runs empty.
+ *
+ * Records are read into memory once, on first use. The offset is always written
+ * BEFORE the data file changes — a crash in between replays records twice, never loses them.
+ * A line torn by a crash mid-write is cut off on the next load.
+ */
+export class FileQueueStorage implements QueueStorage {
+    private readonly path: string;
+    private readonly offsetPath: string;
+    private readonly compactThreshold: number;
+
+    private records: StoredRecord[] = [];
+
+    /**
+     * Bytes at the start of the file that are already consumed.
+     */
+    private offset = 0;
+
+    private loaded = false;
+
+    /**
+     * Operations run one at a time — each one reads and then changes the file.
+     */
+    private lock: Promise<unknown> = Promise.resolve();
+
+    constructor(options: FileQueueStorageOptions) {
+        this.path = options.path;
+        this.offsetPath = `${options.path}.offset`;
+        this.compactThreshold = options.compactThreshold ?? 1024 * 1024;
+    }
+
+    push(records: readonly QueuedRecord[]): Promise<void> {
+        return this.exclusive(async () => {
+            if (records.length === 0) return;
+
+            const lines = records.map((record) => JSON.stringify(record) + "\n");
+            await appendFile(this.path, lines.join(""));
+
+            records.forEach((record, index) => {
+                this.records.push({record, bytes: Buffer.byteLength(lines[index]!)});
+            });
+        });
+    }
+
+    peek(limit: number): Promise<QueuedRecord[]> {
+        return this.exclusive(async () => this.records.slice(0, limit).map((stored) => stored.record));
+    }
+
+    shift(count: number): Promise<void> {
+        return this.exclusive(async () => {
+            const removed = this.records.splice(0, count);
+            if (removed.length === 0) return;
+
+            if (this.records.length === 0) {
+                await this.writeOffset(0);
+                await truncate(this.path, 0);
+                return;
+            }
+
+            this.offset += removed.reduce((total, stored) => total + stored.bytes, 0);
+
+            if (this.offset >= this.compactThreshold) {
+                await this.compact();
+            } else {
+                await this.writeOffset(this.offset);
+            }
+        });
+    }
+
+    size(): Promise<number> {
+        return this.exclusive(async () => this.records.length);
+    }
+
+    // ─── File handling ──────────────────────────────────────────────────────────
+
+    private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.lock.then(async () => {
+            if (!this.loaded) {
+                await this.load();
+                this.loaded = true;
+            }
+
+            return operation();
+        });
+
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+
+    private async load(): Promise<void> {
+        await mkdir(dirname(this.path), {recursive: true});
+
+        const data = await readFile(this.path).catch(ignoreMissing);
+        if (!data) return;
+
+        const offset = Number(await readFile(this.offsetPath, "utf8").catch(ignoreMissing));
+
+        // A missing or broken offset replays the whole file — duplicates rather than losses
+        this.offset = Number.isInteger(offset) && offset > 0 && offset <= data.length ? offset : 0;
+        this.records = [];
+
+        let start = this.offset;
+        let skipped = 0;
+        const end = data.lastIndexOf(0x0a) + 1;
+
+        while (start < end) {
+            const newline = data.indexOf(0x0a, start);
+            const bytes = newline + 1 - start;
+            const record = parseRecord(data.toString("utf8", start, newline));
+
+            // Unreadable lines are skipped — their bytes are consumed with the next record
+            if (record) {
+                this.records.push({record, bytes: skipped + bytes});
+                skipped = 0;
+            } else {
+                skipped += bytes;
+            }
+
+            start = newline + 1;
+        }
+
+        // Cut off a torn last line and unreadable lines after the last record,
+        // so the next append starts on a clean line
+        const validEnd = end - skipped;
+        if (validEnd < data.length) await truncate(this.path, validEnd);
+    }
+
+    /**
+     * Rewrites the file without its consumed start.
+     */
+    private async compact(): Promise<void> {
+        const lines = this.records.map((stored) => JSON.stringify(stored.record) + "\n");
+        const temporary = `${this.path}.tmp`;
+
+        await writeFile(temporary, lines.join(""));
+        await this.writeOffset(0);
+        await rename(temporary, this.path);
+
+        this.records = this.records.map((stored, index) => ({
+            record: stored.record,
+            bytes: Buffer.byteLength(lines[index]!),
+        }));
+    }
+
+    /**
+     * Written to a temporary file and renamed — a crash never leaves half a number behind.
+     */
+    private async writeOffset(offset: number): Promise<void> {
+        const temporary = `${this.offsetPath}.tmp`;
+
+        await writeFile(temporary, String(offset));
+        await rename(temporary, this.offsetPath);
+
+        this.offset = offset;
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function ignoreMissing(error: NodeJS.ErrnoException): null {
+    if (error.code === "ENOENT") return null;
+    throw error;
+}
+
+function parseRecord(line: string): QueuedRecord | null {
+    try {
+        const record = JSON.parse(line) as Partial<QueuedRecord> | null;
+
+        if (typeof record?.id !== "string" || typeof record.storedAt !== "number") return null;
+        if (typeof record.entry !== "object" || record.entry === null) return null;
+
+        return record as QueuedRecord;
+    } catch {
+        return null;
+    }
+}
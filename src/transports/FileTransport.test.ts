@@ -0,0 +1,199 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {mkdtemp, readdir, readFile, rm, utimes, writeFile} from "node:fs/promises";
+import {gunzipSync} from "node:zlib";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {FileTransport} from "./FileTransport";
+import {TransportError} from "./Transport";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+function entry(message = "Test") {
+    return createLogEntry({level: LogLevel.INFO, message});
+}
+
+describe("FileTransport", () => {
+    let directory: string;
+    let path: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "file-transport-"));
+        path = join(directory, "app.log");
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await rm(directory, {recursive: true, force: true});
+    });
+
+    describe("writing", () => {
+        it("should append one NDJSON line per entry", async () => {
+            const transport = new FileTransport({path});
+
+            await Promise.all([transport.send(entry("first")), transport.send(entry("second"))]);
+            await transport.close();
+
+            const lines = (await readFile(path, "utf8")).trim().split("\n");
+            expect(lines.map((line) => JSON.parse(line).message)).toEqual(["first", "second"]);
+        });
+
+        it("should serialize errors in the default format", async () => {
+            const transport = new FileTransport({path});
+
+            await transport.send(createLogEntry({level: LogLevel.ERROR, message: "Test", error: new Error("Oops")}));
+            await transport.close();
+
+            expect(JSON.parse(await readFile(path, "utf8")).error.message).toBe("Oops");
+        });
+
+        it("should use a custom formatter", async () => {
+            const transport = new FileTransport({path, formatter: (e) => `[${e.level}] ${e.message}`});
+
+            await transport.send(entry());
+            await transport.close();
+
+            expect(await readFile(path, "utf8")).toBe(`[${LogLevel.INFO}] Test\n`);
+        });
+
+        it("should create missing directories", async () => {
+            const nested = join(directory, "nested", "deeper", "app.log");
+            const transport = new FileTransport({path: nested});
+
+            await transport.send(entry());
+            await transport.close();
+
+            expect(await readFile(nested, "utf8")).toContain("Test");
+        });
+
+        it("should append to an existing file", async () => {
+            await writeFile(path, "existing\n");
+            const transport = new FileTransport({path});
+
+            await transport.send(entry());
+            await transport.close();
+
+            expect((await readFile(path, "utf8")).startsWith("existing\n")).toBe(true);
+        });
+    });
+
+    describe("errors", () => {
+        it("should reject with TransportError when the file cannot be opened", async () => {
+            await writeFile(join(directory, "blocker"), "");
+            const transport = new FileTransport({path: join(directory, "blocker", "app.log")});
+
+            await expect(transport.send(entry())).rejects.toBeInstanceOf(TransportError);
+        });
+
+        it("should reject entries beyond maxQueueSize", async () => {
+            const transport = new FileTransport({path, maxQueueSize: 1});
+
+            const first = transport.send(entry("first"));
+            const second = transport.send(entry("second"));
+            const third = transport.send(entry("third"));
+
+            await expect(third).rejects.toThrow("queue is full");
+            await Promise.all([first, second]);
+            await transport.close();
+        });
+
+        it("should reject entries sent after close", async () => {
+            const transport = new FileTransport({path});
+            await transport.close();
+
+            await expect(transport.send(entry())).rejects.toBeInstanceOf(TransportError);
+        });
+    });
+
+    describe("rotation", () => {
+        it("should rotate when maxSize would be exceeded", async () => {
+            const transport = new FileTransport({path, maxSize: 150});
+
+            for (let i = 0; i < 5; i++) await transport.send(entry(`message ${i}`));
+            await transport.close();
+
+            const files = await readdir(directory);
+            expect(files.length).toBeGreaterThan(1);
+            expect(files).toContain("app.log");
+            expect(files.every((file) => /^app\.(.+\.)?log$/.test(file))).toBe(true);
+        });
+
+        it("should keep every line across rotated files", async () => {
+            const transport = new FileTransport({path, maxSize: 150});
+
+            for (let i = 0; i < 5; i++) await transport.send(entry(`message ${i}`));
+            await transport.close();
+
+            const contents = await Promise.all(
+                (await readdir(directory)).map((file) => readFile(join(directory, file), "utf8"))
+            );
+            expect(contents.join("").trim().split("\n")).toHaveLength(5);
+        });
+
+        it("should rotate when the day changes", async () => {
+            vi.useFakeTimers({toFake: ["Date"]});
+            vi.setSystemTime(new Date(2026, 9, 19, 23, 59));
+            const transport = new FileTransport({path, rotateDaily: true});
+
+            await transport.send(entry("yesterday"));
+            vi.setSystemTime(new Date(2026, 9, 20, 0, 1));
+            await transport.send(entry("today"));
+            await transport.close();
+
+            expect(await readdir(directory)).toHaveLength(2);
+            expect(await readFile(path, "utf8")).toContain("today");
+        });
+
+        it("should gzip rotated files", async () => {
+            const transport = new FileTransport({path, maxSize: 100, compress: true});
+
+            await transport.send(entry("first"));
+            await transport.send(entry("second"));
+            await transport.close();
+
+            const gzipped = (await readdir(directory)).filter((file) => file.endsWith(".log.gz"));
+            expect(gzipped).toHaveLength(1);
+            expect(gunzipSync(await readFile(join(directory, gzipped[0]!))).toString()).toContain("first");
+        });
+
+        it("should keep only maxFiles rotated files", async () => {
+            const transport = new FileTransport({path, maxSize: 100, maxFiles: 2});
+
+            for (let i = 0; i < 6; i++) await transport.send(entry(`message ${i}`));
+            await transport.close();
+
+            const files = await readdir(directory);
+            expect(files).toHaveLength(3); // active + 2 rotated
+        });
+
+        it("should leave files that only share the name prefix alone", async () => {
+            const longAgo = new Date(2020, 0, 1);
+            for (const file of ["app.log.bak", "application.log", "app.notes.log", "app.2020-01-01T00-00-00.000Z.log"]) {
+                await writeFile(join(directory, file), "old\n");
+                await utimes(join(directory, file), longAgo, longAgo);
+            }
+
+            const transport = new FileTransport({path, maxSize: 100, maxFiles: 1, maxAgeDays: 7});
+            for (let i = 0; i < 4; i++) await transport.send(entry(`message ${i}`));
+            await transport.close();
+
+            const files = await readdir(directory);
+            expect(files).toEqual(expect.arrayContaining(["app.log.bak", "application.log", "app.notes.log"]));
+            expect(files).not.toContain("app.2020-01-01T00-00-00.000Z.log");
+            expect(files).toHaveLength(5); // active + 1 rotated + the 3 foreign files
+        });
+
+        it("should delete rotated files older than maxAgeDays", async () => {
+            const old = join(directory, "app.2020-01-01T00-00-00.000Z.log");
+            await writeFile(old, "old\n");
+            const longAgo = new Date(2020, 0, 1);
+            await utimes(old, longAgo, longAgo);
+
+            const transport = new FileTransport({path, maxSize: 100, maxAgeDays: 7});
+            await transport.send(entry("first"));
+            await transport.send(entry("second"));
+            await transport.close();
+
+            expect(await readdir(directory)).not.toContain("app.2020-01-01T00-00-00.000Z.log");
+        });
+    });
+});
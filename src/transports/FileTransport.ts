@@ -0,0 +1,364 @@
+import {createReadStream, createWriteStream, WriteStream} from "node:fs";
+import {mkdir, readdir, rename, stat, unlink} from "node:fs/promises";
+import {basename, dirname, extname, join} from "node:path";
+import {pipeline} from "node:stream/promises";
+import {createGzip} from "node:zlib";
+import {LogEntry} from "../core/LogEntry";
+import {Transport, TransportError} from "./Transport";
+import {TransportRules} from "./TransportRules";
+import {ndjsonFormatter} from "../formatters/jsonFormatter";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface FileTransportOptions {
+    /**
+     * Path of the active log file, e.g. "logs/app.log". Missing directories are created.
+     * Rotated files are placed next to it: "app.2026-10-19T06-45-00.123Z.log".
+     */
+    path: string;
+
+    /**
+     * Unique transport name — defaults to "file".
+     */
+    name?: string;
+
+    /**
+     * Routing rules — which entries this transport receives.
+     */
+    rules?: TransportRules;
+
+    /**
+     * Turns an entry into ONE line (without the trailing newline).
+     * Default: ndjsonFormatter() — one JSON object per line.
+     */
+    formatter?: (entry: LogEntry) => string;
+
+    /**
+     * Rotate when the active file would grow beyond this many bytes.
+     */
+    maxSize?: number;
+
+    /**
+     * Rotate when the local calendar day changes.
+     */
+    rotateDaily?: boolean;
+
+    /**
+     * Gzip rotated files ("app.<timestamp>.log.gz").
+     */
+    compress?: boolean;
+
+    /**
+     * Keep at most this many rotated files — the oldest are deleted.
+     */
+    maxFiles?: number;
+
+    /**
+     * Delete rotated files older than this many days.
+     */
+    maxAgeDays?: number;
+
+    /**
+     * Maximum number of lines waiting to be written. Default: 10000.
+     * When the disk cannot keep up, new entries beyond this are rejected
+     * instead of growing memory without bound.
+     */
+    maxQueueSize?: number;
+}
+
+/**
+ * Line waiting in the queue together with the callbacks of the send() promise.
+ */
+interface QueuedLine {
+    line: string;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+// ─── FileTransport ────────────────────────────────────────────────────────────
+
+/**
+ * Appends one line per entry to a file, with size/day based rotation and retention.
+ *
+ * Node only — exported from "error-logging-service/node".
+ *
+ * How does it avoid blocking?
+ * send() only queues the line and returns. A single writer loop takes everything
+ * queued, writes it as one chunk and waits for the stream before taking the next chunk.
+ * Backpressure therefore grows the queue (bounded by maxQueueSize), never the stream buffer,
+ * and never blocks Logger.log.
+ */
+export class FileTransport implements Transport {
+    readonly name: string;
+    readonly rules?: TransportRules;
+
+    private readonly path: string;
+    private readonly formatter: (entry: LogEntry) => string;
+    private readonly maxSize?: number;
+    private readonly rotateDaily: boolean;
+    private readonly compress: boolean;
+    private readonly maxFiles?: number;
+    private readonly maxAgeDays?: number;
+    private readonly maxQueueSize: number;
+
+    private queue: QueuedLine[] = [];
+    private stream: WriteStream | null = null;
+    private size = 0;
+    private day = "";
+
+    /**
+     * Running writer loop — null when idle.
+     */
+    private writing: Promise<void> | null = null;
+
+    /**
+     * Compression and retention of rotated files — runs in the background,
+     * awaited by flush() and close().
+     */
+    private maintenance: Promise<void> = Promise.resolve();
+
+    private closed = false;
+
+    /**
+     * Time of the last rotation — rotated names must be unique and sort chronologically,
+     * even when two rotations happen within the same millisecond.
+     */
+    private lastRotation = 0;
+
+    constructor(options: FileTransportOptions) {
+        this.name = options.name ?? "file";
+        this.rules = options.rules;
+        this.path = options.path;
+        this.formatter = options.formatter ?? ndjsonFormatter();
+        this.maxSize = options.maxSize;
+        this.rotateDaily = options.rotateDaily ?? false;
+        this.compress = options.compress ?? false;
+        this.maxFiles = options.maxFiles;
+        this.maxAgeDays = options.maxAgeDays;
+        this.maxQueueSize = options.maxQueueSize ?? 10_000;
+    }
+
+    send(entry: LogEntry): Promise<void> {
+        if (this.closed) {
+            return Promise.reject(new TransportError(`FileTransport "${this.name}" is closed`));
+        }
+
+        if (this.queue.length >= this.maxQueueSize) {
+            return Promise.reject(new TransportError(
+                `FileTransport "${this.name}" queue is full (${this.maxQueueSize} lines) — disk cannot keep up`
+            ));
+        }
+
+        let line: string;
+        try {
+            line = this.formatter(entry) + "\n";
+        } catch (error) {
+            return Promise.reject(new TransportError("FileTransport failed to format entry", {cause: error}));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.queue.push({line, resolve, reject});
+            this.startWriting();
+        });
+    }
+
+    /**
+     * Resolves when everything queued so far is on disk and rotated files are processed.
+     */
+    async flush(): Promise<void> {
+        while (this.writing) await this.writing;
+        await this.maintenance;
+    }
+
+    /**
+     * Flushes and closes the file. Entries sent afterwards are rejected.
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        await this.flush();
+        await this.closeStream();
+    }
+
+    // ─── Writing ────────────────────────────────────────────────────────────────
+
+    private startWriting(): void {
+        if (this.writing) return;
+
+        this.writing = this.writeLoop().finally(() => {
+            this.writing = null;
+
+            // Lines queued after the loop's last check but before this callback ran
+            if (this.queue.length > 0) this.startWriting();
+        });
+    }
+
+    private async writeLoop(): Promise<void> {
+        while (this.queue.length > 0) {
+            const batch = this.queue;
+            this.queue = [];
+
+            const chunk = batch.map((queued) => queued.line).join("");
+
+            try {
+                await this.prepareStream(Buffer.byteLength(chunk));
+                await this.write(chunk);
+                batch.forEach((queued) => queued.resolve());
+            } catch (error) {
+                const transportError = new TransportError(
+                    `FileTransport failed to write ${batch.length} entries to "${this.path}"`,
+                    {cause: error}
+                );
+                batch.forEach((queued) => queued.reject(transportError));
+
+                // The stream may be broken — reopen it on the next write
+                await this.closeStream().catch(() => undefined);
+            }
+        }
+    }
+
+    private write(chunk: string): Promise<void> {
+        const stream = this.stream!;
+
+        return new Promise<void>((resolve, reject) => {
+            stream.write(chunk, (error) => (error ? reject(error) : resolve()));
+        }).then(() => {
+            this.size += Buffer.byteLength(chunk);
+        });
+    }
+
+    /**
+     * Opens the file if needed and rotates it first if the chunk would cross a limit.
+     */
+    private async prepareStream(chunkSize: number): Promise<void> {
+        if (!this.stream) await this.openStream();
+
+        const dayChanged = this.rotateDaily && currentDay() !== this.day;
+        const tooBig = this.maxSize !== undefined && this.size > 0 && this.size + chunkSize > this.maxSize;
+
+        if (dayChanged || tooBig) await this.rotate();
+    }
+
+    private async openStream(): Promise<void> {
+        await mkdir(dirname(this.path), {recursive: true});
+
+        const existing = await stat(this.path).catch(() => null);
+        this.size = existing?.size ?? 0;
+        this.day = existing ? dayOf(existing.mtime) : currentDay();
+
+        const stream = createWriteStream(this.path, {flags: "a"});
+
+        // Without a listener an "error" event crashes the process —
+        // the error itself reaches us through the write callback
+        stream.on("error", () => undefined);
+
+        await new Promise<void>((resolve, reject) => {
+            stream.once("open", () => resolve());
+            stream.once("error", reject);
+        });
+
+        this.stream = stream;
+    }
+
+    private async closeStream(): Promise<void> {
+        const stream = this.stream;
+        if (!stream) return;
+
+        this.stream = null;
+        await new Promise<void>((resolve) => stream.end(() => resolve()));
+    }
+
+    // ─── Rotation ───────────────────────────────────────────────────────────────
+
+    private async rotate(): Promise<void> {
+        await this.closeStream();
+
+        this.lastRotation = Math.max(Date.now(), this.lastRotation + 1);
+        const rotatedPath = this.rotatedPath(new Date(this.lastRotation));
+        await rename(this.path, rotatedPath);
+        await this.openStream();
+
+        this.maintenance = this.maintenance
+            .then(() => this.processRotated(rotatedPath))
+            .catch((error) => {
+                // Nobody awaits maintenance per entry — report it like Logger.dispatch does
+                console.error(`[FileTransport] Maintenance of rotated files failed:`, error);
+            });
+    }
+
+    private async processRotated(rotatedPath: string): Promise<void> {
+        if (this.compress) {
+            await pipeline(
+                createReadStream(rotatedPath),
+                createGzip(),
+                createWriteStream(`${rotatedPath}.gz`)
+            );
+            await unlink(rotatedPath);
+        }
+
+        await this.applyRetention();
+    }
+
+    /**
+     * Deletes rotated files beyond maxFiles and older than maxAgeDays.
+     */
+    private async applyRetention(): Promise<void> {
+        if (this.maxFiles === undefined && this.maxAgeDays === undefined) return;
+
+        const directory = dirname(this.path);
+        const pattern = this.rotatedPattern();
+
+        // Only names rotatedPath() writes — app.log.bak or application.log next to app.log are not ours
+        const rotated = (await readdir(directory))
+            .filter((file) => pattern.test(file))
+            // Timestamps in the names sort chronologically — newest first
+            .sort()
+            .reverse();
+
+        const maxAgeMs = this.maxAgeDays !== undefined ? this.maxAgeDays * 24 * 60 * 60 * 1000 : undefined;
+        const now = Date.now();
+
+        for (const [index, file] of rotated.entries()) {
+            const path = join(directory, file);
+            const beyondCount = this.maxFiles !== undefined && index >= this.maxFiles;
+            const tooOld = maxAgeMs !== undefined && now - (await stat(path)).mtimeMs > maxAgeMs;
+
+            if (beyondCount || tooOld) await unlink(path);
+        }
+    }
+
+    private rotatedPath(date: Date): string {
+        const {stem, extension} = this.nameParts();
+        const timestamp = date.toISOString().replace(/:/g, "-");
+
+        return join(dirname(this.path), `${stem}.${timestamp}${extension}`);
+    }
+
+    /**
+     * Matches the basenames rotatedPath() produces, gzipped or not.
+     */
+    private rotatedPattern(): RegExp {
+        const {stem, extension} = this.nameParts();
+        const timestamp = String.raw`\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.\d{3}Z`;
+
+        return new RegExp(`^${escapeRegExp(stem)}\\.${timestamp}${escapeRegExp(extension)}(?:\\.gz)?$`);
+    }
+
+    private nameParts(): { stem: string; extension: string } {
+        const extension = extname(this.path);
+        return {stem: basename(this.path, extension), extension};
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function currentDay(): string {
+    return dayOf(new Date());
+}
+
+function dayOf(date: Date): string {
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
@@ -0,0 +1,63 @@
+import {describe, expect, it, vi} from "vitest";
+import {FirstSuccessTransport} from "./FirstSuccessTransport";
+import {Transport, TransportError} from "./Transport";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+function createMockTransport(name: string, options: { fails?: boolean; rules?: Transport["rules"] } = {}) {
+    const entries: LogEntry[] = [];
+
+    const transport: Transport = {
+        name,
+        rules: options.rules,
+        send: vi.fn(async (entry: LogEntry) => {
+            if (options.fails) throw new Error(`${name} is down`);
+            entries.push(entry);
+        }),
+    };
+
+    return {transport, entries};
+}
+
+const entry = (level = LogLevel.ERROR) => createLogEntry({level, message: "Test"});
+
+describe("FirstSuccessTransport", () => {
+    it("should stop at the first transport that delivers", async () => {
+        const http = createMockTransport("http", {fails: true});
+        const file = createMockTransport("file");
+        const terminal = createMockTransport("console");
+
+        await new FirstSuccessTransport({transports: [http.transport, file.transport, terminal.transport]}).send(entry());
+
+        expect(http.transport.send).toHaveBeenCalledOnce();
+        expect(file.entries).toHaveLength(1);
+        expect(terminal.transport.send).not.toHaveBeenCalled();
+    });
+
+    it("should skip transports whose rules reject the entry", async () => {
+        const pager = createMockTransport("pager", {rules: {minLevel: LogLevel.FATAL}});
+        const file = createMockTransport("file");
+
+        await new FirstSuccessTransport({transports: [pager.transport, file.transport]}).send(entry());
+
+        expect(pager.transport.send).not.toHaveBeenCalled();
+        expect(file.entries).toHaveLength(1);
+    });
+
+    it("should reject with every error when all transports fail", async () => {
+        const chain = new FirstSuccessTransport({
+            name: "chain",
+            transports: [createMockTransport("http", {fails: true}).transport, createMockTransport("file", {fails: true}).transport],
+        });
+
+        const error = await chain.send(entry()).catch((reason: unknown) => reason);
+
+        expect(error).toBeInstanceOf(TransportError);
+        expect((error as TransportError).message).toBe("Every transport of FirstSuccessTransport \"chain\" failed");
+        expect(((error as TransportError).cause as AggregateError).errors).toHaveLength(2);
+    });
+
+    it("should need at least one transport", () => {
+        expect(() => new FirstSuccessTransport({transports: []})).toThrow("FirstSuccessTransport needs at least one transport.");
+    });
+});
@@ -0,0 +1,74 @@
+import {LogEntry} from "../core/LogEntry";
+import {Transport, TransportError} from "./Transport";
+import {acceptsEntry, TransportRules} from "./TransportRules";
+
+export interface FirstSuccessTransportOptions {
+    /**
+     * Tried one after another, in this order, until one delivers the entry.
+     */
+    transports: Transport[];
+
+    /**
+     * Unique transport name. Default: "first-success".
+     */
+    name?: string;
+
+    /**
+     * Routing rules of the whole chain — the rules of each transport still apply on top.
+     */
+    rules?: TransportRules;
+}
+
+/**
+ * A fallback chain — each entry goes to the first transport that accepts it,
+ * and on to the next one only if that fails: "the backend, else a local file, else the console".
+ *
+ * Why not a ResilientTransport with a fallback?
+ * That one also stops calling a transport that keeps failing. A chain tries every transport
+ * for every entry — wrap its members in ResilientTransports to get both.
+ */
+export class FirstSuccessTransport implements Transport {
+    readonly name: string;
+    readonly rules?: TransportRules;
+
+    private readonly transports: Transport[];
+
+    constructor(options: FirstSuccessTransportOptions) {
+        if (options.transports.length === 0) {
+            throw new Error("FirstSuccessTransport needs at least one transport.");
+        }
+
+        this.transports = [...options.transports];
+        this.name = options.name ?? "first-success";
+        this.rules = options.rules;
+    }
+
+    async send(entry: LogEntry): Promise<void> {
+        const errors: unknown[] = [];
+
+        for (const transport of this.transports) {
+            if (!acceptsEntry(transport.rules, entry)) continue;
+
+            try {
+                await transport.send(entry);
+                return;
+            } catch (error) {
+                errors.push(error);
+            }
+        }
+
+        if (errors.length === 0) return;
+
+        throw new TransportError(`Every transport of FirstSuccessTransport "${this.name}" failed`, {
+            cause: new AggregateError(errors),
+        });
+    }
+
+    async flush(): Promise<void> {
+        await Promise.all(this.transports.map((transport) => transport.flush?.()));
+    }
+
+    async close(): Promise<void> {
+        await Promise.all(this.transports.map((transport) => transport.close?.()));
+    }
+}
@@ -0,0 +1,267 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {HttpTransport, HttpTransportError} from "./HttpTransport";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {TransportError} from "./Transport";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Stand-in for fetch — records every request and answers with the given responses in order.
+ * The last response is repeated once the list runs out.
+ */
+function createFetchStub(...responses: Array<Response | Error>) {
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+
+    const fetchStub = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+        requests.push({url: String(url), init: init ?? {}});
+        const next = responses.length > 1 ? responses.shift()! : responses[0]!;
+
+        if (next instanceof Error) throw next;
+        return next.clone();
+    });
+
+    return {fetch: fetchStub as unknown as typeof fetch, requests};
+}
+
+function entry(message = "Test") {
+    return createLogEntry({level: LogLevel.ERROR, message});
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("HttpTransport", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("batching", () => {
+        it("should flush immediately when batch size is reached", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 2, fetch});
+
+            const sent = Promise.all([transport.send(entry("a")), transport.send(entry("b"))]);
+            await sent;
+
+            expect(requests).toHaveLength(1);
+            expect(JSON.parse(requests[0]!.init.body as string)).toHaveLength(2);
+        });
+
+        it("should flush after the interval if batch size is not reached", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const transport = new HttpTransport({url: "http://logs.local", flushInterval: 1000, fetch});
+
+            const sent = transport.send(entry());
+            expect(requests).toHaveLength(0);
+
+            await vi.advanceTimersByTimeAsync(1000);
+            await sent;
+
+            expect(requests).toHaveLength(1);
+        });
+
+        it("should send to the configured url with custom headers", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const transport = new HttpTransport({
+                url: "http://logs.local/ingest",
+                batchSize: 1,
+                headers: {Authorization: "Bearer token"},
+                fetch,
+            });
+
+            await transport.send(entry());
+
+            expect(requests[0]!.url).toBe("http://logs.local/ingest");
+            expect(requests[0]!.init.headers).toEqual({
+                "Content-Type": "application/json",
+                Authorization: "Bearer token",
+            });
+        });
+    });
+
+    describe("encoding", () => {
+        it("should serialize error objects in the default encoder", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, fetch});
+
+            await transport.send(createLogEntry({
+                level: LogLevel.ERROR,
+                message: "Test",
+                error: new TypeError("Card declined"),
+            }));
+
+            const [sent] = JSON.parse(requests[0]!.init.body as string);
+            expect(sent.error).toMatchObject({name: "TypeError", message: "Card declined"});
+        });
+
+        it("should send entries with BigInts and circular references in the context", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, fetch});
+            const context: Record<string, unknown> = {amount: 10n};
+            context.self = context;
+
+            await transport.send(createLogEntry({level: LogLevel.ERROR, message: "Test", context}));
+
+            const [sent] = JSON.parse(requests[0]!.init.body as string);
+            expect(sent.context).toEqual({amount: "10", self: "[Circular]"});
+        });
+
+        it("should reject with TransportError when the encoder throws", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const encoder = () => {
+                throw new TypeError("Do not know how to serialize a BigInt");
+            };
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, encoder, fetch});
+
+            await expect(transport.send(entry())).rejects.toThrow(TransportError);
+            expect(requests).toHaveLength(0);
+        });
+
+        it("should use a custom encoder if provided", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const encoder = vi.fn(() => "custom-body");
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, encoder, fetch});
+            const logEntry = entry();
+
+            await transport.send(logEntry);
+
+            expect(encoder).toHaveBeenCalledWith([logEntry]);
+            expect(requests[0]!.init.body).toBe("custom-body");
+        });
+    });
+
+    describe("retries", () => {
+        it("should retry on 5xx and succeed", async () => {
+            const {fetch, requests} = createFetchStub(
+                new Response(null, {status: 503}),
+                new Response(null, {status: 200})
+            );
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, fetch});
+
+            const sent = transport.send(entry());
+            await vi.runAllTimersAsync();
+            await sent;
+
+            expect(requests).toHaveLength(2);
+        });
+
+        it("should retry on network errors", async () => {
+            const {fetch, requests} = createFetchStub(
+                new Error("ECONNREFUSED"),
+                new Response(null, {status: 200})
+            );
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, fetch});
+
+            const sent = transport.send(entry());
+            await vi.runAllTimersAsync();
+            await sent;
+
+            expect(requests).toHaveLength(2);
+        });
+
+        it("should not retry on 4xx other than 408 and 429", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 400}));
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, fetch});
+
+            await expect(transport.send(entry())).rejects.toBeInstanceOf(HttpTransportError);
+            expect(requests).toHaveLength(1);
+        });
+
+        it("should honor Retry-After on 429", async () => {
+            const {fetch, requests} = createFetchStub(
+                new Response(null, {status: 429, headers: {"Retry-After": "10"}}),
+                new Response(null, {status: 200})
+            );
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, fetch});
+
+            const sent = transport.send(entry());
+
+            await vi.advanceTimersByTimeAsync(9_999);
+            expect(requests).toHaveLength(1);
+
+            await vi.advanceTimersByTimeAsync(1);
+            await sent;
+            expect(requests).toHaveLength(2);
+        });
+
+        it("should cap Retry-After at retryMaxDelay", async () => {
+            const {fetch, requests} = createFetchStub(
+                new Response(null, {status: 503, headers: {"Retry-After": "86400"}}),
+                new Response(null, {status: 200})
+            );
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, retryMaxDelay: 5000, fetch});
+
+            const sent = transport.send(entry());
+
+            await vi.advanceTimersByTimeAsync(5000);
+            await sent;
+            expect(requests).toHaveLength(2);
+        });
+
+        it("should reject with TransportError carrying the status after max retries", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 500}));
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, maxRetries: 2, fetch});
+
+            const sent = transport.send(entry());
+            const assertion = expect(sent).rejects.toSatisfy((error) =>
+                error instanceof TransportError && (error as HttpTransportError).status === 500
+            );
+            await vi.runAllTimersAsync();
+            await assertion;
+
+            expect(requests).toHaveLength(3);
+        });
+
+        it("should cancel the body of a failed response", async () => {
+            const response = new Response("Bad request", {status: 400});
+            const cancel = vi.spyOn(response.body!, "cancel");
+            const fetch = vi.fn(async () => response) as unknown as typeof globalThis.fetch;
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, fetch});
+
+            await expect(transport.send(entry())).rejects.toBeInstanceOf(HttpTransportError);
+            expect(cancel).toHaveBeenCalledTimes(1);
+        });
+
+        it("should abort a request that takes longer than requestTimeout", async () => {
+            vi.useRealTimers();
+            const fetch = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_, reject) => {
+                init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+            })) as unknown as typeof globalThis.fetch;
+            const transport = new HttpTransport({url: "http://logs.local", batchSize: 1, maxRetries: 0, requestTimeout: 20, fetch});
+
+            const error = await transport.send(entry()).catch((rejection: unknown) => rejection);
+
+            expect(error).toBeInstanceOf(HttpTransportError);
+            expect((error as HttpTransportError).cause).toMatchObject({name: "TimeoutError"});
+        });
+    });
+
+    describe("flush and close", () => {
+        it("should send buffered entries on flush without waiting for the interval", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const transport = new HttpTransport({url: "http://logs.local", flushInterval: 60_000, fetch});
+
+            const sent = transport.send(entry());
+            await transport.flush();
+            await sent;
+
+            expect(requests).toHaveLength(1);
+        });
+
+        it("should reject entries sent after close", async () => {
+            const {fetch, requests} = createFetchStub(new Response(null, {status: 200}));
+            const transport = new HttpTransport({url: "http://logs.local", fetch});
+
+            const sent = transport.send(entry("before"));
+            await transport.close();
+            await sent;
+
+            await expect(transport.send(entry("after"))).rejects.toBeInstanceOf(TransportError);
+            expect(requests).toHaveLength(1);
+        });
+    });
+});
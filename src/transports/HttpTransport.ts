@@ -0,0 +1,361 @@
+import {LogEntry} from "../core/LogEntry";
+import {Transport, TransportError} from "./Transport";
+import {TransportRules} from "./TransportRules";
+import {serializeEntry} from "../serializers/serializeEntry";
+import {unrefTimer} from "../core/unrefTimer";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Turns a batch of entries into a request body.
+ * Pluggable so the wire format can match whatever the receiving side expects.
+ */
+export type HttpBodyEncoder = (entries: readonly LogEntry[]) => string;
+
+export interface HttpTransportOptions {
+    /**
+     * Endpoint that receives the batches.
+     */
+    url: string;
+
+    /**
+     * Unique transport name — defaults to "http".
+     * Override it if you register more than one HttpTransport.
+     */
+    name?: string;
+
+    /**
+     * Routing rules — e.g. {minLevel: LogLevel.WARN} to send only warnings and errors.
+     */
+    rules?: TransportRules;
+
+    /**
+     * Extra request headers (e.g. Authorization).
+     * A function is called before every request — useful for tokens that expire.
+     */
+    headers?: Record<string, string> | (() => Record<string, string>);
+
+    /**
+     * Number of buffered entries that triggers an immediate flush. Default: 20.
+     */
+    batchSize?: number;
+
+    /**
+     * Maximum time in ms an entry waits in the buffer before being flushed. Default: 5000.
+     */
+    flushInterval?: number;
+
+    /**
+     * How many times a failed request is retried before giving up. Default: 3.
+     */
+    maxRetries?: number;
+
+    /**
+     * Base delay in ms for exponential backoff. Default: 500.
+     */
+    retryBaseDelay?: number;
+
+    /**
+     * Upper bound in ms for a single backoff delay, Retry-After included. Default: 30000.
+     */
+    retryMaxDelay?: number;
+
+    /**
+     * Time in ms a single request may take before it is aborted and retried like a network error.
+     * Default: 10000. Infinity never aborts.
+     */
+    requestTimeout?: number;
+
+    /**
+     * Body encoder — defaults to a JSON array with serialized errors.
+     */
+    encoder?: HttpBodyEncoder;
+
+    /**
+     * Content-Type header sent with every request. Default: "application/json".
+     */
+    contentType?: string;
+
+    /**
+     * fetch implementation — defaults to the global fetch.
+     * Injected so the transport can be pointed at a stand-in in tests.
+     */
+    fetch?: typeof fetch;
+}
+
+/**
+ * HttpTransportError — TransportError that also carries the HTTP status.
+ * Status is undefined when the request never got a response (network error).
+ */
+export class HttpTransportError extends TransportError {
+    readonly status?: number;
+
+    constructor(
+        message: string,
+        options?: { cause?: unknown; status?: number }
+    ) {
+        super(message, options);
+        this.name = "HttpTransportError";
+        this.status = options?.status;
+    }
+}
+
+/**
+ * Entry waiting in the buffer together with the callbacks of the send() promise.
+ */
+interface BufferedEntry {
+    entry: LogEntry;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+// ─── HttpTransport ────────────────────────────────────────────────────────────
+
+export class HttpTransport implements Transport {
+    readonly name: string;
+    readonly rules?: TransportRules;
+
+    private readonly url: string;
+    private readonly headers: HttpTransportOptions["headers"];
+    private readonly batchSize: number;
+    private readonly flushInterval: number;
+    private readonly maxRetries: number;
+    private readonly retryBaseDelay: number;
+    private readonly retryMaxDelay: number;
+    private readonly requestTimeout: number;
+    private readonly encoder: HttpBodyEncoder;
+    private readonly contentType: string;
+    private readonly fetchFn: typeof fetch;
+
+    private buffer: BufferedEntry[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private closed = false;
+
+    constructor(options: HttpTransportOptions) {
+        this.name = options.name ?? "http";
+        this.rules = options.rules;
+        this.url = options.url;
+        this.headers = options.headers;
+        this.batchSize = Math.max(1, options.batchSize ?? 20);
+        this.flushInterval = options.flushInterval ?? 5000;
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryBaseDelay = options.retryBaseDelay ?? 500;
+        this.retryMaxDelay = options.retryMaxDelay ?? 30_000;
+        this.requestTimeout = options.requestTimeout ?? 10_000;
+        this.encoder = options.encoder ?? defaultEncoder;
+        this.contentType = options.contentType ?? "application/json";
+        this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    }
+
+    /**
+     * Buffers the entry — the returned promise settles when the batch
+     * containing this entry is delivered or finally given up on.
+     *
+     * Why not resolve immediately?
+     * Logger.dispatch reports transport failures per entry. If we resolved
+     * right away, a batch that fails after all retries would fail silently.
+     */
+    send(entry: LogEntry): Promise<void> {
+        if (this.closed) {
+            return Promise.reject(new TransportError(`HttpTransport "${this.name}" is closed`));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.buffer.push({entry, resolve, reject});
+
+            if (this.buffer.length >= this.batchSize) {
+                void this.flushBuffer();
+            } else {
+                this.scheduleFlush();
+            }
+        });
+    }
+
+    /**
+     * Delivers everything in the buffer right away, without waiting for the interval.
+     * Resolves once those requests finished — delivery failures are reported through send().
+     */
+    flush(): Promise<void> {
+        return this.flushBuffer();
+    }
+
+    /**
+     * Flushes the buffer and stops accepting entries.
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        await this.flushBuffer();
+    }
+
+    // ─── Batching ───────────────────────────────────────────────────────────────
+
+    private scheduleFlush(): void {
+        if (this.timer) return;
+
+        this.timer = unrefTimer(setTimeout(() => {
+            this.timer = null;
+            void this.flushBuffer();
+        }, this.flushInterval));
+    }
+
+    private clearTimer(): void {
+        if (!this.timer) return;
+
+        clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Takes everything out of the buffer and delivers it in batches of batchSize.
+     * Never rejects — the outcome is reported through each entry's send() promise.
+     */
+    private async flushBuffer(): Promise<void> {
+        this.clearTimer();
+
+        const pending = this.buffer;
+        this.buffer = [];
+
+        const batches: BufferedEntry[][] = [];
+        for (let i = 0; i < pending.length; i += this.batchSize) {
+            batches.push(pending.slice(i, i + this.batchSize));
+        }
+
+        await Promise.all(batches.map((batch) => this.deliverBatch(batch)));
+    }
+
+    private async deliverBatch(batch: BufferedEntry[]): Promise<void> {
+        try {
+            await this.deliver(batch.map((buffered) => buffered.entry));
+            batch.forEach((buffered) => buffered.resolve());
+        } catch (error) {
+            batch.forEach((buffered) => buffered.reject(error));
+        }
+    }
+
+    // ─── Delivery ───────────────────────────────────────────────────────────────
+
+    /**
+     * Sends one batch, retrying with jittered exponential backoff.
+     *
+     * Retried: network errors, 408, 429 and 5xx.
+     * Not retried: every other status — a 400 or 401 will not fix itself.
+     */
+    private async deliver(entries: readonly LogEntry[]): Promise<void> {
+        let body: string;
+
+        try {
+            body = this.encoder(entries);
+        } catch (error) {
+            throw new TransportError(`HttpTransport failed to encode ${entries.length} entries`, {cause: error});
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            const isLastAttempt = attempt >= this.maxRetries;
+            let response: Response;
+
+            try {
+                response = await this.fetchFn(this.url, {
+                    method: "POST",
+                    headers: this.resolveHeaders(),
+                    body,
+                    signal: timeoutSignal(this.requestTimeout),
+                });
+            } catch (error) {
+                if (isLastAttempt) {
+                    throw new HttpTransportError(
+                        `HttpTransport failed to send ${entries.length} entries after ${attempt + 1} attempts`,
+                        {cause: error}
+                    );
+                }
+
+                await sleep(this.backoffDelay(attempt));
+                continue;
+            }
+
+            if (response.ok) return;
+
+            // An unread body holds on to its connection (undici keeps the socket until it is consumed)
+            void response.body?.cancel().catch(() => undefined);
+
+            if (isLastAttempt || !isRetryableStatus(response.status)) {
+                throw new HttpTransportError(
+                    `HttpTransport received status ${response.status} after ${attempt + 1} attempts`,
+                    {status: response.status}
+                );
+            }
+
+            await sleep(this.retryAfterDelay(response) ?? this.backoffDelay(attempt));
+        }
+    }
+
+    private resolveHeaders(): Record<string, string> {
+        const custom = typeof this.headers === "function" ? this.headers() : this.headers;
+
+        return {
+            "Content-Type": this.contentType,
+            ...custom,
+        };
+    }
+
+    /**
+     * Retry-After capped at retryMaxDelay — a server asking for a day must not
+     * hold the batch and flush() for a day.
+     */
+    private retryAfterDelay(response: Response): number | null {
+        const delay = parseRetryAfter(response.headers.get("Retry-After"));
+        return delay === null ? null : Math.min(delay, this.retryMaxDelay);
+    }
+
+    /**
+     * "Full jitter" backoff: random delay between 0 and base * 2^attempt (capped).
+     *
+     * Why jitter?
+     * Without it, every client that failed at the same moment retries at the same
+     * moment — and knocks the recovering backend over again.
+     */
+    private backoffDelay(attempt: number): number {
+        const ceiling = Math.min(this.retryMaxDelay, this.retryBaseDelay * 2 ** attempt);
+        return Math.random() * ceiling;
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function defaultEncoder(entries: readonly LogEntry[]): string {
+    return JSON.stringify(entries.map((entry) => serializeEntry(entry)));
+}
+
+/**
+ * AbortSignal.timeout() is missing in older browsers — requests there are not aborted.
+ */
+function timeoutSignal(ms: number): AbortSignal | undefined {
+    if (!Number.isFinite(ms) || typeof AbortSignal === "undefined" || typeof AbortSignal.timeout !== "function") {
+        return undefined;
+    }
+
+    return AbortSignal.timeout(ms);
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ * Returns the delay in ms, or null if the header is missing or unparseable.
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    if (Number.isNaN(date)) return null;
+
+    return Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => unrefTimer(setTimeout(resolve, ms)));
+}
@@ -0,0 +1,101 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {IDBFactory, IDBKeyRange} from "fake-indexeddb";
+import {IndexedDbQueueStorage} from "./IndexedDbQueueStorage";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {serializeEntry} from "../serializers/serializeEntry";
+
+function record(id: string) {
+    return {id, storedAt: Date.now(), entry: serializeEntry(createLogEntry({level: LogLevel.ERROR, message: id}))};
+}
+
+describe("IndexedDbQueueStorage", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should fall back to memory when IndexedDB is missing", async () => {
+        const storage = new IndexedDbQueueStorage();
+
+        await storage.push([record("a"), record("b")]);
+        await storage.shift(1);
+
+        expect((await storage.peek(10)).map((stored) => stored.id)).toEqual(["b"]);
+        expect(await storage.size()).toBe(1);
+    });
+
+    it("should fall back to memory and warn when IndexedDB cannot be opened", async () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const indexedDB = {
+            open: () => {
+                throw new Error("The operation is insecure");
+            },
+        } as unknown as IDBFactory;
+
+        const storage = new IndexedDbQueueStorage({indexedDB});
+        await storage.push([record("a")]);
+
+        expect(await storage.size()).toBe(1);
+        expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    describe("with IndexedDB", () => {
+        let indexedDB: IDBFactory;
+
+        beforeEach(() => {
+            indexedDB = new IDBFactory();
+            vi.stubGlobal("IDBKeyRange", IDBKeyRange);
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        const ids = async (storage: IndexedDbQueueStorage, limit = 10) =>
+            (await storage.peek(limit)).map((stored) => stored.id);
+
+        it("should keep records in queue order", async () => {
+            const storage = new IndexedDbQueueStorage({indexedDB});
+
+            await storage.push([record("a"), record("b")]);
+            await storage.push([record("c")]);
+
+            expect(await ids(storage)).toEqual(["a", "b", "c"]);
+            expect(await ids(storage, 2)).toEqual(["a", "b"]);
+            expect(await storage.size()).toBe(3);
+        });
+
+        it("should remove records from the head", async () => {
+            const storage = new IndexedDbQueueStorage({indexedDB});
+
+            await storage.push([record("a"), record("b"), record("c")]);
+            await storage.shift(2);
+            await storage.shift(0);
+
+            expect(await ids(storage)).toEqual(["c"]);
+        });
+
+        it("should keep records across sessions", async () => {
+            const first = new IndexedDbQueueStorage({indexedDB});
+            await first.push([record("a")]);
+            await first.close();
+
+            const second = new IndexedDbQueueStorage({indexedDB});
+
+            expect(await ids(second)).toEqual(["a"]);
+        });
+
+        it("should create its store in a database that already exists", async () => {
+            const warn = vi.spyOn(console, "warn");
+            const queue = new IndexedDbQueueStorage({indexedDB});
+            await queue.push([record("a")]);
+
+            const other = new IndexedDbQueueStorage({indexedDB, storeName: "other"});
+            await other.push([record("b")]);
+
+            expect(await ids(other)).toEqual(["b"]);
+            expect(await ids(queue)).toEqual(["a"]);
+            expect(warn).not.toHaveBeenCalled();
+        });
+    });
+});
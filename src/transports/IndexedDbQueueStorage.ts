@@ -0,0 +1,207 @@
+import {MemoryQueueStorage, QueuedRecord, QueueStorage} from "./QueueStorage";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface IndexedDbQueueStorageOptions {
+    /**
+     * Database name — give every queue its own. Default: "error-logging-service".
+     */
+    databaseName?: string;
+
+    /**
+     * Object store inside the database. Default: "queue".
+     */
+    storeName?: string;
+
+    /**
+     * IndexedDB implementation — defaults to globalThis.indexedDB.
+     */
+    indexedDB?: IDBFactory;
+}
+
+// ─── IndexedDbQueueStorage ────────────────────────────────────────────────────
+
+/**
+ * Keeps the queue in IndexedDB — survives page reloads and browser restarts.
+ *
+ * Falls back to memory when IndexedDB is missing (Node, workers without it)
+ * or cannot be opened (private browsing in some browsers, storage disabled),
+ * so QueuedTransport can use it as its default everywhere.
+ */
+export class IndexedDbQueueStorage implements QueueStorage {
+    private readonly databaseName: string;
+    private readonly storeName: string;
+    private readonly factory?: IDBFactory;
+
+    private backend: Promise<QueueStorage> | null = null;
+
+    constructor(options: IndexedDbQueueStorageOptions = {}) {
+        this.databaseName = options.databaseName ?? "error-logging-service";
+        this.storeName = options.storeName ?? "queue";
+        this.factory = options.indexedDB ?? (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    }
+
+    async push(records: readonly QueuedRecord[]): Promise<void> {
+        return (await this.open()).push(records);
+    }
+
+    async peek(limit: number): Promise<QueuedRecord[]> {
+        return (await this.open()).peek(limit);
+    }
+
+    async shift(count: number): Promise<void> {
+        return (await this.open()).shift(count);
+    }
+
+    async size(): Promise<number> {
+        return (await this.open()).size();
+    }
+
+    async close(): Promise<void> {
+        if (!this.backend) return;
+
+        const backend = await this.backend;
+        this.backend = null;
+        await backend.close?.();
+    }
+
+    /**
+     * Opens the database on first use — constructing the storage costs nothing.
+     */
+    private open(): Promise<QueueStorage> {
+        this.backend ??= this.connect();
+        return this.backend;
+    }
+
+    private async connect(): Promise<QueueStorage> {
+        if (!this.factory) return new MemoryQueueStorage();
+
+        try {
+            const database = await openDatabase(this.factory, this.databaseName, this.storeName);
+
+            // Another queue adds its store to the same database — let it, and reconnect on next use
+            database.onversionchange = () => {
+                database.close();
+                this.backend = null;
+            };
+
+            return new IndexedDbStore(database, this.storeName);
+        } catch (error) {
+            console.warn("[IndexedDbQueueStorage] IndexedDB is unavailable — queueing in memory:", error);
+            return new MemoryQueueStorage();
+        }
+    }
+}
+
+// ─── IndexedDB ────────────────────────────────────────────────────────────────
+
+/**
+ * Records are stored under auto-incremented keys, so key order is queue order.
+ */
+class IndexedDbStore implements QueueStorage {
+    private readonly database: IDBDatabase;
+    private readonly storeName: string;
+
+    constructor(database: IDBDatabase, storeName: string) {
+        this.database = database;
+        this.storeName = storeName;
+    }
+
+    push(records: readonly QueuedRecord[]): Promise<void> {
+        return this.transact("readwrite", (store) => {
+            for (const record of records) store.add(record);
+        });
+    }
+
+    async peek(limit: number): Promise<QueuedRecord[]> {
+        let records: QueuedRecord[] = [];
+
+        await this.transact("readonly", (store) => {
+            const request = store.getAll(null, limit);
+            request.onsuccess = () => {
+                records = request.result;
+            };
+        });
+
+        return records;
+    }
+
+    shift(count: number): Promise<void> {
+        if (count <= 0) return Promise.resolve();
+
+        // Both steps in one transaction — nothing can be added or removed in between
+        return this.transact("readwrite", (store) => {
+            const request = store.getAllKeys(null, count);
+            request.onsuccess = () => {
+                const keys = request.result;
+                if (keys.length > 0) store.delete(IDBKeyRange.bound(keys[0], keys[keys.length - 1]));
+            };
+        });
+    }
+
+    async size(): Promise<number> {
+        let size = 0;
+
+        await this.transact("readonly", (store) => {
+            const request = store.count();
+            request.onsuccess = () => {
+                size = request.result;
+            };
+        });
+
+        return size;
+    }
+
+    async close(): Promise<void> {
+        this.database.close();
+    }
+
+    /**
+     * Resolves once the transaction is committed — a request's own success
+     * does not yet mean its writes are durable.
+     */
+    private transact(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => void): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const transaction = this.database.transaction(this.storeName, mode);
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+
+            operation(transaction.objectStore(this.storeName));
+        });
+    }
+}
+
+/**
+ * Object stores can only be created during a version upgrade — when the database already exists
+ * without this store (another queue with its own storeName created it), it is reopened one version up.
+ */
+async function openDatabase(factory: IDBFactory, databaseName: string, storeName: string): Promise<IDBDatabase> {
+    let database = await openVersion(factory, databaseName, storeName);
+
+    while (!database.objectStoreNames.contains(storeName)) {
+        const version = database.version + 1;
+        database.close();
+        database = await openVersion(factory, databaseName, storeName, version);
+    }
+
+    return database;
+}
+
+/**
+ * Opens the given version, or the current one — a database that does not exist yet is created at version 1.
+ */
+function openVersion(factory: IDBFactory, databaseName: string, storeName: string, version?: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = version === undefined ? factory.open(databaseName) : factory.open(databaseName, version);
+
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(storeName)) {
+                request.result.createObjectStore(storeName, {autoIncrement: true});
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
@@ -0,0 +1,201 @@
+import {afterEach, beforeEach, describe, expect, it} from "vitest";
+import {createServer, IncomingHttpHeaders, Server} from "node:http";
+import {AddressInfo} from "node:net";
+import {otlpEncoder, OtlpExportLogsRequest, OtlpTransport, toOtlpLogRecord, toSeverityNumber} from "./OtlpTransport";
+import {createLogEntry} from "../core/LogEntry";
+import {defineLevels, LogLevel} from "../core/LogLevel";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+interface CapturedRequest {
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: OtlpExportLogsRequest;
+}
+
+/**
+ * Local stand-in for an OpenTelemetry collector — captures every request and answers 200.
+ */
+async function startCollector(): Promise<{ server: Server; url: string; requests: CapturedRequest[] }> {
+    const requests: CapturedRequest[] = [];
+
+    const server = createServer((request, response) => {
+        let body = "";
+        request.on("data", (chunk) => body += chunk);
+        request.on("end", () => {
+            requests.push({url: request.url ?? "", headers: request.headers, body: JSON.parse(body)});
+            response.writeHead(200, {"Content-Type": "application/json"}).end("{}");
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const {port} = server.address() as AddressInfo;
+
+    return {server, url: `http://127.0.0.1:${port}/v1/logs`, requests};
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("OtlpTransport", () => {
+    let collector: Awaited<ReturnType<typeof startCollector>>;
+
+    beforeEach(async () => {
+        collector = await startCollector();
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => collector.server.close(resolve));
+    });
+
+    it("should post a batch as one ExportLogsServiceRequest", async () => {
+        const transport = new OtlpTransport({
+            url: collector.url,
+            serviceName: "checkout",
+            serviceVersion: "1.4.0",
+            resourceAttributes: {"deployment.environment.name": "production"},
+            headers: {Authorization: "Bearer token"},
+        });
+
+        await Promise.all([
+            transport.send(createLogEntry({level: LogLevel.INFO, message: "first"})),
+            transport.send(createLogEntry({level: LogLevel.ERROR, message: "second"})),
+            transport.flush(),
+        ]);
+
+        expect(collector.requests).toHaveLength(1);
+
+        const [request] = collector.requests;
+        expect(request!.url).toBe("/v1/logs");
+        expect(request!.headers["content-type"]).toBe("application/json");
+        expect(request!.headers.authorization).toBe("Bearer token");
+
+        const [resourceLogs] = request!.body.resourceLogs;
+        expect(resourceLogs!.resource.attributes).toEqual([
+            {key: "service.name", value: {stringValue: "checkout"}},
+            {key: "service.version", value: {stringValue: "1.4.0"}},
+            {key: "deployment.environment.name", value: {stringValue: "production"}},
+        ]);
+        expect(resourceLogs!.scopeLogs[0]!.scope).toEqual({name: "error-logging-service"});
+        expect(resourceLogs!.scopeLogs[0]!.logRecords.map((record) => record.body)).toEqual([
+            {stringValue: "first"},
+            {stringValue: "second"},
+        ]);
+    });
+
+    it("should default service.name to unknown_service", async () => {
+        const transport = new OtlpTransport({url: collector.url, batchSize: 1});
+
+        await transport.send(createLogEntry({level: LogLevel.INFO, message: "Test"}));
+
+        expect(collector.requests[0]!.body.resourceLogs[0]!.resource.attributes).toEqual([
+            {key: "service.name", value: {stringValue: "unknown_service"}},
+        ]);
+    });
+
+    it("should be named otlp by default", () => {
+        expect(new OtlpTransport().name).toBe("otlp");
+    });
+});
+
+describe("otlpEncoder", () => {
+    it("should report named loggers as their own instrumentation scope", () => {
+        const entries = [
+            createLogEntry({level: LogLevel.INFO, message: "root"}),
+            createLogEntry({level: LogLevel.INFO, message: "first", logger: "payments.stripe"}),
+            createLogEntry({level: LogLevel.INFO, message: "second", logger: "payments.stripe"}),
+        ];
+
+        const request: OtlpExportLogsRequest = JSON.parse(otlpEncoder()(entries));
+
+        expect(request.resourceLogs[0]!.scopeLogs.map(({scope, logRecords}) => [scope.name, logRecords.length])).toEqual([
+            ["error-logging-service", 1],
+            ["payments.stripe", 2],
+        ]);
+    });
+});
+
+describe("toOtlpLogRecord", () => {
+    it("should map timestamp, severity, body, id and trace", () => {
+        const entry = {
+            ...createLogEntry({
+                id: "e1",
+                level: LogLevel.WARN,
+                message: "Slow query",
+                context: {traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7"},
+            }),
+            timestamp: new Date("2026-10-19T06:45:00.123Z"),
+        };
+
+        const record = toOtlpLogRecord(entry, new Date("2026-10-19T06:45:01.000Z"));
+
+        expect(record).toEqual({
+            timeUnixNano: "1792392300123000000",
+            observedTimeUnixNano: "1792392301000000000",
+            severityNumber: 13,
+            severityText: "WARN",
+            body: {stringValue: "Slow query"},
+            attributes: [{key: "log.record.uid", value: {stringValue: "e1"}}],
+            traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+            spanId: "00f067aa0ba902b7",
+        });
+    });
+
+    it("should map context to typed attributes", () => {
+        const entry = createLogEntry({
+            level: LogLevel.INFO,
+            message: "Test",
+            context: {orderId: "ord-1", attempt: 3, ratio: 0.5, retried: true, tags: ["a"], user: {id: 7}},
+        });
+
+        const attributes = toOtlpLogRecord(entry).attributes.slice(1);
+
+        expect(attributes).toEqual([
+            {key: "orderId", value: {stringValue: "ord-1"}},
+            {key: "attempt", value: {intValue: "3"}},
+            {key: "ratio", value: {doubleValue: 0.5}},
+            {key: "retried", value: {boolValue: true}},
+            {key: "tags", value: {arrayValue: {values: [{stringValue: "a"}]}}},
+            {key: "user", value: {kvlistValue: {values: [{key: "id", value: {intValue: "7"}}]}}},
+        ]);
+    });
+
+    it("should map the error to exception attributes", () => {
+        const error = new TypeError("Card declined");
+        const record = toOtlpLogRecord(createLogEntry({level: LogLevel.ERROR, message: "Payment failed", error}));
+
+        const attributes = Object.fromEntries(record.attributes.map(({key, value}) => [key, value]));
+        expect(attributes["exception.type"]).toEqual({stringValue: "TypeError"});
+        expect(attributes["exception.message"]).toEqual({stringValue: "Card declined"});
+        expect(attributes["exception.stacktrace"]).toEqual({stringValue: error.stack});
+    });
+
+    it("should not let context keys replace semantic-convention attributes", () => {
+        const entry = createLogEntry({
+            id: "e1",
+            level: LogLevel.ERROR,
+            message: "Payment failed",
+            error: new TypeError("Card declined"),
+            context: {"log.record.uid": "spoofed", "exception.type": "Spoofed", orderId: "ord-1"},
+        });
+
+        const attributes = toOtlpLogRecord(entry).attributes;
+
+        expect(attributes.filter(({key}) => key === "log.record.uid")).toEqual([{key: "log.record.uid", value: {stringValue: "e1"}}]);
+        expect(attributes.filter(({key}) => key === "exception.type")).toEqual([{key: "exception.type", value: {stringValue: "TypeError"}}]);
+        expect(attributes.at(-1)).toEqual({key: "orderId", value: {stringValue: "ord-1"}});
+    });
+});
+
+describe("toSeverityNumber", () => {
+    it("should map built-in levels to the start of their OpenTelemetry range", () => {
+        expect([LogLevel.TRACE, LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR, LogLevel.FATAL]
+            .map(toSeverityNumber)).toEqual([1, 5, 9, 13, 17, 21]);
+    });
+
+    it("should place custom levels inside the range below them", () => {
+        const {audit, panic} = defineLevels({audit: {value: 1.5}, panic: {value: 99}});
+
+        expect(toSeverityNumber(audit)).toBe(11);
+        expect(toSeverityNumber(panic)).toBe(24);
+    });
+});
@@ -0,0 +1,232 @@
+import {LogEntry} from "../core/LogEntry";
+import {levelLabel, LogLevel, nearestBuiltInLevel} from "../core/LogLevel";
+import {HttpBodyEncoder, HttpTransport, HttpTransportOptions} from "./HttpTransport";
+import {toSafeValue} from "../formatters/toSafeValue";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface OtlpTransportOptions extends Omit<HttpTransportOptions, "url" | "encoder" | "contentType"> {
+    /**
+     * OTLP/HTTP logs endpoint of the collector. Default: "http://localhost:4318/v1/logs".
+     */
+    url?: string;
+
+    /**
+     * service.name resource attribute — how the collector and backends identify the application.
+     * Default: "unknown_service", as the OpenTelemetry specification prescribes.
+     */
+    serviceName?: string;
+
+    /**
+     * service.version resource attribute.
+     */
+    serviceVersion?: string;
+
+    /**
+     * Further resource attributes — "deployment.environment.name", "host.name", ...
+     */
+    resourceAttributes?: Record<string, unknown>;
+}
+
+/**
+ * OTLP/JSON AnyValue — exactly one of the fields is set.
+ */
+export type OtlpAnyValue =
+    | { stringValue: string }
+    | { boolValue: boolean }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { arrayValue: { values: OtlpAnyValue[] } }
+    | { kvlistValue: { values: OtlpKeyValue[] } };
+
+export interface OtlpKeyValue {
+    key: string;
+    value: OtlpAnyValue;
+}
+
+export interface OtlpLogRecord {
+    timeUnixNano: string;
+    observedTimeUnixNano: string;
+    severityNumber: number;
+    severityText: string;
+    body: OtlpAnyValue;
+    attributes: OtlpKeyValue[];
+    traceId?: string;
+    spanId?: string;
+}
+
+/**
+ * The body of every request — one resource, one scope per logger name, the whole batch.
+ */
+export interface OtlpExportLogsRequest {
+    resourceLogs: {
+        resource: { attributes: OtlpKeyValue[] };
+        scopeLogs: {
+            scope: { name: string };
+            logRecords: OtlpLogRecord[];
+        }[];
+    }[];
+}
+
+/**
+ * Scope (instrumentation library) of entries from a root logger — a named logger is its own scope,
+ * the way OpenTelemetry log bridges map logger names.
+ */
+const SCOPE = {name: "error-logging-service"};
+
+/**
+ * Severity numbers of the OpenTelemetry log data model — each built-in level
+ * starts a range of four (TRACE 1-4, DEBUG 5-8, ..., FATAL 21-24).
+ */
+const SEVERITY_NUMBERS: Record<LogLevel, number> = {
+    [LogLevel.TRACE]: 1,
+    [LogLevel.DEBUG]: 5,
+    [LogLevel.INFO]: 9,
+    [LogLevel.WARN]: 13,
+    [LogLevel.ERROR]: 17,
+    [LogLevel.FATAL]: 21,
+};
+
+// ─── OtlpTransport ────────────────────────────────────────────────────────────
+
+/**
+ * Exports entries to an OpenTelemetry collector over OTLP/HTTP with JSON encoding.
+ *
+ * Batching, retries and backoff are HttpTransport's — only the wire format differs:
+ * every batch is one ExportLogsServiceRequest.
+ *
+ * @example
+ * new OtlpTransport({
+ *     url: "https://otel-collector.internal:4318/v1/logs",
+ *     serviceName: "checkout",
+ *     resourceAttributes: {"deployment.environment.name": "production"},
+ * })
+ */
+export class OtlpTransport extends HttpTransport {
+    constructor(options: OtlpTransportOptions = {}) {
+        const {serviceName, serviceVersion, resourceAttributes, ...httpOptions} = options;
+
+        super({
+            ...httpOptions,
+            name: options.name ?? "otlp",
+            url: options.url ?? "http://localhost:4318/v1/logs",
+            contentType: "application/json",
+            encoder: otlpEncoder({
+                "service.name": serviceName ?? "unknown_service",
+                ...(serviceVersion !== undefined ? {"service.version": serviceVersion} : {}),
+                ...resourceAttributes,
+            }),
+        });
+    }
+}
+
+// ─── Encoding ─────────────────────────────────────────────────────────────────
+
+/**
+ * Body encoder producing an ExportLogsServiceRequest — usable with a plain HttpTransport too.
+ */
+export function otlpEncoder(resourceAttributes: Record<string, unknown> = {}): HttpBodyEncoder {
+    const resource = {attributes: toKeyValues(resourceAttributes)};
+
+    return (entries) => {
+        const scopes = new Map<string, OtlpLogRecord[]>();
+
+        for (const entry of entries) {
+            const name = entry.logger ?? SCOPE.name;
+            const records = scopes.get(name) ?? [];
+
+            records.push(toOtlpLogRecord(entry));
+            scopes.set(name, records);
+        }
+
+        const request: OtlpExportLogsRequest = {
+            resourceLogs: [{
+                resource,
+                scopeLogs: [...scopes].map(([name, logRecords]) => ({scope: {name}, logRecords})),
+            }],
+        };
+
+        return JSON.stringify(request);
+    };
+}
+
+/**
+ * Maps an entry to the OpenTelemetry log data model.
+ *
+ * - the message becomes the body, the level label the severity text
+ * - context becomes attributes, nested objects become kvlists
+ * - the error becomes exception.type / exception.message / exception.stacktrace
+ * - entry.id becomes log.record.uid, traceId and spanId are carried over
+ *
+ * The semantic-convention attributes win over context keys of the same name —
+ * a context field called "exception.type" must not disguise the actual error.
+ * entry.logger is not an attribute: otlpEncoder reports it as the instrumentation scope.
+ */
+export function toOtlpLogRecord(entry: LogEntry, observedAt = new Date()): OtlpLogRecord {
+    const semantic: Record<string, unknown> = {
+        "log.record.uid": entry.id,
+        ...(entry.error ? {
+            "exception.type": entry.error.name,
+            "exception.message": entry.error.message,
+            ...(entry.error.stack ? {"exception.stacktrace": entry.error.stack} : {}),
+        } : {}),
+    };
+
+    const attributes = [
+        ...toKeyValues(semantic),
+        ...toKeyValues(entry.context ?? {}).filter(({key}) => !Object.hasOwn(semantic, key)),
+    ];
+
+    return {
+        timeUnixNano: toUnixNano(entry.timestamp),
+        observedTimeUnixNano: toUnixNano(observedAt),
+        severityNumber: toSeverityNumber(entry.level),
+        severityText: levelLabel(entry.level),
+        body: {stringValue: entry.message},
+        attributes,
+        ...(entry.traceId ? {traceId: entry.traceId} : {}),
+        ...(entry.spanId ? {spanId: entry.spanId} : {}),
+    };
+}
+
+/**
+ * Custom levels land inside the range of the closest built-in level below them,
+ * in proportion to how far above it they are — an AUDIT level at 1.5 becomes 11 (INFO3).
+ */
+export function toSeverityNumber(level: LogLevel): number {
+    const base = nearestBuiltInLevel(level);
+    const offset = Math.floor((level - base) * 4);
+
+    return SEVERITY_NUMBERS[base] + Math.max(0, Math.min(3, offset));
+}
+
+function toKeyValues(record: Record<string, unknown>): OtlpKeyValue[] {
+    return Object.entries(record)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({key, value: toAnyValue(toSafeValue(value))}));
+}
+
+/**
+ * Expects a value already made safe by toSafeValue — no cycles, no BigInts, no Maps.
+ */
+function toAnyValue(value: unknown): OtlpAnyValue {
+    if (typeof value === "string") return {stringValue: value};
+    if (typeof value === "boolean") return {boolValue: value};
+
+    if (typeof value === "number") {
+        // int64 is a string in OTLP/JSON — JavaScript numbers lose precision beyond 2^53
+        return Number.isSafeInteger(value) ? {intValue: String(value)} : {doubleValue: value};
+    }
+
+    if (Array.isArray(value)) return {arrayValue: {values: value.map(toAnyValue)}};
+
+    if (value !== null && typeof value === "object") {
+        return {kvlistValue: {values: toKeyValues(value as Record<string, unknown>)}};
+    }
+
+    return {stringValue: String(value)};
+}
+
+function toUnixNano(date: Date): string {
+    return (BigInt(date.getTime()) * 1_000_000n).toString();
+}
@@ -0,0 +1,83 @@
+import {SerializedLogEntry} from "../serializers/serializeEntry";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * One undelivered entry as QueuedTransport persists it.
+ * The entry is serialized — storages must be able to keep it as JSON.
+ */
+export interface QueuedRecord {
+    /**
+     * Unique id — lets the queue check that the records it delivered are still the oldest
+     * before removing them (eviction may have removed them in between).
+     */
+    readonly id: string;
+
+    /**
+     * When the record was stored (ms since epoch) — used for age-based eviction.
+     */
+    readonly storedAt: number;
+
+    readonly entry: SerializedLogEntry;
+}
+
+/**
+ * Where QueuedTransport keeps undelivered entries — a FIFO queue.
+ *
+ * Why such a small interface?
+ * Head-only removal is all a delivery queue needs, and it maps onto every backend:
+ * an array, an append-only file with a read offset, an auto-incremented IndexedDB store.
+ * Implement it to persist the queue anywhere else (localStorage, SQLite, ...).
+ */
+export interface QueueStorage {
+    /**
+     * Appends records at the end of the queue.
+     */
+    push(records: readonly QueuedRecord[]): Promise<void>;
+
+    /**
+     * Returns up to limit records from the head of the queue, oldest first, without removing them.
+     */
+    peek(limit: number): Promise<QueuedRecord[]>;
+
+    /**
+     * Removes count records from the head of the queue.
+     */
+    shift(count: number): Promise<void>;
+
+    /**
+     * Number of records in the queue.
+     */
+    size(): Promise<number>;
+
+    /**
+     * Releases file handles or database connections. Stored records are kept.
+     */
+    close?(): Promise<void>;
+}
+
+// ─── MemoryQueueStorage ───────────────────────────────────────────────────────
+
+/**
+ * Keeps the queue in memory — survives outages, not restarts.
+ * The fallback when nothing durable is available, and the storage to use in tests.
+ */
+export class MemoryQueueStorage implements QueueStorage {
+    private records: QueuedRecord[] = [];
+
+    async push(records: readonly QueuedRecord[]): Promise<void> {
+        this.records.push(...records);
+    }
+
+    async peek(limit: number): Promise<QueuedRecord[]> {
+        return this.records.slice(0, limit);
+    }
+
+    async shift(count: number): Promise<void> {
+        this.records.splice(0, count);
+    }
+
+    async size(): Promise<number> {
+        return this.records.length;
+    }
+}
@@ -0,0 +1,281 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {QueuedTransport} from "./QueuedTransport";
+import {MemoryQueueStorage, QueueStorage} from "./QueueStorage";
+import {Transport, TransportError} from "./Transport";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+import {serializeEntry} from "../serializers/serializeEntry";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Transport that fails while offline is set and records the messages it delivered.
+ */
+function createTransportStub() {
+    const state = {offline: false, delivered: [] as LogEntry[]};
+
+    const transport: Transport = {
+        name: "remote",
+        rules: {minLevel: LogLevel.WARN},
+        send: vi.fn(async (entry: LogEntry) => {
+            if (state.offline) throw new Error("Network down");
+            state.delivered.push(entry);
+        }),
+    };
+
+    return {transport, state, messages: () => state.delivered.map((entry) => entry.message)};
+}
+
+function entry(message = "Test") {
+    return createLogEntry({level: LogLevel.ERROR, message});
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("QueuedTransport", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should take name and rules from the wrapped transport", () => {
+        const {transport} = createTransportStub();
+        const queued = new QueuedTransport({transport, storage: new MemoryQueueStorage()});
+
+        expect(queued.name).toBe("remote");
+        expect(queued.rules).toEqual({minLevel: LogLevel.WARN});
+    });
+
+    it("should send directly while the transport works", async () => {
+        const {transport, messages} = createTransportStub();
+        const storage = new MemoryQueueStorage();
+        const queued = new QueuedTransport({transport, storage});
+
+        await queued.send(entry("direct"));
+
+        expect(messages()).toEqual(["direct"]);
+        expect(await storage.size()).toBe(0);
+    });
+
+    it("should store the entry and resolve when the transport fails", async () => {
+        const {transport, state} = createTransportStub();
+        const storage = new MemoryQueueStorage();
+        const queued = new QueuedTransport({transport, storage});
+        state.offline = true;
+
+        await expect(queued.send(entry("offline"))).resolves.toBeUndefined();
+
+        const [record] = await storage.peek(1);
+        expect(record!.entry.message).toBe("offline");
+    });
+
+    describe("replay", () => {
+        it("should replay stored entries once the transport recovers", async () => {
+            const {transport, state, messages} = createTransportStub();
+            const storage = new MemoryQueueStorage();
+            const queued = new QueuedTransport({transport, storage, retryInterval: 1000});
+
+            state.offline = true;
+            await queued.send(entry("first"));
+            await queued.send(entry("second"));
+
+            state.offline = false;
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(messages()).toEqual(["first", "second"]);
+            expect(await storage.size()).toBe(0);
+        });
+
+        it("should queue new entries behind stored ones to keep the order", async () => {
+            const {transport, state, messages} = createTransportStub();
+            const queued = new QueuedTransport({transport, storage: new MemoryQueueStorage(), retryInterval: 1000});
+
+            state.offline = true;
+            await queued.send(entry("first"));
+
+            state.offline = false;
+            await queued.send(entry("second"));
+            expect(messages()).toEqual([]);
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(messages()).toEqual(["first", "second"]);
+        });
+
+        it("should keep entries stored and retry while the transport still fails", async () => {
+            const {transport, state, messages} = createTransportStub();
+            const storage = new MemoryQueueStorage();
+            const queued = new QueuedTransport({transport, storage, retryInterval: 1000});
+
+            state.offline = true;
+            await queued.send(entry("waiting"));
+            await vi.advanceTimersByTimeAsync(3000);
+
+            expect(await storage.size()).toBe(1);
+
+            state.offline = false;
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(messages()).toEqual(["waiting"]);
+        });
+
+        it("should replay entries stored by a previous session", async () => {
+            const {transport, messages} = createTransportStub();
+            const storage = new MemoryQueueStorage();
+            await storage.push([{id: "1", storedAt: Date.now(), entry: serializeEntry(entry("left over"))}]);
+
+            new QueuedTransport({transport, storage});
+            await vi.advanceTimersByTimeAsync(0);
+
+            expect(messages()).toEqual(["left over"]);
+        });
+
+        it("should restore timestamps and errors of replayed entries", async () => {
+            const {transport, state} = createTransportStub();
+            const queued = new QueuedTransport({transport, storage: new MemoryQueueStorage()});
+            const original = createLogEntry({level: LogLevel.ERROR, message: "Failed", error: new TypeError("Boom")});
+
+            state.offline = true;
+            await queued.send(original);
+            state.offline = false;
+            await queued.flush();
+
+            const [replayed] = state.delivered;
+            expect(replayed!.timestamp).toEqual(original.timestamp);
+            expect(replayed!.error).toBeInstanceOf(Error);
+            expect(replayed!.error!.name).toBe("TypeError");
+            expect(replayed!.error!.message).toBe("Boom");
+        });
+
+        it("should replay in batches of batchSize", async () => {
+            const {transport, state, messages} = createTransportStub();
+            const queued = new QueuedTransport({transport, storage: new MemoryQueueStorage(), batchSize: 2});
+
+            state.offline = true;
+            for (const message of ["a", "b", "c", "d", "e"]) await queued.send(entry(message));
+
+            state.offline = false;
+            await queued.flush();
+
+            expect(messages()).toEqual(["a", "b", "c", "d", "e"]);
+        });
+
+        it("should replay immediately when the browser goes online", async () => {
+            const listeners = new Map<string, () => void>();
+            vi.stubGlobal("addEventListener", (type: string, listener: () => void) => listeners.set(type, listener));
+            vi.stubGlobal("removeEventListener", (type: string) => listeners.delete(type));
+
+            try {
+                const {transport, state, messages} = createTransportStub();
+                const queued = new QueuedTransport({transport, storage: new MemoryQueueStorage(), retryInterval: 60_000});
+
+                state.offline = true;
+                await queued.send(entry("offline"));
+
+                state.offline = false;
+                listeners.get("online")!();
+                await vi.advanceTimersByTimeAsync(0);
+
+                expect(messages()).toEqual(["offline"]);
+
+                await queued.close();
+                expect(listeners.has("online")).toBe(false);
+            } finally {
+                vi.unstubAllGlobals();
+            }
+        });
+    });
+
+    describe("eviction", () => {
+        it("should evict the oldest entries when maxEntries is reached", async () => {
+            const {transport, state} = createTransportStub();
+            const storage = new MemoryQueueStorage();
+            const onEvict = vi.fn();
+            const queued = new QueuedTransport({transport, storage, maxEntries: 2, onEvict});
+
+            state.offline = true;
+            for (const message of ["a", "b", "c"]) await queued.send(entry(message));
+
+            const records = await storage.peek(10);
+            expect(records.map((record) => record.entry.message)).toEqual(["b", "c"]);
+            expect(onEvict).toHaveBeenCalledWith(1, "size");
+        });
+
+        it("should reject new entries with drop-newest when the queue is full", async () => {
+            const {transport, state} = createTransportStub();
+            const storage = new MemoryQueueStorage();
+            const queued = new QueuedTransport({transport, storage, maxEntries: 1, overflow: "drop-newest"});
+
+            state.offline = true;
+            await queued.send(entry("kept"));
+
+            await expect(queued.send(entry("dropped"))).rejects.toThrow(TransportError);
+            expect((await storage.peek(10)).map((record) => record.entry.message)).toEqual(["kept"]);
+        });
+
+        it("should evict entries older than maxAgeMs", async () => {
+            const {transport, state} = createTransportStub();
+            const storage = new MemoryQueueStorage();
+            const onEvict = vi.fn();
+            const queued = new QueuedTransport({transport, storage, maxAgeMs: 10_000, retryInterval: 60_000, onEvict});
+
+            state.offline = true;
+            await queued.send(entry("old"));
+            vi.setSystemTime(Date.now() + 20_000);
+            await queued.send(entry("new"));
+
+            expect((await storage.peek(10)).map((record) => record.entry.message)).toEqual(["new"]);
+            expect(onEvict).toHaveBeenCalledWith(1, "age");
+        });
+    });
+
+    describe("flush and close", () => {
+        it("should replay stored entries on flush", async () => {
+            const {transport, state, messages} = createTransportStub();
+            const queued = new QueuedTransport({transport, storage: new MemoryQueueStorage(), retryInterval: 60_000});
+
+            state.offline = true;
+            await queued.send(entry("stored"));
+
+            state.offline = false;
+            await queued.flush();
+
+            expect(messages()).toEqual(["stored"]);
+        });
+
+        it("should keep undelivered entries stored on close", async () => {
+            const {transport, state} = createTransportStub();
+            const storage = new MemoryQueueStorage();
+            const queued = new QueuedTransport({transport, storage});
+
+            state.offline = true;
+            await queued.send(entry("undelivered"));
+            await queued.close();
+
+            expect(await storage.size()).toBe(1);
+        });
+
+        it("should reject entries sent after close", async () => {
+            const {transport} = createTransportStub();
+            const queued = new QueuedTransport({transport, storage: new MemoryQueueStorage()});
+
+            await queued.close();
+
+            await expect(queued.send(entry())).rejects.toThrow(TransportError);
+        });
+
+        it("should close the wrapped transport and the storage", async () => {
+            const {transport} = createTransportStub();
+            const storage: QueueStorage = new MemoryQueueStorage();
+            transport.close = vi.fn(async () => {});
+            storage.close = vi.fn(async () => {});
+
+            await new QueuedTransport({transport, storage}).close();
+
+            expect(transport.close).toHaveBeenCalled();
+            expect(storage.close).toHaveBeenCalled();
+        });
+    });
+});
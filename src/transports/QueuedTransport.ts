@@ -0,0 +1,354 @@
+import {LogEntry} from "../core/LogEntry";
+import {Transport, TransportError} from "./Transport";
+import {TransportRules} from "./TransportRules";
+import {QueuedRecord, QueueStorage} from "./QueueStorage";
+import {IndexedDbQueueStorage} from "./IndexedDbQueueStorage";
+import {serializeEntry} from "../serializers/serializeEntry";
+import {deserializeEntry} from "../serializers/deserializeEntry";
+import {unrefTimer} from "../core/unrefTimer";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type QueueOverflow =
+    | "drop-oldest"  // evict the oldest stored entries to make room
+    | "drop-newest"; // reject the new entry
+
+export type QueueEvictionReason = "size" | "age";
+
+export interface QueuedTransportOptions {
+    /**
+     * The transport that delivers entries — usually an HttpTransport.
+     */
+    transport: Transport;
+
+    /**
+     * Where undelivered entries are kept.
+     * Default: IndexedDbQueueStorage — IndexedDB in browsers, memory where IndexedDB is missing.
+     * In Node use FileQueueStorage from "error-logging-service/node".
+     */
+    storage?: QueueStorage;
+
+    /**
+     * Unique transport name — defaults to the wrapped transport's name,
+     * so wrapping does not change how the transport is addressed.
+     */
+    name?: string;
+
+    /**
+     * Routing rules — default to the wrapped transport's rules.
+     */
+    rules?: TransportRules;
+
+    /**
+     * Maximum number of stored entries. Default: 10000.
+     */
+    maxEntries?: number;
+
+    /**
+     * Stored entries older than this are evicted. Default: 86400000 ms (24 hours).
+     */
+    maxAgeMs?: number;
+
+    /**
+     * What happens when the queue is full. Default: "drop-oldest".
+     */
+    overflow?: QueueOverflow;
+
+    /**
+     * Delay before the next replay attempt after a failed one. Default: 5000 ms.
+     */
+    retryInterval?: number;
+
+    /**
+     * How many stored entries are replayed at once. Default: 50.
+     */
+    batchSize?: number;
+
+    /**
+     * Called when stored entries are evicted — they are lost for good.
+     */
+    onEvict?: (count: number, reason: QueueEvictionReason) => void;
+}
+
+// ─── QueuedTransport ──────────────────────────────────────────────────────────
+
+/**
+ * Wraps a transport and persists the entries it fails to deliver,
+ * then replays them in order once the transport works again.
+ *
+ * How does it keep the order?
+ * As long as anything is stored, new entries are stored behind it instead of being sent
+ * directly. Replay sends the stored entries oldest first and removes them only after
+ * delivery — a crash in between means a duplicate, never a loss (at-least-once).
+ *
+ * send() resolves once the entry is delivered OR safely stored, so the Logger
+ * no longer reports outages entry by entry.
+ */
+export class QueuedTransport implements Transport {
+    readonly name: string;
+    readonly rules?: TransportRules;
+
+    private readonly transport: Transport;
+    private readonly storage: QueueStorage;
+    private readonly maxEntries: number;
+    private readonly maxAgeMs: number;
+    private readonly overflow: QueueOverflow;
+    private readonly retryInterval: number;
+    private readonly batchSize: number;
+    private readonly onEvict?: (count: number, reason: QueueEvictionReason) => void;
+
+    /**
+     * Does the storage hold entries? New entries then queue up behind them.
+     */
+    private backlog = false;
+
+    /**
+     * Resolves once entries stored by a previous session are known.
+     */
+    private readonly ready: Promise<void>;
+
+    /**
+     * Storage operations that read and then modify the queue run one at a time.
+     */
+    private lock: Promise<unknown> = Promise.resolve();
+
+    private replaying: Promise<void> | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private closed = false;
+
+    constructor(options: QueuedTransportOptions) {
+        this.transport = options.transport;
+        this.name = options.name ?? options.transport.name;
+        this.rules = options.rules ?? options.transport.rules;
+        this.storage = options.storage ?? new IndexedDbQueueStorage();
+        this.maxEntries = options.maxEntries ?? 10_000;
+        this.maxAgeMs = options.maxAgeMs ?? 24 * 60 * 60 * 1000;
+        this.overflow = options.overflow ?? "drop-oldest";
+        this.retryInterval = options.retryInterval ?? 5000;
+        this.batchSize = options.batchSize ?? 50;
+        this.onEvict = options.onEvict;
+
+        // Entries left over from the last session are replayed right away
+        this.ready = this.storage.size().then((size) => {
+            if (size === 0) return;
+
+            this.backlog = true;
+            this.scheduleReplay(0);
+        }).catch((error) => {
+            console.error(`[QueuedTransport] Failed to read the queue of "${this.name}":`, error);
+        });
+
+        (globalThis as { addEventListener?: (type: string, listener: () => void) => void })
+            .addEventListener?.("online", this.onOnline);
+    }
+
+    async send(entry: LogEntry): Promise<void> {
+        if (this.closed) {
+            throw new TransportError(`QueuedTransport "${this.name}" is closed`);
+        }
+
+        await this.ready;
+
+        if (!this.backlog) {
+            try {
+                await this.transport.send(entry);
+                return;
+            } catch {
+                // Not delivered — stored below and replayed later
+            }
+        }
+
+        await this.persist(entry);
+    }
+
+    /**
+     * Tries to replay stored entries once, then flushes the wrapped transport.
+     * Entries that still cannot be delivered stay stored.
+     */
+    async flush(): Promise<void> {
+        await this.ready;
+        if (this.backlog) await this.replay();
+        await this.transport.flush?.();
+    }
+
+    /**
+     * Flushes, then closes the wrapped transport and the storage.
+     * Undelivered entries stay stored for the next session.
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+
+        this.closed = true;
+        this.clearTimer();
+        (globalThis as { removeEventListener?: (type: string, listener: () => void) => void })
+            .removeEventListener?.("online", this.onOnline);
+
+        await this.flush();
+        await this.transport.close?.();
+        await this.storage.close?.();
+    }
+
+    // ─── Storing ────────────────────────────────────────────────────────────────
+
+    private async persist(entry: LogEntry): Promise<void> {
+        const record: QueuedRecord = {id: createId(), storedAt: Date.now(), entry: serializeEntry(entry)};
+
+        try {
+            await this.exclusive(async () => {
+                await this.evictExpired();
+
+                const size = await this.storage.size();
+                if (size >= this.maxEntries) {
+                    if (this.overflow === "drop-newest") {
+                        throw new TransportError(`QueuedTransport "${this.name}" queue is full (${this.maxEntries} entries)`);
+                    }
+
+                    const evicted = size - this.maxEntries + 1;
+                    await this.storage.shift(evicted);
+                    this.onEvict?.(evicted, "size");
+                }
+
+                await this.storage.push([record]);
+                this.backlog = true;
+            });
+        } catch (error) {
+            if (error instanceof TransportError) throw error;
+            throw new TransportError(`QueuedTransport "${this.name}" failed to store an entry`, {cause: error});
+        }
+
+        this.scheduleReplay();
+    }
+
+    /**
+     * Removes expired records from the head — records are stored in time order,
+     * so the first one that is not expired ends the search.
+     */
+    private async evictExpired(): Promise<void> {
+        const cutoff = Date.now() - this.maxAgeMs;
+        let evicted = 0;
+
+        for (;;) {
+            const head = await this.storage.peek(this.batchSize);
+            const expired = countWhile(head, (record) => record.storedAt < cutoff);
+            if (expired === 0) break;
+
+            await this.storage.shift(expired);
+            evicted += expired;
+
+            if (expired < head.length) break;
+        }
+
+        if (evicted > 0) this.onEvict?.(evicted, "age");
+    }
+
+    private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.lock.then(operation);
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+
+    // ─── Replay ─────────────────────────────────────────────────────────────────
+
+    private readonly onOnline = () => {
+        if (this.backlog) void this.replay();
+    };
+
+    private scheduleReplay(delay = this.retryInterval): void {
+        if (this.timer || this.closed) return;
+
+        this.timer = unrefTimer(setTimeout(() => {
+            this.timer = null;
+            void this.replay();
+        }, delay));
+    }
+
+    private clearTimer(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * One replay at a time — a second caller waits for the running one.
+     */
+    private replay(): Promise<void> {
+        this.replaying ??= this.replayLoop()
+            .catch((error) => {
+                console.error(`[QueuedTransport] Replay of "${this.name}" failed:`, error);
+                this.scheduleReplay();
+            })
+            .finally(() => {
+                this.replaying = null;
+            });
+
+        return this.replaying;
+    }
+
+    private async replayLoop(): Promise<void> {
+        this.clearTimer();
+
+        for (;;) {
+            // Peeked under the lock — an entry persisted between the peek and clearing backlog would be stranded
+            const records = await this.exclusive(async () => {
+                await this.evictExpired();
+
+                const head = await this.storage.peek(this.batchSize);
+                if (head.length === 0) this.backlog = false;
+
+                return head;
+            });
+            if (records.length === 0) return;
+
+            const delivered = await this.deliver(records);
+            await this.exclusive(() => this.removeDelivered(records.slice(0, delivered)));
+
+            if (delivered < records.length) {
+                this.scheduleReplay();
+                return;
+            }
+        }
+    }
+
+    /**
+     * Sends a batch and returns how many records, counted from the oldest, were delivered.
+     *
+     * Why send the whole batch at once?
+     * A buffering transport only settles send() after its own batch goes out —
+     * sending one by one would wait a full flush interval per entry.
+     */
+    private async deliver(records: QueuedRecord[]): Promise<number> {
+        const results = Promise.allSettled(
+            records.map((record) => this.transport.send(deserializeEntry(record.entry)))
+        );
+
+        await this.transport.flush?.();
+
+        const firstFailure = (await results).findIndex((result) => result.status === "rejected");
+        return firstFailure === -1 ? records.length : firstFailure;
+    }
+
+    /**
+     * Eviction may have removed delivered records while they were being sent —
+     * only the delivered records still at the head are removed.
+     */
+    private async removeDelivered(delivered: QueuedRecord[]): Promise<void> {
+        if (delivered.length === 0) return;
+
+        const ids = new Set(delivered.map((record) => record.id));
+        const head = await this.storage.peek(delivered.length);
+
+        await this.storage.shift(countWhile(head, (record) => ids.has(record.id)));
+    }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+let sequence = 0;
+
+function createId(): string {
+    return `${Date.now().toString(36)}-${(sequence++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function countWhile<T>(items: readonly T[], predicate: (item: T) => boolean): number {
+    const index = items.findIndex((item) => !predicate(item));
+    return index === -1 ? items.length : index;
+}
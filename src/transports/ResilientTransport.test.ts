@@ -0,0 +1,234 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {CircuitState, ResilientTransport} from "./ResilientTransport";
+import {Transport, TransportDropError, TransportError} from "./Transport";
+import {createLogEntry, LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Transport that fails while offline is set and records the messages it delivered.
+ */
+function createTransportStub(name: string, rules?: Transport["rules"]) {
+    const state = {offline: false, delivered: [] as string[]};
+
+    const transport: Transport = {
+        name,
+        rules,
+        send: vi.fn(async (entry: LogEntry) => {
+            if (state.offline) throw new Error("Network down");
+            state.delivered.push(entry.message);
+        }),
+    };
+
+    return {transport, state};
+}
+
+function entry(message = "Test") {
+    return createLogEntry({level: LogLevel.ERROR, message});
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("ResilientTransport", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should take name and rules from the wrapped transport", () => {
+        const {transport} = createTransportStub("remote", {minLevel: LogLevel.WARN});
+        const resilient = new ResilientTransport({transport});
+
+        expect(resilient.name).toBe("remote");
+        expect(resilient.rules).toEqual({minLevel: LogLevel.WARN});
+        expect(resilient.state).toBe("closed");
+    });
+
+    it("should send entries the wrapped transport fails to the fallback", async () => {
+        const primary = createTransportStub("remote");
+        const fallback = createTransportStub("file");
+        const resilient = new ResilientTransport({transport: primary.transport, fallback: fallback.transport});
+
+        await resilient.send(entry("delivered"));
+        primary.state.offline = true;
+        await resilient.send(entry("rescued"));
+
+        expect(primary.state.delivered).toEqual(["delivered"]);
+        expect(fallback.state.delivered).toEqual(["rescued"]);
+    });
+
+    it("should open after consecutive failures and skip the wrapped transport", async () => {
+        const primary = createTransportStub("remote");
+        const fallback = createTransportStub("file");
+        const resilient = new ResilientTransport({transport: primary.transport, fallback: fallback.transport, failureThreshold: 3});
+        primary.state.offline = true;
+
+        for (let i = 0; i < 5; i++) await resilient.send(entry(`entry ${i}`));
+
+        expect(resilient.state).toBe("open");
+        expect(primary.transport.send).toHaveBeenCalledTimes(3);
+        expect(fallback.state.delivered).toHaveLength(5);
+    });
+
+    it("should reset the failure count on success", async () => {
+        const primary = createTransportStub("remote");
+        const resilient = new ResilientTransport({transport: primary.transport, fallback: createTransportStub("file").transport, failureThreshold: 2});
+
+        primary.state.offline = true;
+        await resilient.send(entry());
+        primary.state.offline = false;
+        await resilient.send(entry());
+        primary.state.offline = true;
+        await resilient.send(entry());
+
+        expect(resilient.state).toBe("closed");
+    });
+
+    it("should probe after the cooldown and close on success", async () => {
+        const primary = createTransportStub("remote");
+        const changes: Array<[CircuitState, CircuitState]> = [];
+        const resilient = new ResilientTransport({
+            transport: primary.transport,
+            fallback: createTransportStub("file").transport,
+            failureThreshold: 1,
+            cooldownMs: 1000,
+            onStateChange: (state, previous) => changes.push([state, previous]),
+        });
+
+        primary.state.offline = true;
+        await resilient.send(entry("fails"));
+        primary.state.offline = false;
+        await resilient.send(entry("skipped"));
+        vi.advanceTimersByTime(1000);
+        await resilient.send(entry("probe"));
+
+        expect(primary.state.delivered).toEqual(["probe"]);
+        expect(changes).toEqual([["open", "closed"], ["half-open", "open"], ["closed", "half-open"]]);
+    });
+
+    it("should reopen for another cooldown when the probe fails", async () => {
+        const primary = createTransportStub("remote");
+        const resilient = new ResilientTransport({
+            transport: primary.transport,
+            fallback: createTransportStub("file").transport,
+            failureThreshold: 1,
+            cooldownMs: 1000,
+        });
+        primary.state.offline = true;
+
+        await resilient.send(entry());
+        vi.advanceTimersByTime(1000);
+        await resilient.send(entry("probe"));
+        vi.advanceTimersByTime(500);
+        await resilient.send(entry("skipped"));
+
+        expect(resilient.state).toBe("open");
+        expect(primary.transport.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should let one probe through at a time", async () => {
+        let release = () => {};
+        const transport: Transport = {
+            name: "remote",
+            send: vi.fn()
+                .mockRejectedValueOnce(new Error("Network down"))
+                .mockImplementationOnce(() => new Promise<void>((resolve) => release = resolve)),
+        };
+        const fallback = createTransportStub("file");
+        const resilient = new ResilientTransport({transport, fallback: fallback.transport, failureThreshold: 1, cooldownMs: 1000});
+
+        await resilient.send(entry());
+        vi.advanceTimersByTime(1000);
+        const probe = resilient.send(entry("probe"));
+        await resilient.send(entry("while probing"));
+        release();
+        await probe;
+
+        expect(transport.send).toHaveBeenCalledTimes(2);
+        expect(fallback.state.delivered).toEqual(["Test", "while probing"]);
+        expect(resilient.state).toBe("closed");
+    });
+
+    it("should reject failures without a fallback, then drop while open", async () => {
+        const primary = createTransportStub("remote");
+        const onStateChange = vi.fn();
+        const resilient = new ResilientTransport({transport: primary.transport, failureThreshold: 1, cooldownMs: 1000, onStateChange});
+        primary.state.offline = true;
+
+        await expect(resilient.send(entry())).rejects.toThrow(TransportError);
+        await expect(resilient.send(entry())).rejects.toThrow(TransportDropError);
+        await expect(resilient.send(entry())).rejects.toThrow(TransportDropError);
+
+        primary.state.offline = false;
+        vi.advanceTimersByTime(1000);
+        await resilient.send(entry("probe"));
+
+        expect(resilient.dropped).toBe(2);
+        expect(onStateChange).toHaveBeenLastCalledWith("closed", "half-open", 2);
+    });
+
+    it("should warn once when a circuit without fallback opens and once when it closes", async () => {
+        const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const primary = createTransportStub("remote");
+        const resilient = new ResilientTransport({transport: primary.transport, failureThreshold: 1, cooldownMs: 1000});
+        primary.state.offline = true;
+
+        await resilient.send(entry()).catch(() => undefined);
+        for (let i = 0; i < 10; i++) await resilient.send(entry()).catch(() => undefined);
+        primary.state.offline = false;
+        vi.advanceTimersByTime(1000);
+        await resilient.send(entry("probe"));
+
+        expect(consoleWarn.mock.calls).toEqual([
+            ["[ResilientTransport] Circuit of \"remote\" opened — entries are dropped until it closes."],
+            ["[ResilientTransport] Circuit of \"remote\" closed after dropping 10 entries."],
+        ]);
+        consoleWarn.mockRestore();
+    });
+
+    it("should apply the routing rules of the fallback", async () => {
+        const primary = createTransportStub("remote");
+        const fallback = createTransportStub("pager", {minLevel: LogLevel.ERROR});
+        const resilient = new ResilientTransport({
+            transport: primary.transport,
+            fallback: fallback.transport,
+            failureThreshold: 1,
+            onStateChange: () => undefined,
+        });
+        primary.state.offline = true;
+
+        const info = createLogEntry({level: LogLevel.INFO, message: "Info"});
+        await expect(resilient.send(info)).rejects.toThrow("Transport \"remote\" failed");
+        await expect(resilient.send(info)).rejects.toThrow(TransportDropError);
+        await resilient.send(entry("Error"));
+
+        expect(fallback.state.delivered).toEqual(["Error"]);
+        expect(resilient.dropped).toBe(1);
+    });
+
+    it("should reject when the fallback fails too", async () => {
+        const primary = createTransportStub("remote");
+        const fallback = createTransportStub("file");
+        const resilient = new ResilientTransport({transport: primary.transport, fallback: fallback.transport});
+        primary.state.offline = true;
+        fallback.state.offline = true;
+
+        await expect(resilient.send(entry())).rejects.toThrow("Fallback \"file\" of \"remote\" failed");
+    });
+
+    it("should flush and close both transports", async () => {
+        const primary = {...createTransportStub("remote").transport, flush: vi.fn(async () => {}), close: vi.fn(async () => {})};
+        const fallback = {...createTransportStub("file").transport, flush: vi.fn(async () => {}), close: vi.fn(async () => {})};
+        const resilient = new ResilientTransport({transport: primary, fallback});
+
+        await resilient.flush();
+        await resilient.close();
+
+        expect([primary.flush, fallback.flush, primary.close, fallback.close].map((mock) => mock.mock.calls.length))
+            .toEqual([1, 1, 1, 1]);
+    });
+});
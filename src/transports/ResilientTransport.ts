@@ -0,0 +1,233 @@
+import {LogEntry} from "../core/LogEntry";
+import {Transport, TransportDropError, TransportError} from "./Transport";
+import {acceptsEntry, TransportRules} from "./TransportRules";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CircuitState =
+    | "closed"     // entries go to the wrapped transport
+    | "open"       // the wrapped transport is skipped, entries go to the fallback
+    | "half-open"; // cooldown is over — one probe entry at a time tries the wrapped transport
+
+export interface ResilientTransportOptions {
+    /**
+     * The transport the circuit protects — usually an HttpTransport.
+     */
+    transport: Transport;
+
+    /**
+     * Receives the entries the wrapped transport failed or was skipped for — e.g. a FileTransport
+     * or a ConsoleTransport. Its routing rules apply. Without a fallback that accepts the entry,
+     * failed entries are rejected and entries arriving while the circuit is open are dropped
+     * quietly — see onStateChange.
+     */
+    fallback?: Transport;
+
+    /**
+     * Unique transport name — defaults to the wrapped transport's name,
+     * so wrapping does not change how the transport is addressed.
+     */
+    name?: string;
+
+    /**
+     * Routing rules — default to the wrapped transport's rules.
+     */
+    rules?: TransportRules;
+
+    /**
+     * Consecutive failures that open the circuit. Default: 5.
+     */
+    failureThreshold?: number;
+
+    /**
+     * How long the circuit stays open before probing, in ms. Default: 30000.
+     */
+    cooldownMs?: number;
+
+    /**
+     * Successful probes in a row that close the circuit again. Default: 1.
+     */
+    successThreshold?: number;
+
+    /**
+     * Called whenever the circuit changes state — for alerts and metrics.
+     * dropped is the number of entries no fallback took since the circuit opened,
+     * reported when it closes again (0 otherwise).
+     * Default: a console warning when a circuit without fallback opens and when it closes.
+     */
+    onStateChange?: (state: CircuitState, previous: CircuitState, dropped: number) => void;
+}
+
+// ─── ResilientTransport ───────────────────────────────────────────────────────
+
+/**
+ * Circuit breaker around a transport.
+ *
+ * Why?
+ * While a backend is down every entry still pays for a request that is going to fail —
+ * a timeout per entry, and a console line per failure. After failureThreshold failures in a row
+ * the circuit opens: the wrapped transport is not called at all, entries go straight to the fallback.
+ * After cooldownMs the circuit turns half-open and lets single entries through as probes —
+ * successThreshold successes close it again, one failure opens it for another cooldown.
+ *
+ * The state only changes when entries are sent — there is no timer to clean up.
+ *
+ * Why a TransportDropError while open without a fallback?
+ * A plain rejection is printed per entry — the console flood the circuit is meant to stop.
+ * The Logger counts a TransportDropError as dropped without printing it; the circuit
+ * reports the count once, when it closes.
+ */
+export class ResilientTransport implements Transport {
+    readonly name: string;
+    readonly rules?: TransportRules;
+
+    private readonly transport: Transport;
+    private readonly fallback?: Transport;
+    private readonly failureThreshold: number;
+    private readonly cooldownMs: number;
+    private readonly successThreshold: number;
+    private readonly onStateChange: (state: CircuitState, previous: CircuitState, dropped: number) => void;
+
+    private current: CircuitState = "closed";
+    private failures = 0;
+    private successes = 0;
+    private openedAt = 0;
+    private droppedWhileOpen = 0;
+    private droppedTotal = 0;
+
+    /**
+     * Half-open lets one probe through at a time — the others go to the fallback meanwhile.
+     */
+    private probing = false;
+
+    constructor(options: ResilientTransportOptions) {
+        this.transport = options.transport;
+        this.fallback = options.fallback;
+        this.name = options.name ?? options.transport.name;
+        this.rules = options.rules ?? options.transport.rules;
+        this.failureThreshold = options.failureThreshold ?? 5;
+        this.cooldownMs = options.cooldownMs ?? 30_000;
+        this.successThreshold = options.successThreshold ?? 1;
+        this.onStateChange = options.onStateChange ?? ((state, previous, dropped) => this.warn(state, previous, dropped));
+    }
+
+    get state(): CircuitState {
+        return this.current;
+    }
+
+    /**
+     * Entries dropped while the circuit was open and no fallback took them, since creation.
+     */
+    get dropped(): number {
+        return this.droppedTotal;
+    }
+
+    async send(entry: LogEntry): Promise<void> {
+        if (this.current === "open" && Date.now() - this.openedAt >= this.cooldownMs) {
+            this.transition("half-open");
+        }
+
+        if (this.current === "open" || (this.current === "half-open" && this.probing)) {
+            if (!this.hasFallbackFor(entry)) {
+                this.droppedWhileOpen++;
+                this.droppedTotal++;
+                throw new TransportDropError(`Circuit of "${this.name}" is open`);
+            }
+
+            return this.sendToFallback(entry, new TransportError(`Circuit of "${this.name}" is open`));
+        }
+
+        const isProbe = this.current === "half-open";
+        if (isProbe) this.probing = true;
+
+        try {
+            await this.transport.send(entry);
+        } catch (error) {
+            this.recordFailure(isProbe);
+            return this.sendToFallback(entry, new TransportError(`Transport "${this.name}" failed`, {cause: error}));
+        } finally {
+            if (isProbe) this.probing = false;
+        }
+
+        this.recordSuccess(isProbe);
+    }
+
+    async flush(): Promise<void> {
+        await Promise.all([this.transport.flush?.(), this.fallback?.flush?.()]);
+    }
+
+    async close(): Promise<void> {
+        await Promise.all([this.transport.close?.(), this.fallback?.close?.()]);
+    }
+
+    // ─── Circuit ────────────────────────────────────────────────────────────────
+
+    /**
+     * Only results that match the current state count — a request that was already
+     * in flight when the circuit opened must not reset the cooldown or close it again.
+     */
+    private recordFailure(isProbe: boolean): void {
+        if (isProbe && this.current === "half-open") {
+            this.open();
+        } else if (!isProbe && this.current === "closed" && ++this.failures >= this.failureThreshold) {
+            this.open();
+        }
+    }
+
+    private recordSuccess(isProbe: boolean): void {
+        if (isProbe && this.current === "half-open") {
+            if (++this.successes >= this.successThreshold) this.transition("closed");
+        } else if (!isProbe && this.current === "closed") {
+            this.failures = 0;
+        }
+    }
+
+    private open(): void {
+        this.openedAt = Date.now();
+        this.transition("open");
+    }
+
+    private transition(state: CircuitState): void {
+        const previous = this.current;
+        const dropped = state === "closed" ? this.droppedWhileOpen : 0;
+
+        this.current = state;
+        this.failures = 0;
+        this.successes = 0;
+        if (state === "closed") this.droppedWhileOpen = 0;
+
+        try {
+            this.onStateChange(state, previous, dropped);
+        } catch (error) {
+            console.error(`[ResilientTransport] onStateChange of "${this.name}" failed:`, error);
+        }
+    }
+
+    /**
+     * Only a circuit that drops entries is worth a warning — one without a fallback always does,
+     * one with a fallback only for entries its rules reject.
+     */
+    private warn(state: CircuitState, previous: CircuitState, dropped: number): void {
+        if (state === "open" && previous === "closed" && !this.fallback) {
+            console.warn(`[ResilientTransport] Circuit of "${this.name}" opened — entries are dropped until it closes.`);
+        } else if (state === "closed" && (!this.fallback || dropped > 0)) {
+            console.warn(`[ResilientTransport] Circuit of "${this.name}" closed after dropping ${dropped} entries.`);
+        }
+    }
+
+    private hasFallbackFor(entry: LogEntry): boolean {
+        return this.fallback !== undefined && acceptsEntry(this.fallback.rules, entry);
+    }
+
+    private async sendToFallback(entry: LogEntry, reason: TransportError): Promise<void> {
+        if (!this.fallback || !this.hasFallbackFor(entry)) throw reason;
+
+        try {
+            await this.fallback.send(entry);
+        } catch (error) {
+            throw new TransportError(`Fallback "${this.fallback.name}" of "${this.name}" failed`, {
+                cause: new AggregateError([reason, error]),
+            });
+        }
+    }
+}
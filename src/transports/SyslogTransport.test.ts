@@ -0,0 +1,167 @@
+import {afterEach, describe, expect, it} from "vitest";
+import {createSocket, Socket as DatagramSocket} from "node:dgram";
+import {AddressInfo, createServer, Socket} from "node:net";
+import {SyslogTransport} from "./SyslogTransport";
+import {TransportError} from "./Transport";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+async function startUdpServer(): Promise<{ socket: DatagramSocket; port: number; messages: string[] }> {
+    const messages: string[] = [];
+    const socket = createSocket("udp4");
+    socket.on("message", (message) => messages.push(message.toString()));
+
+    await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+    return {socket, port: (socket.address() as AddressInfo).port, messages};
+}
+
+/**
+ * Local syslog server — keeps the raw bytes of every connection, so framing can be checked.
+ */
+async function startTcpServer(port = 0): Promise<{ port: number; received: () => string; sockets: Socket[]; stop: () => Promise<void> }> {
+    let data = "";
+    const sockets: Socket[] = [];
+    const server = createServer((socket) => {
+        sockets.push(socket);
+        socket.on("data", (chunk) => data += chunk);
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+    // server.close() waits for open connections — the transport keeps its connection open
+    const stop = () => new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+    });
+
+    return {port: (server.address() as AddressInfo).port, received: () => data, sockets, stop};
+}
+
+/**
+ * Splits octet-counted frames: "<length> <message><length> <message>..."
+ */
+function parseFrames(data: string): string[] {
+    const frames: string[] = [];
+    const buffer = Buffer.from(data);
+
+    let offset = 0;
+    while (offset < buffer.length) {
+        const space = buffer.indexOf(" ", offset);
+        const length = Number(buffer.subarray(offset, space).toString());
+        frames.push(buffer.subarray(space + 1, space + 1 + length).toString());
+        offset = space + 1 + length;
+    }
+
+    return frames;
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+    for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("SyslogTransport", () => {
+    const cleanup: (() => Promise<unknown>)[] = [];
+
+    afterEach(async () => {
+        for (const step of cleanup.splice(0).reverse()) await step();
+    });
+
+    it("should send one datagram per entry over UDP", async () => {
+        const server = await startUdpServer();
+        cleanup.push(() => new Promise<void>((resolve) => server.socket.close(resolve)));
+
+        const transport = new SyslogTransport({host: "127.0.0.1", port: server.port, hostname: "web-1", appName: "checkout"});
+        cleanup.push(() => transport.close());
+
+        await transport.send(createLogEntry({level: LogLevel.WARN, message: "first"}));
+        await transport.send(createLogEntry({level: LogLevel.ERROR, message: "second"}));
+        await waitFor(() => server.messages.length === 2);
+
+        expect(server.messages).toHaveLength(2);
+        expect(server.messages[0]).toMatch(/^<12>1 \S+ web-1 checkout \d+ - \[entry@32473 id="[^"]+"\] first$/);
+        expect(server.messages[1]).toMatch(/^<11>1 .* second$/);
+    });
+
+    it("should frame messages with octet counting over TCP", async () => {
+        const server = await startTcpServer();
+        cleanup.push(server.stop);
+
+        const transport = new SyslogTransport({host: "127.0.0.1", port: server.port, protocol: "tcp", format: "rfc3164"});
+        cleanup.push(() => transport.close());
+
+        await Promise.all([
+            transport.send(createLogEntry({level: LogLevel.INFO, message: "multi\nline"})),
+            transport.send(createLogEntry({level: LogLevel.INFO, message: "čćž"})),
+        ]);
+        await waitFor(() => parseFrames(server.received()).length === 2);
+
+        const frames = parseFrames(server.received());
+        expect(frames).toHaveLength(2);
+        expect(frames[0]).toMatch(/ multi\nline$/);
+        expect(frames[1]).toMatch(/ čćž$/);
+        expect(server.sockets).toHaveLength(1);
+    });
+
+    it("should reconnect after the server dropped the connection", async () => {
+        const first = await startTcpServer();
+        const transport = new SyslogTransport({host: "127.0.0.1", port: first.port, protocol: "tcp"});
+        cleanup.push(() => transport.close());
+
+        await transport.send(createLogEntry({level: LogLevel.INFO, message: "before"}));
+        await waitFor(() => first.received().includes("before"));
+
+        await first.stop();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const second = await startTcpServer(first.port);
+        cleanup.push(second.stop);
+
+        await transport.send(createLogEntry({level: LogLevel.INFO, message: "after"}));
+        await waitFor(() => second.received().includes("after"));
+
+        expect(parseFrames(second.received())).toEqual([expect.stringMatching(/ after$/)]);
+    });
+
+    it("should surface connection failures as TransportError and wait before retrying", async () => {
+        const server = await startTcpServer();
+        const {port} = server;
+        await server.stop();
+
+        const transport = new SyslogTransport({host: "127.0.0.1", port, protocol: "tcp", reconnectDelay: 60_000});
+
+        const failure = transport.send(createLogEntry({level: LogLevel.ERROR, message: "Test"}));
+        await expect(failure).rejects.toBeInstanceOf(TransportError);
+        await expect(failure).rejects.toMatchObject({cause: {code: "ECONNREFUSED"}});
+
+        await expect(transport.send(createLogEntry({level: LogLevel.ERROR, message: "Test"})))
+            .rejects.toThrow(/is not connected to 127\.0\.0\.1:\d+ — next attempt in \d+ ms/);
+
+        await transport.close();
+    });
+
+    it("should reject entries after close", async () => {
+        const transport = new SyslogTransport();
+        await transport.close();
+
+        await expect(transport.send(createLogEntry({level: LogLevel.INFO, message: "Test"})))
+            .rejects.toThrow("SyslogTransport \"syslog\" is closed");
+    });
+
+    it("should use a custom formatter", async () => {
+        const server = await startUdpServer();
+        cleanup.push(() => new Promise<void>((resolve) => server.socket.close(resolve)));
+
+        const transport = new SyslogTransport({host: "127.0.0.1", port: server.port, formatter: (entry) => `<14>${entry.message}`});
+        cleanup.push(() => transport.close());
+
+        await transport.send(createLogEntry({level: LogLevel.INFO, message: "custom"}));
+        await waitFor(() => server.messages.length === 1);
+
+        expect(server.messages).toEqual(["<14>custom"]);
+    });
+});
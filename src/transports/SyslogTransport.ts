@@ -0,0 +1,285 @@
+import {createSocket, Socket as DatagramSocket} from "node:dgram";
+import {connect as connectTcp, isIPv6, Socket} from "node:net";
+import {hostname as osHostname} from "node:os";
+import {connect as connectTls, ConnectionOptions} from "node:tls";
+import {LogEntry} from "../core/LogEntry";
+import {Transport, TransportError} from "./Transport";
+import {TransportRules} from "./TransportRules";
+import {syslogFormatter, SyslogFormatterOptions} from "../formatters/syslogFormatter";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SyslogProtocol =
+    | "udp"  // RFC 5426 — one datagram per message, fire and forget
+    | "tcp"  // RFC 6587 — octet-counting framing
+    | "tls"; // RFC 5425 — octet-counting framing over TLS
+
+export interface SyslogTransportOptions extends SyslogFormatterOptions {
+    /**
+     * Unique transport name — defaults to "syslog".
+     */
+    name?: string;
+
+    /**
+     * Routing rules — which entries this transport receives.
+     */
+    rules?: TransportRules;
+
+    /**
+     * Syslog server. Default: "localhost".
+     */
+    host?: string;
+
+    /**
+     * Default: 514 for UDP and TCP, 6514 for TLS.
+     */
+    port?: number;
+
+    /**
+     * Default: "udp".
+     */
+    protocol?: SyslogProtocol;
+
+    /**
+     * TLS options — ca, cert, key, rejectUnauthorized, servername, ...
+     * Only used with protocol "tls".
+     */
+    tls?: ConnectionOptions;
+
+    /**
+     * Turns an entry into one syslog message (without framing).
+     * Default: syslogFormatter() with this transport's format, facility, hostname, appName and procId.
+     */
+    formatter?: (entry: LogEntry) => string;
+
+    /**
+     * Give up on a TCP/TLS connection attempt after this many milliseconds. Default: 10000.
+     */
+    connectTimeout?: number;
+
+    /**
+     * Wait after the first failed connection attempt, doubled after each further failure. Default: 1000.
+     */
+    reconnectDelay?: number;
+
+    /**
+     * Upper bound of the reconnect wait. Default: 30000.
+     */
+    maxReconnectDelay?: number;
+}
+
+// ─── SyslogTransport ──────────────────────────────────────────────────────────
+
+/**
+ * Sends entries to a syslog server over UDP, TCP or TLS.
+ *
+ * Node only — exported from "error-logging-service/node".
+ *
+ * How does reconnecting work?
+ * TCP and TLS connect on the first send and stay connected. When the connection drops,
+ * the next send opens a new one. When connecting fails, sends are rejected with a
+ * TransportError without another attempt until the reconnect delay has passed —
+ * an unreachable server must not cost a connection attempt per entry.
+ * The delay doubles with each failure (up to maxReconnectDelay) and resets on success.
+ *
+ * Entries rejected while the server is unreachable are lost — wrap the transport
+ * in a QueuedTransport to keep and replay them.
+ */
+export class SyslogTransport implements Transport {
+    readonly name: string;
+    readonly rules?: TransportRules;
+
+    private readonly host: string;
+    private readonly port: number;
+    private readonly protocol: SyslogProtocol;
+    private readonly tls?: ConnectionOptions;
+    private readonly formatter: (entry: LogEntry) => string;
+    private readonly connectTimeout: number;
+    private readonly reconnectDelay: number;
+    private readonly maxReconnectDelay: number;
+
+    private datagramSocket: DatagramSocket | null = null;
+    private socket: Socket | null = null;
+    private connecting: Promise<Socket> | null = null;
+
+    /**
+     * Consecutive failed connection attempts — drives the reconnect delay.
+     */
+    private failures = 0;
+    private nextAttemptAt = 0;
+
+    /**
+     * Sends not yet confirmed by the socket — awaited by flush().
+     */
+    private readonly pending = new Set<Promise<void>>();
+
+    private closed = false;
+
+    constructor(options: SyslogTransportOptions = {}) {
+        this.name = options.name ?? "syslog";
+        this.rules = options.rules;
+        this.host = options.host ?? "localhost";
+        this.protocol = options.protocol ?? "udp";
+        this.port = options.port ?? (this.protocol === "tls" ? 6514 : 514);
+        this.tls = options.tls;
+        this.connectTimeout = options.connectTimeout ?? 10_000;
+        this.reconnectDelay = options.reconnectDelay ?? 1000;
+        this.maxReconnectDelay = options.maxReconnectDelay ?? 30_000;
+        this.formatter = options.formatter ?? syslogFormatter({
+            ...options,
+            hostname: options.hostname ?? osHostname(),
+            procId: options.procId ?? process.pid,
+        });
+    }
+
+    send(entry: LogEntry): Promise<void> {
+        if (this.closed) {
+            return Promise.reject(new TransportError(`SyslogTransport "${this.name}" is closed`));
+        }
+
+        let message: string;
+        try {
+            message = this.formatter(entry);
+        } catch (error) {
+            return Promise.reject(new TransportError("SyslogTransport failed to format entry", {cause: error}));
+        }
+
+        const sending = (this.protocol === "udp" ? this.sendDatagram(message) : this.sendFramed(message))
+            .catch((error: unknown) => {
+                if (error instanceof TransportError) throw error;
+
+                throw new TransportError(
+                    `SyslogTransport "${this.name}" failed to send to ${this.host}:${this.port} over ${this.protocol}`,
+                    {cause: error}
+                );
+            });
+
+        this.pending.add(sending);
+        const forget = () => this.pending.delete(sending);
+        sending.then(forget, forget);
+
+        return sending;
+    }
+
+    /**
+     * Resolves when every message sent so far has been handed to the operating system.
+     */
+    async flush(): Promise<void> {
+        await Promise.allSettled([...this.pending]);
+    }
+
+    /**
+     * Flushes and closes the socket. Entries sent afterwards are rejected.
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        await this.flush();
+
+        const socket = this.socket;
+        this.socket = null;
+        if (socket && !socket.destroyed) {
+            await new Promise<void>((resolve) => socket.end(resolve));
+        }
+
+        const datagramSocket = this.datagramSocket;
+        this.datagramSocket = null;
+        if (datagramSocket) {
+            await new Promise<void>((resolve) => datagramSocket.close(resolve));
+        }
+    }
+
+    // ─── UDP ────────────────────────────────────────────────────────────────────
+
+    private sendDatagram(message: string): Promise<void> {
+        if (!this.datagramSocket) {
+            this.datagramSocket = createSocket(isIPv6(this.host) ? "udp6" : "udp4");
+
+            // Errors are reported through the send callbacks; without a listener they would crash the process
+            this.datagramSocket.on("error", () => undefined);
+            this.datagramSocket.unref();
+        }
+
+        const socket = this.datagramSocket;
+        return new Promise((resolve, reject) => {
+            socket.send(Buffer.from(message), this.port, this.host, (error) => error ? reject(error) : resolve());
+        });
+    }
+
+    // ─── TCP and TLS ────────────────────────────────────────────────────────────
+
+    /**
+     * Octet-counting framing: "<length> <message>" — unlike newline framing,
+     * it survives messages that contain newlines (stack traces, multi-line context).
+     */
+    private async sendFramed(message: string): Promise<void> {
+        const payload = Buffer.from(message);
+        const frame = Buffer.concat([Buffer.from(`${payload.length} `), payload]);
+
+        const socket = await this.connect();
+        await new Promise<void>((resolve, reject) => {
+            socket.write(frame, (error) => error ? reject(error) : resolve());
+        });
+    }
+
+    /**
+     * The open connection, a new one, or — within the reconnect delay after a failure — a rejection.
+     */
+    private connect(): Promise<Socket> {
+        if (this.socket) return Promise.resolve(this.socket);
+        if (this.connecting) return this.connecting;
+
+        const wait = this.nextAttemptAt - Date.now();
+        if (wait > 0) {
+            return Promise.reject(new TransportError(
+                `SyslogTransport "${this.name}" is not connected to ${this.host}:${this.port} — next attempt in ${wait} ms`
+            ));
+        }
+
+        this.connecting = this.openSocket()
+            .then((socket) => {
+                this.failures = 0;
+                this.socket = socket;
+                return socket;
+            }, (error: unknown) => {
+                this.failures++;
+                const delay = Math.min(this.reconnectDelay * 2 ** (this.failures - 1), this.maxReconnectDelay);
+                this.nextAttemptAt = Date.now() + delay;
+                throw error;
+            })
+            .finally(() => this.connecting = null);
+
+        return this.connecting;
+    }
+
+    private openSocket(): Promise<Socket> {
+        return new Promise((resolve, reject) => {
+            const socket = this.protocol === "tls"
+                ? connectTls({host: this.host, port: this.port, ...this.tls})
+                : connectTcp({host: this.host, port: this.port});
+
+            socket.setTimeout(this.connectTimeout, () => {
+                socket.destroy(new Error(`Connection timed out after ${this.connectTimeout} ms`));
+            });
+            socket.once("error", reject);
+
+            socket.once(this.protocol === "tls" ? "secureConnect" : "connect", () => {
+                socket.setTimeout(0);
+                socket.off("error", reject);
+
+                // Errors reach the pending writes through their callbacks; "close" always follows
+                socket.on("error", () => undefined);
+                socket.once("close", () => {
+                    if (this.socket === socket) this.socket = null;
+                });
+
+                // Syslog servers do not answer — anything they send is discarded
+                socket.resume();
+
+                // An idle log connection must not keep the process alive
+                socket.unref();
+
+                resolve(socket);
+            });
+        });
+    }
+}
@@ -1,4 +1,5 @@
 import {LogEntry} from "../core/LogEntry";
+import {TransportRules} from "./TransportRules";
 
 /**
  * Transport is a contract — interface that every transport must fulfill.
@@ -18,6 +19,12 @@ export interface Transport {
      */
     readonly name: string;
 
+    /**
+     * Optional routing rules — which entries this transport receives.
+     * Without rules the transport receives everything.
+     */
+    readonly rules?: TransportRules;
+
     /**
      * The only obligation of a transport — receive entry, do what you need to do.
      *
@@ -28,6 +35,23 @@ export interface Transport {
      * an async function must be async. The interface unifies this.
      */
     send(entry: LogEntry): Promise<void>;
+
+    /**
+     * Optional — deliver everything the transport is holding (buffers, batches).
+     * Called by logger.flush() and logger.shutdown().
+     *
+     * Why optional?
+     * Most transports send immediately and have nothing to flush.
+     * Forcing them to implement an empty method would be noise.
+     */
+    flush?(): Promise<void>;
+
+    /**
+     * Optional — release resources (timers, sockets, file handles).
+     * Called once by logger.shutdown(), after flush().
+     * The transport will not receive any more entries after this.
+     */
+    close?(): Promise<void>;
 }
 
 /**
@@ -48,4 +72,19 @@ export class TransportError extends Error {
         super(message, options);
         this.name = "TransportError";
     }
+}
+
+/**
+ * Rejection of a transport that chose not to deliver an entry — e.g. a ResilientTransport
+ * with an open circuit and no fallback.
+ *
+ * Why reject instead of resolving?
+ * A resolved send() counts as sent. The Logger counts this rejection as a drop instead —
+ * in getStats() and as a "dropped" event, without a console line per entry.
+ */
+export class TransportDropError extends TransportError {
+    constructor(message: string) {
+        super(message);
+        this.name = "TransportDropError";
+    }
 }
\ No newline at end of file
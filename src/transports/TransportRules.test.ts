@@ -0,0 +1,65 @@
+import {describe, expect, it} from "vitest";
+import {acceptsEntry, acceptsLevel} from "./TransportRules";
+import {createLogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+describe("TransportRules", () => {
+    describe("acceptsLevel", () => {
+        it("should accept every level without rules", () => {
+            expect(acceptsLevel(undefined, LogLevel.DEBUG)).toBe(true);
+        });
+
+        it("should respect minLevel and maxLevel inclusively", () => {
+            const rules = {minLevel: LogLevel.INFO, maxLevel: LogLevel.WARN};
+
+            expect(acceptsLevel(rules, LogLevel.DEBUG)).toBe(false);
+            expect(acceptsLevel(rules, LogLevel.INFO)).toBe(true);
+            expect(acceptsLevel(rules, LogLevel.WARN)).toBe(true);
+            expect(acceptsLevel(rules, LogLevel.ERROR)).toBe(false);
+        });
+    });
+
+    describe("acceptsEntry", () => {
+        const entry = createLogEntry({
+            level: LogLevel.ERROR,
+            message: "Test",
+            context: {component: "payment-form", tenant: "acme"},
+        });
+
+        it("should match context values by equality", () => {
+            expect(acceptsEntry({match: {tenant: "acme"}}, entry)).toBe(true);
+            expect(acceptsEntry({match: {tenant: "other"}}, entry)).toBe(false);
+        });
+
+        it("should match context values by RegExp", () => {
+            expect(acceptsEntry({match: {component: /^payment/}}, entry)).toBe(true);
+            expect(acceptsEntry({match: {missing: /.*/}}, entry)).toBe(false);
+        });
+
+        it("should give the same answer for a RegExp with the g or y flag every time", () => {
+            const rules = {match: {component: /payment/g, tenant: /acme/y}};
+
+            expect(acceptsEntry(rules, entry)).toBe(true);
+            expect(acceptsEntry(rules, entry)).toBe(true);
+            expect(acceptsEntry(rules, entry)).toBe(true);
+        });
+
+        it("should match if any element of an array matches", () => {
+            expect(acceptsEntry({match: {tenant: ["other", "acme"]}}, entry)).toBe(true);
+        });
+
+        it("should require every match rule to pass", () => {
+            expect(acceptsEntry({match: {tenant: "acme", component: "other"}}, entry)).toBe(false);
+        });
+
+        it("should apply the filter predicate", () => {
+            expect(acceptsEntry({filter: (e) => e.message === "Test"}, entry)).toBe(true);
+            expect(acceptsEntry({filter: () => false}, entry)).toBe(false);
+        });
+
+        it("should check level before anything else", () => {
+            expect(acceptsEntry({minLevel: LogLevel.ERROR, filter: () => true}, entry)).toBe(true);
+            expect(acceptsEntry({maxLevel: LogLevel.WARN, filter: () => true}, entry)).toBe(false);
+        });
+    });
+});
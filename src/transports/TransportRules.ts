@@ -0,0 +1,106 @@
+import {LogEntry} from "../core/LogEntry";
+import {LogLevel} from "../core/LogLevel";
+
+/**
+ * A single value a context key is compared against:
+ * - a primitive — strict equality
+ * - a RegExp — tested against the stringified value
+ */
+export type ContextMatcherValue = string | number | boolean | bigint | null | undefined | RegExp;
+
+/**
+ * A value a context key is matched against — a single value, or an array that matches if ANY element matches.
+ */
+export type ContextMatcher = ContextMatcherValue | readonly ContextMatcherValue[];
+
+/**
+ * Routing rules — decide which entries a transport receives.
+ * Every rule that is set must pass; rules that are not set always pass.
+ *
+ * Why on the transport and not in the Logger config?
+ * The rule belongs to the destination — "the pager only wants ERROR" is a fact about
+ * the pager, no matter which logger it is registered on.
+ *
+ * @example
+ * new ConsoleTransport({rules: {maxLevel: LogLevel.INFO}})            // DEBUG and INFO only
+ * new HttpTransport({url, rules: {minLevel: LogLevel.ERROR}})          // ERROR only
+ * new HttpTransport({url, rules: {match: {component: /^payment/}}})   // payment components only
+ */
+export interface TransportRules {
+    /**
+     * Lowest level the transport receives (inclusive).
+     */
+    minLevel?: LogLevel;
+
+    /**
+     * Highest level the transport receives (inclusive).
+     */
+    maxLevel?: LogLevel;
+
+    /**
+     * Context match rules — every listed key must match.
+     */
+    match?: Record<string, ContextMatcher>;
+
+    /**
+     * Free-form predicate, evaluated last.
+     */
+    filter?: (entry: LogEntry) => boolean;
+}
+
+/**
+ * Level-only check — cheap enough to run before the entry is even created.
+ */
+export function acceptsLevel(rules: TransportRules | undefined, level: LogLevel): boolean {
+    if (!rules) return true;
+    if (rules.minLevel !== undefined && level < rules.minLevel) return false;
+    if (rules.maxLevel !== undefined && level > rules.maxLevel) return false;
+
+    return true;
+}
+
+/**
+ * Full check against the final entry (after the plugin pipeline).
+ */
+export function acceptsEntry(rules: TransportRules | undefined, entry: LogEntry): boolean {
+    if (!rules) return true;
+    if (!acceptsLevel(rules, entry.level)) return false;
+
+    if (rules.match) {
+        const context = entry.context ?? {};
+        const matchesAll = Object.entries(rules.match).every(([key, matcher]) =>
+            matchesValue(matcher, context[key])
+        );
+
+        if (!matchesAll) return false;
+    }
+
+    return rules.filter ? rules.filter(entry) : true;
+}
+
+function matchesValue(matcher: ContextMatcher, value: unknown): boolean {
+    if (isMatcherList(matcher)) return matcher.some((item) => matchesValue(item, value));
+    if (matcher instanceof RegExp) return value !== undefined && testPattern(matcher, String(value));
+
+    return matcher === value;
+}
+
+/**
+ * Array.isArray() does not narrow readonly arrays.
+ */
+function isMatcherList(matcher: ContextMatcher): matcher is readonly ContextMatcherValue[] {
+    return Array.isArray(matcher);
+}
+
+/**
+ * Why reset lastIndex?
+ * With the g or y flag test() starts where the last match ended — the same entry would
+ * alternately pass and fail. Every test starts from the beginning of the value instead.
+ */
+function testPattern(pattern: RegExp, value: string): boolean {
+    pattern.lastIndex = 0;
+    const matches = pattern.test(value);
+    pattern.lastIndex = 0;
+
+    return matches;
+}
@@ -1,10 +1,11 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-    entry: ['src/index.ts'],
+    entry: ['src/index.ts', 'src/node.ts'],
     format: ['esm', 'cjs'],
     dts: true,
-    splitting: false,
+    // Modules used by both entries go into a shared chunk — e.g. one registry of custom levels, not two
+    splitting: true,
     sourcemap: true,
     clean: true,
 })
\ No newline at end of file